@@ -14,12 +14,14 @@ import { IClearingHouseConfig } from "./interface/IClearingHouseConfig.sol";
 import { IExchange } from "./interface/IExchange.sol";
 import { IIndexPrice } from "./interface/IIndexPrice.sol";
 import { IOrderBook } from "./interface/IOrderBook.sol";
+import { IVault } from "./interface/IVault.sol";
 import { PerpSafeCast } from "./lib/PerpSafeCast.sol";
 import { PerpMath } from "./lib/PerpMath.sol";
-import { AccountBalanceStorageV1, AccountMarket } from "./storage/AccountBalanceStorage.sol";
+import { SettlementTokenMath } from "./lib/SettlementTokenMath.sol";
+import { AccountBalanceStorageV3, AccountMarket } from "./storage/AccountBalanceStorage.sol";
 
 // never inherit any new stateful contract. never change the orders of parent stateful contracts
-contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, AccountBalanceStorageV1 {
+contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, AccountBalanceStorageV3 {
     using AddressUpgradeable for address;
     using SafeMathUpgradeable for uint256;
     using SignedSafeMathUpgradeable for int256;
@@ -28,6 +30,7 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
     using PerpMath for uint256;
     using PerpMath for int256;
     using PerpMath for uint160;
+    using SettlementTokenMath for int256;
     using AccountMarket for AccountMarket.Info;
 
     //
@@ -61,6 +64,20 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
         emit VaultChanged(vaultArg);
     }
 
+    /// @dev the open interest of a market is only tracked since it's backfilled, so that the uncapped markets don't pay
+    ///      for it; the owner backfills the sums of the taker position sizes of a market, with the market paused,
+    ///      before capping its open interest
+    function setOpenInterest(
+        address baseToken,
+        uint256 longOpenInterest,
+        uint256 shortOpenInterest
+    ) external onlyOwner {
+        _isOpenInterestTrackedMap[baseToken] = true;
+        _longOpenInterestMap[baseToken] = longOpenInterest;
+        _shortOpenInterestMap[baseToken] = shortOpenInterest;
+        emit OpenInterestChanged(baseToken, longOpenInterest, shortOpenInterest);
+    }
+
     /// @inheritdoc IAccountBalance
     function modifyTakerBalance(
         address trader,
@@ -174,6 +191,51 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
         return (positionNotional, openNotional, realizedPnl, closedPrice);
     }
 
+    /// @inheritdoc IAccountBalance
+    function startLiquidationAuction(address trader) external override {
+        // AB_NL: not liquidatable
+        require(_isLiquidatable(trader), "AB_NL");
+
+        // AB_LAS: liquidation auction started
+        require(_liquidationAuctionStartedAtMap[trader] == 0, "AB_LAS");
+
+        uint256 startedAt = _blockTimestamp();
+        _liquidationAuctionStartedAtMap[trader] = startedAt;
+        emit LiquidationAuctionStarted(trader, startedAt);
+    }
+
+    /// @inheritdoc IAccountBalance
+    function stopLiquidationAuction(address trader) external override {
+        // AB_LANS: liquidation auction not started
+        require(_liquidationAuctionStartedAtMap[trader] != 0, "AB_LANS");
+
+        // AB_L: liquidatable
+        require(!_isLiquidatable(trader), "AB_L");
+
+        _stopLiquidationAuction(trader);
+    }
+
+    /// @inheritdoc IAccountBalance
+    function chargeLiquidationPenalty(
+        address trader,
+        address baseToken,
+        uint256 liquidatedPositionNotional
+    ) external override returns (uint256 liquidationPenalty) {
+        _requireOnlyClearingHouse();
+        liquidationPenalty = liquidatedPositionNotional.mulRatio(_getLiquidationPenaltyRatio(trader, baseToken));
+        _modifyOwedRealizedPnl(trader, liquidationPenalty.neg256());
+
+        // the auction ends with the liquidation that leaves trader no longer liquidatable or without any position;
+        // the latter covers the bad debt, which is only settled once the positions are gone
+        if (
+            _liquidationAuctionStartedAtMap[trader] != 0 &&
+            (_baseTokensMap[trader].length == 0 || !_isLiquidatable(trader))
+        ) {
+            _stopLiquidationAuction(trader);
+        }
+        return liquidationPenalty;
+    }
+
     //
     // EXTERNAL VIEW
     //
@@ -332,11 +394,58 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
         return positionSize.mulRatio(maxLiquidateRatio);
     }
 
+    /// @inheritdoc IAccountBalance
+    function getExtraMarginRequirement(address trader, bool isInitialMargin) external view override returns (uint256) {
+        address[] memory tokens = _baseTokensMap[trader];
+        uint256 extraMarginRequirement;
+        uint256 tokenLen = tokens.length;
+        for (uint256 i = 0; i < tokenLen; i++) {
+            address baseToken = tokens[i];
+            // the position value is expensive, skip it for the markets without margin brackets
+            if (!IClearingHouseConfig(_clearingHouseConfig).hasMarginBrackets(baseToken)) {
+                continue;
+            }
+            extraMarginRequirement = extraMarginRequirement.add(
+                IClearingHouseConfig(_clearingHouseConfig).getExtraMarginRequirement(
+                    baseToken,
+                    getTotalPositionValue(trader, baseToken).abs(),
+                    isInitialMargin
+                )
+            );
+        }
+        return extraMarginRequirement;
+    }
+
     /// @inheritdoc IAccountBalance
     function getMarkPrice(address baseToken) external view override returns (uint256) {
         return _getMarkPrice(baseToken);
     }
 
+    /// @inheritdoc IAccountBalance
+    function getLiquidationAuctionStartedAt(address trader) external view override returns (uint256) {
+        return _liquidationAuctionStartedAtMap[trader];
+    }
+
+    /// @inheritdoc IAccountBalance
+    function getLiquidationPenaltyRatio(address trader, address baseToken) external view override returns (uint24) {
+        return _getLiquidationPenaltyRatio(trader, baseToken);
+    }
+
+    /// @inheritdoc IAccountBalance
+    function getOpenInterest(address baseToken)
+        external
+        view
+        override
+        returns (uint256 longOpenInterest, uint256 shortOpenInterest)
+    {
+        return (_longOpenInterestMap[baseToken], _shortOpenInterestMap[baseToken]);
+    }
+
+    /// @inheritdoc IAccountBalance
+    function isOpenInterestTracked(address baseToken) external view override returns (bool) {
+        return _isOpenInterestTrackedMap[baseToken];
+    }
+
     //
     // PUBLIC VIEW
     //
@@ -399,16 +508,47 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
     }
 
     /// @inheritdoc IAccountBalance
-    function getMarginRequirementForLiquidation(address trader) public view override returns (int256) {
+    function getTotalPortfolioPositionValue(address trader) external view override returns (uint256) {
+        address[] memory tokens = _baseTokensMap[trader];
         return
-            getTotalAbsPositionValue(trader)
-                .mulRatio(IClearingHouseConfig(_clearingHouseConfig).getMmRatio())
-                .toInt256();
+            IClearingHouseConfig(_clearingHouseConfig).getPortfolioPositionValue(
+                tokens,
+                _getPositionValues(trader, tokens)
+            );
+    }
+
+    /// @inheritdoc IAccountBalance
+    function getMarginRequirementForLiquidation(address trader) public view override returns (int256) {
+        address clearingHouseConfig = _clearingHouseConfig;
+        address[] memory tokens = _baseTokensMap[trader];
+        int256[] memory positionValues = _getPositionValues(trader, tokens);
+        uint256 marginRequirement =
+            IClearingHouseConfig(clearingHouseConfig).getPortfolioPositionValue(tokens, positionValues).mulRatio(
+                IClearingHouseConfig(clearingHouseConfig).getMmRatio()
+            );
+
+        uint256 tokenLen = tokens.length;
+        for (uint256 i = 0; i < tokenLen; i++) {
+            marginRequirement = marginRequirement.add(
+                IClearingHouseConfig(clearingHouseConfig).getExtraMarginRequirement(
+                    tokens[i],
+                    positionValues[i].abs(),
+                    false
+                )
+            );
+        }
+        return marginRequirement.toInt256();
     }
 
     //
     // INTERNAL NON-VIEW
     //
+
+    function _stopLiquidationAuction(address trader) internal {
+        delete _liquidationAuctionStartedAtMap[trader];
+        emit LiquidationAuctionStopped(trader);
+    }
+
     function _modifyTakerBalance(
         address trader,
         address baseToken,
@@ -416,11 +556,46 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
         int256 quote
     ) internal returns (int256, int256) {
         AccountMarket.Info storage accountInfo = _accountMarketMap[trader][baseToken];
-        accountInfo.takerPositionSize = accountInfo.takerPositionSize.add(base);
+        int256 takerPositionSize = accountInfo.takerPositionSize;
+        accountInfo.takerPositionSize = takerPositionSize.add(base);
         accountInfo.takerOpenNotional = accountInfo.takerOpenNotional.add(quote);
+        if (base != 0) {
+            _modifyOpenInterest(baseToken, takerPositionSize, accountInfo.takerPositionSize);
+        }
         return (accountInfo.takerPositionSize, accountInfo.takerOpenNotional);
     }
 
+    /// @dev the open interest saturates at 0 in case the backfilled sums miss some positions
+    function _modifyOpenInterest(
+        address baseToken,
+        int256 positionSizeBefore,
+        int256 positionSizeAfter
+    ) internal {
+        if (!_isOpenInterestTrackedMap[baseToken]) {
+            return;
+        }
+
+        uint256 longBefore = positionSizeBefore > 0 ? positionSizeBefore.abs() : 0;
+        uint256 longAfter = positionSizeAfter > 0 ? positionSizeAfter.abs() : 0;
+        if (longBefore != longAfter) {
+            _longOpenInterestMap[baseToken] = _getModifiedOpenInterest(
+                _longOpenInterestMap[baseToken],
+                longBefore,
+                longAfter
+            );
+        }
+
+        uint256 shortBefore = positionSizeBefore < 0 ? positionSizeBefore.abs() : 0;
+        uint256 shortAfter = positionSizeAfter < 0 ? positionSizeAfter.abs() : 0;
+        if (shortBefore != shortAfter) {
+            _shortOpenInterestMap[baseToken] = _getModifiedOpenInterest(
+                _shortOpenInterestMap[baseToken],
+                shortBefore,
+                shortAfter
+            );
+        }
+    }
+
     function _modifyOwedRealizedPnl(address trader, int256 amount) internal {
         if (amount != 0) {
             _owedRealizedPnlMap[trader] = _owedRealizedPnlMap[trader].add(amount);
@@ -455,6 +630,7 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
     }
 
     function _deleteBaseToken(address trader, address baseToken) internal {
+        _modifyOpenInterest(baseToken, _accountMarketMap[trader][baseToken].takerPositionSize, 0);
         delete _accountMarketMap[trader][baseToken];
 
         address[] storage tokensStorage = _baseTokensMap[trader];
@@ -476,6 +652,32 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
     // INTERNAL VIEW
     //
 
+    /// @dev the same as ClearingHouse._isLiquidatable()
+    function _getLiquidationPenaltyRatio(address trader, address baseToken) internal view returns (uint24) {
+        uint256 startedAt = _liquidationAuctionStartedAtMap[trader];
+        return
+            IClearingHouseConfig(_clearingHouseConfig).getLiquidationAuctionPenaltyRatio(
+                baseToken,
+                startedAt == 0 ? 0 : _blockTimestamp().sub(startedAt)
+            );
+    }
+
+    function _isLiquidatable(address trader) internal view returns (bool) {
+        address vault = _vault;
+        return
+            IVault(vault).getAccountValue(trader).parseSettlementToken(IVault(vault).decimals()) <
+            getMarginRequirementForLiquidation(trader);
+    }
+
+    function _getPositionValues(address trader, address[] memory tokens) internal view returns (int256[] memory) {
+        uint256 tokenLen = tokens.length;
+        int256[] memory positionValues = new int256[](tokenLen);
+        for (uint256 i = 0; i < tokenLen; i++) {
+            positionValues[i] = getTotalPositionValue(trader, tokens[i]);
+        }
+        return positionValues;
+    }
+
     function _getPositionValue(address baseToken, int256 positionSize) internal view returns (int256) {
         if (positionSize == 0) return 0;
 
@@ -551,6 +753,18 @@ contract AccountBalance is IAccountBalance, BlockContext, ClearingHouseCallee, A
     // INTERNAL PURE
     //
 
+    function _getModifiedOpenInterest(
+        uint256 openInterest,
+        uint256 sideBefore,
+        uint256 sideAfter
+    ) internal pure returns (uint256) {
+        if (sideAfter > sideBefore) {
+            return openInterest.add(sideAfter - sideBefore);
+        }
+        uint256 decrease = sideBefore - sideAfter;
+        return openInterest > decrease ? openInterest - decrease : 0;
+    }
+
     function _hasBaseToken(address[] memory baseTokens, address baseToken) internal pure returns (bool) {
         for (uint256 i = 0; i < baseTokens.length; i++) {
             if (baseTokens[i] == baseToken) {
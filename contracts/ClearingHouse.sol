@@ -23,13 +23,12 @@ import { IVault } from "./interface/IVault.sol";
 import { IExchange } from "./interface/IExchange.sol";
 import { IOrderBook } from "./interface/IOrderBook.sol";
 import { IBaseToken } from "./interface/IBaseToken.sol";
-import { IClearingHouseConfig } from "./interface/IClearingHouseConfig.sol";
 import { IAccountBalance } from "./interface/IAccountBalance.sol";
 import { IInsuranceFund } from "./interface/IInsuranceFund.sol";
 import { IDelegateApproval } from "./interface/IDelegateApproval.sol";
 import { IClearingHouse } from "./interface/IClearingHouse.sol";
 import { BaseRelayRecipient } from "./gsn/BaseRelayRecipient.sol";
-import { ClearingHouseStorageV2 } from "./storage/ClearingHouseStorage.sol";
+import { ClearingHouseStorageV3 } from "./storage/ClearingHouseStorage.sol";
 
 // never inherit any new stateful contract. never change the orders of parent stateful contracts
 contract ClearingHouse is
@@ -40,7 +39,7 @@ contract ClearingHouse is
     ReentrancyGuardUpgradeable,
     OwnerPausable,
     BaseRelayRecipient,
-    ClearingHouseStorageV2
+    ClearingHouseStorageV3
 {
     using AddressUpgradeable for address;
     using SafeMathUpgradeable for uint256;
@@ -328,8 +327,14 @@ contract ClearingHouse is
             uint256 fee
         )
     {
+        // the owner of an isolated sub-account trades for it without approval
+        address sender = _msgSender();
         // CH_SHNAOPT: Sender Has No Approval to Open Position for Trader
-        require(IDelegateApproval(_delegateApproval).canOpenPositionFor(trader, _msgSender()), "CH_SHNAOPT");
+        require(
+            IVault(_vault).getSubAccountOwner(trader) == sender ||
+                IDelegateApproval(_delegateApproval).canOpenPositionFor(trader, sender),
+            "CH_SHNAOPT"
+        );
 
         return _openPositionFor(trader, params);
     }
@@ -469,6 +474,42 @@ contract ClearingHouse is
         return (positionSize.abs(), positionNotional.abs());
     }
 
+    /// @inheritdoc IClearingHouse
+    function multicall(bytes[] calldata data) external override returns (bytes[] memory results) {
+        // not nonReentrant since every call is nonReentrant on its own
+        address sender = _msgSender();
+        // CH_NMC: nested multicall
+        require(_multicallSender == address(0), "CH_NMC");
+        _multicallSender = sender;
+
+        // calls relayed by the trusted forwarder carry the sender at the end of the data, as the forwarder does
+        bool isRelayed = isTrustedForwarder(msg.sender);
+        uint256 dataLength = data.length;
+        results = new bytes[](dataLength);
+        for (uint256 i = 0; i < dataLength; i++) {
+            bytes memory callData = isRelayed ? abi.encodePacked(data[i], sender) : data[i];
+            // solhint-disable-next-line avoid-low-level-calls
+            (bool success, bytes memory result) = address(this).delegatecall(callData);
+            if (!success) {
+                // bubble up the revert reason of the failed call
+                // solhint-disable-next-line no-inline-assembly
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+
+        // only the calls that would have checked the imRatio on their own require it at the end, e.g. a batch of
+        // removing liquidity and reducing positions only requires the mmRatio of each reducing trade
+        bool isImCheckSkipped = _isMulticallImCheckSkipped;
+        _multicallSender = address(0);
+        _isMulticallImCheckSkipped = false;
+        if (isImCheckSkipped) {
+            _requireEnoughFreeCollateral(sender);
+        }
+    }
+
     /// @inheritdoc IUniswapV3MintCallback
     /// @dev namings here follow Uniswap's convention
     function uniswapV3MintCallback(
@@ -630,9 +671,13 @@ contract ClearingHouse is
             _getLiquidatedPositionSizeAndNotional(trader, baseToken, accountValue, positionSizeToBeLiquidated);
         _modifyPositionAndRealizePnl(trader, baseToken, liquidatedPositionSize, liquidatedPositionNotional, 0, 0);
 
-        // trader pays liquidation penalty
-        uint256 liquidationPenalty = liquidatedPositionNotional.abs().mulRatio(_getLiquidationPenaltyRatio());
-        _modifyOwedRealizedPnl(trader, liquidationPenalty.neg256());
+        // trader pays liquidation penalty, which also ends the liquidation auction of trader once it's over
+        uint256 liquidationPenalty =
+            IAccountBalance(_accountBalance).chargeLiquidationPenalty(
+                trader,
+                baseToken,
+                liquidatedPositionNotional.abs()
+            );
 
         address insuranceFund = _insuranceFund;
 
@@ -752,11 +797,7 @@ contract ClearingHouse is
         }
 
         // CH_NEXO: not excess orders
-        require(
-            (_getFreeCollateralByRatio(maker, IClearingHouseConfig(_clearingHouseConfig).getMmRatio()) < 0) ||
-                _isLiquidatable(maker),
-            "CH_NEXO"
-        );
+        require((_getFreeCollateralByMarginRequirement(maker, false) < 0) || _isLiquidatable(maker), "CH_NEXO");
 
         // must settle funding first
         _settleFunding(maker, baseToken);
@@ -868,13 +909,7 @@ contract ClearingHouse is
                 // only liquidator can take over this position
 
                 // CH_NEFCM: not enough free collateral by mmRatio
-                require(
-                    (_getFreeCollateralByRatio(
-                        params.trader,
-                        IClearingHouseConfig(_clearingHouseConfig).getMmRatio()
-                    ) >= 0),
-                    "CH_NEFCM"
-                );
+                require((_getFreeCollateralByMarginRequirement(params.trader, false) >= 0), "CH_NEFCM");
             } else {
                 // check margin free collateral by imRatio after swap (increasing and reversing position)
                 _requireEnoughFreeCollateral(params.trader);
@@ -1083,8 +1118,12 @@ contract ClearingHouse is
         return IAccountBalance(_accountBalance).getTakerPositionSize(trader, baseToken);
     }
 
-    function _getFreeCollateralByRatio(address trader, uint24 ratio) internal view returns (int256) {
-        return IVault(_vault).getFreeCollateralByRatio(trader, ratio);
+    function _getFreeCollateralByMarginRequirement(address trader, bool isInitialMargin)
+        internal
+        view
+        returns (int256)
+    {
+        return IVault(_vault).getFreeCollateralByMarginRequirement(trader, isInitialMargin);
     }
 
     function _getSqrtMarketTwapX96(address baseToken) internal view returns (uint160) {
@@ -1095,10 +1134,6 @@ contract ClearingHouse is
         return IAccountBalance(_accountBalance).getMarginRequirementForLiquidation(trader);
     }
 
-    function _getLiquidationPenaltyRatio() internal view returns (uint24) {
-        return IClearingHouseConfig(_clearingHouseConfig).getLiquidationPenaltyRatio();
-    }
-
     function _getTotalAbsPositionValue(address trader) internal view returns (uint256) {
         return IAccountBalance(_accountBalance).getTotalAbsPositionValue(trader);
     }
@@ -1137,12 +1172,15 @@ contract ClearingHouse is
         return (liquidatedPositionSize, liquidatedPositionNotional);
     }
 
-    function _requireEnoughFreeCollateral(address trader) internal view {
+    function _requireEnoughFreeCollateral(address trader) internal {
+        // the free collateral of the multicall sender is checked once at the end of the multicall
+        if (trader == _multicallSender) {
+            _isMulticallImCheckSkipped = true;
+            return;
+        }
+
         // CH_NEFCI: not enough free collateral by imRatio
-        require(
-            _getFreeCollateralByRatio(trader, IClearingHouseConfig(_clearingHouseConfig).getImRatio()) >= 0,
-            "CH_NEFCI"
-        );
+        require(_getFreeCollateralByMarginRequirement(trader, true) >= 0, "CH_NEFCI");
     }
 
     function _checkMarketOpen(address baseToken) internal view {
@@ -1,12 +1,23 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 pragma solidity 0.7.6;
+pragma abicoder v2;
 
+import { SafeMathUpgradeable } from "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import { SignedSafeMathUpgradeable } from "@openzeppelin/contracts-upgradeable/math/SignedSafeMathUpgradeable.sol";
 import { SafeOwnable } from "./base/SafeOwnable.sol";
-import { ClearingHouseConfigStorageV3 } from "./storage/ClearingHouseConfigStorage.sol";
+import { ClearingHouseConfigStorageV6 } from "./storage/ClearingHouseConfigStorage.sol";
 import { IClearingHouseConfig } from "./interface/IClearingHouseConfig.sol";
+import { MarginBracket } from "./lib/MarginBracket.sol";
+import { PerpMath } from "./lib/PerpMath.sol";
 
 // never inherit any new stateful contract. never change the orders of parent stateful contracts
-contract ClearingHouseConfig is IClearingHouseConfig, SafeOwnable, ClearingHouseConfigStorageV3 {
+contract ClearingHouseConfig is IClearingHouseConfig, SafeOwnable, ClearingHouseConfigStorageV6 {
+    using SafeMathUpgradeable for uint256;
+    using SignedSafeMathUpgradeable for int256;
+    using PerpMath for int256;
+    using PerpMath for uint256;
+    using MarginBracket for MarginBracket.Info[];
+
     //
     // MODIFIER
     //
@@ -80,6 +91,68 @@ contract ClearingHouseConfig is IClearingHouseConfig, SafeOwnable, ClearingHouse
         emit MarkPricePremiumIntervalChanged(premiumIntervalArg);
     }
 
+    /// @dev the penalty ratio of a liquidation auction rises from startPenaltyRatioArg to _liquidationPenaltyRatio
+    ///      in durationArg seconds, so that liquidators compete for a smaller penalty; durationArg 0 disables it
+    function setLiquidationAuction(
+        address baseToken,
+        uint24 startPenaltyRatioArg,
+        uint32 durationArg
+    ) external checkRatio(startPenaltyRatioArg) onlyOwner {
+        // CHC_ISPR: invalid start penalty ratio
+        require(startPenaltyRatioArg <= _liquidationPenaltyRatio, "CHC_ISPR");
+
+        _liquidationAuctionStartPenaltyRatioMap[baseToken] = startPenaltyRatioArg;
+        _liquidationAuctionDurationMap[baseToken] = durationArg;
+        emit LiquidationAuctionChanged(baseToken, startPenaltyRatioArg, durationArg);
+    }
+
+    /// @dev the brackets raise the margin ratios of the part of a position above their position values,
+    ///      so they start from the global ratios and never decrease; an empty array removes the brackets
+    function setMarginBrackets(address baseToken, MarginBracket.Info[] memory bracketsArg) external onlyOwner {
+        MarginBracket.Info[] storage brackets = _marginBracketsMap[baseToken];
+        delete _marginBracketsMap[baseToken];
+
+        MarginBracket.Info memory lastBracket = MarginBracket.Info(0, _imRatio, _mmRatio);
+        uint256 bracketLen = bracketsArg.length;
+        for (uint256 i = 0; i < bracketLen; i++) {
+            MarginBracket.Info memory bracket = bracketsArg[i];
+            // CHC_RO: ratio overflow
+            require(bracket.imRatio <= 1e6, "CHC_RO");
+            // CHC_IBPV: invalid bracket position value
+            require(i == 0 || bracket.positionValue > lastBracket.positionValue, "CHC_IBPV");
+            // CHC_IBR: invalid bracket ratio
+            require(
+                bracket.imRatio >= lastBracket.imRatio &&
+                    bracket.mmRatio >= lastBracket.mmRatio &&
+                    bracket.mmRatio <= bracket.imRatio,
+                "CHC_IBR"
+            );
+
+            brackets.push(bracket);
+            lastBracket = bracket;
+        }
+        emit MarginBracketsChanged(baseToken, bracketsArg);
+    }
+
+    function setPortfolioMarginEnabled(bool enabledArg) external onlyOwner {
+        _portfolioMarginEnabled = enabledArg;
+        emit PortfolioMarginEnabledChanged(enabledArg);
+    }
+
+    /// @dev the ratio only offsets a long position against a short position of the two markets, 0 removes the offset
+    function setMarginCorrelationRatio(
+        address baseTokenA,
+        address baseTokenB,
+        uint24 correlationRatioArg
+    ) external checkRatio(correlationRatioArg) onlyOwner {
+        // CHC_IMCP: invalid margin correlation pair
+        require(baseTokenA != baseTokenB, "CHC_IMCP");
+
+        _marginCorrelationRatioMap[baseTokenA][baseTokenB] = correlationRatioArg;
+        _marginCorrelationRatioMap[baseTokenB][baseTokenA] = correlationRatioArg;
+        emit MarginCorrelationRatioChanged(baseTokenA, baseTokenB, correlationRatioArg);
+    }
+
     //
     // EXTERNAL VIEW
     //
@@ -128,4 +201,103 @@ contract ClearingHouseConfig is IClearingHouseConfig, SafeOwnable, ClearingHouse
     function getMarkPriceConfig() external view override returns (uint32, uint32) {
         return (_markPriceMarketTwapInterval, _markPricePremiumInterval);
     }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getLiquidationAuction(address baseToken) external view override returns (uint24, uint32) {
+        return (_liquidationAuctionStartPenaltyRatioMap[baseToken], _liquidationAuctionDurationMap[baseToken]);
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getLiquidationAuctionPenaltyRatio(address baseToken, uint256 elapsed)
+        external
+        view
+        override
+        returns (uint24)
+    {
+        uint24 endPenaltyRatio = _liquidationPenaltyRatio;
+        uint256 duration = _liquidationAuctionDurationMap[baseToken];
+        uint24 startPenaltyRatio = _liquidationAuctionStartPenaltyRatioMap[baseToken];
+        // _liquidationPenaltyRatio might be lowered below the start penalty ratio after the auction is set
+        if (elapsed >= duration || startPenaltyRatio >= endPenaltyRatio) {
+            return endPenaltyRatio;
+        }
+        return uint24(startPenaltyRatio + (uint256(endPenaltyRatio - startPenaltyRatio) * elapsed) / duration);
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getMarginBrackets(address baseToken) external view override returns (MarginBracket.Info[] memory) {
+        return _marginBracketsMap[baseToken];
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function hasMarginBrackets(address baseToken) external view override returns (bool) {
+        return _marginBracketsMap[baseToken].length > 0;
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getExtraMarginRequirement(
+        address baseToken,
+        uint256 positionValue,
+        bool isInitialMargin
+    ) external view override returns (uint256) {
+        return
+            _marginBracketsMap[baseToken].getExtraMarginRequirement(
+                positionValue,
+                isInitialMargin,
+                isInitialMargin ? _imRatio : _mmRatio
+            );
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function isPortfolioMarginEnabled() external view override returns (bool) {
+        return _portfolioMarginEnabled;
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getMarginCorrelationRatio(address baseTokenA, address baseTokenB) external view override returns (uint24) {
+        return baseTokenA == baseTokenB ? 1e6 : _marginCorrelationRatioMap[baseTokenA][baseTokenB];
+    }
+
+    /// @inheritdoc IClearingHouseConfig
+    function getPortfolioPositionValue(address[] memory baseTokens, int256[] memory positionValues)
+        external
+        view
+        override
+        returns (uint256)
+    {
+        uint256 tokenLen = baseTokens.length;
+        if (!_portfolioMarginEnabled) {
+            uint256 totalAbsPositionValue;
+            for (uint256 i = 0; i < tokenLen; i++) {
+                totalAbsPositionValue = totalAbsPositionValue.add(positionValues[i].abs());
+            }
+            return totalAbsPositionValue;
+        }
+
+        // variance = sum(positionValue[i] * positionValue[j] * correlationRatio[i][j]) for every i and j, where only
+        // a long and a short position of a correlated pair offset each other; the positions of the same direction or
+        // of an uncorrelated pair add up in full. So the variance is at most totalAbsPositionValue ^ 2, which it
+        // equals when nothing is offset, and at least (sum of longs - sum of shorts) ^ 2, as the correlation ratios
+        // are at most 1
+        int256 variance;
+        for (uint256 i = 0; i < tokenLen; i++) {
+            int256 positionValue = positionValues[i];
+            if (positionValue == 0) {
+                continue;
+            }
+            variance = variance.add(positionValue.mul(positionValue));
+            for (uint256 j = i + 1; j < tokenLen; j++) {
+                int256 crossPositionValue = positionValue.mul(positionValues[j]);
+                if (crossPositionValue < 0) {
+                    uint24 correlationRatio = _marginCorrelationRatioMap[baseTokens[i]][baseTokens[j]];
+                    crossPositionValue = correlationRatio == 0
+                        ? crossPositionValue.neg256()
+                        : crossPositionValue.mulRatio(correlationRatio);
+                }
+                variance = variance.add(crossPositionValue.mul(2));
+            }
+        }
+
+        return uint256(variance).sqrt();
+    }
 }
@@ -193,6 +193,13 @@ contract Exchange is
         (uint256 sqrtPriceX96, , , , , , ) =
             UniswapV3Broker.getSlot0(IMarketRegistry(_marketRegistry).getPool(params.baseToken));
 
+        _requirePositionCaps(
+            params.baseToken,
+            takerPositionSize,
+            takerPositionSize.add(response.exchangedPositionSize),
+            sqrtPriceX96
+        );
+
         uint256 baseAbs = response.base.abs();
 
         return
@@ -346,6 +353,20 @@ contract Exchange is
         return _getSqrtMarketTwapX96(baseToken, twapInterval);
     }
 
+    /// @inheritdoc IExchange
+    function getFundingGrowthGlobalAndTwaps(address baseToken)
+        external
+        view
+        override
+        returns (
+            Funding.Growth memory fundingGrowthGlobal,
+            uint256 marketTwap,
+            uint256 indexTwap
+        )
+    {
+        return _getFundingGrowthGlobalAndTwaps(baseToken);
+    }
+
     //
     // PUBLIC VIEW
     //
@@ -610,6 +631,50 @@ contract Exchange is
         return (fundingGrowthGlobal, marketTwap, indexTwap);
     }
 
+    /// @dev the caps only apply to the swaps increasing or reversing the taker position, reducing is always allowed;
+    ///      the notionals are valued at the market price after the swap. Liquidations aren't swaps, so the positions
+    ///      taken over by liquidators through `AccountBalance.modifyTakerBalance()` are not checked
+    function _requirePositionCaps(
+        address baseToken,
+        int256 positionSizeBefore,
+        int256 positionSizeAfter,
+        uint256 sqrtPriceX96
+    ) internal view {
+        bool isLong = positionSizeAfter > 0;
+        uint256 positionSizeAfterAbs = positionSizeAfter.abs();
+        // the part of the position before the swap on the same side as after the swap
+        uint256 sameSidePositionSizeBefore = (positionSizeBefore > 0) == isLong ? positionSizeBefore.abs() : 0;
+        if (positionSizeAfterAbs <= sameSidePositionSizeBefore) {
+            return;
+        }
+
+        // the caps are read before the price and the open interest, which are skipped in the uncapped markets
+        address marketRegistry = _marketRegistry;
+        uint256 traderPositionNotionalCap = IMarketRegistry(marketRegistry).getTraderPositionNotionalCap(baseToken);
+        uint256 openInterestCap = IMarketRegistry(marketRegistry).getOpenInterestCap(baseToken);
+        if (traderPositionNotionalCap == 0 && openInterestCap == 0) {
+            return;
+        }
+
+        uint256 price = uint160(sqrtPriceX96).formatSqrtPriceX96ToPriceX96().formatX96ToX10_18();
+        if (traderPositionNotionalCap > 0) {
+            // EX_OTPNC: over trader position notional cap
+            require(FullMath.mulDiv(positionSizeAfterAbs, price, 1e18) <= traderPositionNotionalCap, "EX_OTPNC");
+        }
+
+        if (openInterestCap > 0) {
+            address accountBalance = _accountBalance;
+            // EX_OINT: open interest not tracked
+            require(IAccountBalance(accountBalance).isOpenInterestTracked(baseToken), "EX_OINT");
+            (uint256 longOpenInterest, uint256 shortOpenInterest) =
+                IAccountBalance(accountBalance).getOpenInterest(baseToken);
+            uint256 openInterest =
+                (isLong ? longOpenInterest : shortOpenInterest).add(positionSizeAfterAbs - sameSidePositionSizeBefore);
+            // EX_OOIC: over open interest cap
+            require(FullMath.mulDiv(openInterest, price, 1e18) <= openInterestCap, "EX_OOIC");
+        }
+    }
+
     /// @dev get a sqrt price limit for closing position s.t. it can stop when reaching the limit to save gas
     function _getSqrtPriceLimitForClosingPosition(
         address baseToken,
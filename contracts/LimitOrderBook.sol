@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { AddressUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
+import { SafeMathUpgradeable } from "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import { ReentrancyGuardUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/drafts/EIP712Upgradeable.sol";
+import { ECDSAUpgradeable } from "@openzeppelin/contracts-upgradeable/cryptography/ECDSAUpgradeable.sol";
+import { FullMath } from "@uniswap/v3-core/contracts/libraries/FullMath.sol";
+import { BlockContext } from "./base/BlockContext.sol";
+import { OwnerPausable } from "./base/OwnerPausable.sol";
+import { PerpMath } from "./lib/PerpMath.sol";
+import { IAccountBalance } from "./interface/IAccountBalance.sol";
+import { IClearingHouse } from "./interface/IClearingHouse.sol";
+import { IIndexPrice } from "./interface/IIndexPrice.sol";
+import { ILimitOrderBook } from "./interface/ILimitOrderBook.sol";
+import { LimitOrderBookStorageV1 } from "./storage/LimitOrderBookStorage.sol";
+
+// never inherit any new stateful contract. never change the orders of parent stateful contracts
+contract LimitOrderBook is
+    ILimitOrderBook,
+    BlockContext,
+    ReentrancyGuardUpgradeable,
+    OwnerPausable,
+    EIP712Upgradeable,
+    LimitOrderBookStorageV1
+{
+    using AddressUpgradeable for address;
+    using SafeMathUpgradeable for uint256;
+    using PerpMath for int256;
+
+    //
+    // CONSTANTS
+    //
+
+    bytes32 internal constant _LIMIT_ORDER_TYPEHASH =
+        keccak256(
+            // solhint-disable-next-line max-line-length
+            "LimitOrder(uint8 orderType,uint256 salt,address trader,address baseToken,bool isBaseToQuote,bool isExactInput,uint256 amount,uint256 oppositeAmountBound,uint256 deadline,uint256 triggerPrice,bool reduceOnly,bytes32 referralCode)"
+        );
+
+    //
+    // EXTERNAL NON-VIEW
+    //
+
+    function initialize(address clearingHouseArg) external initializer {
+        // LOB_CHNC: ClearingHouse is not a contract
+        require(clearingHouseArg.isContract(), "LOB_CHNC");
+
+        __ReentrancyGuard_init();
+        __OwnerPausable_init();
+        __EIP712_init("PerpCurieLimitOrder", "1");
+
+        _clearingHouse = clearingHouseArg;
+    }
+
+    /// @inheritdoc ILimitOrderBook
+    function fillLimitOrder(
+        LimitOrder memory order,
+        bytes memory signature,
+        uint256 fillAmount
+    ) external override whenNotPaused nonReentrant {
+        bytes32 orderHash = _verifySignature(order, signature);
+
+        // LOB_OIC: order is cancelled
+        require(!_cancelledOrderMap[orderHash], "LOB_OIC");
+
+        // LOB_OE: order is expired
+        require(_blockTimestamp() <= order.deadline, "LOB_OE");
+
+        uint256 filledAmount = _filledAmountMap[orderHash].add(fillAmount);
+        // LOB_IFA: invalid fill amount, either zero or exceeding the remaining amount of the order
+        require(fillAmount > 0 && filledAmount <= order.amount, "LOB_IFA");
+
+        // LOB_OINT: order is not triggered
+        require(_isTriggered(order), "LOB_OINT");
+
+        // update the state before the external call
+        _filledAmountMap[orderHash] = filledAmount;
+
+        address accountBalance = IClearingHouse(_clearingHouse).getAccountBalance();
+        int256 oldTakerPositionSize =
+            IAccountBalance(accountBalance).getTakerPositionSize(order.trader, order.baseToken);
+
+        // keep the limit price of partial fills by bounding the opposite amount proportionally, see
+        // ClearingHouse._checkSlippage(): round up the lower bound of exact input and round down the upper bound
+        // of exact output
+        uint256 oppositeAmountBound =
+            order.isExactInput
+                ? FullMath.mulDivRoundingUp(order.oppositeAmountBound, fillAmount, order.amount)
+                : FullMath.mulDiv(order.oppositeAmountBound, fillAmount, order.amount);
+
+        (uint256 base, uint256 quote, uint256 fee) =
+            IClearingHouse(_clearingHouse).openPositionFor(
+                order.trader,
+                IClearingHouse.OpenPositionParams({
+                    baseToken: order.baseToken,
+                    isBaseToQuote: order.isBaseToQuote,
+                    isExactInput: order.isExactInput,
+                    amount: fillAmount,
+                    oppositeAmountBound: oppositeAmountBound,
+                    deadline: order.deadline,
+                    sqrtPriceLimitX96: 0,
+                    referralCode: order.referralCode
+                })
+            );
+
+        if (order.reduceOnly) {
+            int256 newTakerPositionSize =
+                IAccountBalance(accountBalance).getTakerPositionSize(order.trader, order.baseToken);
+            // LOB_NRO: not reduce only, the fill either increases or flips the position
+            require(
+                newTakerPositionSize == 0 ||
+                    ((newTakerPositionSize > 0) == (oldTakerPositionSize > 0) &&
+                        newTakerPositionSize.abs() < oldTakerPositionSize.abs()),
+                "LOB_NRO"
+            );
+        }
+
+        emit LimitOrderFilled(
+            order.trader,
+            order.baseToken,
+            orderHash,
+            order.orderType,
+            _msgSender(),
+            fillAmount,
+            filledAmount,
+            base,
+            quote,
+            fee
+        );
+    }
+
+    /// @inheritdoc ILimitOrderBook
+    function cancelLimitOrder(LimitOrder memory order) external override {
+        // LOB_SNT: sender is not the trader of the order
+        require(_msgSender() == order.trader, "LOB_SNT");
+
+        bytes32 orderHash = getOrderHash(order);
+        // LOB_OIC: order is cancelled
+        require(!_cancelledOrderMap[orderHash], "LOB_OIC");
+
+        _cancelledOrderMap[orderHash] = true;
+
+        emit LimitOrderCancelled(order.trader, order.baseToken, orderHash);
+    }
+
+    //
+    // EXTERNAL VIEW
+    //
+
+    /// @inheritdoc ILimitOrderBook
+    function getFilledAmount(bytes32 orderHash) external view override returns (uint256) {
+        return _filledAmountMap[orderHash];
+    }
+
+    /// @inheritdoc ILimitOrderBook
+    function isCancelled(bytes32 orderHash) external view override returns (bool) {
+        return _cancelledOrderMap[orderHash];
+    }
+
+    /// @inheritdoc ILimitOrderBook
+    function isTriggered(LimitOrder memory order) external view override returns (bool) {
+        return _isTriggered(order);
+    }
+
+    /// @inheritdoc ILimitOrderBook
+    function getClearingHouse() external view override returns (address) {
+        return _clearingHouse;
+    }
+
+    //
+    // PUBLIC VIEW
+    //
+
+    /// @inheritdoc ILimitOrderBook
+    function getOrderHash(LimitOrder memory order) public view override returns (bytes32) {
+        // encoded in two parts to avoid stack too deep, which is the same as encoding all members at once
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encodePacked(
+                        abi.encode(
+                            _LIMIT_ORDER_TYPEHASH,
+                            order.orderType,
+                            order.salt,
+                            order.trader,
+                            order.baseToken,
+                            order.isBaseToQuote,
+                            order.isExactInput
+                        ),
+                        abi.encode(
+                            order.amount,
+                            order.oppositeAmountBound,
+                            order.deadline,
+                            order.triggerPrice,
+                            order.reduceOnly,
+                            order.referralCode
+                        )
+                    )
+                )
+            );
+    }
+
+    //
+    // INTERNAL VIEW
+    //
+
+    function _verifySignature(LimitOrder memory order, bytes memory signature) internal view returns (bytes32) {
+        bytes32 orderHash = getOrderHash(order);
+        // LOB_SINT: signer is not the trader of the order
+        require(ECDSAUpgradeable.recover(orderHash, signature) == order.trader, "LOB_SINT");
+        return orderHash;
+    }
+
+    function _isTriggered(LimitOrder memory order) internal view returns (bool) {
+        if (order.orderType == OrderType.Limit) {
+            // LOB_ITP: invalid trigger price, limit orders have no trigger price
+            require(order.triggerPrice == 0, "LOB_ITP");
+            return true;
+        }
+
+        // LOB_ITP: invalid trigger price
+        require(order.triggerPrice > 0, "LOB_ITP");
+
+        uint256 indexPrice = IIndexPrice(order.baseToken).getIndexPrice(0);
+        // a stop loss sell (closing a long) and a take profit buy (closing a short) are triggered when the price drops
+        bool isTriggeredByPriceDrop = (order.orderType == OrderType.StopLoss) == order.isBaseToQuote;
+        return isTriggeredByPriceDrop ? indexPrice <= order.triggerPrice : indexPrice >= order.triggerPrice;
+    }
+}
@@ -9,11 +9,11 @@ import { UniswapV3Broker } from "./lib/UniswapV3Broker.sol";
 import { PerpMath } from "./lib/PerpMath.sol";
 import { PerpSafeCast } from "./lib/PerpSafeCast.sol";
 import { IVirtualToken } from "./interface/IVirtualToken.sol";
-import { MarketRegistryStorageV3 } from "./storage/MarketRegistryStorage.sol";
+import { MarketRegistryStorageV4 } from "./storage/MarketRegistryStorage.sol";
 import { IMarketRegistry } from "./interface/IMarketRegistry.sol";
 
 // never inherit any new stateful contract. never change the orders of parent stateful contracts
-contract MarketRegistry is IMarketRegistry, ClearingHouseCallee, MarketRegistryStorageV3 {
+contract MarketRegistry is IMarketRegistry, ClearingHouseCallee, MarketRegistryStorageV4 {
     using AddressUpgradeable for address;
     using PerpSafeCast for uint256;
     using PerpMath for uint24;
@@ -135,6 +135,18 @@ contract MarketRegistry is IMarketRegistry, ClearingHouseCallee, MarketRegistryS
         emit FeeDiscountRatioChanged(trader, discountRatio);
     }
 
+    /// @param cap the max notional of either side of the open interest of the market, 0 if uncapped
+    function setOpenInterestCap(address baseToken, uint256 cap) external checkPool(baseToken) onlyOwner {
+        _openInterestCapMap[baseToken] = cap;
+        emit OpenInterestCapChanged(baseToken, cap);
+    }
+
+    /// @param cap the max position notional of a trader in the market, 0 if uncapped
+    function setTraderPositionNotionalCap(address baseToken, uint256 cap) external checkPool(baseToken) onlyOwner {
+        _traderPositionNotionalCapMap[baseToken] = cap;
+        emit TraderPositionNotionalCapChanged(baseToken, cap);
+    }
+
     //
     // EXTERNAL VIEW
     //
@@ -209,6 +221,16 @@ contract MarketRegistry is IMarketRegistry, ClearingHouseCallee, MarketRegistryS
             });
     }
 
+    /// @inheritdoc IMarketRegistry
+    function getOpenInterestCap(address baseToken) external view override returns (uint256) {
+        return _openInterestCapMap[baseToken];
+    }
+
+    /// @inheritdoc IMarketRegistry
+    function getTraderPositionNotionalCap(address baseToken) external view override returns (uint256) {
+        return _traderPositionNotionalCapMap[baseToken];
+    }
+
     /// @inheritdoc IMarketRegistry
     function hasPool(address baseToken) external view override returns (bool) {
         return _poolMap[baseToken] != address(0);
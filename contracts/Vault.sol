@@ -24,14 +24,14 @@ import { IClearingHouseConfig } from "./interface/IClearingHouseConfig.sol";
 import { IClearingHouse } from "./interface/IClearingHouse.sol";
 import { BaseRelayRecipient } from "./gsn/BaseRelayRecipient.sol";
 import { OwnerPausable } from "./base/OwnerPausable.sol";
-import { VaultStorageV2 } from "./storage/VaultStorage.sol";
+import { VaultStorageV3 } from "./storage/VaultStorage.sol";
 import { Collateral } from "./lib/Collateral.sol";
 import { IVault } from "./interface/IVault.sol";
 import { IWETH9 } from "./interface/external/IWETH9.sol";
 import { ICollateralManager } from "./interface/ICollateralManager.sol";
 
 // never inherit any new stateful contract. never change the orders of parent stateful contracts
-contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRecipient, VaultStorageV2 {
+contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRecipient, VaultStorageV3 {
     using SafeMathUpgradeable for uint256;
     using PerpSafeCast for uint256;
     using PerpSafeCast for int256;
@@ -162,6 +162,21 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         _deposit(from, to, token, amount);
     }
 
+    /// @inheritdoc IVault
+    function depositToSubAccount(
+        address token,
+        uint256 subAccountId,
+        uint256 amount
+    ) external override whenNotPaused nonReentrant onlySettlementOrCollateralToken(token) {
+        // input requirement checks:
+        //   token: here
+        //   subAccountId: X
+        //   amount: _deposit
+
+        address from = _msgSender();
+        _deposit(from, _registerSubAccount(from, subAccountId), token, amount);
+    }
+
     /// @inheritdoc IVault
     function depositEther() external payable override whenNotPaused nonReentrant {
         address to = _msgSender();
@@ -242,6 +257,35 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         return amount;
     }
 
+    /// @inheritdoc IVault
+    function transferBetweenSubAccounts(
+        address token,
+        uint256 fromSubAccountId,
+        uint256 toSubAccountId,
+        uint256 amount
+    ) external override whenNotPaused nonReentrant onlySettlementOrCollateralToken(token) {
+        // input requirement checks:
+        //   token: here
+        //   fromSubAccountId: here
+        //   toSubAccountId: here
+        //   amount: here and in _settleAndDecreaseBalance()
+
+        // V_SSA: same sub-account
+        require(fromSubAccountId != toSubAccountId, "V_SSA");
+        // V_ZA: Zero amount
+        require(amount > 0, "V_ZA");
+
+        address trader = _msgSender();
+        address from = _registerSubAccount(trader, fromSubAccountId);
+        address to = _registerSubAccount(trader, toSubAccountId);
+
+        // the same as withdrawing from one account and depositing to the other
+        _settleAndDecreaseBalance(from, token, amount);
+        _modifyBalance(to, token, amount.toInt256());
+
+        emit SubAccountTransferred(trader, token, fromSubAccountId, toSubAccountId, amount);
+    }
+
     /// @inheritdoc IVault
     function liquidateCollateral(
         address trader,
@@ -342,6 +386,11 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         return _WETH9;
     }
 
+    /// @inheritdoc IVault
+    function getSubAccountOwner(address subAccount) external view override returns (address) {
+        return _subAccountOwnerMap[subAccount];
+    }
+
     /// @inheritdoc IVault
     function getFreeCollateral(address trader) external view override returns (uint256) {
         return _getFreeCollateral(trader).formatSettlementToken(_decimals);
@@ -349,7 +398,19 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
 
     /// @inheritdoc IVault
     function getFreeCollateralByRatio(address trader, uint24 ratio) external view override returns (int256) {
-        return _getFreeCollateralByRatio(trader, ratio).formatSettlementToken(_decimals);
+        return
+            _getFreeCollateralByMarginRequirement(trader, _getTotalMarginRequirement(trader, ratio))
+                .formatSettlementToken(_decimals);
+    }
+
+    /// @inheritdoc IVault
+    function getFreeCollateralByMarginRequirement(address trader, bool isInitialMargin)
+        external
+        view
+        override
+        returns (int256)
+    {
+        return _getFreeCollateralByMarginType(trader, isInitialMargin).formatSettlementToken(_decimals);
     }
 
     /// @inheritdoc IVault
@@ -459,7 +520,7 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
     function getMarginRequirementForCollateralLiquidation(address trader) public view override returns (int256) {
         return
             IAccountBalance(_accountBalance)
-                .getTotalAbsPositionValue(trader)
+                .getTotalPortfolioPositionValue(trader)
                 .mulRatio(getCollateralMmRatio())
                 .toInt256();
     }
@@ -591,10 +652,27 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         emit BadDebtSettled(trader, absBadDebt);
     }
 
+    /// @inheritdoc IVault
+    function getSubAccount(address trader, uint256 subAccountId) public pure override returns (address) {
+        if (subAccountId == 0) {
+            return trader;
+        }
+        return address(uint160(uint256(keccak256(abi.encodePacked(trader, subAccountId)))));
+    }
+
     //
     // INTERNAL NON-VIEW
     //
 
+    /// @return subAccount The address of the sub-account, which is registered to the trader if it's not yet
+    function _registerSubAccount(address trader, uint256 subAccountId) internal returns (address subAccount) {
+        subAccount = getSubAccount(trader, subAccountId);
+        if (subAccountId != 0 && _subAccountOwnerMap[subAccount] == address(0)) {
+            _subAccountOwnerMap[subAccount] = trader;
+        }
+        return subAccount;
+    }
+
     /// @param token the collateral token needs to be transferred into vault
     /// @param from the address of account who owns the collateral token
     /// @param amount the amount of collateral token needs to be transferred
@@ -806,13 +884,22 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
     }
 
     function _getFreeCollateral(address trader) internal view returns (uint256 freeCollateralX10_18) {
+        return PerpMath.max(_getFreeCollateralByMarginType(trader, true), 0).toUint256();
+    }
+
+    function _getFreeCollateralByMarginType(address trader, bool isInitialMargin)
+        internal
+        view
+        returns (int256 freeCollateralX10_18)
+    {
         return
-            PerpMath
-                .max(_getFreeCollateralByRatio(trader, IClearingHouseConfig(_clearingHouseConfig).getImRatio()), 0)
-                .toUint256();
+            _getFreeCollateralByMarginRequirement(
+                trader,
+                _getTotalMarginRequirementWithBrackets(trader, isInitialMargin)
+            );
     }
 
-    function _getFreeCollateralByRatio(address trader, uint24 ratio)
+    function _getFreeCollateralByMarginRequirement(address trader, uint256 totalMarginRequirementX10_18)
         internal
         view
         returns (int256 freeCollateralX10_18)
@@ -820,7 +907,6 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         // conservative config: freeCollateral = min(totalCollateralValue, accountValue) - openOrderMarginReq
         (int256 accountValueX10_18, int256 totalCollateralValueX10_18) =
             _getAccountValueAndTotalCollateralValue(trader);
-        uint256 totalMarginRequirementX10_18 = _getTotalMarginRequirement(trader, ratio);
 
         return
             PerpMath.min(totalCollateralValueX10_18, accountValueX10_18).sub(totalMarginRequirementX10_18.toInt256());
@@ -981,8 +1067,7 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         uint256 settlementTokenDebtX10_18 =
             settlementTokenValueX10_18 < 0 ? settlementTokenValueX10_18.neg256().toUint256() : 0;
 
-        uint256 totalMarginRequirementX10_18 =
-            _getTotalMarginRequirement(trader, IClearingHouseConfig(_clearingHouseConfig).getImRatio());
+        uint256 totalMarginRequirementX10_18 = _getTotalMarginRequirementWithBrackets(trader, true);
 
         uint256 maxDebtX10_18 = MathUpgradeable.max(settlementTokenDebtX10_18, totalMarginRequirementX10_18);
         uint256 collateralValueDustX10_18 =
@@ -1008,6 +1093,21 @@ contract Vault is IVault, ReentrancyGuardUpgradeable, OwnerPausable, BaseRelayRe
         return totalDebtValueX10_18.mulRatio(ratio);
     }
 
+    /// @dev the margin brackets of the markets replace the global imRatio or mmRatio for the larger positions
+    /// @return totalMarginRequirementX10_18 total margin requirement in 18 decimals
+    function _getTotalMarginRequirementWithBrackets(address trader, bool isInitialMargin)
+        internal
+        view
+        returns (uint256 totalMarginRequirementX10_18)
+    {
+        IClearingHouseConfig clearingHouseConfig = IClearingHouseConfig(_clearingHouseConfig);
+        uint24 ratio = isInitialMargin ? clearingHouseConfig.getImRatio() : clearingHouseConfig.getMmRatio();
+        return
+            _getTotalMarginRequirement(trader, ratio).add(
+                IAccountBalance(_accountBalance).getExtraMarginRequirement(trader, isInitialMargin)
+            );
+    }
+
     function _isCollateral(address token) internal view returns (bool) {
         return ICollateralManager(_collateralManager).isCollateral(token);
     }
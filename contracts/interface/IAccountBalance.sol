@@ -13,6 +13,20 @@ interface IAccountBalance {
     /// @param amount The amount changed
     event PnlRealized(address indexed trader, int256 amount);
 
+    /// @param trader The address of the liquidatable trader
+    /// @param startedAt The timestamp the liquidation penalty ratio starts rising from
+    event LiquidationAuctionStarted(address indexed trader, uint256 startedAt);
+
+    /// @param trader The address of the trader who is no longer liquidatable
+    event LiquidationAuctionStopped(address indexed trader);
+
+    /// @dev Emit when the owner backfills the open interest of a market, which starts tracking it,
+    ///      see `getOpenInterest`
+    /// @param baseToken The address of baseToken
+    /// @param longOpenInterest The sum of the long taker position sizes
+    /// @param shortOpenInterest The sum of the absolute short taker position sizes
+    event OpenInterestChanged(address indexed baseToken, uint256 longOpenInterest, uint256 shortOpenInterest);
+
     /// @notice Modify trader account balance
     /// @dev Only used by `ClearingHouse` contract
     /// @param trader The address of the trader
@@ -109,6 +123,32 @@ interface IAccountBalance {
             uint256 closedPrice
         );
 
+    /// @notice Start the liquidation auction of a liquidatable trader, since when the liquidation penalty ratio
+    ///         of the markets with `ClearingHouseConfig.getLiquidationAuction` rises over time
+    /// @dev Anyone can start it, a liquidator usually starts it right before waiting for a profitable penalty
+    /// @param trader The address of trader
+    function startLiquidationAuction(address trader) external;
+
+    /// @notice Stop the liquidation auction of a trader who is no longer liquidatable,
+    ///         so that the next one starts over from the start penalty ratio
+    /// @dev Anyone can stop it, the liquidation keeper stops the auctions of the accounts recovered by price moves or
+    ///      deposits. An auction left running charges the next liquidation of trader the risen penalty ratio
+    /// @param trader The address of trader
+    function stopLiquidationAuction(address trader) external;
+
+    /// @notice Charge the liquidation penalty of a liquidated position from trader's owed realized pnl, and stop the
+    ///         liquidation auction of trader once trader is no longer liquidatable or has no position left
+    /// @dev Only used by `ClearingHouse` contract, right after the liquidated position is closed
+    /// @param trader The address of trader
+    /// @param baseToken The address of baseToken
+    /// @param liquidatedPositionNotional The absolute notional of the liquidated position
+    /// @return liquidationPenalty The liquidation penalty charged, by `getLiquidationPenaltyRatio`
+    function chargeLiquidationPenalty(
+        address trader,
+        address baseToken,
+        uint256 liquidatedPositionNotional
+    ) external returns (uint256 liquidationPenalty);
+
     /// @notice Get `ClearingHouseConfig` address
     /// @return clearingHouseConfig The address of ClearingHouseConfig
     function getClearingHouseConfig() external view returns (address clearingHouseConfig);
@@ -154,7 +194,9 @@ interface IAccountBalance {
     function getTotalDebtValue(address trader) external view returns (uint256 totalDebtValue);
 
     /// @notice Get margin requirement to check whether trader will be able to liquidate
-    /// @dev This is different from `Vault._getTotalMarginRequirement()`, which is for freeCollateral calculation
+    /// @dev This is different from `Vault._getTotalMarginRequirement()`, which is for freeCollateral calculation;
+    ///      it includes the extra maintenance margin of the margin brackets, see `getExtraMarginRequirement()`,
+    ///      and applies the mmRatio to `getTotalPortfolioPositionValue()`
     /// @param trader The address of trader
     /// @return marginRequirementForLiquidation It is compared with `ClearingHouse.getAccountValue` which is also an int
     function getMarginRequirementForLiquidation(address trader)
@@ -162,6 +204,16 @@ interface IAccountBalance {
         view
         returns (int256 marginRequirementForLiquidation);
 
+    /// @notice Get the margin that the margin brackets of every market require beyond the global ratios
+    /// @dev Used by `Vault._getTotalMarginRequirement()` on top of the margin requirement of the debt
+    /// @param trader The address of trader
+    /// @param isInitialMargin True for the initial margin, false for the maintenance margin
+    /// @return extraMarginRequirement The extra margin requirement in 18 decimals
+    function getExtraMarginRequirement(address trader, bool isInitialMargin)
+        external
+        view
+        returns (uint256 extraMarginRequirement);
+
     /// @notice Get owedRealizedPnl, unrealizedPnl and pending fee
     /// @param trader The address of trader
     /// @return owedRealizedPnl the pnl realized already but stored temporarily in AccountBalance
@@ -222,6 +274,13 @@ interface IAccountBalance {
     /// @return totalAbsPositionValue Sum up positions value of every market
     function getTotalAbsPositionValue(address trader) external view returns (uint256 totalAbsPositionValue);
 
+    /// @notice Get the position value of trader that the maintenance margin applies to
+    /// @dev The same as `getTotalAbsPositionValue()` unless the portfolio margin is enabled,
+    ///      see `ClearingHouseConfig.getPortfolioPositionValue()`
+    /// @param trader The address of trader
+    /// @return totalPortfolioPositionValue The position value with the correlated positions offset
+    function getTotalPortfolioPositionValue(address trader) external view returns (uint256 totalPortfolioPositionValue);
+
     /// @notice Get liquidatable position size of trader's baseToken market
     /// @param trader The address of trader
     /// @param baseToken The address of baseToken
@@ -243,4 +302,36 @@ interface IAccountBalance {
     /// @param baseToken The address of baseToken
     /// @return price The mark price of baseToken market
     function getMarkPrice(address baseToken) external view returns (uint256);
+
+    /// @param trader The address of trader
+    /// @return startedAt The timestamp the liquidation auction of trader started at, 0 if not started
+    function getLiquidationAuctionStartedAt(address trader) external view returns (uint256 startedAt);
+
+    /// @notice Get the liquidation penalty ratio of liquidating trader's position in a market
+    /// @dev The start penalty ratio of the market if the liquidation auction of trader is not started
+    /// @param trader The address of trader
+    /// @param baseToken The address of baseToken
+    /// @return liquidationPenaltyRatio Liquidation penalty ratio
+    function getLiquidationPenaltyRatio(address trader, address baseToken)
+        external
+        view
+        returns (uint24 liquidationPenaltyRatio);
+
+    /// @notice Get the open interest of a market, the sums of the long and the short taker position sizes
+    /// @dev Only tracked since the owner backfills it by `AccountBalance.setOpenInterest`, 0 before,
+    ///      see `isOpenInterestTracked`
+    /// @param baseToken The address of baseToken
+    /// @return longOpenInterest The sum of the long taker position sizes
+    /// @return shortOpenInterest The sum of the absolute short taker position sizes
+    function getOpenInterest(address baseToken)
+        external
+        view
+        returns (uint256 longOpenInterest, uint256 shortOpenInterest);
+
+    /// @notice Get whether the open interest of a market is tracked
+    /// @dev The open interest is tracked since the owner backfills it by `AccountBalance.setOpenInterest`, which
+    ///      is required before capping it by `MarketRegistry.setOpenInterestCap`
+    /// @param baseToken The address of baseToken
+    /// @return isTracked True if the open interest of the market is tracked
+    function isOpenInterestTracked(address baseToken) external view returns (bool isTracked);
 }
@@ -214,6 +214,8 @@ interface IClearingHouse {
     /// @return quote The amount of quoteToken the taker got or spent
     function openPosition(OpenPositionParams memory params) external returns (uint256 base, uint256 quote);
 
+    /// @notice Open position for a trader who approves the sender in `DelegateApproval`,
+    ///         or for an isolated sub-account of the sender, see `Vault.getSubAccount()`
     /// @param trader The address of trader
     /// @param params OpenPositionParams struct is the same as `openPosition()`
     /// @return base The amount of baseToken the taker got or spent
@@ -283,6 +285,18 @@ interface IClearingHouse {
     /// @return quote The amount of quote token that is closed
     function quitMarket(address trader, address baseToken) external returns (uint256 base, uint256 quote);
 
+    /// @notice Execute multiple calls of `ClearingHouse` in a single transaction, such as removing liquidity, closing
+    /// position and adding liquidity at a new range atomically
+    /// @dev Every call is executed as if it's sent by the sender of `multicall()`, and the free collateral of the
+    ///      sender is checked only once after all calls, so intermediate states of the sender can be below the
+    ///      initial margin requirement. The initial margin is only checked at the end when any of the calls would
+    ///      have checked it on its own, so a batch of removing liquidity and reducing positions only requires the
+    ///      maintenance margin, the same as sending them one by one. The calls revert with the reason of the first
+    ///      failed call
+    /// @param data The encoded function data of each call
+    /// @return results The encoded return data of each call
+    function multicall(bytes[] calldata data) external returns (bytes[] memory results);
+
     /// @notice Get account value of trader
     /// @dev accountValue = totalCollateralValue + totalUnrealizedPnl, in 18 decimals
     /// @param trader The address of trader
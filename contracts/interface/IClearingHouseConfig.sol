@@ -1,5 +1,8 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { MarginBracket } from "../lib/MarginBracket.sol";
 
 interface IClearingHouseConfigEvent {
     event LiquidationPenaltyRatioChanged(uint24 liquidationPenaltyRatio);
@@ -17,6 +20,18 @@ interface IClearingHouseConfigEvent {
     event MarkPriceMarketTwapIntervalChanged(uint32 twapInterval);
 
     event MarkPricePremiumIntervalChanged(uint32 premiumInterval);
+
+    event LiquidationAuctionChanged(address indexed baseToken, uint24 startPenaltyRatio, uint32 duration);
+
+    event MarginBracketsChanged(address indexed baseToken, MarginBracket.Info[] brackets);
+
+    event PortfolioMarginEnabledChanged(bool enabled);
+
+    event MarginCorrelationRatioChanged(
+        address indexed baseTokenA,
+        address indexed baseTokenB,
+        uint24 correlationRatio
+    );
 }
 
 interface IClearingHouseConfig is IClearingHouseConfigEvent {
@@ -48,4 +63,64 @@ interface IClearingHouseConfig is IClearingHouseConfigEvent {
     /// @return marketTwapInterval MarketTwapInterval is the interval of market twap used for mark price calculations
     /// @return premiumInterval PremiumInterval is the interval of premium used for mark price calculations
     function getMarkPriceConfig() external view returns (uint32 marketTwapInterval, uint32 premiumInterval);
+
+    /// @param baseToken The address of the baseToken
+    /// @return startPenaltyRatio The liquidation penalty ratio when the liquidation auction starts
+    /// @return duration Seconds for the penalty ratio to rise to the liquidation penalty ratio,
+    ///         0 if the market liquidates at the fixed liquidation penalty ratio
+    function getLiquidationAuction(address baseToken) external view returns (uint24 startPenaltyRatio, uint32 duration);
+
+    /// @notice Get the liquidation penalty ratio of a market, which rises linearly from the start penalty ratio
+    ///         to the liquidation penalty ratio during the liquidation auction
+    /// @param baseToken The address of the baseToken
+    /// @param elapsed Seconds since the liquidation auction of the trader started
+    /// @return liquidationPenaltyRatio Liquidation penalty ratio
+    function getLiquidationAuctionPenaltyRatio(address baseToken, uint256 elapsed)
+        external
+        view
+        returns (uint24 liquidationPenaltyRatio);
+
+    /// @param baseToken The address of the baseToken
+    /// @return brackets The margin brackets of the market sorted by position value,
+    ///         empty if only the global imRatio and mmRatio apply
+    function getMarginBrackets(address baseToken) external view returns (MarginBracket.Info[] memory brackets);
+
+    /// @param baseToken The address of the baseToken
+    /// @return hasMarginBrackets True if the market has margin brackets
+    function hasMarginBrackets(address baseToken) external view returns (bool hasMarginBrackets);
+
+    /// @notice Get the margin that the brackets of a market require beyond the global imRatio or mmRatio
+    /// @param baseToken The address of the baseToken
+    /// @param positionValue The absolute position value in the market, in 18 decimals
+    /// @param isInitialMargin True for the initial margin, false for the maintenance margin
+    /// @return extraMarginRequirement The extra margin requirement in 18 decimals, 0 without brackets
+    function getExtraMarginRequirement(
+        address baseToken,
+        uint256 positionValue,
+        bool isInitialMargin
+    ) external view returns (uint256 extraMarginRequirement);
+
+    /// @return isPortfolioMarginEnabled True if the maintenance margin offsets the correlated positions
+    function isPortfolioMarginEnabled() external view returns (bool isPortfolioMarginEnabled);
+
+    /// @param baseTokenA The address of a baseToken
+    /// @param baseTokenB The address of another baseToken
+    /// @return correlationRatio The correlation between the two markets in decimal 6, 1e6 for the same market
+    function getMarginCorrelationRatio(address baseTokenA, address baseTokenB)
+        external
+        view
+        returns (uint24 correlationRatio);
+
+    /// @notice Get the position value of a portfolio that the maintenance margin ratio applies to
+    /// @dev In portfolio-margin mode, it's sqrt(sum(positionValue[i] * positionValue[j] * correlationRatio[i][j])),
+    ///      where only a long and a short position of correlated markets offset each other: the positions of the same
+    ///      direction or of the markets without a correlation ratio count in full. It's never above the sum of the
+    ///      absolute position values, which it is otherwise, and equals it when nothing is offset
+    /// @param baseTokens The addresses of the baseTokens
+    /// @param positionValues The position values in the markets, in 18 decimals
+    /// @return portfolioPositionValue The portfolio position value in 18 decimals
+    function getPortfolioPositionValue(address[] memory baseTokens, int256[] memory positionValues)
+        external
+        view
+        returns (uint256 portfolioPositionValue);
 }
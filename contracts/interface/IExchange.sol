@@ -122,6 +122,22 @@ interface IExchange {
         view
         returns (uint160 sqrtMarketTwapX96);
 
+    /// @notice Get the up-to-date global funding growth and the funding twaps of a market
+    /// @dev This is the view version of the funding growth updated by settleFunding(), e.g. to be passed to
+    ///      `OrderBook.getLiquidityCoefficientInFundingPayment()`
+    /// @param baseToken Address of the base token
+    /// @return fundingGrowthGlobal The up-to-date global funding growth
+    /// @return marketTwap The market twap used for the funding of the period since the last settlement
+    /// @return indexTwap The index twap used for the funding of the period since the last settlement
+    function getFundingGrowthGlobalAndTwaps(address baseToken)
+        external
+        view
+        returns (
+            Funding.Growth memory fundingGrowthGlobal,
+            uint256 marketTwap,
+            uint256 indexTwap
+        );
+
     /// @notice Get the pnl that can be realized if trader reduce position
     /// @dev This function normally won't be needed by traders, but it might be useful for 3rd party
     /// @param params The params needed to do the query, encoded as `RealizePnlParams` in calldata
@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+interface ILimitOrderBook {
+    /// @dev Limit: filled whenever the price satisfies oppositeAmountBound
+    ///      StopLoss: filled once the index price moves against the order to triggerPrice,
+    ///      i.e. drops to triggerPrice for a sell (base to quote) and rises to triggerPrice for a buy
+    ///      TakeProfit: filled once the index price moves in favor of the order to triggerPrice,
+    ///      i.e. rises to triggerPrice for a sell and drops to triggerPrice for a buy
+    enum OrderType { Limit, StopLoss, TakeProfit }
+
+    /// @param orderType The type of the order
+    /// @param salt A random number to tell apart identical orders
+    /// @param trader The signer of the order, whose position is opened
+    /// @param baseToken The address of the base token
+    /// @param isBaseToQuote True for a short position, false for a long one
+    /// @param isExactInput The same as `ClearingHouse.OpenPositionParams.isExactInput`
+    /// @param amount The amount to be filled in total, in the input token when `isExactInput` is true
+    ///        and in the output token otherwise
+    /// @param oppositeAmountBound The bound of the opposite amount when the whole amount is filled,
+    ///        which defines the limit price; partial fills are bound proportionally
+    /// @param deadline The expiry of the order
+    /// @param triggerPrice The index price in 18 decimals to trigger stop loss and take profit orders,
+    ///        has to be 0 for limit orders
+    /// @param reduceOnly Whether every fill has to reduce the position without flipping its side
+    /// @param referralCode The referral code of `ClearingHouse.openPositionFor()`
+    struct LimitOrder {
+        OrderType orderType;
+        uint256 salt;
+        address trader;
+        address baseToken;
+        bool isBaseToQuote;
+        bool isExactInput;
+        uint256 amount;
+        uint256 oppositeAmountBound;
+        uint256 deadline;
+        uint256 triggerPrice;
+        bool reduceOnly;
+        bytes32 referralCode;
+    }
+
+    /// @param trader The address of the trader
+    /// @param baseToken The address of the base token
+    /// @param orderHash The EIP-712 hash of the order
+    /// @param orderType The type of the order
+    /// @param keeper The address which fills the order
+    /// @param fillAmount The amount filled this time
+    /// @param filledAmount The amount filled in total
+    /// @param base The amount of base token exchanged
+    /// @param quote The amount of quote token exchanged
+    /// @param fee The trading fee paid by the trader
+    event LimitOrderFilled(
+        address indexed trader,
+        address indexed baseToken,
+        bytes32 orderHash,
+        OrderType orderType,
+        address keeper,
+        uint256 fillAmount,
+        uint256 filledAmount,
+        uint256 base,
+        uint256 quote,
+        uint256 fee
+    );
+
+    /// @param trader The address of the trader
+    /// @param baseToken The address of the base token
+    /// @param orderHash The EIP-712 hash of the order
+    event LimitOrderCancelled(address indexed trader, address indexed baseToken, bytes32 orderHash);
+
+    /// @notice Fill a signed order by opening a position for the trader through `ClearingHouse.openPositionFor()`
+    /// @dev The trader has to approve this contract in `DelegateApproval` to open positions
+    /// @param order The order signed by the trader
+    /// @param signature The EIP-712 signature of the order
+    /// @param fillAmount The amount to be filled, can be less than the remaining amount of the order
+    function fillLimitOrder(
+        LimitOrder memory order,
+        bytes memory signature,
+        uint256 fillAmount
+    ) external;
+
+    /// @notice Cancel the remaining amount of an order, can only be called by the trader of the order
+    /// @param order The order to be cancelled
+    function cancelLimitOrder(LimitOrder memory order) external;
+
+    /// @param order The order
+    /// @return orderHash The EIP-712 hash of the order, which is signed by the trader
+    function getOrderHash(LimitOrder memory order) external view returns (bytes32 orderHash);
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @return filledAmount The amount filled in total
+    function getFilledAmount(bytes32 orderHash) external view returns (uint256 filledAmount);
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @return isCancelled Whether the order is cancelled
+    function isCancelled(bytes32 orderHash) external view returns (bool isCancelled);
+
+    /// @param order The order
+    /// @return isTriggered Whether the index price reaches the trigger price, always true for limit orders
+    function isTriggered(LimitOrder memory order) external view returns (bool isTriggered);
+
+    /// @return clearingHouse The address of `ClearingHouse`
+    function getClearingHouse() external view returns (address clearingHouse);
+}
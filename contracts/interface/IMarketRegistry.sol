@@ -41,6 +41,16 @@ interface IMarketRegistry {
     /// @param discountRatio Fee discount ratio (percent-off)
     event FeeDiscountRatioChanged(address indexed trader, uint24 discountRatio);
 
+    /// @notice Emitted when the open interest cap of a market is updated.
+    /// @param baseToken The address of the base token
+    /// @param cap Max notional of either side of the open interest, 0 if uncapped
+    event OpenInterestCapChanged(address indexed baseToken, uint256 cap);
+
+    /// @notice Emitted when the trader position notional cap of a market is updated.
+    /// @param baseToken The address of the base token
+    /// @param cap Max position notional of a trader, 0 if uncapped
+    event TraderPositionNotionalCapChanged(address indexed baseToken, uint256 cap);
+
     /// @notice Get the pool address (UNIv3 pool) by given base token address
     /// @param baseToken The address of the base token
     /// @return pool The address of the pool
@@ -81,6 +91,22 @@ interface IMarketRegistry {
     /// @return maxOrdersPerMarket The max allowed orders per market
     function getMaxOrdersPerMarket() external view returns (uint8 maxOrdersPerMarket);
 
+    /// @notice Get the open interest cap of a given market
+    /// @dev The notional of the long or the short open interest of the market, valued at the market price after
+    ///      a swap, can't exceed the cap by the swap, see `IAccountBalance.getOpenInterest()`. Liquidators taking over
+    ///      positions are not checked. The swaps increasing positions revert until the open interest is tracked,
+    ///      see `IAccountBalance.isOpenInterestTracked()`
+    /// @param baseToken The address of the base token
+    /// @return cap Max notional of either side of the open interest, in 18 decimals, 0 if uncapped
+    function getOpenInterestCap(address baseToken) external view returns (uint256 cap);
+
+    /// @notice Get the trader position notional cap of a given market
+    /// @dev The taker position notional of a trader, valued at the market price after a swap, can't exceed the cap
+    ///      by the swap. Liquidators taking over positions are not checked
+    /// @param baseToken The address of the base token
+    /// @return cap Max position notional of a trader, in 18 decimals, 0 if uncapped
+    function getTraderPositionNotionalCap(address baseToken) external view returns (uint256 cap);
+
     /// @notice Check if a pool exist by given base token address
     /// @return hasPool True if the pool exist, false otherwise
     function hasPool(address baseToken) external view returns (bool hasPool);
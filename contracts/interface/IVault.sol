@@ -56,6 +56,20 @@ interface IVault {
     /// @param amount Absolute amount of bad debt
     event BadDebtSettled(address indexed trader, uint256 amount);
 
+    /// @notice Emitted when trader transfers collateral between their own sub-accounts
+    /// @param trader The address of trader who owns both sub-accounts
+    /// @param collateralToken The address of token transferred
+    /// @param fromSubAccountId The id of the sub-account transferred from, 0 for the cross margin account
+    /// @param toSubAccountId The id of the sub-account transferred to, 0 for the cross margin account
+    /// @param amount The amount of token transferred
+    event SubAccountTransferred(
+        address indexed trader,
+        address indexed collateralToken,
+        uint256 fromSubAccountId,
+        uint256 toSubAccountId,
+        uint256 amount
+    );
+
     /// @notice Deposit collateral into vault
     /// @param token The address of the token to deposit
     /// @param amount The amount of the token to deposit
@@ -71,6 +85,18 @@ interface IVault {
         uint256 amount
     ) external;
 
+    /// @notice Deposit collateral from the sender into one of its sub-accounts, which registers the sub-account
+    /// @dev `depositFor()` a sub-account address doesn't register it, so its owner can't trade for it until it's
+    ///      registered by this function or `transferBetweenSubAccounts()`
+    /// @param token The address of the token to deposit
+    /// @param subAccountId The id of the sub-account, 0 for the cross margin account
+    /// @param amount The amount of the token to deposit
+    function depositToSubAccount(
+        address token,
+        uint256 subAccountId,
+        uint256 amount
+    ) external;
+
     /// @notice Deposit ETH as collateral into vault
     function depositEther() external payable;
 
@@ -112,10 +138,33 @@ interface IVault {
         bool isDenominatedInSettlementToken
     ) external returns (uint256 returnAmount);
 
+    /// @notice Transfer free collateral between two accounts of the sender, i.e. the cross margin account and
+    ///         the isolated sub-accounts
+    /// @dev A sub-account is an account of its own in Vault, AccountBalance and ClearingHouse, with its own collateral,
+    ///      positions and liquidation, only its owner can trade for it through `ClearingHouse.openPositionFor()`.
+    ///      Sub-accounts are taker-only: they can't provide liquidity, and their positions are closed by reducing
+    ///      trades of `openPositionFor()`, see `scripts/sdk/subAccount.ts`.
+    ///      The collateral of a sub-account is withdrawn by transferring it back to the cross margin account
+    /// @param token The address of the token to transfer
+    /// @param fromSubAccountId The id of the sub-account to transfer from, 0 for the cross margin account
+    /// @param toSubAccountId The id of the sub-account to transfer to, 0 for the cross margin account
+    /// @param amount The amount of the token to transfer
+    function transferBetweenSubAccounts(
+        address token,
+        uint256 fromSubAccountId,
+        uint256 toSubAccountId,
+        uint256 amount
+    ) external;
+
     /// @notice Settle trader's bad debt
     /// @param trader The address of trader that will be settled
     function settleBadDebt(address trader) external;
 
+    /// @notice Get the owner of a sub-account
+    /// @param subAccount The address of the sub-account
+    /// @return trader The address of the owner, 0 if the sub-account is not registered
+    function getSubAccountOwner(address subAccount) external view returns (address trader);
+
     /// @notice Get the specified trader's settlement token balance, without pending fee, funding payment
     ///         and owed realized PnL
     /// @param trader The address of the trader
@@ -153,6 +202,8 @@ interface IVault {
     /// @dev There are three configurations for different insolvency risk tolerances:
     ///      **conservative, moderate &aggressive**. We will start with the **conservative** one
     ///      and gradually move to **aggressive** to increase capital efficiency
+    ///      The ratio applies to all positions as is, see `getFreeCollateralByMarginRequirement` for the
+    ///      margin brackets of `ClearingHouseConfig`
     /// @param trader The address of the trader
     /// @param ratio The margin requirement ratio, imRatio or mmRatio
     /// @return freeCollateralByRatio freeCollateral (in settlement token's decimals), by using the
@@ -162,6 +213,17 @@ interface IVault {
         view
         returns (int256 freeCollateralByRatio);
 
+    /// @notice Get the free collateral amount of the specified trader by the initial or maintenance margin
+    ///         requirement, which is what `ClearingHouse` checks
+    /// @dev The same as `getFreeCollateralByRatio` by imRatio or mmRatio, plus the extra margin of the margin brackets
+    /// @param trader The address of the trader
+    /// @param isInitialMargin True for the initial margin requirement, false for the maintenance margin requirement
+    /// @return freeCollateralByMarginRequirement freeCollateral (in settlement token's decimals); can be negative
+    function getFreeCollateralByMarginRequirement(address trader, bool isInitialMargin)
+        external
+        view
+        returns (int256 freeCollateralByMarginRequirement);
+
     /// @notice Get the free collateral amount of the specified collateral token of specified trader
     /// @param trader The address of the trader
     /// @param token The address of the collateral token
@@ -272,4 +334,10 @@ interface IVault {
     /// @notice Get `WETH9` contract address
     /// @return clearingHouse The address of `WETH9` contract
     function getWETH9() external view returns (address clearingHouse);
+
+    /// @notice Get the address of a sub-account, which is used as the trader address of the sub-account everywhere
+    /// @param trader The address of the trader who owns the sub-account
+    /// @param subAccountId The id of the sub-account, 0 for the cross margin account, i.e. the trader itself
+    /// @return subAccount The address of the sub-account
+    function getSubAccount(address trader, uint256 subAccountId) external pure returns (address subAccount);
 }
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+
+import { SafeMathUpgradeable } from "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import { PerpMath } from "./PerpMath.sol";
+
+library MarginBracket {
+    using SafeMathUpgradeable for uint256;
+    using PerpMath for uint256;
+
+    /// @param positionValue the part of the position value above it requires the ratios of the bracket, in 18 decimals
+    /// @param imRatio initial margin ratio in decimal 6
+    /// @param mmRatio maintenance margin ratio in decimal 6
+    struct Info {
+        uint256 positionValue;
+        uint24 imRatio;
+        uint24 mmRatio;
+    }
+
+    //
+    // INTERNAL VIEW
+    //
+
+    /// @dev the brackets apply progressively like tax brackets, so the margin requirement never jumps:
+    ///      extra = sum((positionValue - bracket.positionValue) * (bracket.ratio - previousBracket.ratio)),
+    ///      for each bracket below positionValue, where the ratio before the first bracket is baseRatio
+    /// @param baseRatio the global imRatio or mmRatio
+    /// @return extraMarginRequirement the margin required beyond positionValue * baseRatio, in 18 decimals
+    function getExtraMarginRequirement(
+        Info[] storage self,
+        uint256 positionValue,
+        bool isInitialMargin,
+        uint24 baseRatio
+    ) internal view returns (uint256 extraMarginRequirement) {
+        uint24 lastRatio = baseRatio;
+        uint256 bracketLen = self.length;
+        for (uint256 i = 0; i < bracketLen; i++) {
+            Info memory bracket = self[i];
+            if (positionValue <= bracket.positionValue) {
+                break;
+            }
+
+            uint24 ratio = isInitialMargin ? bracket.imRatio : bracket.mmRatio;
+            extraMarginRequirement = extraMarginRequirement.add(
+                positionValue.sub(bracket.positionValue).mulRatio(ratio - lastRatio)
+            );
+            lastRatio = ratio;
+        }
+        return extraMarginRequirement;
+    }
+}
@@ -83,6 +83,20 @@ library PerpMath {
         return FullMath.mulDiv(value, 1e6, ratio);
     }
 
+    /// @dev the Babylonian method, rounding down
+    function sqrt(uint256 value) internal pure returns (uint256) {
+        if (value < 4) {
+            return value == 0 ? 0 : 1;
+        }
+        uint256 z = value;
+        uint256 x = value / 2 + 1;
+        while (x < z) {
+            z = x;
+            x = (value / x + x) / 2;
+        }
+        return z;
+    }
+
     /// @param denominator cannot be 0 and is checked in FullMath.mulDiv()
     function mulDiv(
         int256 a,
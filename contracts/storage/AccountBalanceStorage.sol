@@ -21,3 +21,19 @@ abstract contract AccountBalanceStorageV1 {
     // first key: trader, second key: baseToken
     mapping(address => mapping(address => AccountMarket.Info)) internal _accountMarketMap;
 }
+
+abstract contract AccountBalanceStorageV2 is AccountBalanceStorageV1 {
+    // trader => the timestamp the liquidation auction of the trader started at, 0 if not started
+    mapping(address => uint256) internal _liquidationAuctionStartedAtMap;
+}
+
+abstract contract AccountBalanceStorageV3 is AccountBalanceStorageV2 {
+    // baseToken => the sum of the long taker position sizes of the market
+    mapping(address => uint256) internal _longOpenInterestMap;
+
+    // baseToken => the sum of the absolute short taker position sizes of the market
+    mapping(address => uint256) internal _shortOpenInterestMap;
+
+    // baseToken => whether the open interest of the market is tracked, since it's backfilled by setOpenInterest()
+    mapping(address => bool) internal _isOpenInterestTrackedMap;
+}
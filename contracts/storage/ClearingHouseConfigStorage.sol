@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: GPL-3.0-or-later
 pragma solidity 0.7.6;
 
+import { MarginBracket } from "../lib/MarginBracket.sol";
+
 /// @notice For future upgrades, do not change ClearingHouseConfigStorageV1. Create a new
 /// contract which implements ClearingHouseConfigStorageV1 and following the naming convention
 /// ClearingHouseConfigStorageVX.
@@ -27,3 +29,26 @@ abstract contract ClearingHouseConfigStorageV3 is ClearingHouseConfigStorageV2 {
     uint32 internal _markPriceMarketTwapInterval;
     uint32 internal _markPricePremiumInterval;
 }
+
+abstract contract ClearingHouseConfigStorageV4 is ClearingHouseConfigStorageV3 {
+    // key: base token, the liquidation penalty ratio when the liquidation auction starts
+    mapping(address => uint24) internal _liquidationAuctionStartPenaltyRatioMap;
+
+    // key: base token, seconds for the liquidation penalty ratio to rise to _liquidationPenaltyRatio,
+    // 0 means the market liquidates at the fixed _liquidationPenaltyRatio
+    mapping(address => uint32) internal _liquidationAuctionDurationMap;
+}
+
+abstract contract ClearingHouseConfigStorageV5 is ClearingHouseConfigStorageV4 {
+    // key: base token, the margin brackets sorted by position value, empty if only the global ratios apply
+    mapping(address => MarginBracket.Info[]) internal _marginBracketsMap;
+}
+
+abstract contract ClearingHouseConfigStorageV6 is ClearingHouseConfigStorageV5 {
+    // true if the maintenance margin offsets the correlated positions by _marginCorrelationRatioMap
+    bool internal _portfolioMarginEnabled;
+
+    // key: base token, base token; the correlation between the two markets in decimal 6, set in both orders,
+    // 0 means the positions in the two markets never offset each other
+    mapping(address => mapping(address => uint24)) internal _marginCorrelationRatioMap;
+}
@@ -24,3 +24,10 @@ abstract contract ClearingHouseStorageV1 {
 abstract contract ClearingHouseStorageV2 is ClearingHouseStorageV1 {
     address internal _delegateApproval;
 }
+
+abstract contract ClearingHouseStorageV3 is ClearingHouseStorageV2 {
+    // the sender of the ongoing multicall, whose free collateral is checked once at the end of the multicall
+    address internal _multicallSender;
+    // whether a call of the ongoing multicall skipped the imRatio check of the sender, packed with _multicallSender
+    bool internal _isMulticallImCheckSkipped;
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+
+/// @notice For future upgrades, do not change LimitOrderBookStorageV1. Create a new
+/// contract which implements LimitOrderBookStorageV1 and following the naming convention
+/// LimitOrderBookStorageVX.
+abstract contract LimitOrderBookStorageV1 {
+    // --------- IMMUTABLE ---------
+
+    address internal _clearingHouse;
+
+    // --------- ^^^^^^^^^ ---------
+
+    // key: order hash, value: the filled amount, in the same token as LimitOrder.amount
+    mapping(bytes32 => uint256) internal _filledAmountMap;
+
+    // key: order hash
+    mapping(bytes32 => bool) internal _cancelledOrderMap;
+}
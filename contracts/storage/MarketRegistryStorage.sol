@@ -34,3 +34,13 @@ abstract contract MarketRegistryStorageV3 is MarketRegistryStorageV2 {
     // value: discount ratio (percent-off)
     mapping(address => uint24) internal _feeDiscountRatioMap;
 }
+
+abstract contract MarketRegistryStorageV4 is MarketRegistryStorageV3 {
+    // key: base token
+    // value: the max notional of the long or the short open interest of the market, 0 if uncapped
+    mapping(address => uint256) internal _openInterestCapMap;
+
+    // key: base token
+    // value: the max position notional of a trader in the market, 0 if uncapped
+    mapping(address => uint256) internal _traderPositionNotionalCapMap;
+}
@@ -33,3 +33,9 @@ abstract contract VaultStorageV2 is VaultStorageV1 {
     // collateral token registry of each trader
     mapping(address => address[]) internal _collateralTokensMap;
 }
+
+abstract contract VaultStorageV3 is VaultStorageV2 {
+    // sub-account => trader
+    // the owner of each isolated sub-account, registered by the first transfer from or to the sub-account
+    mapping(address => address) internal _subAccountOwnerMap;
+}
@@ -54,6 +54,10 @@ contract TestClearingHouse is ClearingHouse {
         emit DelegateApprovalChanged(delegateApprovalArg);
     }
 
+    function setTrustedForwarderUnsafe(address trustedForwarderArg) external onlyOwner {
+        _setTrustedForwarder(trustedForwarderArg);
+    }
+
     //
     // BELOW WERE LEGACY EXTERNAL FUNCTION, MOVE TO HERE FOR THE TESTING, CAN BE REMOVE LATER ONCE WE CLEAN THE TESTS
     //
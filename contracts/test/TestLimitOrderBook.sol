@@ -13,7 +13,7 @@ contract TestLimitOrderBook {
 
     function openPositionFor(address trader, IClearingHouse.OpenPositionParams memory params) external {
         // NOTE: here we only care about whether a contract can call `ClearingHouse.openPositionFor()` for a trader
-        // for the actual `fillLimitOrder()` logic, see `perp-curie-limit-order-contract` repo
+        // for the actual `fillLimitOrder()` logic, see `LimitOrderBook`
         IClearingHouse(_clearingHouse).openPositionFor(
             trader,
             IClearingHouse.OpenPositionParams({
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+
+import { MerkleProofUpgradeable } from "@openzeppelin/contracts-upgradeable/cryptography/MerkleProofUpgradeable.sol";
+
+contract TestMerkleProof {
+    function testVerifyClaim(
+        bytes32[] memory proof,
+        bytes32 merkleRoot,
+        uint256 index,
+        address account,
+        uint256 amount
+    ) external pure returns (bool) {
+        return MerkleProofUpgradeable.verify(proof, merkleRoot, keccak256(abi.encodePacked(index, account, amount)));
+    }
+}
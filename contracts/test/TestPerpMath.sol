@@ -47,4 +47,8 @@ contract TestPerpMath {
     function testMulRatio(int256 value, uint24 ratio) external pure returns (int256) {
         return value.mulRatio(ratio);
     }
+
+    function testSqrt(uint256 value) external pure returns (uint256) {
+        return value.sqrt();
+    }
 }
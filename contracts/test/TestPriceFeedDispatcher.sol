@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { IPriceFeedDispatcher } from "@perp/perp-oracle-contract/contracts/interface/IPriceFeedDispatcher.sol";
+
+/// @dev a price feed dispatcher with a settable price, for networks where contracts cannot be mocked
+contract TestPriceFeedDispatcher is IPriceFeedDispatcher {
+    uint256 private _price;
+
+    function dispatchPrice(uint256 interval) external override {}
+
+    function setPrice(uint256 price) external {
+        _price = price;
+    }
+
+    function getDispatchedPrice(uint256 interval) external view override returns (uint256) {
+        return _price;
+    }
+
+    function getChainlinkPriceFeedV3() external view override returns (address) {
+        return address(0);
+    }
+
+    function getUniswapV3PriceFeed() external view override returns (address) {
+        return address(0);
+    }
+
+    function decimals() external pure override returns (uint8) {
+        return 18;
+    }
+}
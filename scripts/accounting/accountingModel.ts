@@ -0,0 +1,1217 @@
+import { BigNumber, BigNumberish } from "ethers"
+import {
+    calcLiquidityCoefficientInFundingPaymentByOrder,
+    calcPendingFundingPaymentWithLiquidityCoefficient,
+    clearTick,
+    crossTick,
+    emptyFundingGrowth,
+    FundingGrowth,
+    getAllFundingGrowth,
+    getDeltaTwapX96,
+    getFeeGrowthInsideX128,
+    initializeTick,
+    OpenOrder,
+    TickGrowthMap,
+} from "./funding"
+import {
+    abs,
+    addUint256,
+    DUST,
+    formatSettlementToken,
+    formatSqrtPriceX96ToPriceX96,
+    formatX10_18ToX96,
+    FULLY_CLOSED_RATIO,
+    getAmount0ForLiquidity,
+    getAmount1ForLiquidity,
+    getSqrtRatioAtTick,
+    max,
+    min,
+    MIN_PARTIAL_LIQUIDATE_POSITION_VALUE,
+    mulDiv,
+    mulDivRoundingUp,
+    mulRatio,
+    ONE_ETHER,
+    parseSettlementToken,
+    Q128,
+    Q96,
+    RATIO_ONE,
+    signedMulDiv,
+    subUint256,
+    ZERO,
+} from "./math"
+import { getExtraMarginRequirement, MarginBracket } from "./marginBracket"
+import { getPortfolioPositionValue, PortfolioMarginConfig } from "./portfolioMargin"
+
+// A reference model of the accounting in AccountBalance, Exchange, OrderBook and Vault.
+//
+// The model does not simulate Uniswap: prices, twaps and the outcome of swaps and liquidity changes are fed in by
+// the caller (from a hardhat network, an indexer, or a simulator), and the model derives everything the contracts
+// account for from them - taker balances, funding growth, owed realized pnl, maker fees, free collateral and margin
+// requirements - with the same integer math and rounding as the contracts.
+//
+// Operations mirror the ClearingHouse entry points. When the contracts would revert, the model throws an Error with
+// the same revert reason and leaves its state untouched.
+
+export interface AccountingModelConfig {
+    settlementTokenDecimals: number
+    insuranceFund: string
+    // ClearingHouseConfig
+    imRatio: number
+    mmRatio: number
+    liquidationPenaltyRatio: number
+    maxFundingRate: number
+    twapInterval: number
+    maxMarketsPerAccount: number
+    // ClearingHouseConfig.isPortfolioMarginEnabled() and the margin correlation ratios, none if disabled
+    portfolioMargin?: PortfolioMarginConfig
+}
+
+export interface MarketSnapshot {
+    // Exchange's block timestamp; the paused timestamp if the market is paused
+    timestamp: number
+    // pool slot0
+    sqrtPriceX96: BigNumber
+    tick: number
+    // Exchange.getSqrtMarketTwapX96() over getFundingTwapInterval()
+    sqrtMarketTwapX96: BigNumber
+    // index twap over getFundingTwapInterval(), or the paused index price if the market is paused
+    indexTwap: BigNumber
+    // AccountBalance._getReferencePrice(): mark price if open, closed price if closed, paused index price if paused
+    referencePrice: BigNumber
+}
+
+export interface MarketConfig {
+    insuranceFundFeeRatio: number
+    // ClearingHouseConfig.getMarginBrackets(), none if only the global ratios apply
+    marginBrackets?: MarginBracket[]
+}
+
+// AccountMarket.Info
+export interface AccountMarketInfo {
+    takerPositionSize: BigNumber
+    takerOpenNotional: BigNumber
+    lastTwPremiumGrowthGlobalX96: BigNumber
+}
+
+/// @param fee the fee charged in the step, in quote token; steps without liquidity charge no fee
+/// @param liquidity the in-range liquidity of the step
+/// @param crossedTick the initialized tick crossed at the end of the step, if any
+export interface SwapStep {
+    fee: BigNumber
+    liquidity: BigNumber
+    crossedTick?: number
+}
+
+// the outcome of Exchange._swap(); steps are the ones of OrderBook.replaySwap()
+export interface SwapResult {
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    steps: SwapStep[]
+    // pool slot0 after the swap
+    sqrtPriceX96: BigNumber
+    tick: number
+}
+
+// the amounts minted to or burned from the pool
+export interface LiquidityChange {
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumber
+    base: BigNumber
+    quote: BigNumber
+}
+
+export interface OpenPositionResult {
+    fee: BigNumber
+    insuranceFundFee: BigNumber
+    realizedPnl: BigNumber
+    openNotional: BigNumber
+}
+
+export interface LiquidateResult {
+    liquidatedPositionSize: BigNumber
+    liquidatedPositionNotional: BigNumber
+    liquidationPenalty: BigNumber
+    badDebt: BigNumber
+}
+
+export interface PnlAndPendingFee {
+    owedRealizedPnl: BigNumber
+    unrealizedPnl: BigNumber
+    pendingFee: BigNumber
+}
+
+interface MarketState {
+    config: MarketConfig
+    snapshot: MarketSnapshot
+    lastSettledTimestamp: number
+    firstTradedTimestamp: number
+    fundingGrowthGlobal: FundingGrowth
+    feeGrowthGlobalX128: BigNumber
+    tickGrowthMap: TickGrowthMap
+    // pool-wide liquidity referencing each tick, to know when a tick gets initialized or cleared
+    tickLiquidityGross: Map<number, BigNumber>
+}
+
+interface AccountState {
+    baseTokens: string[]
+    accountMarkets: Map<string, AccountMarketInfo>
+    orders: Map<string, OpenOrder[]>
+    owedRealizedPnl: BigNumber
+    // settlement token balance in Vault, in settlement token decimals
+    balance: BigNumber
+    // sum of (collateral value * collateralRatio) of non-settlement collaterals, in 18 decimals
+    nonSettlementTokenValue: BigNumber
+}
+
+function emptyAccountMarketInfo(): AccountMarketInfo {
+    return { takerPositionSize: ZERO, takerOpenNotional: ZERO, lastTwPremiumGrowthGlobalX96: ZERO }
+}
+
+function cloneMarketState(market: MarketState): MarketState {
+    return {
+        ...market,
+        snapshot: { ...market.snapshot },
+        fundingGrowthGlobal: { ...market.fundingGrowthGlobal },
+        tickGrowthMap: new Map(market.tickGrowthMap),
+        tickLiquidityGross: new Map(market.tickLiquidityGross),
+    }
+}
+
+function cloneAccountState(account: AccountState): AccountState {
+    const accountMarkets = new Map<string, AccountMarketInfo>()
+    account.accountMarkets.forEach((info, baseToken) => accountMarkets.set(baseToken, { ...info }))
+    const orders = new Map<string, OpenOrder[]>()
+    account.orders.forEach((openOrders, baseToken) =>
+        orders.set(
+            baseToken,
+            openOrders.map(order => ({ ...order })),
+        ),
+    )
+    return { ...account, baseTokens: [...account.baseTokens], accountMarkets, orders }
+}
+
+export class AccountingModel {
+    readonly config: AccountingModelConfig
+    private _markets = new Map<string, MarketState>()
+    private _accounts = new Map<string, AccountState>()
+
+    constructor(config: AccountingModelConfig) {
+        this.config = config
+    }
+
+    //
+    // MARKET
+    //
+
+    addMarket(baseToken: string, config: MarketConfig, snapshot: MarketSnapshot): void {
+        if (this._markets.has(baseToken)) {
+            throw new Error(`market ${baseToken} already exists`)
+        }
+        this._markets.set(baseToken, {
+            config: { ...config },
+            snapshot: { ...snapshot },
+            lastSettledTimestamp: 0,
+            firstTradedTimestamp: 0,
+            fundingGrowthGlobal: emptyFundingGrowth(),
+            feeGrowthGlobalX128: ZERO,
+            tickGrowthMap: new Map(),
+            tickLiquidityGross: new Map(),
+        })
+    }
+
+    /// @notice Feed the latest pool and price states of a market; must be called before each operation
+    ///         whenever time passes or prices move
+    updateMarket(baseToken: string, snapshot: Partial<MarketSnapshot>): void {
+        const market = this._getMarket(baseToken)
+        market.snapshot = { ...market.snapshot, ...snapshot }
+    }
+
+    setInsuranceFundFeeRatio(baseToken: string, insuranceFundFeeRatio: number): void {
+        this._getMarket(baseToken).config.insuranceFundFeeRatio = insuranceFundFeeRatio
+    }
+
+    setMarginBrackets(baseToken: string, marginBrackets: MarginBracket[]): void {
+        this._getMarket(baseToken).config.marginBrackets = marginBrackets
+    }
+
+    setPortfolioMargin(portfolioMargin: PortfolioMarginConfig): void {
+        this.config.portfolioMargin = portfolioMargin
+    }
+
+    /// @notice The twap interval Exchange uses for funding at the current snapshot timestamp,
+    ///         i.e. the one sqrtMarketTwapX96 and indexTwap of the snapshot should be taken over
+    getFundingTwapInterval(baseToken: string): number {
+        const market = this._getMarket(baseToken)
+        if (market.firstTradedTimestamp === 0) {
+            return 0
+        }
+        return Math.min(this.config.twapInterval, market.snapshot.timestamp - market.firstTradedTimestamp)
+    }
+
+    /// @notice Exchange._getFundingGrowthGlobalAndTwaps()
+    getFundingGrowthGlobal(baseToken: string): FundingGrowth {
+        const market = this._getMarket(baseToken)
+        const { timestamp, sqrtMarketTwapX96, indexTwap, sqrtPriceX96 } = market.snapshot
+        const lastSettledTimestamp = market.lastSettledTimestamp
+        if (timestamp === lastSettledTimestamp || lastSettledTimestamp === 0) {
+            return { ...market.fundingGrowthGlobal }
+        }
+
+        // deltaTwPremium = (marketTwap - indexTwap) * (now - lastSettledTimestamp)
+        const deltaTwPremiumX96 = getDeltaTwapX96(
+            formatSqrtPriceX96ToPriceX96(sqrtMarketTwapX96),
+            formatX10_18ToX96(indexTwap),
+            this.config.maxFundingRate,
+        ).mul(timestamp - lastSettledTimestamp)
+
+        return {
+            twPremiumX96: market.fundingGrowthGlobal.twPremiumX96.add(deltaTwPremiumX96),
+            twPremiumDivBySqrtPriceX96: market.fundingGrowthGlobal.twPremiumDivBySqrtPriceX96.add(
+                signedMulDiv(deltaTwPremiumX96, Q96, sqrtPriceX96),
+            ),
+        }
+    }
+
+    getLastSettledTimestamp(baseToken: string): number {
+        return this._getMarket(baseToken).lastSettledTimestamp
+    }
+
+    getFeeGrowthGlobalX128(baseToken: string): BigNumber {
+        return this._getMarket(baseToken).feeGrowthGlobalX128
+    }
+
+    //
+    // VAULT
+    //
+
+    deposit(trader: string, amount: BigNumberish): void {
+        // V_ZA: Zero amount
+        if (BigNumber.from(amount).lte(0)) {
+            throw new Error("V_ZA")
+        }
+        const account = this._getAccount(trader)
+        account.balance = account.balance.add(amount)
+    }
+
+    withdraw(trader: string, amount: BigNumberish): void {
+        this._transact(() => {
+            // settle all funding payments to owedRealizedPnl; pending fee can be withdrawn but won't be settled
+            this.settleAllFunding(trader)
+
+            // V_NEFC: not enough freeCollateral
+            if (this._getFreeCollateralBySettlementToken(trader).lt(amount)) {
+                throw new Error("V_NEFC")
+            }
+
+            const account = this._getAccount(trader)
+            account.balance = account.balance
+                .sub(amount)
+                .add(formatSettlementToken(account.owedRealizedPnl, this.config.settlementTokenDecimals))
+            account.owedRealizedPnl = ZERO
+        })
+    }
+
+    /// @param value sum of (collateral value * collateralRatio) of the trader's non-settlement collaterals,
+    ///        in 18 decimals
+    setNonSettlementTokenValue(trader: string, value: BigNumberish): void {
+        this._getAccount(trader).nonSettlementTokenValue = BigNumber.from(value)
+    }
+
+    //
+    // CLEARING HOUSE
+    //
+
+    /// @notice ClearingHouse._settleFunding()
+    settleFunding(trader: string, baseToken: string): BigNumber {
+        const market = this._getMarket(baseToken)
+        const fundingGrowthGlobal = this.getFundingGrowthGlobal(baseToken)
+
+        // Exchange._updateFundingGrowth(); the liquidity coefficient is based on cached values,
+        // thus order states have to be updated after it's calculated
+        let liquidityCoefficientInFundingPayment = ZERO
+        for (const order of this._getOrders(trader, baseToken)) {
+            const fundingGrowthRangeInfo = getAllFundingGrowth(
+                market.tickGrowthMap,
+                order.lowerTick,
+                order.upperTick,
+                market.snapshot.tick,
+                fundingGrowthGlobal.twPremiumX96,
+                fundingGrowthGlobal.twPremiumDivBySqrtPriceX96,
+            )
+            liquidityCoefficientInFundingPayment = liquidityCoefficientInFundingPayment.add(
+                calcLiquidityCoefficientInFundingPaymentByOrder(order, fundingGrowthRangeInfo),
+            )
+            order.lastTwPremiumGrowthInsideX96 = fundingGrowthRangeInfo.twPremiumGrowthInsideX96
+            order.lastTwPremiumGrowthBelowX96 = fundingGrowthRangeInfo.twPremiumGrowthBelowX96
+            order.lastTwPremiumDivBySqrtPriceGrowthInsideX96 =
+                fundingGrowthRangeInfo.twPremiumDivBySqrtPriceGrowthInsideX96
+        }
+
+        const accountInfo = this._getAccountMarketInfo(trader, baseToken)
+        const fundingPayment = calcPendingFundingPaymentWithLiquidityCoefficient(
+            this.getBase(trader, baseToken),
+            accountInfo.lastTwPremiumGrowthGlobalX96,
+            fundingGrowthGlobal,
+            liquidityCoefficientInFundingPayment,
+        )
+
+        // update states once per timestamp
+        if (market.snapshot.timestamp !== market.lastSettledTimestamp) {
+            market.lastSettledTimestamp = market.snapshot.timestamp
+            market.fundingGrowthGlobal = { ...fundingGrowthGlobal }
+        }
+
+        this._modifyOwedRealizedPnl(trader, fundingPayment.mul(-1))
+        accountInfo.lastTwPremiumGrowthGlobalX96 = fundingGrowthGlobal.twPremiumX96
+        return fundingPayment
+    }
+
+    settleAllFunding(trader: string): void {
+        for (const baseToken of this.getBaseTokens(trader)) {
+            this.settleFunding(trader, baseToken)
+        }
+    }
+
+    /// @notice ClearingHouse.openPosition()
+    openPosition(trader: string, baseToken: string, swap: SwapResult): OpenPositionResult {
+        return this._transact(() => {
+            this._registerBaseToken(trader, baseToken)
+            this.settleFunding(trader, baseToken)
+
+            const market = this._getMarket(baseToken)
+            const takerPositionSizeBeforeSwap = this.getTakerPositionSize(trader, baseToken)
+            const takerOpenNotionalBeforeSwap = this.getTakerOpenNotional(trader, baseToken)
+
+            // OrderBook.replaySwap()
+            let fee = ZERO
+            let insuranceFundFee = ZERO
+            let feeGrowthGlobalX128 = market.feeGrowthGlobalX128
+            for (const step of swap.steps) {
+                if (step.liquidity.gt(0)) {
+                    const stepInsuranceFundFee = mulDivRoundingUp(
+                        step.fee,
+                        market.config.insuranceFundFeeRatio,
+                        RATIO_ONE,
+                    )
+                    fee = fee.add(step.fee)
+                    insuranceFundFee = insuranceFundFee.add(stepInsuranceFundFee)
+                    feeGrowthGlobalX128 = addUint256(
+                        feeGrowthGlobalX128,
+                        mulDiv(step.fee.sub(stepInsuranceFundFee), Q128, step.liquidity),
+                    )
+                }
+                if (step.crossedTick !== undefined) {
+                    crossTick(market.tickGrowthMap, step.crossedTick, {
+                        feeX128: feeGrowthGlobalX128,
+                        ...market.fundingGrowthGlobal,
+                    })
+                }
+            }
+            market.feeGrowthGlobalX128 = feeGrowthGlobalX128
+            market.snapshot.sqrtPriceX96 = swap.sqrtPriceX96
+            market.snapshot.tick = swap.tick
+            if (market.firstTradedTimestamp === 0) {
+                market.firstTradedTimestamp = market.snapshot.timestamp
+            }
+
+            const quote = swap.exchangedPositionNotional.sub(fee)
+            const isBaseToQuote = swap.exchangedPositionSize.lt(0)
+            // when takerPositionSize < 0, it's a short position
+            const isReducingPosition =
+                !takerPositionSizeBeforeSwap.isZero() && takerPositionSizeBeforeSwap.lt(0) !== isBaseToQuote
+            const realizedPnl = isReducingPosition
+                ? this._getPnlToBeRealized(
+                      takerPositionSizeBeforeSwap,
+                      takerOpenNotionalBeforeSwap,
+                      swap.exchangedPositionSize,
+                      quote,
+                  )
+                : ZERO
+
+            this._modifyOwedRealizedPnl(this.config.insuranceFund, insuranceFundFee)
+            this._settleBalanceAndDeregister(trader, baseToken, swap.exchangedPositionSize, quote, realizedPnl, ZERO)
+
+            const takerPositionSizeAfterSwap = this.getTakerPositionSize(trader, baseToken)
+            const hasBecameInversePosition =
+                !takerPositionSizeBeforeSwap.isZero() &&
+                !takerPositionSizeAfterSwap.isZero() &&
+                takerPositionSizeBeforeSwap.lt(0) !== takerPositionSizeAfterSwap.lt(0)
+            if (isReducingPosition && !hasBecameInversePosition) {
+                // CH_NEFCM: not enough free collateral by mmRatio
+                if (this._getFreeCollateralByMarginRequirement(trader, false).lt(0)) {
+                    throw new Error("CH_NEFCM")
+                }
+            } else {
+                this._requireEnoughFreeCollateral(trader)
+            }
+
+            return {
+                fee,
+                insuranceFundFee,
+                realizedPnl,
+                openNotional: this.getTakerOpenNotional(trader, baseToken),
+            }
+        })
+    }
+
+    /// @notice ClearingHouse.addLiquidity()
+    /// @return fee the fee collected from the existing order
+    addLiquidity(trader: string, baseToken: string, change: LiquidityChange): BigNumber {
+        return this._transact(() => {
+            this._registerBaseToken(trader, baseToken)
+            this.settleFunding(trader, baseToken)
+            // funding growth is up-to-date after settlement
+            const fundingGrowthGlobal = this.getFundingGrowthGlobal(baseToken)
+
+            const market = this._getMarket(baseToken)
+            const currentTick = market.snapshot.tick
+            for (const tick of [change.lowerTick, change.upperTick]) {
+                const liquidityGross = market.tickLiquidityGross.get(tick) || ZERO
+                if (liquidityGross.isZero() && change.liquidity.gt(0)) {
+                    initializeTick(market.tickGrowthMap, tick, currentTick, {
+                        feeX128: market.feeGrowthGlobalX128,
+                        ...fundingGrowthGlobal,
+                    })
+                }
+                market.tickLiquidityGross.set(tick, liquidityGross.add(change.liquidity))
+            }
+
+            // OrderBook._addLiquidityToOrder()
+            const orders = this._getOrders(trader, baseToken)
+            let order = orders.find(o => o.lowerTick === change.lowerTick && o.upperTick === change.upperTick)
+            if (!order) {
+                const fundingGrowthRangeInfo = getAllFundingGrowth(
+                    market.tickGrowthMap,
+                    change.lowerTick,
+                    change.upperTick,
+                    currentTick,
+                    fundingGrowthGlobal.twPremiumX96,
+                    fundingGrowthGlobal.twPremiumDivBySqrtPriceX96,
+                )
+                order = {
+                    liquidity: ZERO,
+                    lowerTick: change.lowerTick,
+                    upperTick: change.upperTick,
+                    lastFeeGrowthInsideX128: ZERO,
+                    lastTwPremiumGrowthInsideX96: fundingGrowthRangeInfo.twPremiumGrowthInsideX96,
+                    lastTwPremiumGrowthBelowX96: fundingGrowthRangeInfo.twPremiumGrowthBelowX96,
+                    lastTwPremiumDivBySqrtPriceGrowthInsideX96:
+                        fundingGrowthRangeInfo.twPremiumDivBySqrtPriceGrowthInsideX96,
+                    baseDebt: ZERO,
+                    quoteDebt: ZERO,
+                }
+                orders.push(order)
+                this._getAccount(trader).orders.set(baseToken, orders)
+            }
+
+            // fees accrued have to be settled before more liquidity is added
+            const [fee, feeGrowthInsideX128] = this._getPendingFeeAndFeeGrowthInsideX128(baseToken, order)
+            order.liquidity = order.liquidity.add(change.liquidity)
+            order.lastFeeGrowthInsideX128 = feeGrowthInsideX128
+            order.baseDebt = order.baseDebt.add(change.base)
+            order.quoteDebt = order.quoteDebt.add(change.quote)
+
+            this._modifyOwedRealizedPnl(trader, fee)
+            this._requireEnoughFreeCollateral(trader)
+            return fee
+        })
+    }
+
+    /// @notice ClearingHouse.removeLiquidity()
+    /// @return fee the fee collected from the order
+    removeLiquidity(trader: string, baseToken: string, change: LiquidityChange): BigNumber {
+        return this._transact(() => {
+            this.settleFunding(trader, baseToken)
+
+            const market = this._getMarket(baseToken)
+            const orders = this._getOrders(trader, baseToken)
+            const index = orders.findIndex(o => o.lowerTick === change.lowerTick && o.upperTick === change.upperTick)
+            const order = orders[index]
+            // liquidity underflows in UniswapV3Pool._modifyPosition()
+            if (!order || order.liquidity.lt(change.liquidity)) {
+                throw new Error("LS")
+            }
+
+            // OrderBook._removeLiquidityFromOrder()
+            const [fee, feeGrowthInsideX128] = this._getPendingFeeAndFeeGrowthInsideX128(baseToken, order)
+            let baseDebt = ZERO
+            let quoteDebt = ZERO
+            if (!change.liquidity.isZero()) {
+                baseDebt = mulDiv(order.baseDebt, change.liquidity, order.liquidity)
+                quoteDebt = mulDiv(order.quoteDebt, change.liquidity, order.liquidity)
+                order.baseDebt = order.baseDebt.sub(baseDebt)
+                order.quoteDebt = order.quoteDebt.sub(quoteDebt)
+                order.liquidity = order.liquidity.sub(change.liquidity)
+            }
+            if (order.liquidity.isZero()) {
+                // re-order the same way as OrderBook._removeOrder()
+                orders[index] = orders[orders.length - 1]
+                orders.pop()
+            } else {
+                order.lastFeeGrowthInsideX128 = feeGrowthInsideX128
+            }
+
+            // if flipped from initialized to uninitialized, clear the tick info
+            for (const tick of [change.lowerTick, change.upperTick]) {
+                const liquidityGross = (market.tickLiquidityGross.get(tick) || ZERO).sub(change.liquidity)
+                if (liquidityGross.isZero()) {
+                    market.tickLiquidityGross.delete(tick)
+                    clearTick(market.tickGrowthMap, tick)
+                } else {
+                    market.tickLiquidityGross.set(tick, liquidityGross)
+                }
+            }
+
+            this._modifyPositionAndRealizePnl(
+                trader,
+                baseToken,
+                change.base.sub(baseDebt),
+                change.quote.sub(quoteDebt),
+                fee,
+            )
+            return fee
+        })
+    }
+
+    /// @notice ClearingHouse.liquidate()
+    /// @param positionSizeToBeLiquidated zero to liquidate as much as possible
+    liquidate(
+        liquidator: string,
+        trader: string,
+        baseToken: string,
+        positionSizeToBeLiquidated: BigNumberish = 0,
+    ): LiquidateResult {
+        return this._transact(() => {
+            // CH_CLWTISO: cannot liquidate when there is still order
+            if (this.hasOrder(trader)) {
+                throw new Error("CH_CLWTISO")
+            }
+            // CH_EAV: enough account value
+            if (this._getClearingHouseAccountValue(trader).gte(this.getMarginRequirementForLiquidation(trader))) {
+                throw new Error("CH_EAV")
+            }
+            const positionSize = this.getTakerPositionSize(trader, baseToken)
+            // CH_PSZ: position size is zero
+            if (positionSize.isZero()) {
+                throw new Error("CH_PSZ")
+            }
+            // CH_WLD: wrong liquidation direction
+            if (positionSize.mul(positionSizeToBeLiquidated).lt(0)) {
+                throw new Error("CH_WLD")
+            }
+
+            this._registerBaseToken(liquidator, baseToken)
+            this.settleFunding(trader, baseToken)
+            this.settleFunding(liquidator, baseToken)
+
+            const accountValue = this._getClearingHouseAccountValue(trader)
+
+            // trader's position is closed at mark price and pnl realized
+            const maxLiquidatablePositionSize = this.getLiquidatablePositionSize(trader, baseToken, accountValue)
+            let sizeToBeLiquidated = BigNumber.from(positionSizeToBeLiquidated)
+            if (abs(sizeToBeLiquidated).gt(abs(maxLiquidatablePositionSize)) || sizeToBeLiquidated.isZero()) {
+                sizeToBeLiquidated = maxLiquidatablePositionSize
+            }
+            const liquidatedPositionSize = sizeToBeLiquidated.mul(-1)
+            const liquidatedPositionNotional = signedMulDiv(
+                sizeToBeLiquidated,
+                this._getMarket(baseToken).snapshot.referencePrice,
+                ONE_ETHER,
+            )
+            this._modifyPositionAndRealizePnl(
+                trader,
+                baseToken,
+                liquidatedPositionSize,
+                liquidatedPositionNotional,
+                ZERO,
+            )
+
+            // trader pays liquidation penalty
+            const liquidationPenalty = mulRatio(abs(liquidatedPositionNotional), this.config.liquidationPenaltyRatio)
+            this._modifyOwedRealizedPnl(trader, liquidationPenalty.mul(-1))
+
+            // if there is bad debt, liquidation fees all go to liquidator; otherwise, split between liquidator & IF
+            let liquidationFeeToLiquidator = liquidationPenalty.div(2)
+            if (accountValue.lt(0)) {
+                liquidationFeeToLiquidator = liquidationPenalty
+            } else {
+                this._modifyOwedRealizedPnl(
+                    this.config.insuranceFund,
+                    liquidationPenalty.sub(liquidationFeeToLiquidator),
+                )
+            }
+
+            // liquidator opens a position with liquidationFeeToLiquidator as a discount
+            this._modifyPositionAndRealizePnl(
+                liquidator,
+                baseToken,
+                liquidatedPositionSize.mul(-1),
+                liquidatedPositionNotional.mul(-1).add(liquidationFeeToLiquidator),
+                ZERO,
+            )
+            this._requireEnoughFreeCollateral(liquidator)
+
+            return {
+                liquidatedPositionSize,
+                liquidatedPositionNotional,
+                liquidationPenalty,
+                badDebt: this._settleBadDebt(trader),
+            }
+        })
+    }
+
+    //
+    // ACCOUNT BALANCE
+    //
+
+    getBaseTokens(trader: string): string[] {
+        return [...this._getAccount(trader).baseTokens]
+    }
+
+    getAccountInfo(trader: string, baseToken: string): AccountMarketInfo {
+        return { ...(this._getAccount(trader).accountMarkets.get(baseToken) || emptyAccountMarketInfo()) }
+    }
+
+    getOwedRealizedPnl(trader: string): BigNumber {
+        return this._getAccount(trader).owedRealizedPnl
+    }
+
+    getTakerPositionSize(trader: string, baseToken: string): BigNumber {
+        const positionSize = this.getAccountInfo(trader, baseToken).takerPositionSize
+        return abs(positionSize).lt(DUST) ? ZERO : positionSize
+    }
+
+    getTakerOpenNotional(trader: string, baseToken: string): BigNumber {
+        return this.getAccountInfo(trader, baseToken).takerOpenNotional
+    }
+
+    getBase(trader: string, baseToken: string): BigNumber {
+        return this.getAccountInfo(trader, baseToken).takerPositionSize.sub(
+            this.getTotalOrderDebt(trader, baseToken, true),
+        )
+    }
+
+    getQuote(trader: string, baseToken: string): BigNumber {
+        return this.getAccountInfo(trader, baseToken).takerOpenNotional.sub(
+            this.getTotalOrderDebt(trader, baseToken, false),
+        )
+    }
+
+    getTotalPositionSize(trader: string, baseToken: string): BigNumber {
+        const makerBaseBalance = this.getTotalTokenAmountInPool(trader, baseToken, true).sub(
+            this.getTotalOrderDebt(trader, baseToken, true),
+        )
+        const totalPositionSize = makerBaseBalance.add(this.getAccountInfo(trader, baseToken).takerPositionSize)
+        return abs(totalPositionSize).lt(DUST) ? ZERO : totalPositionSize
+    }
+
+    getTotalPositionValue(trader: string, baseToken: string): BigNumber {
+        return this._getPositionValue(baseToken, this.getTotalPositionSize(trader, baseToken))
+    }
+
+    getTotalAbsPositionValue(trader: string): BigNumber {
+        return this._getAccount(trader).baseTokens.reduce(
+            (total, baseToken) => total.add(abs(this.getTotalPositionValue(trader, baseToken))),
+            ZERO,
+        )
+    }
+
+    getTotalOpenNotional(trader: string, baseToken: string): BigNumber {
+        return this.getTotalTokenAmountInPool(trader, baseToken, false).add(this.getQuote(trader, baseToken))
+    }
+
+    getMarginRequirementForLiquidation(trader: string): BigNumber {
+        return mulRatio(this.getTotalPortfolioPositionValue(trader), this.config.mmRatio).add(
+            this.getExtraMarginRequirement(trader, false),
+        )
+    }
+
+    getTotalPortfolioPositionValue(trader: string): BigNumber {
+        return getPortfolioPositionValue(
+            this.config.portfolioMargin || { enabled: false, correlations: [] },
+            this._getAccount(trader).baseTokens.map(baseToken => ({
+                baseToken,
+                positionValue: this.getTotalPositionValue(trader, baseToken),
+            })),
+        )
+    }
+
+    getExtraMarginRequirement(trader: string, isInitialMargin: boolean): BigNumber {
+        const baseRatio = isInitialMargin ? this.config.imRatio : this.config.mmRatio
+        return this._getAccount(trader).baseTokens.reduce(
+            (total, baseToken) =>
+                total.add(
+                    getExtraMarginRequirement(
+                        this._getMarket(baseToken).config.marginBrackets || [],
+                        abs(this.getTotalPositionValue(trader, baseToken)),
+                        isInitialMargin,
+                        baseRatio,
+                    ),
+                ),
+            ZERO,
+        )
+    }
+
+    getTotalDebtValue(trader: string): BigNumber {
+        let totalQuoteBalance = ZERO
+        let totalBaseDebtValue = ZERO
+        for (const baseToken of this._getAccount(trader).baseTokens) {
+            const baseBalance = this.getBase(trader, baseToken)
+            // baseDebt = baseBalance when it's negative
+            if (baseBalance.lt(0)) {
+                totalBaseDebtValue = totalBaseDebtValue.add(
+                    signedMulDiv(baseBalance, this._getMarket(baseToken).snapshot.referencePrice, ONE_ETHER),
+                )
+            }
+            totalQuoteBalance = totalQuoteBalance.add(this.getQuote(trader, baseToken))
+        }
+        const totalQuoteDebtValue = totalQuoteBalance.gte(0) ? ZERO : totalQuoteBalance
+        return abs(totalQuoteDebtValue.add(totalBaseDebtValue))
+    }
+
+    getPnlAndPendingFee(trader: string): PnlAndPendingFee {
+        const account = this._getAccount(trader)
+        let totalPositionValue = ZERO
+        let netQuoteBalance = ZERO
+        let pendingFee = ZERO
+        for (const baseToken of account.baseTokens) {
+            totalPositionValue = totalPositionValue.add(this.getTotalPositionValue(trader, baseToken))
+            netQuoteBalance = netQuoteBalance
+                .add(this.getAccountInfo(trader, baseToken).takerOpenNotional)
+                .add(this.getTotalTokenAmountInPool(trader, baseToken, false))
+                .sub(this.getTotalOrderDebt(trader, baseToken, false))
+            pendingFee = pendingFee.add(this.getPendingFee(trader, baseToken))
+        }
+        return {
+            owedRealizedPnl: account.owedRealizedPnl,
+            unrealizedPnl: totalPositionValue.add(netQuoteBalance),
+            pendingFee,
+        }
+    }
+
+    getLiquidatablePositionSize(trader: string, baseToken: string, accountValue: BigNumber): BigNumber {
+        const marginRequirement = this.getMarginRequirementForLiquidation(trader)
+        const positionSize = this.getTotalPositionSize(trader, baseToken)
+
+        // No liquidatable position
+        if (accountValue.gte(marginRequirement) || positionSize.isZero()) {
+            return ZERO
+        }
+
+        // Liquidate the entire position if its value is small enough
+        const positionValueAbs = abs(this._getPositionValue(baseToken, positionSize))
+        if (positionValueAbs.lte(MIN_PARTIAL_LIQUIDATE_POSITION_VALUE)) {
+            return positionSize
+        }
+
+        // only partial liquidation is allowed if margin ratio >= mmRatio / 2
+        let maxLiquidateRatio = RATIO_ONE
+        if (accountValue.gte(marginRequirement.div(2))) {
+            maxLiquidateRatio = min(
+                mulDiv(this.getTotalAbsPositionValue(trader), RATIO_ONE, positionValueAbs.mul(2)),
+                BigNumber.from(RATIO_ONE),
+            ).toNumber()
+        }
+        return positionSize.mul(maxLiquidateRatio).div(RATIO_ONE)
+    }
+
+    //
+    // ORDER BOOK
+    //
+
+    hasOrder(trader: string): boolean {
+        return this._getAccount(trader).baseTokens.some(baseToken => this._getOrders(trader, baseToken).length > 0)
+    }
+
+    getOpenOrder(trader: string, baseToken: string, lowerTick: number, upperTick: number): OpenOrder | undefined {
+        const order = this._getOrders(trader, baseToken).find(
+            o => o.lowerTick === lowerTick && o.upperTick === upperTick,
+        )
+        return order && { ...order }
+    }
+
+    getTotalOrderDebt(trader: string, baseToken: string, fetchBase: boolean): BigNumber {
+        return this._getOrders(trader, baseToken).reduce(
+            (total, order) => total.add(fetchBase ? order.baseDebt : order.quoteDebt),
+            ZERO,
+        )
+    }
+
+    getTotalTokenAmountInPool(trader: string, baseToken: string, fetchBase: boolean): BigNumber {
+        const sqrtMarkPriceX96 = this._getMarket(baseToken).snapshot.sqrtPriceX96
+        let tokenAmount = ZERO
+        for (const order of this._getOrders(trader, baseToken)) {
+            const sqrtPriceAtLowerTick = getSqrtRatioAtTick(order.lowerTick)
+            const sqrtPriceAtUpperTick = getSqrtRatioAtTick(order.upperTick)
+            if (fetchBase && sqrtMarkPriceX96.lt(sqrtPriceAtUpperTick)) {
+                tokenAmount = tokenAmount.add(
+                    getAmount0ForLiquidity(
+                        max(sqrtMarkPriceX96, sqrtPriceAtLowerTick),
+                        sqrtPriceAtUpperTick,
+                        order.liquidity,
+                    ),
+                )
+            } else if (!fetchBase && sqrtMarkPriceX96.gt(sqrtPriceAtLowerTick)) {
+                tokenAmount = tokenAmount.add(
+                    getAmount1ForLiquidity(
+                        sqrtPriceAtLowerTick,
+                        min(sqrtMarkPriceX96, sqrtPriceAtUpperTick),
+                        order.liquidity,
+                    ),
+                )
+            }
+        }
+        return tokenAmount
+    }
+
+    getPendingFee(trader: string, baseToken: string): BigNumber {
+        return this._getOrders(trader, baseToken).reduce(
+            (total, order) => total.add(this._getPendingFeeAndFeeGrowthInsideX128(baseToken, order)[0]),
+            ZERO,
+        )
+    }
+
+    //
+    // EXCHANGE
+    //
+
+    getPendingFundingPayment(trader: string, baseToken: string): BigNumber {
+        const market = this._getMarket(baseToken)
+        const fundingGrowthGlobal = this.getFundingGrowthGlobal(baseToken)
+        const liquidityCoefficientInFundingPayment = this._getOrders(trader, baseToken).reduce(
+            (total, order) =>
+                total.add(
+                    calcLiquidityCoefficientInFundingPaymentByOrder(
+                        order,
+                        getAllFundingGrowth(
+                            market.tickGrowthMap,
+                            order.lowerTick,
+                            order.upperTick,
+                            market.snapshot.tick,
+                            fundingGrowthGlobal.twPremiumX96,
+                            fundingGrowthGlobal.twPremiumDivBySqrtPriceX96,
+                        ),
+                    ),
+                ),
+            ZERO,
+        )
+        return calcPendingFundingPaymentWithLiquidityCoefficient(
+            this.getBase(trader, baseToken),
+            this.getAccountInfo(trader, baseToken).lastTwPremiumGrowthGlobalX96,
+            fundingGrowthGlobal,
+            liquidityCoefficientInFundingPayment,
+        )
+    }
+
+    getAllPendingFundingPayment(trader: string): BigNumber {
+        return this._getAccount(trader).baseTokens.reduce(
+            (total, baseToken) => total.add(this.getPendingFundingPayment(trader, baseToken)),
+            ZERO,
+        )
+    }
+
+    //
+    // VAULT VIEW; values are in settlement token decimals as Vault's getters
+    //
+
+    getBalance(trader: string): BigNumber {
+        return this._getAccount(trader).balance
+    }
+
+    getSettlementTokenValue(trader: string): BigNumber {
+        return formatSettlementToken(this._getSettlementTokenValue(trader), this.config.settlementTokenDecimals)
+    }
+
+    getAccountValue(trader: string): BigNumber {
+        return formatSettlementToken(this._getAccountValue(trader), this.config.settlementTokenDecimals)
+    }
+
+    getFreeCollateral(trader: string): BigNumber {
+        return formatSettlementToken(
+            max(this._getFreeCollateralByMarginRequirement(trader, true), ZERO),
+            this.config.settlementTokenDecimals,
+        )
+    }
+
+    getFreeCollateralByRatio(trader: string, ratio: number): BigNumber {
+        return formatSettlementToken(this._getFreeCollateralByRatio(trader, ratio), this.config.settlementTokenDecimals)
+    }
+
+    getFreeCollateralByMarginRequirement(trader: string, isInitialMargin: boolean): BigNumber {
+        return formatSettlementToken(
+            this._getFreeCollateralByMarginRequirement(trader, isInitialMargin),
+            this.config.settlementTokenDecimals,
+        )
+    }
+
+    //
+    // INTERNAL
+    //
+
+    private _transact<T>(action: () => T): T {
+        const markets = new Map<string, MarketState>()
+        this._markets.forEach((market, baseToken) => markets.set(baseToken, cloneMarketState(market)))
+        const accounts = new Map<string, AccountState>()
+        this._accounts.forEach((account, trader) => accounts.set(trader, cloneAccountState(account)))
+
+        try {
+            return action()
+        } catch (err) {
+            this._markets = markets
+            this._accounts = accounts
+            throw err
+        }
+    }
+
+    private _getMarket(baseToken: string): MarketState {
+        const market = this._markets.get(baseToken)
+        if (!market) {
+            throw new Error(`market ${baseToken} does not exist`)
+        }
+        return market
+    }
+
+    private _getAccount(trader: string): AccountState {
+        let account = this._accounts.get(trader)
+        if (!account) {
+            account = {
+                baseTokens: [],
+                accountMarkets: new Map(),
+                orders: new Map(),
+                owedRealizedPnl: ZERO,
+                balance: ZERO,
+                nonSettlementTokenValue: ZERO,
+            }
+            this._accounts.set(trader, account)
+        }
+        return account
+    }
+
+    private _getAccountMarketInfo(trader: string, baseToken: string): AccountMarketInfo {
+        const accountMarkets = this._getAccount(trader).accountMarkets
+        let info = accountMarkets.get(baseToken)
+        if (!info) {
+            info = emptyAccountMarketInfo()
+            accountMarkets.set(baseToken, info)
+        }
+        return info
+    }
+
+    private _getOrders(trader: string, baseToken: string): OpenOrder[] {
+        return this._getAccount(trader).orders.get(baseToken) || []
+    }
+
+    private _registerBaseToken(trader: string, baseToken: string): void {
+        this._getMarket(baseToken)
+        const baseTokens = this._getAccount(trader).baseTokens
+        if (baseTokens.includes(baseToken)) {
+            return
+        }
+        baseTokens.push(baseToken)
+        // AB_MNE: markets number exceeds
+        if (baseTokens.length > this.config.maxMarketsPerAccount) {
+            throw new Error("AB_MNE")
+        }
+    }
+
+    private _modifyOwedRealizedPnl(trader: string, amount: BigNumber): void {
+        const account = this._getAccount(trader)
+        account.owedRealizedPnl = account.owedRealizedPnl.add(amount)
+    }
+
+    /// @notice AccountBalance.settleBalanceAndDeregister()
+    private _settleBalanceAndDeregister(
+        trader: string,
+        baseToken: string,
+        takerBase: BigNumber,
+        takerQuote: BigNumber,
+        realizedPnl: BigNumber,
+        makerFee: BigNumber,
+    ): void {
+        const info = this._getAccountMarketInfo(trader, baseToken)
+        info.takerPositionSize = info.takerPositionSize.add(takerBase)
+        info.takerOpenNotional = info.takerOpenNotional.add(takerQuote)
+        this._modifyOwedRealizedPnl(trader, makerFee)
+
+        // settle quote to owed realized pnl
+        info.takerOpenNotional = info.takerOpenNotional.sub(realizedPnl)
+        this._modifyOwedRealizedPnl(trader, realizedPnl)
+
+        // deregister base token if there is no position nor order
+        if (abs(info.takerPositionSize).gte(DUST) || abs(info.takerOpenNotional).gte(DUST)) {
+            return
+        }
+        if (this._getOrders(trader, baseToken).length > 0) {
+            return
+        }
+        const account = this._getAccount(trader)
+        account.accountMarkets.delete(baseToken)
+        account.orders.delete(baseToken)
+        const index = account.baseTokens.indexOf(baseToken)
+        if (index !== -1) {
+            // the same re-ordering as AccountBalance._deleteBaseToken()
+            account.baseTokens[index] = account.baseTokens[account.baseTokens.length - 1]
+            account.baseTokens.pop()
+        }
+    }
+
+    /// @notice ClearingHouse._modifyPositionAndRealizePnl()
+    private _modifyPositionAndRealizePnl(
+        trader: string,
+        baseToken: string,
+        exchangedPositionSize: BigNumber,
+        exchangedPositionNotional: BigNumber,
+        makerFee: BigNumber,
+    ): void {
+        let realizedPnl = ZERO
+        if (!exchangedPositionSize.isZero()) {
+            // Exchange.getPnlToBeRealized() reads the raw taker position without the dust filter
+            const info = this.getAccountInfo(trader, baseToken)
+            const isReducingPosition =
+                !info.takerPositionSize.isZero() && info.takerPositionSize.lt(0) !== exchangedPositionSize.lt(0)
+            if (isReducingPosition) {
+                realizedPnl = this._getPnlToBeRealized(
+                    info.takerPositionSize,
+                    info.takerOpenNotional,
+                    exchangedPositionSize,
+                    exchangedPositionNotional,
+                )
+            }
+        }
+        this._settleBalanceAndDeregister(
+            trader,
+            baseToken,
+            exchangedPositionSize,
+            exchangedPositionNotional,
+            realizedPnl,
+            makerFee,
+        )
+    }
+
+    /// @notice Exchange._getPnlToBeRealized()
+    private _getPnlToBeRealized(
+        takerPositionSize: BigNumber,
+        takerOpenNotional: BigNumber,
+        base: BigNumber,
+        quote: BigNumber,
+    ): BigNumber {
+        const closedRatio = mulDiv(abs(base), FULLY_CLOSED_RATIO, abs(takerPositionSize))
+
+        // if closedRatio <= 1, it's reducing or closing a position; else, it's opening a larger reverse position
+        if (closedRatio.lte(FULLY_CLOSED_RATIO)) {
+            const reducedOpenNotional = signedMulDiv(takerOpenNotional, closedRatio, FULLY_CLOSED_RATIO)
+            return quote.add(reducedOpenNotional)
+        }
+        const closedPositionNotional = signedMulDiv(quote, FULLY_CLOSED_RATIO, closedRatio)
+        return takerOpenNotional.add(closedPositionNotional)
+    }
+
+    /// @notice OrderBook._getPendingFeeAndFeeGrowthInsideX128ByOrder()
+    private _getPendingFeeAndFeeGrowthInsideX128(baseToken: string, order: OpenOrder): [BigNumber, BigNumber] {
+        const market = this._getMarket(baseToken)
+        const feeGrowthInsideX128 = getFeeGrowthInsideX128(
+            market.tickGrowthMap,
+            order.lowerTick,
+            order.upperTick,
+            market.snapshot.tick,
+            market.feeGrowthGlobalX128,
+        )
+        const pendingFee = mulDiv(subUint256(feeGrowthInsideX128, order.lastFeeGrowthInsideX128), order.liquidity, Q128)
+        return [pendingFee, feeGrowthInsideX128]
+    }
+
+    private _getPositionValue(baseToken: string, positionSize: BigNumber): BigNumber {
+        if (positionSize.isZero()) {
+            return ZERO
+        }
+        return signedMulDiv(positionSize, this._getMarket(baseToken).snapshot.referencePrice, ONE_ETHER)
+    }
+
+    /// @return settlement token balance with pending fee, funding payment and owed realized pnl, in 18 decimals
+    private _getSettlementTokenBalance(trader: string): BigNumber {
+        const { owedRealizedPnl, pendingFee } = this.getPnlAndPendingFee(trader)
+        return parseSettlementToken(this.getBalance(trader), this.config.settlementTokenDecimals).add(
+            pendingFee.sub(this.getAllPendingFundingPayment(trader)).add(owedRealizedPnl),
+        )
+    }
+
+    private _getSettlementTokenValue(trader: string): BigNumber {
+        return this._getSettlementTokenBalance(trader).add(this.getPnlAndPendingFee(trader).unrealizedPnl)
+    }
+
+    private _getTotalCollateralValue(trader: string): BigNumber {
+        return this._getAccount(trader).nonSettlementTokenValue.add(this._getSettlementTokenBalance(trader))
+    }
+
+    private _getAccountValue(trader: string): BigNumber {
+        return this._getTotalCollateralValue(trader).add(this.getPnlAndPendingFee(trader).unrealizedPnl)
+    }
+
+    /// @notice ClearingHouse.getAccountValue(), which loses the precision below settlement token decimals
+    private _getClearingHouseAccountValue(trader: string): BigNumber {
+        return parseSettlementToken(this.getAccountValue(trader), this.config.settlementTokenDecimals)
+    }
+
+    /// @return freeCollateral min(totalCollateralValue, accountValue) - totalDebtValue * ratio, in 18 decimals
+    private _getFreeCollateralByRatio(trader: string, ratio: number): BigNumber {
+        return this._getFreeCollateralByTotalMarginRequirement(trader, mulRatio(this.getTotalDebtValue(trader), ratio))
+    }
+
+    /// @notice Vault._getTotalMarginRequirementWithBrackets(): imRatio or mmRatio plus the extra margin of the brackets
+    private _getFreeCollateralByMarginRequirement(trader: string, isInitialMargin: boolean): BigNumber {
+        const ratio = isInitialMargin ? this.config.imRatio : this.config.mmRatio
+        return this._getFreeCollateralByTotalMarginRequirement(
+            trader,
+            mulRatio(this.getTotalDebtValue(trader), ratio).add(
+                this.getExtraMarginRequirement(trader, isInitialMargin),
+            ),
+        )
+    }
+
+    private _getFreeCollateralByTotalMarginRequirement(trader: string, totalMarginRequirement: BigNumber): BigNumber {
+        return min(this._getTotalCollateralValue(trader), this._getAccountValue(trader)).sub(totalMarginRequirement)
+    }
+
+    /// @notice Vault.getFreeCollateralByToken() for the settlement token, in settlement token decimals
+    private _getFreeCollateralBySettlementToken(trader: string): BigNumber {
+        if (this._getSettlementTokenValue(trader).lt(0)) {
+            return ZERO
+        }
+        const freeCollateral = max(this._getFreeCollateralByMarginRequirement(trader, true), ZERO)
+        const settlementTokenBalance = this._getSettlementTokenBalance(trader)
+        if (freeCollateral.isZero() || settlementTokenBalance.lte(0)) {
+            return ZERO
+        }
+        return formatSettlementToken(min(freeCollateral, settlementTokenBalance), this.config.settlementTokenDecimals)
+    }
+
+    private _requireEnoughFreeCollateral(trader: string): void {
+        // CH_NEFCI: not enough free collateral by imRatio
+        if (this._getFreeCollateralByMarginRequirement(trader, true).lt(0)) {
+            throw new Error("CH_NEFCI")
+        }
+    }
+
+    /// @notice Vault.settleBadDebt()
+    /// @return badDebt the bad debt covered by insurance fund, in settlement token decimals
+    private _settleBadDebt(trader: string): BigNumber {
+        const account = this._getAccount(trader)
+        if (account.baseTokens.length !== 0 || !account.nonSettlementTokenValue.isZero()) {
+            return ZERO
+        }
+
+        const accountValue = formatSettlementToken(
+            this._getSettlementTokenBalance(trader),
+            this.config.settlementTokenDecimals,
+        )
+        if (accountValue.gte(0)) {
+            return ZERO
+        }
+
+        const insuranceFund = this._getAccount(this.config.insuranceFund)
+        insuranceFund.balance = insuranceFund.balance.add(accountValue)
+        account.balance = account.balance.sub(accountValue)
+        return accountValue.mul(-1)
+    }
+}
@@ -0,0 +1,209 @@
+import { BigNumber } from "ethers"
+import {
+    FUNDING_PERIOD,
+    getAmount0ForLiquidity,
+    getSqrtRatioAtTick,
+    mulRatio,
+    Q96,
+    signedMulDiv,
+    subUint256,
+    ZERO,
+} from "./math"
+
+// ports of Funding.sol, Tick.sol and the funding parts of Exchange.sol
+
+// Funding.Growth
+export interface FundingGrowth {
+    twPremiumX96: BigNumber
+    twPremiumDivBySqrtPriceX96: BigNumber
+}
+
+// Tick.GrowthInfo
+export interface TickGrowthInfo {
+    feeX128: BigNumber
+    twPremiumX96: BigNumber
+    twPremiumDivBySqrtPriceX96: BigNumber
+}
+
+// Tick.FundingGrowthRangeInfo
+export interface FundingGrowthRangeInfo {
+    twPremiumGrowthInsideX96: BigNumber
+    twPremiumGrowthBelowX96: BigNumber
+    twPremiumDivBySqrtPriceGrowthInsideX96: BigNumber
+}
+
+// OpenOrder.Info
+export interface OpenOrder {
+    liquidity: BigNumber
+    lowerTick: number
+    upperTick: number
+    lastFeeGrowthInsideX128: BigNumber
+    lastTwPremiumGrowthInsideX96: BigNumber
+    lastTwPremiumGrowthBelowX96: BigNumber
+    lastTwPremiumDivBySqrtPriceGrowthInsideX96: BigNumber
+    baseDebt: BigNumber
+    quoteDebt: BigNumber
+}
+
+export type TickGrowthMap = Map<number, TickGrowthInfo>
+
+export function emptyFundingGrowth(): FundingGrowth {
+    return { twPremiumX96: ZERO, twPremiumDivBySqrtPriceX96: ZERO }
+}
+
+function emptyTickGrowthInfo(): TickGrowthInfo {
+    return { feeX128: ZERO, twPremiumX96: ZERO, twPremiumDivBySqrtPriceX96: ZERO }
+}
+
+function getTickGrowthInfo(tickMap: TickGrowthMap, tick: number): TickGrowthInfo {
+    return tickMap.get(tick) || emptyTickGrowthInfo()
+}
+
+// Funding.calcPendingFundingPaymentWithLiquidityCoefficient
+export function calcPendingFundingPaymentWithLiquidityCoefficient(
+    baseBalance: BigNumber,
+    twPremiumGrowthGlobalX96: BigNumber,
+    fundingGrowthGlobal: FundingGrowth,
+    liquidityCoefficientInFundingPayment: BigNumber,
+): BigNumber {
+    const balanceCoefficientInFundingPayment = signedMulDiv(
+        baseBalance,
+        fundingGrowthGlobal.twPremiumX96.sub(twPremiumGrowthGlobalX96),
+        Q96,
+    )
+    return liquidityCoefficientInFundingPayment.add(balanceCoefficientInFundingPayment).div(FUNDING_PERIOD)
+}
+
+// Funding.calcLiquidityCoefficientInFundingPaymentByOrder
+export function calcLiquidityCoefficientInFundingPaymentByOrder(
+    order: OpenOrder,
+    fundingGrowthRangeInfo: FundingGrowthRangeInfo,
+): BigNumber {
+    const sqrtPriceX96AtUpperTick = getSqrtRatioAtTick(order.upperTick)
+
+    // base amount below the range
+    const baseAmountBelow = getAmount0ForLiquidity(
+        getSqrtRatioAtTick(order.lowerTick),
+        sqrtPriceX96AtUpperTick,
+        order.liquidity,
+    )
+    // funding below the range
+    const fundingBelowX96 = baseAmountBelow.mul(
+        fundingGrowthRangeInfo.twPremiumGrowthBelowX96.sub(order.lastTwPremiumGrowthBelowX96),
+    )
+
+    // funding inside the range =
+    // liquidity * (ΔtwPremiumDivBySqrtPriceGrowthInsideX96 - ΔtwPremiumGrowthInsideX96 / sqrtPriceAtUpperTick)
+    const fundingInsideX96 = order.liquidity.mul(
+        fundingGrowthRangeInfo.twPremiumDivBySqrtPriceGrowthInsideX96
+            .sub(order.lastTwPremiumDivBySqrtPriceGrowthInsideX96)
+            .sub(
+                signedMulDiv(
+                    fundingGrowthRangeInfo.twPremiumGrowthInsideX96.sub(order.lastTwPremiumGrowthInsideX96),
+                    Q96,
+                    sqrtPriceX96AtUpperTick,
+                ),
+            ),
+    )
+
+    return fundingBelowX96.add(fundingInsideX96).div(Q96)
+}
+
+// Exchange._getDeltaTwapX96
+export function getDeltaTwapX96(marketTwapX96: BigNumber, indexTwapX96: BigNumber, maxFundingRate: number): BigNumber {
+    const maxDeltaTwapX96 = mulRatio(indexTwapX96, maxFundingRate)
+    if (marketTwapX96.gt(indexTwapX96)) {
+        const absDeltaTwapX96 = marketTwapX96.sub(indexTwapX96)
+        return absDeltaTwapX96.gt(maxDeltaTwapX96) ? maxDeltaTwapX96 : absDeltaTwapX96
+    }
+    const absDeltaTwapX96 = indexTwapX96.sub(marketTwapX96)
+    return (absDeltaTwapX96.gt(maxDeltaTwapX96) ? maxDeltaTwapX96 : absDeltaTwapX96).mul(-1)
+}
+
+// Tick.initialize; call only when the tick flips from uninitialized to initialized
+export function initializeTick(
+    tickMap: TickGrowthMap,
+    tick: number,
+    currentTick: number,
+    globalGrowthInfo: TickGrowthInfo,
+): void {
+    // per Uniswap: we assume that all growths before a tick is initialized happen "below" the tick
+    if (tick <= currentTick) {
+        tickMap.set(tick, { ...globalGrowthInfo })
+    }
+}
+
+// Tick.cross
+export function crossTick(tickMap: TickGrowthMap, tick: number, globalGrowthInfo: TickGrowthInfo): void {
+    const growthInfo = getTickGrowthInfo(tickMap, tick)
+    tickMap.set(tick, {
+        feeX128: subUint256(globalGrowthInfo.feeX128, growthInfo.feeX128),
+        twPremiumX96: globalGrowthInfo.twPremiumX96.sub(growthInfo.twPremiumX96),
+        twPremiumDivBySqrtPriceX96: globalGrowthInfo.twPremiumDivBySqrtPriceX96.sub(
+            growthInfo.twPremiumDivBySqrtPriceX96,
+        ),
+    })
+}
+
+// Tick.clear
+export function clearTick(tickMap: TickGrowthMap, tick: number): void {
+    tickMap.delete(tick)
+}
+
+// Tick.getFeeGrowthInsideX128; the result can underflow per Tick.feeGrowthOutside specs
+export function getFeeGrowthInsideX128(
+    tickMap: TickGrowthMap,
+    lowerTick: number,
+    upperTick: number,
+    currentTick: number,
+    feeGrowthGlobalX128: BigNumber,
+): BigNumber {
+    const lowerFeeGrowthOutside = getTickGrowthInfo(tickMap, lowerTick).feeX128
+    const upperFeeGrowthOutside = getTickGrowthInfo(tickMap, upperTick).feeX128
+
+    const feeGrowthBelow =
+        currentTick >= lowerTick ? lowerFeeGrowthOutside : subUint256(feeGrowthGlobalX128, lowerFeeGrowthOutside)
+    const feeGrowthAbove =
+        currentTick < upperTick ? upperFeeGrowthOutside : subUint256(feeGrowthGlobalX128, upperFeeGrowthOutside)
+
+    return subUint256(subUint256(feeGrowthGlobalX128, feeGrowthBelow), feeGrowthAbove)
+}
+
+// Tick.getAllFundingGrowth
+export function getAllFundingGrowth(
+    tickMap: TickGrowthMap,
+    lowerTick: number,
+    upperTick: number,
+    currentTick: number,
+    twPremiumGrowthGlobalX96: BigNumber,
+    twPremiumDivBySqrtPriceGrowthGlobalX96: BigNumber,
+): FundingGrowthRangeInfo {
+    const lowerTickGrowthInfo = getTickGrowthInfo(tickMap, lowerTick)
+    const upperTickGrowthInfo = getTickGrowthInfo(tickMap, upperTick)
+
+    const twPremiumGrowthBelowX96 =
+        currentTick >= lowerTick
+            ? lowerTickGrowthInfo.twPremiumX96
+            : twPremiumGrowthGlobalX96.sub(lowerTickGrowthInfo.twPremiumX96)
+    const twPremiumGrowthAboveX96 =
+        currentTick < upperTick
+            ? upperTickGrowthInfo.twPremiumX96
+            : twPremiumGrowthGlobalX96.sub(upperTickGrowthInfo.twPremiumX96)
+
+    const twPremiumDivBySqrtPriceGrowthBelowX96 =
+        currentTick >= lowerTick
+            ? lowerTickGrowthInfo.twPremiumDivBySqrtPriceX96
+            : twPremiumDivBySqrtPriceGrowthGlobalX96.sub(lowerTickGrowthInfo.twPremiumDivBySqrtPriceX96)
+    const twPremiumDivBySqrtPriceGrowthAboveX96 =
+        currentTick < upperTick
+            ? upperTickGrowthInfo.twPremiumDivBySqrtPriceX96
+            : twPremiumDivBySqrtPriceGrowthGlobalX96.sub(upperTickGrowthInfo.twPremiumDivBySqrtPriceX96)
+
+    return {
+        twPremiumGrowthInsideX96: twPremiumGrowthGlobalX96.sub(twPremiumGrowthBelowX96).sub(twPremiumGrowthAboveX96),
+        twPremiumGrowthBelowX96,
+        twPremiumDivBySqrtPriceGrowthInsideX96: twPremiumDivBySqrtPriceGrowthGlobalX96
+            .sub(twPremiumDivBySqrtPriceGrowthBelowX96)
+            .sub(twPremiumDivBySqrtPriceGrowthAboveX96),
+    }
+}
@@ -0,0 +1,134 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulRatio, RATIO_ONE, ZERO } from "./math"
+
+// the margin brackets of a market, mirroring MarginBracket.sol and ClearingHouseConfig.setMarginBrackets():
+// the part of a position value above the position value of a bracket requires the ratios of the bracket, like tax
+// brackets, and the part below the first bracket requires the global imRatio and mmRatio;
+// all position values are absolute and in 18 decimals, all ratios are in decimal 6
+
+// MarginBracket.Info
+export interface MarginBracket {
+    positionValue: BigNumber
+    imRatio: number
+    mmRatio: number
+}
+
+export interface MarginRatios {
+    imRatio: number
+    mmRatio: number
+}
+
+// the same checks and revert reasons as ClearingHouseConfig.setMarginBrackets()
+export function validateMarginBrackets(brackets: MarginBracket[], globalRatios: MarginRatios): void {
+    let last = { positionValue: ZERO, ...globalRatios }
+    brackets.forEach((bracket, i) => {
+        // CHC_RO: ratio overflow
+        if (bracket.imRatio > RATIO_ONE) {
+            throw new Error("CHC_RO")
+        }
+        // CHC_IBPV: invalid bracket position value
+        if (i > 0 && bracket.positionValue.lte(last.positionValue)) {
+            throw new Error("CHC_IBPV")
+        }
+        // CHC_IBR: invalid bracket ratio
+        if (bracket.imRatio < last.imRatio || bracket.mmRatio < last.mmRatio || bracket.mmRatio > bracket.imRatio) {
+            throw new Error("CHC_IBR")
+        }
+        last = bracket
+    })
+}
+
+// the index of the highest bracket a position reaches, -1 if the whole position requires the global ratios
+export function getMarginBracketIndex(brackets: MarginBracket[], positionValue: BigNumberish): number {
+    let index = -1
+    while (index + 1 < brackets.length && brackets[index + 1].positionValue.lt(positionValue)) {
+        index++
+    }
+    return index
+}
+
+// the ratios of the highest bracket a position reaches, which also apply to the next position value it adds
+export function getMarginBracketRatios(
+    brackets: MarginBracket[],
+    positionValue: BigNumberish,
+    globalRatios: MarginRatios,
+): MarginRatios {
+    const index = getMarginBracketIndex(brackets, positionValue)
+    if (index < 0) {
+        return { imRatio: globalRatios.imRatio, mmRatio: globalRatios.mmRatio }
+    }
+    return { imRatio: brackets[index].imRatio, mmRatio: brackets[index].mmRatio }
+}
+
+// MarginBracket.getExtraMarginRequirement(), the margin required beyond positionValue * baseRatio
+export function getExtraMarginRequirement(
+    brackets: MarginBracket[],
+    positionValue: BigNumberish,
+    isInitialMargin: boolean,
+    baseRatio: number,
+): BigNumber {
+    let extraMarginRequirement = ZERO
+    let lastRatio = baseRatio
+    for (const bracket of brackets) {
+        if (bracket.positionValue.gte(positionValue)) {
+            break
+        }
+        const ratio = isInitialMargin ? bracket.imRatio : bracket.mmRatio
+        extraMarginRequirement = extraMarginRequirement.add(
+            mulRatio(BigNumber.from(positionValue).sub(bracket.positionValue), ratio - lastRatio),
+        )
+        lastRatio = ratio
+    }
+    return extraMarginRequirement
+}
+
+// the margin requirement of a single position, rounding like AccountBalance.getMarginRequirementForLiquidation()
+// when isInitialMargin is false
+export function getMarginRequirement(
+    brackets: MarginBracket[],
+    positionValue: BigNumberish,
+    isInitialMargin: boolean,
+    globalRatios: MarginRatios,
+): BigNumber {
+    const baseRatio = isInitialMargin ? globalRatios.imRatio : globalRatios.mmRatio
+    return mulRatio(positionValue, baseRatio).add(
+        getExtraMarginRequirement(brackets, positionValue, isInitialMargin, baseRatio),
+    )
+}
+
+// the largest position value whose initial margin requirement the margin covers
+export function getMaxPositionValue(
+    brackets: MarginBracket[],
+    margin: BigNumberish,
+    globalRatios: MarginRatios,
+): BigNumber {
+    if (BigNumber.from(margin).lte(0)) {
+        return ZERO
+    }
+    const requirementAt = (positionValue: BigNumber) =>
+        getMarginRequirement(brackets, positionValue, true, globalRatios)
+
+    // the bracket the position value ends in, where the requirement rises linearly by the imRatio of the bracket
+    let lower = ZERO
+    let ratio = globalRatios.imRatio
+    for (const bracket of brackets) {
+        if (requirementAt(bracket.positionValue).gt(margin)) {
+            break
+        }
+        lower = bracket.positionValue
+        ratio = bracket.imRatio
+    }
+    if (ratio === 0) {
+        throw new Error("the position value is unbounded without initial margin")
+    }
+
+    // the linear estimate is off by the rounding of each bracket at most
+    let positionValue = lower.add(BigNumber.from(margin).sub(requirementAt(lower)).mul(RATIO_ONE).div(ratio))
+    while (positionValue.gt(0) && requirementAt(positionValue).gt(margin)) {
+        positionValue = positionValue.sub(1)
+    }
+    while (requirementAt(positionValue.add(1)).lte(margin)) {
+        positionValue = positionValue.add(1)
+    }
+    return positionValue
+}
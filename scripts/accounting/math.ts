@@ -0,0 +1,232 @@
+import { BigNumber, BigNumberish } from "ethers"
+
+// integer math mirroring the solidity libraries used by the accounting contracts;
+// every function rounds exactly as its on-chain counterpart so results can be compared wei by wei
+
+export const ZERO = BigNumber.from(0)
+export const ONE_ETHER = BigNumber.from(10).pow(18)
+export const RATIO_ONE = 1e6
+export const Q96 = BigNumber.from(2).pow(96)
+export const Q128 = BigNumber.from(2).pow(128)
+export const UINT256_MAX = BigNumber.from(2).pow(256).sub(1)
+
+// Funding._DEFAULT_FUNDING_PERIOD
+export const FUNDING_PERIOD = 86400
+// AccountBalance._DUST
+export const DUST = 10
+// AccountBalance._MIN_PARTIAL_LIQUIDATE_POSITION_VALUE
+export const MIN_PARTIAL_LIQUIDATE_POSITION_VALUE = ONE_ETHER.mul(100)
+// Exchange._FULLY_CLOSED_RATIO
+export const FULLY_CLOSED_RATIO = ONE_ETHER
+
+export const MIN_TICK = -887272
+export const MAX_TICK = 887272
+
+const TWO_256 = BigNumber.from(2).pow(256)
+
+// FullMath.mulDiv, rounds down
+export function mulDiv(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    return BigNumber.from(a).mul(b).div(denominator)
+}
+
+// FullMath.mulDivRoundingUp
+export function mulDivRoundingUp(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    const product = BigNumber.from(a).mul(b)
+    const result = product.div(denominator)
+    return product.mod(denominator).isZero() ? result : result.add(1)
+}
+
+// PerpMath.mulDiv(int256, int256, uint256), rounds towards zero
+export function signedMulDiv(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    // BigNumber.div truncates towards zero, the same as solidity
+    return BigNumber.from(a).mul(b).div(denominator)
+}
+
+// PerpMath.mulRatio
+export function mulRatio(value: BigNumberish, ratio: number): BigNumber {
+    return BigNumber.from(value).mul(ratio).div(RATIO_ONE)
+}
+
+// PerpMath.divRatio
+export function divRatio(value: BigNumberish, ratio: number): BigNumber {
+    return mulDiv(value, RATIO_ONE, ratio)
+}
+
+// unchecked uint256 subtraction, as used for fee growth that is allowed to underflow
+export function subUint256(a: BigNumberish, b: BigNumberish): BigNumber {
+    return BigNumber.from(a).sub(b).add(TWO_256).mod(TWO_256)
+}
+
+export function addUint256(a: BigNumberish, b: BigNumberish): BigNumber {
+    return BigNumber.from(a).add(b).mod(TWO_256)
+}
+
+export function abs(value: BigNumber): BigNumber {
+    return value.lt(0) ? value.mul(-1) : value
+}
+
+export function min(a: BigNumber, b: BigNumber): BigNumber {
+    return a.lt(b) ? a : b
+}
+
+export function max(a: BigNumber, b: BigNumber): BigNumber {
+    return a.gte(b) ? a : b
+}
+
+// PerpMath.findMedianOfThree
+export function findMedianOfThree(v1: BigNumber, v2: BigNumber, v3: BigNumber): BigNumber {
+    return max(min(v1, v2), min(max(v1, v2), v3))
+}
+
+// PerpMath.formatSqrtPriceX96ToPriceX96
+export function formatSqrtPriceX96ToPriceX96(sqrtPriceX96: BigNumberish): BigNumber {
+    return mulDiv(sqrtPriceX96, sqrtPriceX96, Q96)
+}
+
+// PerpMath.formatX10_18ToX96
+export function formatX10_18ToX96(valueX10_18: BigNumberish): BigNumber {
+    return mulDiv(valueX10_18, Q96, ONE_ETHER)
+}
+
+// PerpMath.formatX96ToX10_18
+export function formatX96ToX10_18(valueX96: BigNumberish): BigNumber {
+    return mulDiv(valueX96, ONE_ETHER, Q96)
+}
+
+// SettlementTokenMath.parseSettlementToken
+export function parseSettlementToken(amount: BigNumberish, decimals: number): BigNumber {
+    return BigNumber.from(amount).mul(BigNumber.from(10).pow(18 - decimals))
+}
+
+// SettlementTokenMath.formatSettlementToken, always rounds down no matter the sign
+export function formatSettlementToken(amount: BigNumberish, decimals: number): BigNumber {
+    const value = BigNumber.from(amount)
+    const denominator = BigNumber.from(10).pow(18 - decimals)
+    const rounding = value.lt(0) && !value.mod(denominator).isZero() ? -1 : 0
+    return value.div(denominator).add(rounding)
+}
+
+const TICK_MATH_RATIOS: [number, string][] = [
+    [0x2, "0xfff97272373d413259a46990580e213a"],
+    [0x4, "0xfff2e50f5f656932ef12357cf3c7fdcc"],
+    [0x8, "0xffe5caca7e10e4e61c3624eaa0941cd0"],
+    [0x10, "0xffcb9843d60f6159c9db58835c926644"],
+    [0x20, "0xff973b41fa98c081472e6896dfb254c0"],
+    [0x40, "0xff2ea16466c96a3843ec78b326b52861"],
+    [0x80, "0xfe5dee046a99a2a811c461f1969c3053"],
+    [0x100, "0xfcbe86c7900a88aedcffc83b479aa3a4"],
+    [0x200, "0xf987a7253ac413176f2b074cf7815e54"],
+    [0x400, "0xf3392b0822b70005940c7a398e4b70f3"],
+    [0x800, "0xe7159475a2c29b7443b29c7fa6e889d9"],
+    [0x1000, "0xd097f3bdfd2022b8845ad8f792aa5825"],
+    [0x2000, "0xa9f746462d870fdf8a65dc1f90e061e5"],
+    [0x4000, "0x70d869a156d2a1b890bb3df62baf32f7"],
+    [0x8000, "0x31be135f97d08fd981231505542fcfa6"],
+    [0x10000, "0x9aa508b5b7a84e1c677de54f3e99bc9"],
+    [0x20000, "0x5d6af8dedb81196699c329225ee604"],
+    [0x40000, "0x2216e584f5fa1ea926041bedfe98"],
+    [0x80000, "0x48a170391f7dc42444e8fa2"],
+]
+
+// TickMath.getSqrtRatioAtTick
+export function getSqrtRatioAtTick(tick: number): BigNumber {
+    const absTick = Math.abs(tick)
+    if (absTick > MAX_TICK) {
+        throw new Error(`tick ${tick} out of range`)
+    }
+
+    let ratio = BigNumber.from(
+        (absTick & 0x1) !== 0 ? "0xfffcb933bd6fad37aa2d162d1a594001" : "0x100000000000000000000000000000000",
+    )
+    for (const [mask, multiplier] of TICK_MATH_RATIOS) {
+        if ((absTick & mask) !== 0) {
+            ratio = ratio.mul(multiplier).shr(128)
+        }
+    }
+    if (tick > 0) {
+        ratio = UINT256_MAX.div(ratio)
+    }
+
+    // round up to go from Q128.128 to Q128.96
+    return ratio.shr(32).add(ratio.mod(BigNumber.from(2).pow(32)).isZero() ? 0 : 1)
+}
+
+// TickMath.getTickAtSqrtRatio, the greatest tick whose sqrt ratio is less than or equal to the input
+export function getTickAtSqrtRatio(sqrtPriceX96: BigNumberish): number {
+    const sqrtPrice = BigNumber.from(sqrtPriceX96)
+    let [lower, upper] = [MIN_TICK, MAX_TICK]
+    while (lower < upper) {
+        const middle = Math.floor((lower + upper + 1) / 2)
+        if (getSqrtRatioAtTick(middle).lte(sqrtPrice)) {
+            lower = middle
+        } else {
+            upper = middle - 1
+        }
+    }
+    return lower
+}
+
+// LiquidityAmounts.getAmount0ForLiquidity
+export function getAmount0ForLiquidity(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    let [sqrtA, sqrtB] = [BigNumber.from(sqrtRatioAX96), BigNumber.from(sqrtRatioBX96)]
+    if (sqrtA.gt(sqrtB)) {
+        ;[sqrtA, sqrtB] = [sqrtB, sqrtA]
+    }
+    return mulDiv(BigNumber.from(liquidity).shl(96), sqrtB.sub(sqrtA), sqrtB).div(sqrtA)
+}
+
+// LiquidityAmounts.getAmount1ForLiquidity
+export function getAmount1ForLiquidity(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    let [sqrtA, sqrtB] = [BigNumber.from(sqrtRatioAX96), BigNumber.from(sqrtRatioBX96)]
+    if (sqrtA.gt(sqrtB)) {
+        ;[sqrtA, sqrtB] = [sqrtB, sqrtA]
+    }
+    return mulDiv(liquidity, sqrtB.sub(sqrtA), Q96)
+}
+
+// LiquidityAmounts.getAmountsForLiquidity(), as OrderBook counts the amounts of an order in the pool
+export function getAmountsForLiquidity(
+    sqrtPriceX96: BigNumber,
+    lowerTick: number,
+    upperTick: number,
+    liquidity: BigNumber,
+): { base: BigNumber; quote: BigNumber } {
+    const sqrtPriceAX96 = getSqrtRatioAtTick(lowerTick)
+    const sqrtPriceBX96 = getSqrtRatioAtTick(upperTick)
+    if (sqrtPriceX96.lte(sqrtPriceAX96)) {
+        return { base: getAmount0ForLiquidity(sqrtPriceAX96, sqrtPriceBX96, liquidity), quote: ZERO }
+    }
+    if (sqrtPriceX96.lt(sqrtPriceBX96)) {
+        return {
+            base: getAmount0ForLiquidity(sqrtPriceX96, sqrtPriceBX96, liquidity),
+            quote: getAmount1ForLiquidity(sqrtPriceAX96, sqrtPriceX96, liquidity),
+        }
+    }
+    return { base: ZERO, quote: getAmount1ForLiquidity(sqrtPriceAX96, sqrtPriceBX96, liquidity) }
+}
+
+// PerpMath.sqrt, the integer square root, rounds down
+export function sqrt(value: BigNumberish): BigNumber {
+    const y = BigNumber.from(value)
+    if (y.lt(0)) {
+        throw new Error(`square root of negative ${y.toString()}`)
+    }
+    if (y.lt(4)) {
+        return y.isZero() ? y : BigNumber.from(1)
+    }
+    let z = y
+    let x = y.div(2).add(1)
+    while (x.lt(z)) {
+        z = x
+        x = y.div(x).add(x).div(2)
+    }
+    return z
+}
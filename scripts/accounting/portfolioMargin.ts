@@ -0,0 +1,99 @@
+import { BigNumber } from "ethers"
+import { abs, mulRatio, RATIO_ONE, sqrt, ZERO } from "./math"
+
+// the portfolio margin, mirroring ClearingHouseConfig.getPortfolioPositionValue(): once enabled, the maintenance
+// margin ratio applies to sqrt(sum(positionValue[i] * positionValue[j] * correlationRatio[i][j])) instead of the sum
+// of the absolute position values, where only a long and a short position of correlated markets offset each other,
+// so it's never above the sum and equals it without any offset;
+// all position values are signed and in 18 decimals, all ratios are in decimal 6
+
+// ClearingHouseConfig.setMarginCorrelationRatio()
+export interface MarginCorrelation {
+    baseTokenA: string
+    baseTokenB: string
+    correlationRatio: number
+}
+
+export interface PortfolioMarginConfig {
+    // ClearingHouseConfig.isPortfolioMarginEnabled()
+    enabled: boolean
+    // the pairs not listed are not correlated; a later pair overrides an earlier one, as the contract does
+    correlations: MarginCorrelation[]
+}
+
+export interface PortfolioPosition {
+    baseToken: string
+    positionValue: BigNumber
+}
+
+// the same checks and revert reasons as ClearingHouseConfig.setMarginCorrelationRatio()
+export function validateMarginCorrelation(correlation: MarginCorrelation): void {
+    // CHC_RO: ratio overflow
+    if (correlation.correlationRatio < 0 || correlation.correlationRatio > RATIO_ONE) {
+        throw new Error("CHC_RO")
+    }
+    // CHC_IMCP: invalid margin correlation pair
+    if (correlation.baseTokenA === correlation.baseTokenB) {
+        throw new Error("CHC_IMCP")
+    }
+}
+
+// ClearingHouseConfig.getMarginCorrelationRatio()
+export function getMarginCorrelationRatio(
+    config: PortfolioMarginConfig,
+    baseTokenA: string,
+    baseTokenB: string,
+): number {
+    if (baseTokenA === baseTokenB) {
+        return RATIO_ONE
+    }
+    let correlationRatio = 0
+    for (const correlation of config.correlations) {
+        if (
+            (correlation.baseTokenA === baseTokenA && correlation.baseTokenB === baseTokenB) ||
+            (correlation.baseTokenA === baseTokenB && correlation.baseTokenB === baseTokenA)
+        ) {
+            correlationRatio = correlation.correlationRatio
+        }
+    }
+    return correlationRatio
+}
+
+// ClearingHouseConfig.getPortfolioPositionValue(), with the same rounding
+export function getPortfolioPositionValue(config: PortfolioMarginConfig, positions: PortfolioPosition[]): BigNumber {
+    if (!config.enabled) {
+        return positions.reduce((total, { positionValue }) => total.add(abs(positionValue)), ZERO)
+    }
+
+    let variance = ZERO
+    positions.forEach((position, i) => {
+        if (position.positionValue.isZero()) {
+            return
+        }
+        variance = variance.add(position.positionValue.mul(position.positionValue))
+        for (const other of positions.slice(i + 1)) {
+            let crossPositionValue = position.positionValue.mul(other.positionValue)
+            // the positions of the same direction or of an uncorrelated pair add up in full
+            if (crossPositionValue.isNegative()) {
+                const correlationRatio = getMarginCorrelationRatio(config, position.baseToken, other.baseToken)
+                // PerpMath.mulRatio(int256) rounds towards zero, the same as BigNumber.div
+                crossPositionValue =
+                    correlationRatio === 0 ? crossPositionValue.mul(-1) : mulRatio(crossPositionValue, correlationRatio)
+            }
+            variance = variance.add(crossPositionValue.mul(2))
+        }
+    })
+
+    // never negative, at least (sum of longs - sum of shorts) ^ 2 as the correlation ratios are at most 1
+    return sqrt(variance)
+}
+
+// the maintenance margin of the positions without the margin brackets,
+// see AccountBalance.getMarginRequirementForLiquidation()
+export function getPortfolioMarginRequirement(
+    config: PortfolioMarginConfig,
+    positions: PortfolioPosition[],
+    mmRatio: number,
+): BigNumber {
+    return mulRatio(getPortfolioPositionValue(config, positions), mmRatio)
+}
@@ -0,0 +1,571 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { Exchange, MarketRegistry, UniswapV3Pool } from "../../typechain"
+import { SwapResult, SwapStep } from "./accountingModel"
+import {
+    abs,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    MAX_TICK,
+    MIN_TICK,
+    mulDiv,
+    mulDivRoundingUp,
+    mulRatio,
+    Q96,
+    RATIO_ONE,
+    UINT256_MAX,
+    ZERO,
+} from "./math"
+
+// a tick-walking simulator of Exchange._swap() against a snapshot of a uniswap pool;
+// the pool swap and OrderBook.replaySwap() are walked separately with their own fee ratios,
+// the same way the exchange does, so fees and exchanged amounts match the contracts wei by wei.
+// the price band check against the index price (EX_OPB) is not simulated
+
+// TickMath.MIN_SQRT_RATIO & TickMath.MAX_SQRT_RATIO
+export const MIN_SQRT_RATIO = BigNumber.from("4295128739")
+export const MAX_SQRT_RATIO = BigNumber.from("1461446703485210103287273052203988822378723970342")
+// UniswapV3Broker._DUST
+const BROKER_DUST = 10
+
+// a snapshot of the pool state a swap walks through; ticks outside the loaded bitmap words can not be crossed
+export interface PoolState {
+    sqrtPriceX96: BigNumber
+    tick: number
+    liquidity: BigNumber
+    tickSpacing: number
+    uniswapFeeRatio: number
+    // word position => bitmap word
+    tickBitmap: Map<number, BigNumber>
+    // initialized tick => liquidityNet
+    liquidityNet: Map<number, BigNumber>
+}
+
+/// @param exchangeFeeRatio the market's fee ratio before the trader's discount
+/// @param feeDiscountRatio MarketRegistry's fee discount ratio of the trader
+export interface SwapFeeConfig {
+    exchangeFeeRatio: number
+    insuranceFundFeeRatio: number
+    feeDiscountRatio?: number
+}
+
+/// @param lastUpdatedTick the pool tick recorded by the last settleFunding() at least 15 seconds ago;
+///        the exchange keeps it internal so it has to be tracked by the caller
+export interface PriceLimitConfig {
+    lastUpdatedTick: number
+    maxTickCrossedWithinBlock: number
+}
+
+export interface SimulateSwapParams {
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumberish
+    sqrtPriceLimitX96?: BigNumberish
+}
+
+// IExchange.SwapResponse without the pnl of the trader; sqrtPriceX96 & tick are the ones of the pool after the swap
+export interface SimulatedSwap extends SwapResult {
+    base: BigNumber
+    quote: BigNumber
+    fee: BigNumber
+    insuranceFundFee: BigNumber
+    // the tick of OrderBook.replaySwap(), which is checked against the price limit
+    replayTick: number
+}
+
+interface WalkStep {
+    amountIn: BigNumber
+    amountOut: BigNumber
+    feeAmount: BigNumber
+    liquidity: BigNumber
+    crossedTick?: number
+}
+
+interface WalkResult {
+    amountSpecifiedRemaining: BigNumber
+    sqrtPriceX96: BigNumber
+    tick: number
+    steps: WalkStep[]
+}
+
+export async function loadPoolState(pool: UniswapV3Pool, wordRadius = 2): Promise<PoolState> {
+    const slot0 = await pool.slot0()
+    const tickSpacing = await pool.tickSpacing()
+    const state: PoolState = {
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        tick: slot0.tick,
+        liquidity: await pool.liquidity(),
+        tickSpacing,
+        uniswapFeeRatio: await pool.fee(),
+        tickBitmap: new Map(),
+        liquidityNet: new Map(),
+    }
+
+    const currentWordPos = getPosition(compress(slot0.tick, tickSpacing)).wordPos
+    for (let wordPos = currentWordPos - wordRadius; wordPos <= currentWordPos + wordRadius; wordPos++) {
+        const word = await pool.tickBitmap(wordPos)
+        state.tickBitmap.set(wordPos, word)
+        for (let bitPos = 0; bitPos < 256; bitPos++) {
+            if (!word.shr(bitPos).and(1).isZero()) {
+                const tick = (wordPos * 256 + bitPos) * tickSpacing
+                state.liquidityNet.set(tick, (await pool.ticks(tick)).liquidityNet)
+            }
+        }
+    }
+    return state
+}
+
+export async function loadSwapFeeConfig(
+    marketRegistry: MarketRegistry,
+    baseToken: string,
+    feeDiscountRatio = 0,
+): Promise<SwapFeeConfig> {
+    const marketInfo = await marketRegistry.getMarketInfo(baseToken)
+    return {
+        exchangeFeeRatio: marketInfo.exchangeFeeRatio,
+        insuranceFundFeeRatio: marketInfo.insuranceFundFeeRatio,
+        feeDiscountRatio,
+    }
+}
+
+export async function loadPriceLimitConfig(
+    exchange: Exchange,
+    baseToken: string,
+    lastUpdatedTick: number,
+): Promise<PriceLimitConfig> {
+    return {
+        lastUpdatedTick,
+        maxTickCrossedWithinBlock: await exchange.getMaxTickCrossedWithinBlock(baseToken),
+    }
+}
+
+// MarketRegistry.getMarketInfoByTrader()
+export function getDiscountedExchangeFeeRatio(feeConfig: SwapFeeConfig): number {
+    return mulRatio(feeConfig.exchangeFeeRatio, RATIO_ONE - (feeConfig.feeDiscountRatio || 0)).toNumber()
+}
+
+// Exchange._isOverPriceLimitWithTick()
+export function isOverPriceLimitWithTick(priceLimit: PriceLimitConfig, tick: number): boolean {
+    return (
+        tick < priceLimit.lastUpdatedTick - priceLimit.maxTickCrossedWithinBlock ||
+        tick > priceLimit.lastUpdatedTick + priceLimit.maxTickCrossedWithinBlock
+    )
+}
+
+// Exchange._getSqrtPriceLimitForClosingPosition(); a position is closed by a swap in the opposite direction
+export function getSqrtPriceLimitForClosingPosition(
+    priceLimit: PriceLimitConfig,
+    takerPositionSize: BigNumber,
+    inputSqrtPriceLimitX96: BigNumberish = 0,
+): BigNumber {
+    const isShort = takerPositionSize.lt(0)
+    let tickBoundary = isShort
+        ? priceLimit.lastUpdatedTick + priceLimit.maxTickCrossedWithinBlock
+        : priceLimit.lastUpdatedTick - priceLimit.maxTickCrossedWithinBlock
+    tickBoundary = tickBoundary > MAX_TICK ? MAX_TICK - 1 : tickBoundary
+    tickBoundary = tickBoundary < MIN_TICK ? MIN_TICK + 1 : tickBoundary
+
+    const targetSqrtPriceLimitX96 = getSqrtRatioAtTick(tickBoundary)
+    const inputLimit = BigNumber.from(inputSqrtPriceLimitX96)
+    if (inputLimit.isZero()) {
+        return targetSqrtPriceLimitX96
+    }
+    if (isShort) {
+        return targetSqrtPriceLimitX96.gt(inputLimit) ? inputLimit : targetSqrtPriceLimitX96
+    }
+    return targetSqrtPriceLimitX96.lt(inputLimit) ? inputLimit : targetSqrtPriceLimitX96
+}
+
+// Exchange._swap(), followed by the price limit check of Exchange.swap() when a price limit config is given
+export function simulateSwap(
+    pool: PoolState,
+    params: SimulateSwapParams,
+    feeConfig: SwapFeeConfig,
+    priceLimit?: PriceLimitConfig,
+): SimulatedSwap {
+    const amount = BigNumber.from(params.amount)
+    const exchangeFeeRatio = getDiscountedExchangeFeeRatio(feeConfig)
+    const uniswapFeeRatio = pool.uniswapFeeRatio
+    const inputSqrtPriceLimitX96 = BigNumber.from(params.sqrtPriceLimitX96 || 0)
+    const sqrtPriceLimitX96 = inputSqrtPriceLimitX96.isZero()
+        ? params.isBaseToQuote
+            ? MIN_SQRT_RATIO.add(1)
+            : MAX_SQRT_RATIO.sub(1)
+        : inputSqrtPriceLimitX96
+
+    // SwapMath.calcScaledAmountForSwaps()
+    let scaledAmountForPoolSwap: BigNumber
+    if (params.isBaseToQuote) {
+        scaledAmountForPoolSwap = mulDivRoundingUp(
+            amount,
+            RATIO_ONE,
+            RATIO_ONE - (params.isExactInput ? uniswapFeeRatio : exchangeFeeRatio),
+        )
+    } else {
+        scaledAmountForPoolSwap = params.isExactInput
+            ? mulDivRoundingUp(amount, RATIO_ONE - exchangeFeeRatio, RATIO_ONE - uniswapFeeRatio)
+            : amount
+    }
+    const scaledAmountForReplaySwap = params.isBaseToQuote ? scaledAmountForPoolSwap : amount
+
+    // OrderBook.replaySwap()
+    const replay = walk(
+        pool,
+        params.isBaseToQuote,
+        params.isExactInput ? scaledAmountForReplaySwap : scaledAmountForReplaySwap.mul(-1),
+        sqrtPriceLimitX96,
+        params.isBaseToQuote ? uniswapFeeRatio : exchangeFeeRatio,
+    )
+    let fee = ZERO
+    let insuranceFundFee = ZERO
+    const steps: SwapStep[] = replay.steps.map(step => {
+        let stepFee = ZERO
+        if (step.liquidity.gt(0)) {
+            stepFee = params.isBaseToQuote
+                ? mulDivRoundingUp(step.amountOut, exchangeFeeRatio, RATIO_ONE)
+                : step.feeAmount
+            fee = fee.add(stepFee)
+            insuranceFundFee = insuranceFundFee.add(
+                mulDivRoundingUp(stepFee, feeConfig.insuranceFundFeeRatio, RATIO_ONE),
+            )
+        }
+        return { fee: stepFee, liquidity: step.liquidity, crossedTick: step.crossedTick }
+    })
+
+    // UniswapV3Pool.swap() through UniswapV3Broker.swap()
+    const poolSwap = walk(
+        pool,
+        params.isBaseToQuote,
+        params.isExactInput ? scaledAmountForPoolSwap : scaledAmountForPoolSwap.mul(-1),
+        sqrtPriceLimitX96,
+        uniswapFeeRatio,
+    )
+    const amountSpecified = params.isExactInput ? scaledAmountForPoolSwap : scaledAmountForPoolSwap.mul(-1)
+    const amountCalculated = poolSwap.steps.reduce(
+        (sum, step) => (params.isExactInput ? sum.add(step.amountOut) : sum.add(step.amountIn).add(step.feeAmount)),
+        ZERO,
+    )
+    const amountSpecifiedUsed = abs(amountSpecified.sub(poolSwap.amountSpecifiedRemaining))
+    // the exact amount is token0 (base) when isExactInput == isBaseToQuote
+    let [poolBase, poolQuote] =
+        params.isExactInput === params.isBaseToQuote
+            ? [amountSpecifiedUsed, amountCalculated]
+            : [amountCalculated, amountSpecifiedUsed]
+    if (!params.isExactInput && inputSqrtPriceLimitX96.isZero()) {
+        const exactAmount = params.isExactInput === params.isBaseToQuote ? poolBase : poolQuote
+        // UB_UOA: unmatched output amount
+        if (abs(exactAmount.sub(scaledAmountForPoolSwap)).gte(BROKER_DUST)) {
+            throw new Error("UB_UOA")
+        }
+        ;[poolBase, poolQuote] = params.isBaseToQuote
+            ? [poolBase, scaledAmountForPoolSwap]
+            : [scaledAmountForPoolSwap, poolQuote]
+    }
+
+    let exchangedPositionSize: BigNumber
+    let exchangedPositionNotional: BigNumber
+    if (params.isBaseToQuote) {
+        exchangedPositionSize = mulDiv(poolBase, RATIO_ONE - uniswapFeeRatio, RATIO_ONE).mul(-1)
+        exchangedPositionNotional = poolQuote
+    } else {
+        exchangedPositionSize = poolBase
+        exchangedPositionNotional =
+            params.isExactInput && poolQuote.eq(scaledAmountForPoolSwap)
+                ? amount.sub(fee).mul(-1)
+                : mulDiv(poolQuote, RATIO_ONE - uniswapFeeRatio, RATIO_ONE).mul(-1)
+    }
+
+    // EX_OPLAS: over price limit after swap
+    if (priceLimit && isOverPriceLimitWithTick(priceLimit, replay.tick)) {
+        throw new Error("EX_OPLAS")
+    }
+
+    return {
+        base: abs(exchangedPositionSize),
+        quote: abs(exchangedPositionNotional.sub(fee)),
+        exchangedPositionSize,
+        exchangedPositionNotional,
+        fee,
+        insuranceFundFee,
+        steps,
+        sqrtPriceX96: poolSwap.sqrtPriceX96,
+        tick: poolSwap.tick,
+        replayTick: replay.tick,
+    }
+}
+
+// the swap loop shared by UniswapV3Pool.swap() and OrderBook.replaySwap(); amountSpecified > 0 for exact input
+function walk(
+    pool: PoolState,
+    zeroForOne: boolean,
+    amountSpecified: BigNumber,
+    sqrtPriceLimitX96: BigNumber,
+    feeRatio: number,
+): WalkResult {
+    if (amountSpecified.isZero()) {
+        throw new Error("AS")
+    }
+    if (
+        zeroForOne
+            ? sqrtPriceLimitX96.gte(pool.sqrtPriceX96) || sqrtPriceLimitX96.lte(MIN_SQRT_RATIO)
+            : sqrtPriceLimitX96.lte(pool.sqrtPriceX96) || sqrtPriceLimitX96.gte(MAX_SQRT_RATIO)
+    ) {
+        throw new Error("SPL")
+    }
+
+    const isExactInput = amountSpecified.gt(0)
+    let amountSpecifiedRemaining = amountSpecified
+    let sqrtPriceX96 = pool.sqrtPriceX96
+    let tick = pool.tick
+    let liquidity = pool.liquidity
+    const steps: WalkStep[] = []
+
+    while (!amountSpecifiedRemaining.isZero() && !sqrtPriceX96.eq(sqrtPriceLimitX96)) {
+        const initialSqrtPriceX96 = sqrtPriceX96
+        const { next, initialized } = nextInitializedTickWithinOneWord(pool, tick, zeroForOne)
+        // the tick bitmap is not aware of the min/max tick
+        const nextTick = Math.min(Math.max(next, MIN_TICK), MAX_TICK)
+        const nextSqrtPriceX96 = getSqrtRatioAtTick(nextTick)
+
+        const targetSqrtPriceX96 = (
+            zeroForOne ? nextSqrtPriceX96.lt(sqrtPriceLimitX96) : nextSqrtPriceX96.gt(sqrtPriceLimitX96)
+        )
+            ? sqrtPriceLimitX96
+            : nextSqrtPriceX96
+        const computed = computeSwapStep(
+            sqrtPriceX96,
+            targetSqrtPriceX96,
+            liquidity,
+            amountSpecifiedRemaining,
+            feeRatio,
+        )
+        sqrtPriceX96 = computed.sqrtRatioNextX96
+        amountSpecifiedRemaining = isExactInput
+            ? amountSpecifiedRemaining.sub(computed.amountIn.add(computed.feeAmount))
+            : amountSpecifiedRemaining.add(computed.amountOut)
+
+        const step: WalkStep = {
+            amountIn: computed.amountIn,
+            amountOut: computed.amountOut,
+            feeAmount: computed.feeAmount,
+            liquidity,
+        }
+        if (sqrtPriceX96.eq(nextSqrtPriceX96)) {
+            if (initialized) {
+                let liquidityNet = pool.liquidityNet.get(nextTick) || ZERO
+                if (zeroForOne) {
+                    liquidityNet = liquidityNet.mul(-1)
+                }
+                liquidity = liquidity.add(liquidityNet)
+                step.crossedTick = nextTick
+            }
+            tick = zeroForOne ? nextTick - 1 : nextTick
+        } else if (!sqrtPriceX96.eq(initialSqrtPriceX96)) {
+            tick = getTickAtSqrtRatio(sqrtPriceX96)
+        }
+        steps.push(step)
+    }
+
+    return { amountSpecifiedRemaining, sqrtPriceX96, tick, steps }
+}
+
+//
+// TickBitmap
+//
+
+function compress(tick: number, tickSpacing: number): number {
+    // solidity rounds the division towards zero, while compressed ticks round towards negative infinity
+    const compressed = Math.trunc(tick / tickSpacing)
+    return tick < 0 && tick % tickSpacing !== 0 ? compressed - 1 : compressed
+}
+
+function getPosition(compressed: number): { wordPos: number; bitPos: number } {
+    return { wordPos: compressed >> 8, bitPos: compressed & 0xff }
+}
+
+// TickBitmap.nextInitializedTickWithinOneWord()
+function nextInitializedTickWithinOneWord(
+    pool: PoolState,
+    tick: number,
+    lte: boolean,
+): { next: number; initialized: boolean } {
+    const compressed = compress(tick, pool.tickSpacing)
+    const { wordPos, bitPos } = getPosition(lte ? compressed : compressed + 1)
+    const word = pool.tickBitmap.get(wordPos)
+    if (word === undefined) {
+        throw new Error(`tick bitmap word ${wordPos} is not loaded`)
+    }
+
+    if (lte) {
+        // all the 1s at or to the right of the current bitPos
+        const masked = word.and(
+            BigNumber.from(1)
+                .shl(bitPos + 1)
+                .sub(1),
+        )
+        const initialized = !masked.isZero()
+        const next = initialized
+            ? (compressed - (bitPos - mostSignificantBit(masked))) * pool.tickSpacing
+            : (compressed - bitPos) * pool.tickSpacing
+        return { next, initialized }
+    }
+
+    // all the 1s at or to the left of the bitPos
+    const masked = word.and(UINT256_MAX.sub(BigNumber.from(1).shl(bitPos).sub(1)))
+    const initialized = !masked.isZero()
+    const next = initialized
+        ? (compressed + 1 + (leastSignificantBit(masked) - bitPos)) * pool.tickSpacing
+        : (compressed + 1 + (255 - bitPos)) * pool.tickSpacing
+    return { next, initialized }
+}
+
+// BitMath.mostSignificantBit()
+function mostSignificantBit(value: BigNumber): number {
+    const hex = value.toHexString().slice(2).replace(/^0+/, "")
+    return (hex.length - 1) * 4 + parseInt(hex[0], 16).toString(2).length - 1
+}
+
+// BitMath.leastSignificantBit()
+function leastSignificantBit(value: BigNumber): number {
+    let bit = 0
+    while (value.shr(bit).and(1).isZero()) {
+        bit++
+    }
+    return bit
+}
+
+//
+// SqrtPriceMath & SwapMath
+//
+
+function divRoundingUp(x: BigNumber, y: BigNumber): BigNumber {
+    return x.mod(y).isZero() ? x.div(y) : x.div(y).add(1)
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+    sqrtPX96: BigNumber,
+    liquidity: BigNumber,
+    amount: BigNumber,
+    add: boolean,
+): BigNumber {
+    if (amount.isZero()) {
+        return sqrtPX96
+    }
+    const numerator1 = liquidity.shl(96)
+    const product = amount.mul(sqrtPX96)
+    if (add) {
+        // the solidity version falls back to another formula once the product or the denominator overflows
+        if (product.lte(UINT256_MAX) && numerator1.add(product).lte(UINT256_MAX)) {
+            return mulDivRoundingUp(numerator1, sqrtPX96, numerator1.add(product))
+        }
+        return divRoundingUp(numerator1, numerator1.div(sqrtPX96).add(amount))
+    }
+    if (product.gt(UINT256_MAX) || numerator1.lte(product)) {
+        throw new Error("SqrtPriceMath: insufficient liquidity")
+    }
+    return mulDivRoundingUp(numerator1, sqrtPX96, numerator1.sub(product))
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+    sqrtPX96: BigNumber,
+    liquidity: BigNumber,
+    amount: BigNumber,
+    add: boolean,
+): BigNumber {
+    if (add) {
+        return sqrtPX96.add(mulDiv(amount, Q96, liquidity))
+    }
+    const quotient = mulDivRoundingUp(amount, Q96, liquidity)
+    if (sqrtPX96.lte(quotient)) {
+        throw new Error("SqrtPriceMath: insufficient liquidity")
+    }
+    return sqrtPX96.sub(quotient)
+}
+
+function getAmount0Delta(
+    sqrtRatioAX96: BigNumber,
+    sqrtRatioBX96: BigNumber,
+    liquidity: BigNumber,
+    roundUp: boolean,
+): BigNumber {
+    const [sqrtA, sqrtB] = sqrtRatioAX96.gt(sqrtRatioBX96)
+        ? [sqrtRatioBX96, sqrtRatioAX96]
+        : [sqrtRatioAX96, sqrtRatioBX96]
+    const numerator1 = liquidity.shl(96)
+    const numerator2 = sqrtB.sub(sqrtA)
+    return roundUp
+        ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtB), sqrtA)
+        : mulDiv(numerator1, numerator2, sqrtB).div(sqrtA)
+}
+
+function getAmount1Delta(
+    sqrtRatioAX96: BigNumber,
+    sqrtRatioBX96: BigNumber,
+    liquidity: BigNumber,
+    roundUp: boolean,
+): BigNumber {
+    const [sqrtA, sqrtB] = sqrtRatioAX96.gt(sqrtRatioBX96)
+        ? [sqrtRatioBX96, sqrtRatioAX96]
+        : [sqrtRatioAX96, sqrtRatioBX96]
+    return roundUp ? mulDivRoundingUp(liquidity, sqrtB.sub(sqrtA), Q96) : mulDiv(liquidity, sqrtB.sub(sqrtA), Q96)
+}
+
+// SwapMath.computeSwapStep() of uniswap v3-core
+function computeSwapStep(
+    sqrtRatioCurrentX96: BigNumber,
+    sqrtRatioTargetX96: BigNumber,
+    liquidity: BigNumber,
+    amountRemaining: BigNumber,
+    feePips: number,
+): { sqrtRatioNextX96: BigNumber; amountIn: BigNumber; amountOut: BigNumber; feeAmount: BigNumber } {
+    const zeroForOne = sqrtRatioCurrentX96.gte(sqrtRatioTargetX96)
+    const exactIn = amountRemaining.gte(0)
+    const amountRemainingAbs = abs(amountRemaining)
+
+    let sqrtRatioNextX96: BigNumber
+    let amountIn = ZERO
+    let amountOut = ZERO
+    if (exactIn) {
+        const amountRemainingLessFee = mulDiv(amountRemainingAbs, RATIO_ONE - feePips, RATIO_ONE)
+        amountIn = zeroForOne
+            ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+            : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true)
+        sqrtRatioNextX96 = amountRemainingLessFee.gte(amountIn)
+            ? sqrtRatioTargetX96
+            : zeroForOne
+            ? getNextSqrtPriceFromAmount0RoundingUp(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, true)
+            : getNextSqrtPriceFromAmount1RoundingDown(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, true)
+    } else {
+        amountOut = zeroForOne
+            ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+            : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false)
+        sqrtRatioNextX96 = amountRemainingAbs.gte(amountOut)
+            ? sqrtRatioTargetX96
+            : zeroForOne
+            ? getNextSqrtPriceFromAmount1RoundingDown(sqrtRatioCurrentX96, liquidity, amountRemainingAbs, false)
+            : getNextSqrtPriceFromAmount0RoundingUp(sqrtRatioCurrentX96, liquidity, amountRemainingAbs, false)
+    }
+
+    const max = sqrtRatioTargetX96.eq(sqrtRatioNextX96)
+    if (zeroForOne) {
+        amountIn = max && exactIn ? amountIn : getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true)
+        amountOut =
+            max && !exactIn ? amountOut : getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false)
+    } else {
+        amountIn = max && exactIn ? amountIn : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true)
+        amountOut =
+            max && !exactIn ? amountOut : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false)
+    }
+
+    // cap the output amount to not exceed the remaining output amount
+    if (!exactIn && amountOut.gt(amountRemainingAbs)) {
+        amountOut = amountRemainingAbs
+    }
+
+    // take the remainder of the maximum input as fee
+    const feeAmount =
+        exactIn && !sqrtRatioNextX96.eq(sqrtRatioTargetX96)
+            ? amountRemainingAbs.sub(amountIn)
+            : mulDivRoundingUp(amountIn, feePips, RATIO_ONE - feePips)
+
+    return { sqrtRatioNextX96, amountIn, amountOut, feeAmount }
+}
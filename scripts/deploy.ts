@@ -0,0 +1,553 @@
+import { DeployOptions } from "@openzeppelin/hardhat-upgrades/dist/deploy-proxy"
+import bn from "bignumber.js"
+import { BigNumber, Contract } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network, upgrades } from "hardhat"
+import yaml from "js-yaml"
+import path from "path"
+import {
+    AccountBalance,
+    BaseToken,
+    ClearingHouse,
+    ClearingHouseConfig,
+    CollateralManager,
+    DelegateApproval,
+    Exchange,
+    InsuranceFund,
+    LimitOrderBook,
+    MarketRegistry,
+    OrderBook,
+    QuoteToken,
+    UniswapV3Factory,
+    UniswapV3Pool,
+    Vault,
+} from "../typechain"
+import { writeFile } from "./files"
+
+// all ratios are in decimal 6, e.g. 100000 = 10%
+// all amounts are human readable strings and are scaled by the decimals of the corresponding token
+export interface CollateralConfig {
+    token: string
+    priceFeed: string
+    collateralRatio: number
+    discountRatio: number
+    depositCap: string
+}
+
+export interface MarketConfig {
+    name: string
+    symbol: string
+    priceFeed: string
+    // initial price of the uniswap pool, quote per base
+    initialPrice: string
+    uniswapFeeTier: number
+    exchangeFeeRatio: number
+    insuranceFundFeeRatio: number
+    // the market is paused (every swap reverts with EX_MIP) until it's set; 0 deploys a paused market on purpose
+    maxTickCrossedWithinBlock: number
+    marketMaxPriceSpreadRatio?: number
+    observationCardinalityNext?: number
+    // the liquidation penalty ratio rises from startPenaltyRatio to liquidationPenaltyRatio in duration seconds
+    liquidationAuction?: {
+        startPenaltyRatio: number
+        duration: number
+    }
+    // the part of a position value above positionValue (in quote token) requires imRatio and mmRatio
+    marginBrackets?: {
+        positionValue: string
+        imRatio: number
+        mmRatio: number
+    }[]
+    // in quote token: the max notional of either side of the open interest and of the position of a trader
+    openInterestCap?: string
+    traderPositionNotionalCap?: string
+}
+
+export interface DeployConfig {
+    settlementToken: string
+    // a new UniswapV3Factory is deployed when it's not given, which is only meant for local networks
+    uniswapV3Factory?: string
+    quoteToken: {
+        name: string
+        symbol: string
+    }
+    clearingHouseConfig?: {
+        maxMarketsPerAccount?: number
+        liquidationPenaltyRatio?: number
+        maxFundingRate?: number
+        twapInterval?: number
+        markPriceMarketTwapInterval?: number
+        markPricePremiumInterval?: number
+        settlementTokenBalanceCap?: string
+        // enables the portfolio margin, where a long and a short position of correlated markets (by symbol)
+        // offset each other
+        portfolioMargin?: {
+            correlations: {
+                symbolA: string
+                symbolB: string
+                correlationRatio: number
+            }[]
+        }
+    }
+    collateralManager: {
+        maxCollateralTokensPerAccount: number
+        debtNonSettlementTokenValueRatio: number
+        liquidationRatio: number
+        mmRatioBuffer: number
+        clInsuranceFundFeeRatio: number
+        debtThreshold: string
+        collateralValueDust: string
+    }
+    collaterals: CollateralConfig[]
+    markets: MarketConfig[]
+}
+
+export interface ProxyDeployment {
+    proxy: string
+    implementation: string
+}
+
+export interface MarketDeployment extends ProxyDeployment {
+    symbol: string
+    pool: string
+}
+
+export interface DeploymentManifest {
+    network: string
+    chainId: number
+    deployer: string
+    proxyAdmin: string
+    uniswapV3Factory: string
+    settlementToken: string
+    contracts: {
+        QuoteToken: ProxyDeployment
+        ClearingHouseConfig: ProxyDeployment
+        MarketRegistry: ProxyDeployment
+        OrderBook: ProxyDeployment
+        InsuranceFund: ProxyDeployment
+        Exchange: ProxyDeployment
+        AccountBalance: ProxyDeployment
+        Vault: ProxyDeployment
+        CollateralManager: ProxyDeployment
+        ClearingHouse: ProxyDeployment
+        DelegateApproval: ProxyDeployment
+        LimitOrderBook: ProxyDeployment
+    }
+    markets: MarketDeployment[]
+}
+
+export interface Deployment {
+    manifest: DeploymentManifest
+    quoteToken: QuoteToken
+    clearingHouseConfig: ClearingHouseConfig
+    marketRegistry: MarketRegistry
+    orderBook: OrderBook
+    insuranceFund: InsuranceFund
+    exchange: Exchange
+    accountBalance: AccountBalance
+    vault: Vault
+    collateralManager: CollateralManager
+    clearingHouse: ClearingHouse
+    delegateApproval: DelegateApproval
+    limitOrderBook: LimitOrderBook
+    uniV3Factory: UniswapV3Factory
+    baseTokens: BaseToken[]
+    pools: UniswapV3Pool[]
+}
+
+// the deployer has to ensure base token is always smaller than quote token to achieve base=token0 and quote=token1
+const MAX_BASE_TOKEN_DEPLOY_ATTEMPTS = 3
+const MAX_NONCES_SKIPPED_PER_BASE_TOKEN = 256
+const DEFAULT_OBSERVATION_CARDINALITY_NEXT = 500
+
+// the config file can be either json or yaml, by its extension
+export function loadDeployConfig(configPath: string): DeployConfig {
+    const content = fs.readFileSync(configPath, "utf8")
+    const extension = path.extname(configPath).toLowerCase()
+    const config = (
+        extension === ".yaml" || extension === ".yml" ? yaml.load(content) : JSON.parse(content)
+    ) as DeployConfig
+    if (!config.settlementToken) {
+        throw new Error(`${configPath}: settlementToken is required`)
+    }
+    if (!config.quoteToken) {
+        throw new Error(`${configPath}: quoteToken is required`)
+    }
+    if (!config.collateralManager) {
+        throw new Error(`${configPath}: collateralManager is required`)
+    }
+    config.collaterals = config.collaterals || []
+    config.markets = config.markets || []
+    for (const market of config.markets) {
+        if (market.maxTickCrossedWithinBlock === undefined) {
+            throw new Error(`${configPath}: maxTickCrossedWithinBlock of market ${market.symbol} is required`)
+        }
+    }
+    return config
+}
+
+// same as encodePriceSqrt() in test/shared/utilities.ts, including its bignumber.js config
+bn.config({ EXPONENTIAL_AT: 999999, DECIMAL_PLACES: 40 })
+
+export function encodePriceSqrt(price: string): BigNumber {
+    return BigNumber.from(new bn(price).sqrt().multipliedBy(new bn(2).pow(96)).integerValue(3).toString())
+}
+
+async function deployProxy<T extends Contract>(
+    contractName: string,
+    args: unknown[],
+    opts: DeployOptions = {},
+): Promise<T> {
+    const contractFactory = await ethers.getContractFactory(contractName)
+    const contract = await upgrades.deployProxy(contractFactory, args, opts)
+    await contract.deployed()
+    console.log(`${contractName} deployed at ${contract.address}`)
+    return contract as T
+}
+
+async function toProxyDeployment(contract: Contract): Promise<ProxyDeployment> {
+    return {
+        proxy: contract.address,
+        implementation: await upgrades.erc1967.getImplementationAddress(contract.address),
+    }
+}
+
+function isAscendingTokenOrder(addr0: string, addr1: string): boolean {
+    return addr0.toLowerCase() < addr1.toLowerCase()
+}
+
+// once the BaseToken implementation is deployed, deploying a base token proxy is the only tx sent by deployProxy();
+// hence we can skip nonces with empty txs until the next contract address is smaller than quote token
+async function skipNoncesForBaseToken(quoteToken: QuoteToken): Promise<void> {
+    const [deployer] = await ethers.getSigners()
+    for (let i = 0; i < MAX_NONCES_SKIPPED_PER_BASE_TOKEN; i++) {
+        const nonce = await deployer.getTransactionCount()
+        if (
+            isAscendingTokenOrder(
+                ethers.utils.getContractAddress({ from: deployer.address, nonce }),
+                quoteToken.address,
+            )
+        ) {
+            return
+        }
+        await (await deployer.sendTransaction({ to: deployer.address, value: 0 })).wait()
+    }
+    throw new Error(`failed to find a nonce for a base token address smaller than quote token ${quoteToken.address}`)
+}
+
+async function deployBaseToken(
+    market: MarketConfig,
+    quoteToken: QuoteToken,
+    isImplementationDeployed: boolean,
+): Promise<BaseToken> {
+    for (let i = 0; i < MAX_BASE_TOKEN_DEPLOY_ATTEMPTS; i++) {
+        if (isImplementationDeployed || i > 0) {
+            await skipNoncesForBaseToken(quoteToken)
+        }
+        const baseToken = await deployProxy<BaseToken>("BaseToken", [market.name, market.symbol, market.priceFeed])
+        if (isAscendingTokenOrder(baseToken.address, quoteToken.address)) {
+            return baseToken
+        }
+        console.log(`${market.symbol} at ${baseToken.address} is not smaller than quote token, redeploying`)
+    }
+    throw new Error(`failed to deploy ${market.symbol} with an address smaller than quote token ${quoteToken.address}`)
+}
+
+async function configureClearingHouseConfig(
+    clearingHouseConfig: ClearingHouseConfig,
+    config: DeployConfig,
+    settlementTokenDecimals: number,
+): Promise<void> {
+    const chConfig = config.clearingHouseConfig || {}
+    if (chConfig.maxMarketsPerAccount !== undefined) {
+        await (await clearingHouseConfig.setMaxMarketsPerAccount(chConfig.maxMarketsPerAccount)).wait()
+    }
+    if (chConfig.liquidationPenaltyRatio !== undefined) {
+        await (await clearingHouseConfig.setLiquidationPenaltyRatio(chConfig.liquidationPenaltyRatio)).wait()
+    }
+    if (chConfig.maxFundingRate !== undefined) {
+        await (await clearingHouseConfig.setMaxFundingRate(chConfig.maxFundingRate)).wait()
+    }
+    if (chConfig.twapInterval !== undefined) {
+        await (await clearingHouseConfig.setTwapInterval(chConfig.twapInterval)).wait()
+    }
+    if (chConfig.markPriceMarketTwapInterval !== undefined) {
+        await (await clearingHouseConfig.setMarkPriceMarketTwapInterval(chConfig.markPriceMarketTwapInterval)).wait()
+    }
+    if (chConfig.markPricePremiumInterval !== undefined) {
+        await (await clearingHouseConfig.setMarkPricePremiumInterval(chConfig.markPricePremiumInterval)).wait()
+    }
+    // the cap is 0 after initialization, which blocks all deposits
+    const cap =
+        chConfig.settlementTokenBalanceCap !== undefined
+            ? parseUnits(chConfig.settlementTokenBalanceCap, settlementTokenDecimals)
+            : ethers.constants.MaxUint256
+    await (await clearingHouseConfig.setSettlementTokenBalanceCap(cap)).wait()
+}
+
+export async function deploy(config: DeployConfig, manifestPath?: string): Promise<Deployment> {
+    const [deployer] = await ethers.getSigners()
+    const settlementToken = await ethers.getContractAt("IERC20Metadata", config.settlementToken)
+    const settlementTokenDecimals = await settlementToken.decimals()
+
+    let uniV3Factory: UniswapV3Factory
+    if (config.uniswapV3Factory) {
+        uniV3Factory = (await ethers.getContractAt("UniswapV3Factory", config.uniswapV3Factory)) as UniswapV3Factory
+    } else {
+        const factoryFactory = await ethers.getContractFactory("UniswapV3Factory")
+        uniV3Factory = (await factoryFactory.deploy()) as UniswapV3Factory
+        await uniV3Factory.deployed()
+        console.log(`UniswapV3Factory deployed at ${uniV3Factory.address}`)
+    }
+
+    // 1. deploy contracts in dependency order
+    const quoteToken = await deployProxy<QuoteToken>("QuoteToken", [config.quoteToken.name, config.quoteToken.symbol])
+    const clearingHouseConfig = await deployProxy<ClearingHouseConfig>("ClearingHouseConfig", [])
+    const marketRegistry = await deployProxy<MarketRegistry>("MarketRegistry", [
+        uniV3Factory.address,
+        quoteToken.address,
+    ])
+    const orderBook = await deployProxy<OrderBook>("OrderBook", [marketRegistry.address])
+    const insuranceFund = await deployProxy<InsuranceFund>("InsuranceFund", [config.settlementToken])
+    const exchange = await deployProxy<Exchange>("Exchange", [
+        marketRegistry.address,
+        orderBook.address,
+        clearingHouseConfig.address,
+    ])
+    const accountBalance = await deployProxy<AccountBalance>("AccountBalance", [
+        clearingHouseConfig.address,
+        orderBook.address,
+    ])
+    const vault = await deployProxy<Vault>("Vault", [
+        insuranceFund.address,
+        clearingHouseConfig.address,
+        accountBalance.address,
+        exchange.address,
+    ])
+    const cmConfig = config.collateralManager
+    const collateralManager = await deployProxy<CollateralManager>("CollateralManager", [
+        clearingHouseConfig.address,
+        vault.address,
+        cmConfig.maxCollateralTokensPerAccount,
+        cmConfig.debtNonSettlementTokenValueRatio,
+        cmConfig.liquidationRatio,
+        cmConfig.mmRatioBuffer,
+        cmConfig.clInsuranceFundFeeRatio,
+        parseUnits(cmConfig.debtThreshold, settlementTokenDecimals),
+        parseUnits(cmConfig.collateralValueDust, settlementTokenDecimals),
+    ])
+    // ClearingHouse.multicall() only delegatecalls ClearingHouse itself
+    const clearingHouse = await deployProxy<ClearingHouse>(
+        "ClearingHouse",
+        [
+            clearingHouseConfig.address,
+            vault.address,
+            quoteToken.address,
+            uniV3Factory.address,
+            exchange.address,
+            accountBalance.address,
+            insuranceFund.address,
+        ],
+        { unsafeAllow: ["delegatecall"] },
+    )
+    const delegateApproval = await deployProxy<DelegateApproval>("DelegateApproval", [])
+    const limitOrderBook = await deployProxy<LimitOrderBook>("LimitOrderBook", [clearingHouse.address])
+
+    // 2. wire contracts together
+    await (await exchange.setAccountBalance(accountBalance.address)).wait()
+    await (await orderBook.setExchange(exchange.address)).wait()
+    await (await vault.setCollateralManager(collateralManager.address)).wait()
+    await (await insuranceFund.setVault(vault.address)).wait()
+    await (await accountBalance.setVault(vault.address)).wait()
+    await (await marketRegistry.setClearingHouse(clearingHouse.address)).wait()
+    await (await orderBook.setClearingHouse(clearingHouse.address)).wait()
+    await (await exchange.setClearingHouse(clearingHouse.address)).wait()
+    await (await accountBalance.setClearingHouse(clearingHouse.address)).wait()
+    await (await vault.setClearingHouse(clearingHouse.address)).wait()
+    await (await clearingHouse.setDelegateApproval(delegateApproval.address)).wait()
+
+    await (await quoteToken.mintMaximumTo(clearingHouse.address)).wait()
+    await (await quoteToken.addWhitelist(clearingHouse.address)).wait()
+
+    // 3. configure
+    await configureClearingHouseConfig(clearingHouseConfig, config, settlementTokenDecimals)
+
+    for (const collateral of config.collaterals) {
+        const token = await ethers.getContractAt("IERC20Metadata", collateral.token)
+        await (
+            await collateralManager.addCollateral(collateral.token, {
+                priceFeed: collateral.priceFeed,
+                collateralRatio: collateral.collateralRatio,
+                discountRatio: collateral.discountRatio,
+                depositCap: parseUnits(collateral.depositCap, await token.decimals()),
+            })
+        ).wait()
+    }
+
+    // 4. markets
+    const baseTokens: BaseToken[] = []
+    const pools: UniswapV3Pool[] = []
+    const marketDeployments: MarketDeployment[] = []
+    for (const market of config.markets) {
+        const baseToken = await deployBaseToken(market, quoteToken, baseTokens.length > 0)
+
+        let poolAddr = await uniV3Factory.getPool(baseToken.address, quoteToken.address, market.uniswapFeeTier)
+        if (poolAddr === ethers.constants.AddressZero) {
+            await (await uniV3Factory.createPool(baseToken.address, quoteToken.address, market.uniswapFeeTier)).wait()
+            poolAddr = await uniV3Factory.getPool(baseToken.address, quoteToken.address, market.uniswapFeeTier)
+        }
+        const pool = (await ethers.getContractAt("UniswapV3Pool", poolAddr)) as UniswapV3Pool
+        await (await pool.initialize(encodePriceSqrt(market.initialPrice))).wait()
+        // the initial number of oracle can be recorded is 1; thus, have to expand it
+        await (
+            await pool.increaseObservationCardinalityNext(
+                market.observationCardinalityNext || DEFAULT_OBSERVATION_CARDINALITY_NEXT,
+            )
+        ).wait()
+
+        await (await baseToken.addWhitelist(pool.address)).wait()
+        await (await quoteToken.addWhitelist(pool.address)).wait()
+        await (await baseToken.mintMaximumTo(clearingHouse.address)).wait()
+        await (await baseToken.addWhitelist(clearingHouse.address)).wait()
+
+        await (await marketRegistry.addPool(baseToken.address, market.uniswapFeeTier)).wait()
+        await (await marketRegistry.setFeeRatio(baseToken.address, market.exchangeFeeRatio)).wait()
+        await (await marketRegistry.setInsuranceFundFeeRatio(baseToken.address, market.insuranceFundFeeRatio)).wait()
+        if (market.marketMaxPriceSpreadRatio !== undefined) {
+            await (
+                await marketRegistry.setMarketMaxPriceSpreadRatio(baseToken.address, market.marketMaxPriceSpreadRatio)
+            ).wait()
+        }
+        if (market.maxTickCrossedWithinBlock > 0) {
+            await (
+                await exchange.setMaxTickCrossedWithinBlock(baseToken.address, market.maxTickCrossedWithinBlock)
+            ).wait()
+        } else {
+            console.warn(`WARNING: market ${market.symbol} is paused until maxTickCrossedWithinBlock is set`)
+        }
+        if (market.liquidationAuction !== undefined) {
+            const { startPenaltyRatio, duration } = market.liquidationAuction
+            await (
+                await clearingHouseConfig.setLiquidationAuction(baseToken.address, startPenaltyRatio, duration)
+            ).wait()
+        }
+        if (market.marginBrackets !== undefined) {
+            const marginBrackets = market.marginBrackets.map(({ positionValue, imRatio, mmRatio }) => ({
+                positionValue: parseEther(positionValue),
+                imRatio,
+                mmRatio,
+            }))
+            await (await clearingHouseConfig.setMarginBrackets(baseToken.address, marginBrackets)).wait()
+        }
+        if (market.openInterestCap !== undefined) {
+            // the open interest of the new market is empty, tracking it starts from 0
+            await (await accountBalance.setOpenInterest(baseToken.address, 0, 0)).wait()
+            await (
+                await marketRegistry.setOpenInterestCap(baseToken.address, parseEther(market.openInterestCap))
+            ).wait()
+        }
+        if (market.traderPositionNotionalCap !== undefined) {
+            await (
+                await marketRegistry.setTraderPositionNotionalCap(
+                    baseToken.address,
+                    parseEther(market.traderPositionNotionalCap),
+                )
+            ).wait()
+        }
+        console.log(`market ${market.symbol} added, pool: ${pool.address}`)
+
+        baseTokens.push(baseToken)
+        pools.push(pool)
+        marketDeployments.push({ symbol: market.symbol, pool: pool.address, ...(await toProxyDeployment(baseToken)) })
+    }
+
+    const portfolioMargin = config.clearingHouseConfig?.portfolioMargin
+    if (portfolioMargin !== undefined) {
+        const getBaseToken = (symbol: string) => {
+            const index = marketDeployments.findIndex(market => market.symbol === symbol)
+            if (index < 0) {
+                throw new Error(`portfolioMargin: market ${symbol} is not deployed`)
+            }
+            return baseTokens[index].address
+        }
+        for (const { symbolA, symbolB, correlationRatio } of portfolioMargin.correlations) {
+            await (
+                await clearingHouseConfig.setMarginCorrelationRatio(
+                    getBaseToken(symbolA),
+                    getBaseToken(symbolB),
+                    correlationRatio,
+                )
+            ).wait()
+        }
+        await (await clearingHouseConfig.setPortfolioMarginEnabled(true)).wait()
+    }
+
+    const manifest: DeploymentManifest = {
+        network: network.name,
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        deployer: deployer.address,
+        proxyAdmin: await upgrades.erc1967.getAdminAddress(clearingHouse.address),
+        uniswapV3Factory: uniV3Factory.address,
+        settlementToken: config.settlementToken,
+        contracts: {
+            QuoteToken: await toProxyDeployment(quoteToken),
+            ClearingHouseConfig: await toProxyDeployment(clearingHouseConfig),
+            MarketRegistry: await toProxyDeployment(marketRegistry),
+            OrderBook: await toProxyDeployment(orderBook),
+            InsuranceFund: await toProxyDeployment(insuranceFund),
+            Exchange: await toProxyDeployment(exchange),
+            AccountBalance: await toProxyDeployment(accountBalance),
+            Vault: await toProxyDeployment(vault),
+            CollateralManager: await toProxyDeployment(collateralManager),
+            ClearingHouse: await toProxyDeployment(clearingHouse),
+            DelegateApproval: await toProxyDeployment(delegateApproval),
+            LimitOrderBook: await toProxyDeployment(limitOrderBook),
+        },
+        markets: marketDeployments,
+    }
+
+    if (manifestPath) {
+        await writeFile(manifestPath, JSON.stringify(manifest, null, 4))
+        console.log(`deployment manifest written to ${manifestPath}`)
+    }
+
+    return {
+        manifest,
+        quoteToken,
+        clearingHouseConfig,
+        marketRegistry,
+        orderBook,
+        insuranceFund,
+        exchange,
+        accountBalance,
+        vault,
+        collateralManager,
+        clearingHouse,
+        delegateApproval,
+        limitOrderBook,
+        uniV3Factory,
+        baseTokens,
+        pools,
+    }
+}
+
+async function main(): Promise<void> {
+    const configPath = process.argv[2] || process.env.DEPLOY_CONFIG
+    if (!configPath) {
+        throw new Error(
+            "usage: HARDHAT_NETWORK=<network> ts-node --files scripts/deploy.ts <config.json|yaml> [manifest.json]",
+        )
+    }
+    const manifestPath = process.argv[3] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    await deploy(loadDeployConfig(configPath), manifestPath)
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,125 @@
+import { ContractReceipt, Signer } from "ethers"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { MarketRegistry } from "../../typechain"
+import { DeploymentManifest } from "../deploy"
+import { FeeDiscountBatch, FeeDiscountUpdate, getFeeDiscountRatios, parseFeeDiscountBatch } from "./volumeFeeTier"
+
+// the owner-side script of the batches of volumeFeeTier.ts: applies the discounts of a batch with
+// MarketRegistry.setFeeDiscountRatio(), one tx per trader, or reverts an applied batch to the previous discounts;
+// the current discounts are checked first, so that a batch doesn't overwrite the discounts changed since it was
+// generated, and a batch that failed halfway can be applied or reverted again
+
+export type FeeDiscountAction = "apply" | "revert"
+
+export interface FeeDiscountApplierOptions {
+    // the first block of FeeDiscountRatioChanged, default 0, see volumeFeeTier.ts
+    fromBlock?: number
+}
+
+export interface FeeDiscountChange {
+    trader: string
+    from: number
+    to: number
+}
+
+export class FeeDiscountApplier {
+    private readonly fromBlock: number
+
+    constructor(readonly marketRegistry: MarketRegistry, options: FeeDiscountApplierOptions = {}) {
+        this.fromBlock = options.fromBlock ?? 0
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: FeeDiscountApplierOptions = {},
+    ): Promise<FeeDiscountApplier> {
+        const marketRegistry = (await ethers.getContractAt(
+            "MarketRegistry",
+            manifest.contracts.MarketRegistry.proxy,
+            signer,
+        )) as MarketRegistry
+        return new FeeDiscountApplier(marketRegistry, options)
+    }
+
+    // the changes of the action which are not made yet
+    async getPendingChanges(batch: FeeDiscountBatch, action: FeeDiscountAction): Promise<FeeDiscountChange[]> {
+        const blockNumber = await this.marketRegistry.provider.getBlockNumber()
+        const discountRatios = await getFeeDiscountRatios(this.marketRegistry, this.fromBlock, blockNumber)
+
+        const changes = batch.updates.map(update => toChange(update, action))
+        const staleChanges = changes.filter(change => {
+            const discountRatio = discountRatios.get(change.trader) || 0
+            return discountRatio !== change.from && discountRatio !== change.to
+        })
+        if (staleChanges.length > 0) {
+            throw new Error(
+                `the discounts of ${staleChanges.map(change => change.trader).join(", ")} ` +
+                    `changed since the batch of block ${batch.blockNumber}`,
+            )
+        }
+        return changes.filter(change => (discountRatios.get(change.trader) || 0) !== change.to)
+    }
+
+    async apply(batch: FeeDiscountBatch): Promise<ContractReceipt[]> {
+        return this.execute(batch, "apply")
+    }
+
+    async revert(batch: FeeDiscountBatch): Promise<ContractReceipt[]> {
+        return this.execute(batch, "revert")
+    }
+
+    private async execute(batch: FeeDiscountBatch, action: FeeDiscountAction): Promise<ContractReceipt[]> {
+        const owner = await this.marketRegistry.owner()
+        const sender = await this.marketRegistry.signer.getAddress()
+        if (owner !== sender) {
+            throw new Error(`${sender} is not the owner of MarketRegistry ${owner}`)
+        }
+
+        const receipts: ContractReceipt[] = []
+        for (const change of await this.getPendingChanges(batch, action)) {
+            const tx = await this.marketRegistry.setFeeDiscountRatio(change.trader, change.to)
+            receipts.push(await tx.wait())
+        }
+        return receipts
+    }
+}
+
+function toChange(update: FeeDiscountUpdate, action: FeeDiscountAction): FeeDiscountChange {
+    return action === "apply"
+        ? { trader: update.trader, from: update.previousDiscountRatio, to: update.discountRatio }
+        : { trader: update.trader, from: update.discountRatio, to: update.previousDiscountRatio }
+}
+
+async function main(): Promise<void> {
+    const action = process.argv[2] as FeeDiscountAction
+    const batchPath = process.argv[3]
+    if ((action !== "apply" && action !== "revert") || !batchPath) {
+        throw new Error("usage: applyFeeDiscounts.ts <apply|revert> <batch.json> [manifest.json]")
+    }
+    const manifestPath = process.argv[4] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const batch = parseFeeDiscountBatch(JSON.parse(fs.readFileSync(batchPath, "utf8")))
+    const [signer] = await ethers.getSigners()
+    const applier = await FeeDiscountApplier.fromManifest(manifest, signer, {
+        fromBlock: Number(process.env.FEE_TIER_FROM_BLOCK || 0),
+    })
+
+    const receipts = action === "apply" ? await applier.apply(batch) : await applier.revert(batch)
+    for (const receipt of receipts) {
+        console.log(receipt.transactionHash)
+    }
+    console.log(
+        `${action === "apply" ? "applied" : "reverted"} ${receipts.length} fee discounts on ${manifest.network}`,
+    )
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,352 @@
+import { BigNumber, Event, Signer } from "ethers"
+import { formatEther, getAddress, parseEther } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { ClearingHouse, MarketRegistry } from "../../typechain"
+import { RATIO_ONE, ZERO } from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+import { writeFile } from "../files"
+
+// a fee tier engine that assigns MarketRegistry.setFeeDiscountRatio() by the rolling 30-day volume of each trader:
+// - taker volume: the absolute exchangedPositionNotional of PositionChanged of trades, excluding liquidations
+// - maker volume: the same of PositionChanged of the positions makers take over when removing liquidity, which has
+//   no taker fee and is emitted next to LiquidityChanged of the maker in the same tx
+// - a trader reaches a tier by either volume, and gets the discount of the highest tier reached
+// - the current discounts are replayed from FeeDiscountRatioChanged, so fromBlock should be before the first
+//   discount; the batch only updates the traders whose discount changes, including the ones falling out of tiers
+// see applyFeeDiscounts.ts for applying and reverting a batch
+
+export const DEFAULT_WINDOW_DURATION = 30 * 86400
+
+export interface FeeTier {
+    // the 30-day volumes reaching the tier, undefined if the tier can't be reached by the volume, in 18 decimals
+    minTakerVolume?: BigNumber
+    minMakerVolume?: BigNumber
+    // percent-off of the exchange fee, in decimal 6
+    discountRatio: number
+}
+
+export interface FeeTierConfig {
+    // in ascending discountRatio
+    tiers: FeeTier[]
+    // in seconds, default 30 days
+    windowDuration?: number
+    // traders whose discounts are assigned manually, e.g. market makers with a deal
+    excludedTraders?: string[]
+}
+
+export interface FeeTierEngineContracts {
+    clearingHouse: ClearingHouse
+    marketRegistry: MarketRegistry
+}
+
+export interface FeeTierEngineOptions {
+    // the first block of the history, default 0
+    fromBlock?: number
+}
+
+export interface TraderVolume {
+    trader: string
+    // in 18 decimals
+    takerVolume: BigNumber
+    makerVolume: BigNumber
+}
+
+export interface FeeDiscountUpdate extends TraderVolume {
+    // -1 if the trader reaches no tier
+    tierIndex: number
+    discountRatio: number
+    previousDiscountRatio: number
+}
+
+export interface FeeDiscountBatch {
+    blockNumber: number
+    // the volumes are of the trades in [fromTimestamp, toTimestamp]
+    fromTimestamp: number
+    toTimestamp: number
+    updates: FeeDiscountUpdate[]
+}
+
+export function validateFeeTiers(tiers: FeeTier[]): void {
+    tiers.forEach((tier, i) => {
+        if (tier.discountRatio < 0 || tier.discountRatio > RATIO_ONE) {
+            throw new Error(`the discount ratio of tier ${i} overflows`)
+        }
+        if (i > 0 && tier.discountRatio <= tiers[i - 1].discountRatio) {
+            throw new Error(`tier ${i} should discount more than tier ${i - 1}`)
+        }
+        if (tier.minTakerVolume === undefined && tier.minMakerVolume === undefined) {
+            throw new Error(`tier ${i} can't be reached by any volume`)
+        }
+    })
+}
+
+// the current discounts replayed from FeeDiscountRatioChanged, key: trader, the traders without discounts are omitted
+export async function getFeeDiscountRatios(
+    marketRegistry: MarketRegistry,
+    fromBlock: number,
+    toBlock: number,
+): Promise<Map<string, number>> {
+    const events = await marketRegistry.queryFilter(
+        marketRegistry.filters.FeeDiscountRatioChanged(),
+        fromBlock,
+        toBlock,
+    )
+    const discountRatios = new Map<string, number>()
+    for (const event of events) {
+        if (event.args.discountRatio === 0) {
+            discountRatios.delete(event.args.trader)
+        } else {
+            discountRatios.set(event.args.trader, event.args.discountRatio)
+        }
+    }
+    return discountRatios
+}
+
+// the highest tier either volume reaches, -1 if none
+export function getFeeTierIndex(tiers: FeeTier[], volume: Omit<TraderVolume, "trader">): number {
+    for (let i = tiers.length - 1; i >= 0; i--) {
+        const { minTakerVolume, minMakerVolume } = tiers[i]
+        if (
+            (minTakerVolume !== undefined && volume.takerVolume.gte(minTakerVolume)) ||
+            (minMakerVolume !== undefined && volume.makerVolume.gte(minMakerVolume))
+        ) {
+            return i
+        }
+    }
+    return -1
+}
+
+export class VolumeFeeTierEngine {
+    private readonly fromBlock: number
+    private readonly windowDuration: number
+    private readonly excludedTraders: Set<string>
+    // key: block number
+    private readonly blockTimestamps = new Map<number, number>()
+
+    constructor(
+        readonly contracts: FeeTierEngineContracts,
+        readonly config: FeeTierConfig,
+        options: FeeTierEngineOptions = {},
+    ) {
+        validateFeeTiers(config.tiers)
+        this.fromBlock = options.fromBlock ?? 0
+        this.windowDuration = config.windowDuration ?? DEFAULT_WINDOW_DURATION
+        this.excludedTraders = new Set((config.excludedTraders || []).map(trader => getAddress(trader)))
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        config: FeeTierConfig,
+        options: FeeTierEngineOptions = {},
+    ): Promise<VolumeFeeTierEngine> {
+        const contracts = manifest.contracts
+        return new VolumeFeeTierEngine(
+            {
+                clearingHouse: (await ethers.getContractAt(
+                    "ClearingHouse",
+                    contracts.ClearingHouse.proxy,
+                    signer,
+                )) as ClearingHouse,
+                marketRegistry: (await ethers.getContractAt(
+                    "MarketRegistry",
+                    contracts.MarketRegistry.proxy,
+                    signer,
+                )) as MarketRegistry,
+            },
+            config,
+            options,
+        )
+    }
+
+    // the volumes of the window ending at the block, in the order the traders first traded
+    async getVolumes(blockNumber: number): Promise<TraderVolume[]> {
+        const { clearingHouse } = this.contracts
+        const toTimestamp = await this.getBlockTimestamp(blockNumber)
+        const fromTimestamp = toTimestamp - this.windowDuration
+
+        const [positionChangedEvents, liquidityChangedEvents, liquidatedEvents] = await Promise.all([
+            clearingHouse.queryFilter(clearingHouse.filters.PositionChanged(), this.fromBlock, blockNumber),
+            clearingHouse.queryFilter(clearingHouse.filters.LiquidityChanged(), this.fromBlock, blockNumber),
+            clearingHouse.queryFilter(clearingHouse.filters.PositionLiquidated(), this.fromBlock, blockNumber),
+        ])
+        // the events of each tx in order, to find the events next to a PositionChanged
+        const eventsByTx = new Map<string, Event[]>()
+        for (const event of [...positionChangedEvents, ...liquidityChangedEvents, ...liquidatedEvents]) {
+            eventsByTx.set(event.transactionHash, [...(eventsByTx.get(event.transactionHash) || []), event])
+        }
+        eventsByTx.forEach(events => events.sort((a, b) => a.logIndex - b.logIndex))
+
+        // a liquidation emits PositionChanged of the trader and of the liquidator right before PositionLiquidated
+        const liquidationEvents = new Set<Event>()
+        for (const liquidatedEvent of liquidatedEvents) {
+            const events = eventsByTx.get(liquidatedEvent.transactionHash)!
+            const index = events.indexOf(liquidatedEvent)
+            events.slice(Math.max(index - 2, 0), index).forEach(event => liquidationEvents.add(event))
+        }
+
+        const volumes = new Map<string, TraderVolume>()
+        for (const event of positionChangedEvents) {
+            const args = event.args!
+            if (args.exchangedPositionNotional.isZero() || liquidationEvents.has(event)) {
+                continue
+            }
+            const timestamp = await this.getBlockTimestamp(event.blockNumber)
+            if (timestamp < fromTimestamp) {
+                continue
+            }
+
+            // removing liquidity emits PositionChanged without taker fee right before LiquidityChanged,
+            // and cancelExcessOrders() right after
+            const events = eventsByTx.get(event.transactionHash)!
+            const index = events.indexOf(event)
+            const isMaker =
+                args.fee.isZero() &&
+                [events[index - 1], events[index + 1]].some(
+                    neighbor =>
+                        neighbor &&
+                        neighbor.event === "LiquidityChanged" &&
+                        neighbor.args!.maker === args.trader &&
+                        neighbor.args!.baseToken === args.baseToken &&
+                        neighbor.args!.liquidity.lt(0),
+                )
+
+            const volume = volumes.get(args.trader) || { trader: args.trader, takerVolume: ZERO, makerVolume: ZERO }
+            const notional = args.exchangedPositionNotional.abs()
+            if (isMaker) {
+                volume.makerVolume = volume.makerVolume.add(notional)
+            } else {
+                volume.takerVolume = volume.takerVolume.add(notional)
+            }
+            volumes.set(args.trader, volume)
+        }
+        return Array.from(volumes.values())
+    }
+
+    async generate(blockNumber?: number): Promise<FeeDiscountBatch> {
+        const toBlock = blockNumber ?? (await this.contracts.clearingHouse.provider.getBlockNumber())
+        const toTimestamp = await this.getBlockTimestamp(toBlock)
+        const volumes = await this.getVolumes(toBlock)
+        const discountRatios = await getFeeDiscountRatios(this.contracts.marketRegistry, this.fromBlock, toBlock)
+
+        // the traders with discounts but no volume fall out of the tiers
+        const volumeByTrader = new Map(volumes.map(volume => [volume.trader, volume]))
+        for (const trader of Array.from(discountRatios.keys())) {
+            if (!volumeByTrader.has(trader)) {
+                volumeByTrader.set(trader, { trader, takerVolume: ZERO, makerVolume: ZERO })
+            }
+        }
+
+        const updates: FeeDiscountUpdate[] = []
+        for (const volume of Array.from(volumeByTrader.values())) {
+            if (this.excludedTraders.has(volume.trader)) {
+                continue
+            }
+            const tierIndex = getFeeTierIndex(this.config.tiers, volume)
+            const discountRatio = tierIndex < 0 ? 0 : this.config.tiers[tierIndex].discountRatio
+            const previousDiscountRatio = discountRatios.get(volume.trader) || 0
+            if (discountRatio !== previousDiscountRatio) {
+                updates.push({ ...volume, tierIndex, discountRatio, previousDiscountRatio })
+            }
+        }
+
+        return {
+            blockNumber: toBlock,
+            fromTimestamp: toTimestamp - this.windowDuration,
+            toTimestamp,
+            updates,
+        }
+    }
+
+    private async getBlockTimestamp(blockNumber: number): Promise<number> {
+        if (!this.blockTimestamps.has(blockNumber)) {
+            const block = await this.contracts.clearingHouse.provider.getBlock(blockNumber)
+            this.blockTimestamps.set(blockNumber, block.timestamp)
+        }
+        return this.blockTimestamps.get(blockNumber)!
+    }
+}
+
+//
+// JSON
+//
+
+export function formatFeeDiscountBatch(batch: FeeDiscountBatch) {
+    return {
+        ...batch,
+        updates: batch.updates.map(update => ({
+            ...update,
+            takerVolume: formatEther(update.takerVolume),
+            makerVolume: formatEther(update.makerVolume),
+        })),
+    }
+}
+
+export function parseFeeDiscountBatch(json: ReturnType<typeof formatFeeDiscountBatch>): FeeDiscountBatch {
+    return {
+        ...json,
+        updates: json.updates.map(update => ({
+            ...update,
+            takerVolume: parseEther(update.takerVolume),
+            makerVolume: parseEther(update.makerVolume),
+        })),
+    }
+}
+
+//
+// CLI
+//
+
+// FEE_TIER_CONFIG is a json file of the tiers, e.g.
+// { "tiers": [{ "minTakerVolume": "1000000", "minMakerVolume": "500000", "discountRatio": 100000 }],
+//   "excludedTraders": [] }
+interface FeeTierConfigFile {
+    tiers: { minTakerVolume?: string; minMakerVolume?: string; discountRatio: number }[]
+    windowDuration?: number
+    excludedTraders?: string[]
+}
+
+async function main(): Promise<void> {
+    const configPath = process.env.FEE_TIER_CONFIG
+    if (!configPath) {
+        throw new Error("usage: FEE_TIER_CONFIG=<config.json> volumeFeeTier.ts [manifest.json]")
+    }
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const configFile = JSON.parse(fs.readFileSync(configPath, "utf8")) as FeeTierConfigFile
+    const parseVolume = (volume?: string) => (volume === undefined ? undefined : parseEther(volume))
+    const [signer] = await ethers.getSigners()
+    const engine = await VolumeFeeTierEngine.fromManifest(
+        manifest,
+        signer,
+        {
+            ...configFile,
+            tiers: configFile.tiers.map(tier => ({
+                minTakerVolume: parseVolume(tier.minTakerVolume),
+                minMakerVolume: parseVolume(tier.minMakerVolume),
+                discountRatio: tier.discountRatio,
+            })),
+        },
+        { fromBlock: Number(process.env.FEE_TIER_FROM_BLOCK || 0) },
+    )
+
+    const batch = await engine.generate()
+    const content = JSON.stringify(formatFeeDiscountBatch(batch), null, 4) + "\n"
+    const outputPath = process.env.FEE_TIER_OUTPUT
+    if (outputPath) {
+        await writeFile(outputPath, content)
+        console.log(`${batch.updates.length} fee discount updates written to ${outputPath}`)
+    } else {
+        process.stdout.write(content)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
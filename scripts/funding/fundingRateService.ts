@@ -0,0 +1,423 @@
+import { BigNumber, BigNumberish, Event, Signer } from "ethers"
+import { formatEther, parseEther } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { BaseToken, ClearingHouseConfig, Exchange } from "../../typechain"
+import { getDeltaTwapX96 } from "../accounting/funding"
+import {
+    formatSqrtPriceX96ToPriceX96,
+    formatX10_18ToX96,
+    FUNDING_PERIOD,
+    mulDiv,
+    mulRatio,
+    ONE_ETHER,
+    Q96,
+    signedMulDiv,
+    ZERO,
+} from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+
+// funding rate history & forecast of every market:
+//   HARDHAT_NETWORK=<network> npx ts-node --files scripts/funding/fundingRateService.ts [manifest.json]
+//
+// funding accrues per second at (marketTwap - indexTwap) / 1 day for a long of 1 base, where the premium is capped
+// by indexTwap * ClearingHouseConfig.getMaxFundingRate(); Exchange settles it on every action of a market and
+// emits FundingUpdated with the twaps that are used for the period since the previous settlement, which ends at the
+// paused timestamp once the market is paused
+//
+// all prices, premiums and rates are in 18 decimals; rates are relative to the index twap and positive when longs
+// pay shorts, e.g. a daily rate of 0.001e18 costs a long of 1 base 0.1% of its index value a day
+
+export interface FundingRateServiceContracts {
+    exchange: Exchange
+    clearingHouseConfig: ClearingHouseConfig
+}
+
+export interface FundingRateServiceOptions {
+    // the first block to sample, default 0
+    fromBlock?: number
+    // the timestamp seen by the contracts at a block, default the block timestamp
+    getTimestamp?: (blockNumber: number) => Promise<number>
+}
+
+export type FundingInterval = "1h" | "8h"
+
+// ClearingHouseConfig.initialize(), the max funding rate before the first MaxFundingRateChanged
+export const DEFAULT_MAX_FUNDING_RATE = 100000
+
+export const FUNDING_INTERVALS: Record<FundingInterval, number> = {
+    "1h": 3600,
+    "8h": 8 * 3600,
+}
+
+// a FundingUpdated event, whose twaps are used for the funding of [previousTimestamp, timestamp)
+export interface FundingSample {
+    baseToken: string
+    blockNumber: number
+    logIndex: number
+    txHash: string
+    timestamp: number
+    // undefined for the first settlement of the market, which only records the timestamp, or the first sample
+    previousTimestamp?: number
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+    // marketTwap - indexTwap, capped by the max funding rate
+    premium: BigNumber
+    // premium / indexTwap, the funding rate of a day
+    dailyFundingRate: BigNumber
+}
+
+export interface FundingRatePoint {
+    baseToken: string
+    // [startTimestamp, endTimestamp), aligned to the interval
+    startTimestamp: number
+    endTimestamp: number
+    // the seconds of the interval covered by settled funding
+    coveredSeconds: number
+    // the funding rate over the covered seconds of the interval
+    fundingRate: BigNumber
+    // the funding paid by a long of 1 base over the covered seconds of the interval, in quote
+    fundingPerBase: BigNumber
+}
+
+export interface FundingForecast {
+    baseToken: string
+    // the length of the forecast period in seconds
+    period: number
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+    premium: BigNumber
+    // the funding rate over the period
+    fundingRate: BigNumber
+    // the funding paid by the position over the period, positive when the position pays;
+    // the same as Exchange.getPendingFundingPayment() of a taker after the period if the twaps stay the same
+    fundingPayment: BigNumber
+}
+
+// premium = marketTwap - indexTwap, capped by indexTwap * maxFundingRate; the same as Exchange._getDeltaTwapX96()
+export function getPremium(marketTwap: BigNumber, indexTwap: BigNumber, maxFundingRate: number): BigNumber {
+    const maxPremium = mulRatio(indexTwap, maxFundingRate)
+    const premium = marketTwap.sub(indexTwap)
+    if (premium.gt(maxPremium)) {
+        return maxPremium
+    }
+    return premium.lt(maxPremium.mul(-1)) ? maxPremium.mul(-1) : premium
+}
+
+// a MaxFundingRateChanged event, whose rate applies to the settlements after it
+interface MaxFundingRateChange {
+    blockNumber: number
+    logIndex: number
+    rate: number
+}
+
+// sums of rate * seconds & premium * seconds, which are divided by the funding period once to avoid accumulating
+// rounding errors
+interface FundingAccumulator {
+    baseToken: string
+    coveredSeconds: number
+    rateTimesSeconds: BigNumber
+    premiumTimesSeconds: BigNumber
+}
+
+// aggregates the funding of the samples into intervals aligned to the unix epoch
+export function aggregateFundingRates(
+    samples: FundingSample[],
+    interval: number,
+    fromTimestamp?: number,
+    toTimestamp?: number,
+): FundingRatePoint[] {
+    const points = new Map<number, FundingAccumulator>()
+    for (const sample of samples) {
+        if (sample.previousTimestamp === undefined) {
+            continue
+        }
+        const periodStart = Math.max(sample.previousTimestamp, fromTimestamp ?? sample.previousTimestamp)
+        const periodEnd = Math.min(sample.timestamp, toTimestamp ?? sample.timestamp)
+        for (let start = periodStart - (periodStart % interval); start < periodEnd; start += interval) {
+            const seconds = Math.min(periodEnd, start + interval) - Math.max(periodStart, start)
+            if (seconds <= 0) {
+                continue
+            }
+            const point = points.get(start) ?? {
+                baseToken: sample.baseToken,
+                coveredSeconds: 0,
+                rateTimesSeconds: ZERO,
+                premiumTimesSeconds: ZERO,
+            }
+            point.coveredSeconds += seconds
+            point.rateTimesSeconds = point.rateTimesSeconds.add(sample.dailyFundingRate.mul(seconds))
+            point.premiumTimesSeconds = point.premiumTimesSeconds.add(sample.premium.mul(seconds))
+            points.set(start, point)
+        }
+    }
+
+    return Array.from(points.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([start, point]) => ({
+            baseToken: point.baseToken,
+            startTimestamp: start,
+            endTimestamp: start + interval,
+            coveredSeconds: point.coveredSeconds,
+            fundingRate: point.rateTimesSeconds.div(FUNDING_PERIOD),
+            fundingPerBase: point.premiumTimesSeconds.div(FUNDING_PERIOD),
+        }))
+}
+
+export class FundingRateService {
+    private readonly fromBlock: number
+    private readonly getTimestamp: (blockNumber: number) => Promise<number>
+    private readonly samplesMap = new Map<string, FundingSample[]>()
+    private readonly maxFundingRateChanges: MaxFundingRateChange[] = []
+    private readonly pausedTimestampMap = new Map<string, number>()
+    private lastBlock: number | undefined
+
+    constructor(readonly contracts: FundingRateServiceContracts, options: FundingRateServiceOptions = {}) {
+        this.fromBlock = options.fromBlock ?? 0
+        this.getTimestamp =
+            options.getTimestamp ??
+            (async blockNumber => (await contracts.exchange.provider.getBlock(blockNumber)).timestamp)
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: FundingRateServiceOptions = {},
+    ): Promise<FundingRateService> {
+        const contracts = manifest.contracts
+        return new FundingRateService(
+            {
+                exchange: (await ethers.getContractAt("Exchange", contracts.Exchange.proxy, signer)) as Exchange,
+                clearingHouseConfig: (await ethers.getContractAt(
+                    "ClearingHouseConfig",
+                    contracts.ClearingHouseConfig.proxy,
+                    signer,
+                )) as ClearingHouseConfig,
+            },
+            options,
+        )
+    }
+
+    // samples the FundingUpdated events since the last sync, returns the number of new samples
+    async sync(toBlock?: number): Promise<number> {
+        const { exchange, clearingHouseConfig } = this.contracts
+        const fromBlock = this.lastBlock === undefined ? this.fromBlock : this.lastBlock + 1
+        const lastBlock = toBlock ?? (await exchange.provider.getBlockNumber())
+        if (lastBlock < fromBlock) {
+            return 0
+        }
+
+        // the changes of the max funding rate are sampled from the genesis, as the rate in effect at fromBlock can be
+        // set before it
+        const [rateChanges, events] = await Promise.all([
+            clearingHouseConfig.queryFilter(
+                clearingHouseConfig.filters.MaxFundingRateChanged(),
+                this.lastBlock === undefined ? 0 : fromBlock,
+                lastBlock,
+            ),
+            exchange.queryFilter(exchange.filters.FundingUpdated(), fromBlock, lastBlock),
+        ])
+        for (const change of rateChanges) {
+            this.maxFundingRateChanges.push({
+                blockNumber: change.blockNumber,
+                logIndex: change.logIndex,
+                rate: change.args.rate,
+            })
+        }
+        this.maxFundingRateChanges.sort(compareLogs)
+        events.sort(compareLogs)
+        for (const baseToken of Array.from(new Set(events.map(event => event.args.baseToken)))) {
+            await this.updatePausedTimestamp(baseToken)
+        }
+        for (const event of events) {
+            await this.addSample(event)
+        }
+
+        this.lastBlock = lastBlock
+        return events.length
+    }
+
+    getBaseTokens(): string[] {
+        return Array.from(this.samplesMap.keys())
+    }
+
+    getSamples(baseToken: string): FundingSample[] {
+        return [...(this.samplesMap.get(baseToken) ?? [])]
+    }
+
+    getHistory(
+        baseToken: string,
+        interval: FundingInterval,
+        fromTimestamp?: number,
+        toTimestamp?: number,
+    ): FundingRatePoint[] {
+        return aggregateFundingRates(
+            this.getSamples(baseToken),
+            FUNDING_INTERVALS[interval],
+            fromTimestamp,
+            toTimestamp,
+        )
+    }
+
+    // the funding paid by the position from fromTimestamp to toTimestamp, positive when the position pays;
+    // the same as FundingPaymentSettled of a taker keeping the position over settled periods, besides rounding
+    getFundingPayment(
+        baseToken: string,
+        positionSize: BigNumberish,
+        fromTimestamp: number,
+        toTimestamp: number,
+    ): BigNumber {
+        let premiumTimesSeconds = ZERO
+        for (const sample of this.getSamples(baseToken)) {
+            if (sample.previousTimestamp === undefined) {
+                continue
+            }
+            const seconds = Math.min(sample.timestamp, toTimestamp) - Math.max(sample.previousTimestamp, fromTimestamp)
+            if (seconds > 0) {
+                premiumTimesSeconds = premiumTimesSeconds.add(sample.premium.mul(seconds))
+            }
+        }
+        return signedMulDiv(positionSize, premiumTimesSeconds, ONE_ETHER).div(FUNDING_PERIOD)
+    }
+
+    // forecasts the funding of the next period by the twaps of now, as if the market were settled right now;
+    // note that Exchange shortens the twap interval for the first twap interval of a market
+    async forecast(baseToken: string, positionSize: BigNumberish, period: number): Promise<FundingForecast> {
+        const { exchange, clearingHouseConfig } = this.contracts
+        const baseTokenContract = (await ethers.getContractAt("BaseToken", baseToken)) as BaseToken
+        const [twapInterval, maxFundingRate, isOpen] = await Promise.all([
+            clearingHouseConfig.getTwapInterval(),
+            clearingHouseConfig.getMaxFundingRate(),
+            baseTokenContract.isOpen(),
+        ])
+        const [sqrtMarketTwapX96, indexTwap] = await Promise.all([
+            exchange.getSqrtMarketTwapX96(baseToken, twapInterval),
+            baseTokenContract.getIndexPrice(twapInterval),
+        ])
+
+        // the same precision as Exchange._getFundingGrowthGlobalAndTwaps()
+        const marketTwapX96 = formatSqrtPriceX96ToPriceX96(sqrtMarketTwapX96)
+        const marketTwap = mulDiv(marketTwapX96, ONE_ETHER, Q96)
+        // funding stops once the market is paused or closed
+        const premium = isOpen ? getPremium(marketTwap, indexTwap, maxFundingRate) : ZERO
+        const deltaTwapX96 = isOpen
+            ? getDeltaTwapX96(marketTwapX96, formatX10_18ToX96(indexTwap), maxFundingRate)
+            : ZERO
+        return {
+            baseToken,
+            period,
+            marketTwap,
+            indexTwap,
+            premium,
+            fundingRate: mulDiv(premium.mul(period), ONE_ETHER, indexTwap).div(FUNDING_PERIOD),
+            // Funding.calcPendingFundingPaymentWithLiquidityCoefficient() without the liquidity of orders
+            fundingPayment: signedMulDiv(positionSize, deltaTwapX96.mul(period), Q96).div(FUNDING_PERIOD),
+        }
+    }
+
+    private async addSample(event: Event): Promise<void> {
+        const baseToken: string = event.args!.baseToken
+        const marketTwap: BigNumber = event.args!.marketTwap
+        const indexTwap: BigNumber = event.args!.indexTwap
+        const samples = this.samplesMap.get(baseToken) ?? []
+        const premium = getPremium(marketTwap, indexTwap, this.getMaxFundingRateAt(event))
+        samples.push({
+            baseToken,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            txHash: event.transactionHash,
+            timestamp: await this.getSettledTimestamp(baseToken, event.blockNumber),
+            previousTimestamp: samples.length > 0 ? samples[samples.length - 1].timestamp : undefined,
+            marketTwap,
+            indexTwap,
+            premium,
+            dailyFundingRate: indexTwap.isZero() ? ZERO : mulDiv(premium, ONE_ETHER, indexTwap),
+        })
+        this.samplesMap.set(baseToken, samples)
+    }
+
+    // the last max funding rate set before the event
+    private getMaxFundingRateAt(event: Event): number {
+        let maxFundingRate = DEFAULT_MAX_FUNDING_RATE
+        for (const change of this.maxFundingRateChanges) {
+            if (compareLogs(change, event) > 0) {
+                break
+            }
+            maxFundingRate = change.rate
+        }
+        return maxFundingRate
+    }
+
+    // a market can't be reopened once paused, so its paused timestamp is read until it's paused
+    private async updatePausedTimestamp(baseToken: string): Promise<void> {
+        if (this.pausedTimestampMap.has(baseToken)) {
+            return
+        }
+        const baseTokenContract = (await ethers.getContractAt("BaseToken", baseToken)) as BaseToken
+        const pausedTimestamp = (await baseTokenContract.getPausedTimestamp()).toNumber()
+        if (pausedTimestamp > 0) {
+            this.pausedTimestampMap.set(baseToken, pausedTimestamp)
+        }
+    }
+
+    // the same as Exchange.settleFunding(), the funding of a paused market stops at the paused timestamp
+    private async getSettledTimestamp(baseToken: string, blockNumber: number): Promise<number> {
+        const timestamp = await this.getTimestamp(blockNumber)
+        const pausedTimestamp = this.pausedTimestampMap.get(baseToken)
+        return pausedTimestamp === undefined ? timestamp : Math.min(timestamp, pausedTimestamp)
+    }
+}
+
+function compareLogs(
+    a: { blockNumber: number; logIndex: number },
+    b: { blockNumber: number; logIndex: number },
+): number {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const service = await FundingRateService.fromManifest(manifest, signer, {
+        fromBlock: Number(process.env.FUNDING_FROM_BLOCK || 0),
+    })
+    const count = await service.sync()
+    console.log(`sampled ${count} funding updates on ${manifest.network}`)
+
+    const format = (value: BigNumber) => formatEther(value)
+    const report = []
+    for (const market of manifest.markets) {
+        const forecast = await service.forecast(market.proxy, parseEther("1"), FUNDING_INTERVALS["8h"])
+        report.push({
+            symbol: market.symbol,
+            baseToken: market.proxy,
+            history: (["1h", "8h"] as FundingInterval[]).map(interval => ({
+                interval,
+                points: service.getHistory(market.proxy, interval).map(point => ({
+                    startTimestamp: point.startTimestamp,
+                    coveredSeconds: point.coveredSeconds,
+                    fundingRate: format(point.fundingRate),
+                    fundingPerBase: format(point.fundingPerBase),
+                })),
+            })),
+            // the next 8h of a long of 1 base
+            forecast: {
+                marketTwap: format(forecast.marketTwap),
+                indexTwap: format(forecast.indexTwap),
+                fundingRate: format(forecast.fundingRate),
+                fundingPayment: format(forecast.fundingPayment),
+            },
+        })
+    }
+    console.log(JSON.stringify(report, null, 2))
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
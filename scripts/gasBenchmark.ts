@@ -0,0 +1,138 @@
+import fs from "fs"
+import { writeFile } from "./files"
+
+// compares the gas used by the benchmarked paths of test/gas/ClearingHouse.gasBenchmark.test.ts against the committed
+// baseline, so that a change cannot silently make the common paths more expensive:
+//   npm run gas-benchmark                            fails when a path uses more gas than the threshold allows
+//   GAS_BENCHMARK_UPDATE=true npm run gas-benchmark  overwrites the baseline after reviewing the diff
+// GAS_BENCHMARK_THRESHOLD=<ratio in decimal 6> is the allowed regression of every path, default 1%
+
+export const GAS_BENCHMARK_BASELINE = "./gas-benchmark.json"
+export const DEFAULT_GAS_REGRESSION_THRESHOLD = 10000
+
+// path => gas used, in the order the paths are benchmarked
+export type GasBenchmarkSnapshot = Record<string, number>
+
+export type GasBenchmarkChangeType = "regressed" | "improved" | "unchanged" | "added" | "removed"
+
+export interface GasBenchmarkChange {
+    path: string
+    type: GasBenchmarkChangeType
+    baseline?: number
+    current?: number
+    // current - baseline, 0 for added or removed paths
+    diff: number
+    // diff / baseline in decimal 6
+    diffRatio: number
+    // regressed beyond the threshold
+    isBreaking: boolean
+}
+
+export function getGasRegressionThreshold(): number {
+    const value = process.env.GAS_BENCHMARK_THRESHOLD
+    if (value === undefined || value === "") {
+        return DEFAULT_GAS_REGRESSION_THRESHOLD
+    }
+    const threshold = Number(value)
+    if (!Number.isInteger(threshold) || threshold < 0) {
+        throw new Error(`GAS_BENCHMARK_THRESHOLD should be a non-negative integer in decimal 6, got ${value}`)
+    }
+    return threshold
+}
+
+export function isGasBenchmarkUpdate(): boolean {
+    return process.env.GAS_BENCHMARK_UPDATE === "true"
+}
+
+export function readGasBenchmarkBaseline(filename = GAS_BENCHMARK_BASELINE): GasBenchmarkSnapshot {
+    if (!fs.existsSync(filename)) {
+        return {}
+    }
+    return JSON.parse(fs.readFileSync(filename, "utf8")) as GasBenchmarkSnapshot
+}
+
+export async function writeGasBenchmarkBaseline(
+    snapshot: GasBenchmarkSnapshot,
+    filename = GAS_BENCHMARK_BASELINE,
+): Promise<void> {
+    await writeFile(filename, JSON.stringify(snapshot, null, 2) + "\n")
+}
+
+// the paths of the current run first, then the ones only in the baseline;
+// a path missing from the current run is reported but never breaking, as a run may benchmark only some paths
+export function compareGasBenchmark(
+    baseline: GasBenchmarkSnapshot,
+    current: GasBenchmarkSnapshot,
+    threshold = DEFAULT_GAS_REGRESSION_THRESHOLD,
+): GasBenchmarkChange[] {
+    const changes: GasBenchmarkChange[] = []
+    for (const path of Object.keys(current)) {
+        const gasUsed = current[path]
+        const baselineGasUsed = baseline[path]
+        if (baselineGasUsed === undefined) {
+            changes.push({ path, type: "added", current: gasUsed, diff: 0, diffRatio: 0, isBreaking: false })
+            continue
+        }
+
+        const diff = gasUsed - baselineGasUsed
+        const diffRatio = Math.round((diff * 1e6) / baselineGasUsed)
+        changes.push({
+            path,
+            type: diff > 0 ? "regressed" : diff < 0 ? "improved" : "unchanged",
+            baseline: baselineGasUsed,
+            current: gasUsed,
+            diff,
+            diffRatio,
+            isBreaking: diffRatio > threshold,
+        })
+    }
+    for (const path of Object.keys(baseline)) {
+        if (current[path] === undefined) {
+            changes.push({
+                path,
+                type: "removed",
+                baseline: baseline[path],
+                diff: 0,
+                diffRatio: 0,
+                isBreaking: false,
+            })
+        }
+    }
+    return changes
+}
+
+// one row per path, e.g. "x openPosition, 1 market | 190000 | 195000 | +5000 | +2.63%";
+// breaking paths are marked with "x", other regressions with "!" and improvements with "-"
+export function formatGasBenchmarkTable(changes: GasBenchmarkChange[]): string {
+    const rows = [
+        ["  path", "baseline", "current", "diff", "%"],
+        ...changes.map(change => [
+            `${getMarker(change)} ${change.path}`,
+            change.baseline === undefined ? "" : String(change.baseline),
+            change.current === undefined ? "" : String(change.current),
+            change.type === "added" || change.type === "removed" ? change.type : formatSigned(String(change.diff)),
+            change.type === "added" || change.type === "removed"
+                ? ""
+                : formatSigned((change.diffRatio / 1e4).toFixed(2)) + "%",
+        ]),
+    ]
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)))
+    return rows
+        .map(row =>
+            row
+                .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+                .join(" | "),
+        )
+        .join("\n")
+}
+
+function getMarker(change: GasBenchmarkChange): string {
+    if (change.isBreaking) {
+        return "x"
+    }
+    return change.type === "regressed" ? "!" : change.type === "improved" ? "-" : " "
+}
+
+function formatSigned(value: string): string {
+    return value.startsWith("-") || Number(value) === 0 ? value : `+${value}`
+}
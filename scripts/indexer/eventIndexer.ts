@@ -0,0 +1,536 @@
+import { BigNumber, Event, Signer } from "ethers"
+import { Result } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { AccountBalance, ClearingHouse, Vault } from "../../typechain"
+import { formatSettlementToken, ZERO } from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+
+// an indexer that rebuilds every trader's history and balances from the contract logs:
+// - taker position & open notional per market from PositionChanged and PositionClosed
+// - realized pnl, fees, funding payments and liquidation penalties per market
+// - owed realized pnl from PnlRealized, which is settled into the settlement token balance on withdrawal
+// - collateral balances from Deposited, Withdrawn, CollateralLiquidated and BadDebtSettled
+// the reconstructed state can be verified against AccountBalance & Vault at any block
+
+export interface EventIndexerContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    vault: Vault
+}
+
+export interface EventIndexerOptions {
+    // the first block to index, default 0
+    fromBlock?: number
+    store?: IndexerStore
+}
+
+export type IndexedEventName =
+    | "PositionChanged"
+    | "PositionLiquidated"
+    | "PositionClosed"
+    | "LiquidityChanged"
+    | "FundingPaymentSettled"
+    | "PnlRealized"
+    | "Deposited"
+    | "Withdrawn"
+    | "CollateralLiquidated"
+    | "BadDebtSettled"
+
+export type TradeType = "trade" | "liquidation" | "closedMarket"
+
+export interface TradeRecord {
+    type: TradeType
+    trader: string
+    baseToken: string
+    blockNumber: number
+    logIndex: number
+    txHash: string
+    // signed, positive for long
+    exchangedPositionSize: BigNumber
+    // signed, negative for long
+    exchangedPositionNotional: BigNumber
+    fee: BigNumber
+    realizedPnl: BigNumber
+    // open notional after the trade
+    openNotional: BigNumber
+    // only for type liquidation
+    liquidationPenalty?: BigNumber
+    liquidator?: string
+}
+
+export interface MarketRecord {
+    trader: string
+    baseToken: string
+    // AccountMarket.Info
+    takerPositionSize: BigNumber
+    takerOpenNotional: BigNumber
+    // totals in 18 decimals
+    realizedPnl: BigNumber
+    takerFee: BigNumber
+    makerFee: BigNumber
+    // positive when the trader paid funding
+    fundingPayment: BigNumber
+    liquidationPenalty: BigNumber
+    // liquidity of each order, keyed by "lowerTick:upperTick"
+    liquidity: Record<string, BigNumber>
+}
+
+export interface TraderRecord {
+    trader: string
+    // in 18 decimals
+    owedRealizedPnl: BigNumber
+    // in the decimals of each collateral token
+    collateralBalances: Record<string, BigNumber>
+    // settlement token decimals
+    badDebt: BigNumber
+}
+
+// the storage of the indexer; records returned by getters are copies, changes are only persisted by put*()
+// so that a database backed store can be plugged in
+export interface IndexerStore {
+    getLastBlock(): number | undefined
+    setLastBlock(blockNumber: number): void
+    getTraders(): string[]
+    getTrader(trader: string): TraderRecord | undefined
+    putTrader(record: TraderRecord): void
+    getMarkets(trader: string): MarketRecord[]
+    getMarket(trader: string, baseToken: string): MarketRecord | undefined
+    putMarket(record: MarketRecord): void
+    // adds a trade or replaces the one with the same txHash & logIndex
+    putTrade(record: TradeRecord): void
+    getTrades(trader: string, baseToken?: string): TradeRecord[]
+}
+
+export class InMemoryIndexerStore implements IndexerStore {
+    private lastBlock: number | undefined
+    private readonly traders = new Map<string, TraderRecord>()
+    private readonly markets = new Map<string, Map<string, MarketRecord>>()
+    private readonly trades = new Map<string, TradeRecord[]>()
+
+    getLastBlock(): number | undefined {
+        return this.lastBlock
+    }
+
+    setLastBlock(blockNumber: number): void {
+        this.lastBlock = blockNumber
+    }
+
+    getTraders(): string[] {
+        return Array.from(this.traders.keys())
+    }
+
+    getTrader(trader: string): TraderRecord | undefined {
+        const record = this.traders.get(trader)
+        return record && { ...record, collateralBalances: { ...record.collateralBalances } }
+    }
+
+    putTrader(record: TraderRecord): void {
+        this.traders.set(record.trader, record)
+    }
+
+    getMarkets(trader: string): MarketRecord[] {
+        return Array.from((this.markets.get(trader) || new Map<string, MarketRecord>()).values()).map(record =>
+            this.copyMarket(record),
+        )
+    }
+
+    getMarket(trader: string, baseToken: string): MarketRecord | undefined {
+        const record = this.markets.get(trader)?.get(baseToken)
+        return record && this.copyMarket(record)
+    }
+
+    putMarket(record: MarketRecord): void {
+        if (!this.markets.has(record.trader)) {
+            this.markets.set(record.trader, new Map())
+        }
+        this.markets.get(record.trader)!.set(record.baseToken, record)
+    }
+
+    putTrade(record: TradeRecord): void {
+        if (!this.trades.has(record.trader)) {
+            this.trades.set(record.trader, [])
+        }
+        const trades = this.trades.get(record.trader)!
+        const index = trades.findIndex(trade => trade.txHash === record.txHash && trade.logIndex === record.logIndex)
+        if (index === -1) {
+            trades.push(record)
+        } else {
+            trades[index] = record
+        }
+    }
+
+    getTrades(trader: string, baseToken?: string): TradeRecord[] {
+        const trades = this.trades.get(trader) || []
+        return baseToken ? trades.filter(trade => trade.baseToken === baseToken) : [...trades]
+    }
+
+    private copyMarket(record: MarketRecord): MarketRecord {
+        return { ...record, liquidity: { ...record.liquidity } }
+    }
+}
+
+export interface VerificationMismatch {
+    trader: string
+    // base token for market fields, collateral token for collateral balances, undefined for the rest
+    token?: string
+    field: string
+    indexed: BigNumber
+    onChain: BigNumber
+}
+
+interface IndexedLog {
+    name: IndexedEventName
+    blockNumber: number
+    logIndex: number
+    txHash: string
+    args: Result
+}
+
+export class EventIndexer {
+    readonly store: IndexerStore
+    private readonly fromBlock: number
+    private settlementToken: string | undefined
+    private settlementTokenDecimals: number | undefined
+
+    constructor(readonly contracts: EventIndexerContracts, options: EventIndexerOptions = {}) {
+        this.store = options.store ?? new InMemoryIndexerStore()
+        this.fromBlock = options.fromBlock ?? 0
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: EventIndexerOptions = {},
+    ): Promise<EventIndexer> {
+        const contracts = manifest.contracts
+        return new EventIndexer(
+            {
+                clearingHouse: (await ethers.getContractAt(
+                    "ClearingHouse",
+                    contracts.ClearingHouse.proxy,
+                    signer,
+                )) as ClearingHouse,
+                accountBalance: (await ethers.getContractAt(
+                    "AccountBalance",
+                    contracts.AccountBalance.proxy,
+                    signer,
+                )) as AccountBalance,
+                vault: (await ethers.getContractAt("Vault", contracts.Vault.proxy, signer)) as Vault,
+            },
+            options,
+        )
+    }
+
+    // indexes the events since the last sync, returns the number of events applied
+    async sync(toBlock?: number): Promise<number> {
+        const { clearingHouse, accountBalance, vault } = this.contracts
+        const lastIndexedBlock = this.store.getLastBlock()
+        const fromBlock = lastIndexedBlock === undefined ? this.fromBlock : lastIndexedBlock + 1
+        const lastBlock = toBlock ?? (await clearingHouse.provider.getBlockNumber())
+        if (lastBlock < fromBlock) {
+            return 0
+        }
+
+        if (this.settlementToken === undefined) {
+            this.settlementToken = await vault.getSettlementToken()
+            this.settlementTokenDecimals = await vault.decimals()
+        }
+
+        const eventsByName = await Promise.all([
+            clearingHouse.queryFilter(clearingHouse.filters.PositionChanged(), fromBlock, lastBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.PositionLiquidated(), fromBlock, lastBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.PositionClosed(), fromBlock, lastBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.LiquidityChanged(), fromBlock, lastBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.FundingPaymentSettled(), fromBlock, lastBlock),
+            accountBalance.queryFilter(accountBalance.filters.PnlRealized(), fromBlock, lastBlock),
+            vault.queryFilter(vault.filters.Deposited(), fromBlock, lastBlock),
+            vault.queryFilter(vault.filters.Withdrawn(), fromBlock, lastBlock),
+            vault.queryFilter(vault.filters.CollateralLiquidated(), fromBlock, lastBlock),
+            vault.queryFilter(vault.filters.BadDebtSettled(), fromBlock, lastBlock),
+        ])
+
+        // the order of the events matters, e.g. PnlRealized of funding is emitted before the settlement of Withdrawn
+        const logs = ([] as Event[])
+            .concat(...eventsByName)
+            .map(event => this.toIndexedLog(event))
+            .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+        for (const log of logs) {
+            this.apply(log)
+        }
+
+        this.store.setLastBlock(lastBlock)
+        return logs.length
+    }
+
+    getTraders(): string[] {
+        return this.store.getTraders()
+    }
+
+    getTrades(trader: string, baseToken?: string): TradeRecord[] {
+        return this.store.getTrades(trader, baseToken)
+    }
+
+    getMarket(trader: string, baseToken: string): MarketRecord {
+        return this.store.getMarket(trader, baseToken) ?? this.emptyMarket(trader, baseToken)
+    }
+
+    getTrader(trader: string): TraderRecord {
+        return this.store.getTrader(trader) ?? this.emptyTrader(trader)
+    }
+
+    // compares the indexed state with the contracts, blockTag should be the last synced block
+    async verify(trader: string, blockTag?: number): Promise<VerificationMismatch[]> {
+        const { accountBalance, vault } = this.contracts
+        const overrides = { blockTag: blockTag ?? this.store.getLastBlock() }
+        const mismatches: VerificationMismatch[] = []
+        const check = (field: string, indexed: BigNumber, onChain: BigNumber, token?: string) => {
+            if (!indexed.eq(onChain)) {
+                mismatches.push({ trader, token, field, indexed, onChain })
+            }
+        }
+
+        for (const market of this.store.getMarkets(trader)) {
+            const info = await accountBalance.getAccountInfo(trader, market.baseToken, overrides)
+            check("takerPositionSize", market.takerPositionSize, info.takerPositionSize, market.baseToken)
+            check("takerOpenNotional", market.takerOpenNotional, info.takerOpenNotional, market.baseToken)
+        }
+
+        const record = this.getTrader(trader)
+        const [owedRealizedPnl] = await accountBalance.getPnlAndPendingFee(trader, overrides)
+        check("owedRealizedPnl", record.owedRealizedPnl, owedRealizedPnl)
+
+        const collateralBalances = record.collateralBalances
+        for (const token of Object.keys(collateralBalances)) {
+            check(
+                "collateralBalance",
+                collateralBalances[token],
+                await vault.getBalanceByToken(trader, token, overrides),
+                token,
+            )
+        }
+        return mismatches
+    }
+
+    async verifyAll(blockTag?: number): Promise<VerificationMismatch[]> {
+        const mismatches: VerificationMismatch[] = []
+        for (const trader of this.getTraders()) {
+            mismatches.push(...(await this.verify(trader, blockTag)))
+        }
+        return mismatches
+    }
+
+    private toIndexedLog(event: Event): IndexedLog {
+        return {
+            name: event.event as IndexedEventName,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            txHash: event.transactionHash,
+            args: event.args!,
+        }
+    }
+
+    private apply(log: IndexedLog): void {
+        const args = log.args
+        switch (log.name) {
+            case "PositionChanged": {
+                const market = this.getMarket(args.trader, args.baseToken)
+                market.takerPositionSize = market.takerPositionSize.add(args.exchangedPositionSize)
+                market.takerOpenNotional = args.openNotional
+                market.realizedPnl = market.realizedPnl.add(args.realizedPnl)
+                market.takerFee = market.takerFee.add(args.fee)
+                this.store.putMarket(market)
+                this.ensureTrader(args.trader)
+
+                // removing liquidity emits PositionChanged even when no impermanent position is realized
+                if (!args.exchangedPositionSize.isZero()) {
+                    this.store.putTrade({
+                        ...this.getTradeLocation(log),
+                        type: "trade",
+                        trader: args.trader,
+                        baseToken: args.baseToken,
+                        exchangedPositionSize: args.exchangedPositionSize,
+                        exchangedPositionNotional: args.exchangedPositionNotional,
+                        fee: args.fee,
+                        realizedPnl: args.realizedPnl,
+                        openNotional: args.openNotional,
+                    })
+                }
+                return
+            }
+            case "PositionLiquidated": {
+                // the position change itself is emitted by PositionChanged earlier in the same tx,
+                // so the trade is marked as a liquidation
+                const market = this.getMarket(args.trader, args.baseToken)
+                market.liquidationPenalty = market.liquidationPenalty.add(args.liquidationFee)
+                this.store.putMarket(market)
+
+                const trades = this.store.getTrades(args.trader, args.baseToken)
+                const lastTrade = trades[trades.length - 1]
+                if (lastTrade && lastTrade.txHash === log.txHash) {
+                    this.store.putTrade({
+                        ...lastTrade,
+                        type: "liquidation",
+                        liquidationPenalty: args.liquidationFee,
+                        liquidator: args.liquidator,
+                    })
+                }
+                return
+            }
+            case "PositionClosed": {
+                const market = this.getMarket(args.trader, args.baseToken)
+                market.takerPositionSize = market.takerPositionSize.sub(args.closedPositionSize)
+                market.takerOpenNotional = ZERO
+                market.realizedPnl = market.realizedPnl.add(args.realizedPnl)
+                this.store.putMarket(market)
+                this.store.putTrade({
+                    ...this.getTradeLocation(log),
+                    type: "closedMarket",
+                    trader: args.trader,
+                    baseToken: args.baseToken,
+                    exchangedPositionSize: args.closedPositionSize.mul(-1),
+                    exchangedPositionNotional: args.closedPositionNotional.mul(-1),
+                    fee: ZERO,
+                    realizedPnl: args.realizedPnl,
+                    openNotional: ZERO,
+                })
+                return
+            }
+            case "LiquidityChanged": {
+                const market = this.getMarket(args.maker, args.baseToken)
+                const orderKey = `${args.lowerTick}:${args.upperTick}`
+                const liquidity = (market.liquidity[orderKey] || ZERO).add(args.liquidity)
+                if (liquidity.isZero()) {
+                    delete market.liquidity[orderKey]
+                } else {
+                    market.liquidity[orderKey] = liquidity
+                }
+                market.makerFee = market.makerFee.add(args.quoteFee)
+                this.store.putMarket(market)
+                this.ensureTrader(args.maker)
+                return
+            }
+            case "FundingPaymentSettled": {
+                const market = this.getMarket(args.trader, args.baseToken)
+                market.fundingPayment = market.fundingPayment.add(args.fundingPayment)
+                this.store.putMarket(market)
+                return
+            }
+            case "PnlRealized": {
+                const trader = this.getTrader(args.trader)
+                trader.owedRealizedPnl = trader.owedRealizedPnl.add(args.amount)
+                this.store.putTrader(trader)
+                return
+            }
+            case "Deposited": {
+                this.modifyCollateralBalance(args.trader, args.collateralToken, args.amount)
+                return
+            }
+            case "Withdrawn": {
+                this.modifyCollateralBalance(args.trader, args.collateralToken, args.amount.mul(-1))
+                // Vault._settleAndDecreaseBalance() settles owedRealizedPnl into the settlement token balance
+                // without emitting PnlRealized
+                if (args.collateralToken === this.settlementToken) {
+                    const trader = this.getTrader(args.trader)
+                    this.modifyCollateralBalance(
+                        args.trader,
+                        args.collateralToken,
+                        formatSettlementToken(trader.owedRealizedPnl, this.settlementTokenDecimals!),
+                    )
+                    this.store.putTrader({ ...this.getTrader(args.trader), owedRealizedPnl: ZERO })
+                }
+                return
+            }
+            case "CollateralLiquidated": {
+                this.modifyCollateralBalance(args.trader, args.collateralToken, args.collateral.mul(-1))
+                this.modifyCollateralBalance(
+                    args.trader,
+                    this.settlementToken!,
+                    args.repaidSettlementWithoutInsuranceFundFeeX10_S,
+                )
+                return
+            }
+            case "BadDebtSettled": {
+                // the insurance fund's balance also changes but it's not tracked as a trader here
+                this.modifyCollateralBalance(args.trader, this.settlementToken!, args.amount)
+                const trader = this.getTrader(args.trader)
+                trader.badDebt = trader.badDebt.add(args.amount)
+                this.store.putTrader(trader)
+                return
+            }
+        }
+    }
+
+    private modifyCollateralBalance(trader: string, token: string, amount: BigNumber): void {
+        const record = this.getTrader(trader)
+        record.collateralBalances[token] = (record.collateralBalances[token] || ZERO).add(amount)
+        this.store.putTrader(record)
+    }
+
+    private ensureTrader(trader: string): void {
+        if (!this.store.getTrader(trader)) {
+            this.store.putTrader(this.emptyTrader(trader))
+        }
+    }
+
+    private getTradeLocation(log: IndexedLog): Pick<TradeRecord, "blockNumber" | "logIndex" | "txHash"> {
+        return { blockNumber: log.blockNumber, logIndex: log.logIndex, txHash: log.txHash }
+    }
+
+    private emptyMarket(trader: string, baseToken: string): MarketRecord {
+        return {
+            trader,
+            baseToken,
+            takerPositionSize: ZERO,
+            takerOpenNotional: ZERO,
+            realizedPnl: ZERO,
+            takerFee: ZERO,
+            makerFee: ZERO,
+            fundingPayment: ZERO,
+            liquidationPenalty: ZERO,
+            liquidity: {},
+        }
+    }
+
+    private emptyTrader(trader: string): TraderRecord {
+        return { trader, owedRealizedPnl: ZERO, collateralBalances: {}, badDebt: ZERO }
+    }
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const indexer = await EventIndexer.fromManifest(manifest, signer, {
+        fromBlock: Number(process.env.INDEXER_FROM_BLOCK || 0),
+    })
+    const count = await indexer.sync()
+    console.log(`indexed ${count} events of ${indexer.getTraders().length} traders on ${manifest.network}`)
+
+    const summary = indexer.getTraders().map(trader => ({
+        ...indexer.getTrader(trader),
+        markets: indexer.store.getMarkets(trader),
+        trades: indexer.getTrades(trader).length,
+    }))
+    console.log(JSON.stringify(summary, (_, value) => (value?.type === "BigNumber" ? value.hex : value), 2))
+
+    const mismatches = await indexer.verifyAll()
+    for (const mismatch of mismatches) {
+        console.error(
+            `${mismatch.trader} ${mismatch.token ?? ""} ${mismatch.field}: ` +
+                `indexed ${mismatch.indexed.toString()}, on chain ${mismatch.onChain.toString()}`,
+        )
+    }
+    if (mismatches.length > 0) {
+        throw new Error(`${mismatches.length} mismatches found`)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,654 @@
+import { BigNumber, Signer } from "ethers"
+import { formatEther, formatUnits } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import {
+    AccountBalance,
+    ClearingHouseConfig,
+    CollateralManager,
+    InsuranceFund,
+    MarketRegistry,
+    OrderBook,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
+import {
+    abs,
+    getAmountsForLiquidity,
+    max,
+    min,
+    MIN_PARTIAL_LIQUIDATE_POSITION_VALUE,
+    mulDiv,
+    mulRatio,
+    ONE_ETHER,
+    parseSettlementToken,
+    RATIO_ONE,
+    signedMulDiv,
+    sqrt,
+    ZERO,
+} from "../accounting/math"
+import { getExtraMarginRequirement, MarginBracket } from "../accounting/marginBracket"
+import { getPortfolioPositionValue, MarginCorrelation, PortfolioMarginConfig } from "../accounting/portfolioMargin"
+import { DeploymentManifest } from "../deploy"
+import { writeFile } from "../files"
+
+// how much of a price shock the insurance fund can absorb:
+//   HARDHAT_NETWORK=<network> ts-node --files scripts/insurance/insuranceFundStress.ts [manifest.json] [trader...]
+// the current positions of every account are replayed under a price shock of every market, the accounts that fall
+// below the maintenance margin are liquidated at the shocked mark price and pay the liquidation penalty, and their
+// collateral is sold at the discount of the collateral liquidation; whatever is left unpaid is the bad debt the
+// insurance fund has to cover. Traders are discovered from Deposited events when not given;
+// IF_STRESS_SHOCKS=<base token>:<ratio>,... applies the given shocks in decimal 6 (e.g. -200000 for -20%),
+// otherwise the largest uniform shocks down and up the fund can absorb are searched;
+// IF_STRESS_OUTPUT=<file> (default stdout)
+
+export interface InsuranceFundStressContracts {
+    clearingHouseConfig: ClearingHouseConfig
+    accountBalance: AccountBalance
+    orderBook: OrderBook
+    marketRegistry: MarketRegistry
+    vault: Vault
+    collateralManager: CollateralManager
+    insuranceFund: InsuranceFund
+}
+
+// all values are in 18 decimals and all ratios are in decimal 6, unless stated otherwise
+export interface MarketSnapshot {
+    baseToken: string
+    markPrice: BigNumber
+    sqrtPriceX96: BigNumber
+    // ClearingHouseConfig.getMarginBrackets(), none if only the global mmRatio applies
+    marginBrackets?: MarginBracket[]
+}
+
+export interface OrderSnapshot {
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumber
+}
+
+export interface PositionSnapshot {
+    baseToken: string
+    // taker position plus the base in the maker's orders
+    totalPositionSize: BigNumber
+    totalOpenNotional: BigNumber
+    orders: OrderSnapshot[]
+}
+
+export interface CollateralSnapshot {
+    token: string
+    // in the decimals of the token
+    balance: BigNumber
+    decimals: number
+    // balance * price, before applying the collateral ratio or the discount
+    value: BigNumber
+    collateralRatio: number
+    discountRatio: number
+}
+
+export interface AccountSnapshot {
+    trader: string
+    // settlement token balance plus pnl, the same as Vault.getSettlementTokenValue()
+    settlementTokenValue: BigNumber
+    positions: PositionSnapshot[]
+    // non-settlement collaterals only
+    collaterals: CollateralSnapshot[]
+}
+
+export interface StressSnapshot {
+    blockNumber: number
+    mmRatio: number
+    liquidationPenaltyRatio: number
+    insuranceFundCapacity: BigNumber
+    markets: MarketSnapshot[]
+    // the margin correlation ratios between the markets of the snapshot, none if the portfolio margin is disabled
+    portfolioMargin?: PortfolioMarginConfig
+    accounts: AccountSnapshot[]
+}
+
+// signed ratios in decimal 6, e.g. -200000 for a 20% drop; a shock must be greater than -100%
+export interface StressScenario {
+    priceShocks?: { [baseToken: string]: number }
+    // for the markets without a shock, default 0
+    defaultPriceShock?: number
+    collateralPriceShocks?: { [token: string]: number }
+    // for the collaterals without a shock, default 0
+    defaultCollateralPriceShock?: number
+}
+
+export interface AccountStressResult {
+    trader: string
+    // after the price shock and before the liquidation
+    accountValue: BigNumber
+    totalAbsPositionValue: BigNumber
+    marginRequirementForLiquidation: BigNumber
+    isLiquidated: boolean
+    liquidationPenalty: BigNumber
+    // the share of the liquidation penalty that goes to the insurance fund
+    insuranceFundFee: BigNumber
+    // the settlement token the discounted collateral repays
+    collateralProceeds: BigNumber
+    badDebt: BigNumber
+}
+
+export interface StressResult {
+    scenario: StressScenario
+    insuranceFundCapacity: BigNumber
+    totalBadDebt: BigNumber
+    totalInsuranceFundFee: BigNumber
+    // capacity + fees - bad debt, negative when the insurance fund cannot cover the bad debt
+    remainingCapacity: BigNumber
+    isCovered: boolean
+    // the accounts with bad debt first, from the largest one
+    accounts: AccountStressResult[]
+}
+
+export interface MaxShockOptions {
+    // the size of a search step, default 1%
+    step?: number
+    // the largest shock to try, default 99% down or 1000% up
+    limit?: number
+}
+
+export interface MaxShockResult {
+    // the largest uniform shock of every market the insurance fund covers, signed
+    maxCoveredShock: number
+    // the smallest shock the insurance fund does not cover, undefined if every shock up to the limit is covered
+    breakingShock?: number
+    breakingResult?: StressResult
+}
+
+// Vault._COLLATERAL_TWAP_INTERVAL
+const COLLATERAL_TWAP_INTERVAL = 900
+const DEFAULT_SHOCK_STEP = 10000
+const MAX_DOWN_SHOCK = 990000
+const MAX_UP_SHOCK = 10000000
+
+export class InsuranceFundStressTester {
+    constructor(readonly contracts: InsuranceFundStressContracts) {}
+
+    static async fromManifest(manifest: DeploymentManifest, signer: Signer): Promise<InsuranceFundStressTester> {
+        const contracts = manifest.contracts
+        return new InsuranceFundStressTester({
+            clearingHouseConfig: (await ethers.getContractAt(
+                "ClearingHouseConfig",
+                contracts.ClearingHouseConfig.proxy,
+                signer,
+            )) as ClearingHouseConfig,
+            accountBalance: (await ethers.getContractAt(
+                "AccountBalance",
+                contracts.AccountBalance.proxy,
+                signer,
+            )) as AccountBalance,
+            orderBook: (await ethers.getContractAt("OrderBook", contracts.OrderBook.proxy, signer)) as OrderBook,
+            marketRegistry: (await ethers.getContractAt(
+                "MarketRegistry",
+                contracts.MarketRegistry.proxy,
+                signer,
+            )) as MarketRegistry,
+            vault: (await ethers.getContractAt("Vault", contracts.Vault.proxy, signer)) as Vault,
+            collateralManager: (await ethers.getContractAt(
+                "CollateralManager",
+                contracts.CollateralManager.proxy,
+                signer,
+            )) as CollateralManager,
+            insuranceFund: (await ethers.getContractAt(
+                "InsuranceFund",
+                contracts.InsuranceFund.proxy,
+                signer,
+            )) as InsuranceFund,
+        })
+    }
+
+    // every account that has ever deposited, except the insurance fund whose value is its capacity
+    async discoverTraders(fromBlock = 0, toBlock?: number): Promise<string[]> {
+        const { vault, insuranceFund } = this.contracts
+        const events = await vault.queryFilter(vault.filters.Deposited(), fromBlock, toBlock)
+        const traders = new Set<string>()
+        for (const event of events) {
+            if (event.args.trader !== insuranceFund.address) {
+                traders.add(event.args.trader)
+            }
+        }
+        return Array.from(traders)
+    }
+
+    // reads everything a simulation needs at once, so that any number of scenarios can be replayed on the same state
+    async getSnapshot(traders: string[]): Promise<StressSnapshot> {
+        const { clearingHouseConfig, vault, insuranceFund } = this.contracts
+        const [blockNumber, mmRatio, liquidationPenaltyRatio, capacityX10_S, decimals] = await Promise.all([
+            vault.provider.getBlockNumber(),
+            clearingHouseConfig.getMmRatio(),
+            clearingHouseConfig.getLiquidationPenaltyRatio(),
+            insuranceFund.getInsuranceFundCapacity(),
+            vault.decimals(),
+        ])
+
+        const accounts: AccountSnapshot[] = []
+        for (const trader of traders) {
+            accounts.push(await this.getAccountSnapshot(trader, decimals))
+        }
+
+        const markets: MarketSnapshot[] = []
+        for (const account of accounts) {
+            for (const { baseToken } of account.positions) {
+                if (!markets.find(market => market.baseToken === baseToken)) {
+                    markets.push(await this.getMarketSnapshot(baseToken))
+                }
+            }
+        }
+
+        return {
+            blockNumber,
+            mmRatio,
+            liquidationPenaltyRatio,
+            insuranceFundCapacity: parseSettlementToken(capacityX10_S, decimals),
+            markets,
+            accounts,
+            portfolioMargin: await this.getPortfolioMargin(markets.map(market => market.baseToken)),
+        }
+    }
+
+    async run(traders: string[], scenario: StressScenario): Promise<StressResult> {
+        return simulate(await this.getSnapshot(traders), scenario)
+    }
+
+    private async getPortfolioMargin(baseTokens: string[]): Promise<PortfolioMarginConfig | undefined> {
+        const { clearingHouseConfig } = this.contracts
+        if (!(await clearingHouseConfig.isPortfolioMarginEnabled())) {
+            return undefined
+        }
+        const correlations: MarginCorrelation[] = []
+        for (let i = 0; i < baseTokens.length; i++) {
+            for (const baseTokenB of baseTokens.slice(i + 1)) {
+                const correlationRatio = await clearingHouseConfig.getMarginCorrelationRatio(baseTokens[i], baseTokenB)
+                if (correlationRatio > 0) {
+                    correlations.push({ baseTokenA: baseTokens[i], baseTokenB, correlationRatio })
+                }
+            }
+        }
+        return { enabled: true, correlations }
+    }
+
+    private async getMarketSnapshot(baseToken: string): Promise<MarketSnapshot> {
+        const { clearingHouseConfig, accountBalance, marketRegistry } = this.contracts
+        const pool = (await ethers.getContractAt(
+            "UniswapV3Pool",
+            await marketRegistry.getPool(baseToken),
+        )) as UniswapV3Pool
+        const [markPrice, { sqrtPriceX96 }, marginBrackets] = await Promise.all([
+            accountBalance.getMarkPrice(baseToken),
+            pool.slot0(),
+            clearingHouseConfig.getMarginBrackets(baseToken),
+        ])
+        return {
+            baseToken,
+            markPrice,
+            sqrtPriceX96,
+            marginBrackets: marginBrackets.map(({ positionValue, imRatio, mmRatio }) => ({
+                positionValue,
+                imRatio,
+                mmRatio,
+            })),
+        }
+    }
+
+    private async getAccountSnapshot(trader: string, decimals: number): Promise<AccountSnapshot> {
+        const { accountBalance, orderBook, vault, collateralManager } = this.contracts
+        const positions: PositionSnapshot[] = []
+        for (const baseToken of await accountBalance.getBaseTokens(trader)) {
+            const [totalPositionSize, totalOpenNotional, orderIds] = await Promise.all([
+                accountBalance.getTotalPositionSize(trader, baseToken),
+                accountBalance.getTotalOpenNotional(trader, baseToken),
+                orderBook.getOpenOrderIds(trader, baseToken),
+            ])
+            const orders: OrderSnapshot[] = []
+            for (const orderId of orderIds) {
+                const { lowerTick, upperTick, liquidity } = await orderBook.getOpenOrderById(orderId)
+                orders.push({ lowerTick, upperTick, liquidity })
+            }
+            positions.push({ baseToken, totalPositionSize, totalOpenNotional, orders })
+        }
+
+        const collaterals: CollateralSnapshot[] = []
+        for (const token of await vault.getCollateralTokens(trader)) {
+            const tokenContract = await ethers.getContractAt("IERC20Metadata", token)
+            const [balance, tokenDecimals, price, priceFeedDecimals, config] = await Promise.all([
+                vault.getBalanceByToken(trader, token),
+                tokenContract.decimals(),
+                collateralManager.getPrice(token, COLLATERAL_TWAP_INTERVAL),
+                collateralManager.getPriceFeedDecimals(token),
+                collateralManager.getCollateralConfig(token),
+            ])
+            collaterals.push({
+                token,
+                balance,
+                decimals: tokenDecimals,
+                // the same as Vault._getSettlementByCollateral() in 18 decimals
+                value: balance
+                    .mul(BigNumber.from(10).pow(18 - tokenDecimals))
+                    .mul(price)
+                    .div(BigNumber.from(10).pow(priceFeedDecimals)),
+                collateralRatio: config.collateralRatio,
+                discountRatio: config.discountRatio,
+            })
+        }
+
+        return {
+            trader,
+            settlementTokenValue: parseSettlementToken(await vault.getSettlementTokenValue(trader), decimals),
+            positions,
+            collaterals,
+        }
+    }
+}
+
+// replays the snapshot under the scenario:
+// 1. the mark price and the pool price move by the shock, and the orders of the makers are re-priced in the pool
+// 2. an account is liquidated while its account value is below the maintenance margin; the positions are closed at
+//    the shocked mark price, so the only loss is the liquidation penalty, which goes half to the insurance fund while
+//    the account value is not negative, as ClearingHouse._liquidate() does
+// 3. the settlement token debt is repaid by the collateral sold at the discount of the collateral liquidation
+// the insurance fund fee of the collateral liquidation is ignored, which underestimates the capacity
+export function simulate(snapshot: StressSnapshot, scenario: StressScenario): StressResult {
+    const accounts = snapshot.accounts.map(account => simulateAccount(snapshot, account, scenario))
+    const totalBadDebt = accounts.reduce((total, account) => total.add(account.badDebt), ZERO)
+    const totalInsuranceFundFee = accounts.reduce((total, account) => total.add(account.insuranceFundFee), ZERO)
+    const remainingCapacity = snapshot.insuranceFundCapacity.add(totalInsuranceFundFee).sub(totalBadDebt)
+
+    accounts.sort((a, b) => {
+        const diff = b.badDebt.sub(a.badDebt)
+        return diff.isZero() ? 0 : diff.isNegative() ? -1 : 1
+    })
+    return {
+        scenario,
+        insuranceFundCapacity: snapshot.insuranceFundCapacity,
+        totalBadDebt,
+        totalInsuranceFundFee,
+        remainingCapacity,
+        isCovered: !remainingCapacity.isNegative(),
+        accounts,
+    }
+}
+
+// searches the uniform shocks of every market in the given direction step by step; collaterals keep their prices
+export function findMaxShock(
+    snapshot: StressSnapshot,
+    direction: "down" | "up",
+    options: MaxShockOptions = {},
+): MaxShockResult {
+    const step = options.step ?? DEFAULT_SHOCK_STEP
+    const limit = options.limit ?? (direction === "down" ? MAX_DOWN_SHOCK : MAX_UP_SHOCK)
+    if (step <= 0) {
+        throw new Error(`invalid step ${step}`)
+    }
+    const sign = direction === "down" ? -1 : 1
+
+    let maxCoveredShock = 0
+    for (let shock = step; shock <= limit; shock += step) {
+        const result = simulate(snapshot, { defaultPriceShock: sign * shock })
+        if (!result.isCovered) {
+            return { maxCoveredShock, breakingShock: sign * shock, breakingResult: result }
+        }
+        maxCoveredShock = sign * shock
+    }
+    return { maxCoveredShock }
+}
+
+function simulateAccount(
+    snapshot: StressSnapshot,
+    account: AccountSnapshot,
+    scenario: StressScenario,
+): AccountStressResult {
+    let settlementTokenValue = account.settlementTokenValue
+    const positions: {
+        baseToken: string
+        positionSize: BigNumber
+        markPrice: BigNumber
+        marginBrackets: MarginBracket[]
+    }[] = []
+    for (const position of account.positions) {
+        const market = snapshot.markets.find(market => market.baseToken === position.baseToken)
+        if (!market) {
+            throw new Error(`market ${position.baseToken} not in the snapshot`)
+        }
+        const shocked = shockPosition(
+            market,
+            position,
+            getShock(scenario.priceShocks, scenario.defaultPriceShock, position.baseToken),
+        )
+        settlementTokenValue = settlementTokenValue.add(shocked.unrealizedPnlDelta)
+        positions.push({ ...shocked, baseToken: position.baseToken, marginBrackets: market.marginBrackets || [] })
+    }
+
+    let nonSettlementTokenValue = ZERO
+    let collateralProceeds = ZERO
+    for (const collateral of account.collaterals) {
+        const shock = getShock(scenario.collateralPriceShocks, scenario.defaultCollateralPriceShock, collateral.token)
+        const value = mulRatio(collateral.value, RATIO_ONE + shock)
+        nonSettlementTokenValue = nonSettlementTokenValue.add(mulRatio(value, collateral.collateralRatio))
+        collateralProceeds = collateralProceeds.add(mulRatio(value, RATIO_ONE - collateral.discountRatio))
+    }
+
+    // the same as AccountBalance.getTotalAbsPositionValue(), getTotalPortfolioPositionValue() and
+    // getMarginRequirementForLiquidation()
+    const getTotalAbsPositionValue = () =>
+        positions.reduce(
+            (total, { positionSize, markPrice }) => total.add(abs(signedMulDiv(positionSize, markPrice, ONE_ETHER))),
+            ZERO,
+        )
+    const getTotalPortfolioPositionValue = () =>
+        getPortfolioPositionValue(
+            snapshot.portfolioMargin || { enabled: false, correlations: [] },
+            positions.map(({ baseToken, positionSize, markPrice }) => ({
+                baseToken,
+                positionValue: signedMulDiv(positionSize, markPrice, ONE_ETHER),
+            })),
+        )
+    const getMarginRequirement = () =>
+        positions.reduce(
+            (total, { positionSize, markPrice, marginBrackets }) =>
+                total.add(
+                    getExtraMarginRequirement(
+                        marginBrackets,
+                        abs(signedMulDiv(positionSize, markPrice, ONE_ETHER)),
+                        false,
+                        snapshot.mmRatio,
+                    ),
+                ),
+            mulRatio(getTotalPortfolioPositionValue(), snapshot.mmRatio),
+        )
+
+    // the same as Vault.getAccountValue()
+    const accountValue = settlementTokenValue.add(nonSettlementTokenValue)
+    const totalAbsPositionValue = getTotalAbsPositionValue()
+    const marginRequirementForLiquidation = getMarginRequirement()
+    const isLiquidated = !totalAbsPositionValue.isZero() && accountValue.lt(marginRequirementForLiquidation)
+
+    // the markets are liquidated one after another as often as the account is liquidatable, and every liquidation
+    // closes as much of the position as AccountBalance.getLiquidatablePositionSize() allows
+    let liquidationPenalty = ZERO
+    let insuranceFundFee = ZERO
+    for (const position of positions) {
+        while (!position.positionSize.isZero()) {
+            const currentAccountValue = accountValue.sub(liquidationPenalty)
+            const marginRequirement = getMarginRequirement()
+            if (currentAccountValue.gte(marginRequirement)) {
+                break
+            }
+
+            const positionValueAbs = abs(signedMulDiv(position.positionSize, position.markPrice, ONE_ETHER))
+            let maxLiquidateRatio = RATIO_ONE
+            if (
+                positionValueAbs.gt(MIN_PARTIAL_LIQUIDATE_POSITION_VALUE) &&
+                currentAccountValue.gte(marginRequirement.div(2))
+            ) {
+                maxLiquidateRatio = min(
+                    mulDiv(getTotalAbsPositionValue(), RATIO_ONE, positionValueAbs.mul(2)),
+                    BigNumber.from(RATIO_ONE),
+                ).toNumber()
+            }
+            const liquidatedPositionSize = mulRatio(position.positionSize, maxLiquidateRatio)
+            const liquidatedPositionNotional = signedMulDiv(liquidatedPositionSize, position.markPrice, ONE_ETHER)
+
+            // the position is closed at the mark price, so the penalty is all the trader loses
+            const penalty = mulRatio(abs(liquidatedPositionNotional), snapshot.liquidationPenaltyRatio)
+            if (!currentAccountValue.isNegative()) {
+                insuranceFundFee = insuranceFundFee.add(penalty.sub(penalty.div(2)))
+            }
+            liquidationPenalty = liquidationPenalty.add(penalty)
+            position.positionSize = position.positionSize.sub(liquidatedPositionSize)
+        }
+    }
+
+    const debt = max(liquidationPenalty.sub(settlementTokenValue), ZERO)
+    const repaid = min(debt, collateralProceeds)
+    return {
+        trader: account.trader,
+        accountValue,
+        totalAbsPositionValue,
+        marginRequirementForLiquidation,
+        isLiquidated,
+        liquidationPenalty,
+        insuranceFundFee,
+        collateralProceeds: repaid,
+        badDebt: debt.sub(repaid),
+    }
+}
+
+function shockPosition(
+    market: MarketSnapshot,
+    position: PositionSnapshot,
+    shock: number,
+): { unrealizedPnlDelta: BigNumber; positionSize: BigNumber; markPrice: BigNumber } {
+    const shockedMarkPrice = mulRatio(market.markPrice, RATIO_ONE + shock)
+    // the pool price moves as much as the mark price, sqrt(price * (1 + shock))
+    const shockedSqrtPriceX96 = sqrt(mulDiv(market.sqrtPriceX96.mul(market.sqrtPriceX96), RATIO_ONE + shock, RATIO_ONE))
+
+    // the orders sell base when the price goes up and buy base when the price goes down
+    let positionSize = position.totalPositionSize
+    let openNotional = position.totalOpenNotional
+    for (const order of position.orders) {
+        const before = getAmountsForLiquidity(market.sqrtPriceX96, order.lowerTick, order.upperTick, order.liquidity)
+        const after = getAmountsForLiquidity(shockedSqrtPriceX96, order.lowerTick, order.upperTick, order.liquidity)
+        positionSize = positionSize.add(after.base.sub(before.base))
+        openNotional = openNotional.add(after.quote.sub(before.quote))
+    }
+
+    // the same as AccountBalance.getTotalPositionValue()
+    const positionValueBefore = signedMulDiv(position.totalPositionSize, market.markPrice, ONE_ETHER)
+    const positionValue = signedMulDiv(positionSize, shockedMarkPrice, ONE_ETHER)
+    return {
+        unrealizedPnlDelta: positionValue.add(openNotional).sub(positionValueBefore.add(position.totalOpenNotional)),
+        positionSize,
+        markPrice: shockedMarkPrice,
+    }
+}
+
+function getShock(shocks: { [token: string]: number } | undefined, defaultShock = 0, token: string): number {
+    const shock = shocks?.[token] ?? defaultShock
+    if (shock <= -RATIO_ONE) {
+        throw new Error(`invalid price shock ${shock} of ${token}`)
+    }
+    return shock
+}
+
+function formatRatio(ratio: number | undefined): string {
+    return ratio === undefined ? "" : formatUnits(ratio, 6)
+}
+
+function formatShocks(shocks: { [token: string]: number } | undefined): object {
+    const formatted: { [token: string]: string } = {}
+    for (const token of Object.keys(shocks || {})) {
+        formatted[token] = formatRatio(shocks![token])
+    }
+    return formatted
+}
+
+// human readable values, e.g. "1.5" for 1.5 ether and "-0.2" for -200000 in decimal 6
+export function formatStressResult(result: StressResult): object {
+    const { scenario } = result
+    return {
+        scenario: {
+            priceShocks: formatShocks(scenario.priceShocks),
+            defaultPriceShock: formatRatio(scenario.defaultPriceShock ?? 0),
+            collateralPriceShocks: formatShocks(scenario.collateralPriceShocks),
+            defaultCollateralPriceShock: formatRatio(scenario.defaultCollateralPriceShock ?? 0),
+        },
+        insuranceFundCapacity: formatEther(result.insuranceFundCapacity),
+        totalBadDebt: formatEther(result.totalBadDebt),
+        totalInsuranceFundFee: formatEther(result.totalInsuranceFundFee),
+        remainingCapacity: formatEther(result.remainingCapacity),
+        isCovered: result.isCovered,
+        accounts: result.accounts
+            .filter(account => account.isLiquidated || !account.badDebt.isZero())
+            .map(account => ({
+                trader: account.trader,
+                accountValue: formatEther(account.accountValue),
+                totalAbsPositionValue: formatEther(account.totalAbsPositionValue),
+                marginRequirementForLiquidation: formatEther(account.marginRequirementForLiquidation),
+                isLiquidated: account.isLiquidated,
+                liquidationPenalty: formatEther(account.liquidationPenalty),
+                insuranceFundFee: formatEther(account.insuranceFundFee),
+                collateralProceeds: formatEther(account.collateralProceeds),
+                badDebt: formatEther(account.badDebt),
+            })),
+    }
+}
+
+export function formatMaxShockResult(result: MaxShockResult): object {
+    return {
+        maxCoveredShock: formatRatio(result.maxCoveredShock),
+        breakingShock: formatRatio(result.breakingShock),
+        breakingResult: result.breakingResult && formatStressResult(result.breakingResult),
+    }
+}
+
+// "<base token>:<ratio>,..." in decimal 6
+export function parseShocks(value: string): { [token: string]: number } {
+    const shocks: { [token: string]: number } = {}
+    for (const entry of value.split(",").filter(entry => entry.length > 0)) {
+        const [token, ratio] = entry.split(":")
+        if (!ethers.utils.isAddress(token) || !Number.isInteger(Number(ratio))) {
+            throw new Error(`invalid shock ${entry}`)
+        }
+        shocks[token] = Number(ratio)
+    }
+    return shocks
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const tester = await InsuranceFundStressTester.fromManifest(manifest, signer)
+
+    const traders = process.argv.length > 3 ? process.argv.slice(3) : await tester.discoverTraders()
+    const snapshot = await tester.getSnapshot(traders)
+    const output = process.env.IF_STRESS_SHOCKS
+        ? formatStressResult(simulate(snapshot, { priceShocks: parseShocks(process.env.IF_STRESS_SHOCKS) }))
+        : {
+              blockNumber: snapshot.blockNumber,
+              insuranceFundCapacity: formatEther(snapshot.insuranceFundCapacity),
+              down: formatMaxShockResult(findMaxShock(snapshot, "down")),
+              up: formatMaxShockResult(findMaxShock(snapshot, "up")),
+          }
+
+    const content = JSON.stringify(output, null, 4) + "\n"
+    const outputPath = process.env.IF_STRESS_OUTPUT
+    if (outputPath) {
+        await writeFile(outputPath, content)
+        console.log(`insurance fund stress test of ${traders.length} accounts written to ${outputPath}`)
+    } else {
+        process.stdout.write(content)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,370 @@
+import { BigNumber, constants, ContractTransaction, Signer } from "ethers"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { AccountBalance, ClearingHouse, IERC20Metadata, OrderBook, Vault } from "../../typechain"
+import { DeploymentManifest } from "../deploy"
+
+// a keeper that watches every account that has ever traded, provided liquidity or deposited,
+// and liquidates unhealthy accounts in the order the contracts expect:
+// 1. cancel the maker's orders, since positions cannot be liquidated while there are orders (CH_CLWTISO)
+// 2. start the liquidation auction, so that the liquidation penalty ratio rises until someone liquidates
+// 3. liquidate the taker positions in each market, once the penalty ratio reaches minLiquidationPenaltyRatio
+// 4. liquidate the non-settlement collateral to repay the settlement token debt
+// the auction of an account recovered by price moves or deposits is stopped as well, as only a liquidation stops it
+// on-chain, so that the next auction of the account starts over from the start penalty ratio
+
+export interface LiquidationKeeperContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    orderBook: OrderBook
+    vault: Vault
+}
+
+export interface LiquidationKeeperOptions {
+    // the first block to scan for accounts, default 0
+    fromBlock?: number
+    // max number of liquidations of one position in one round, as a position can be liquidated partially
+    maxLiquidationsPerPosition?: number
+    // the positions are only liquidated once the penalty ratio of the market reaches it, in decimal 6,
+    // default 0 to liquidate right away at the start penalty ratio of the liquidation auction
+    minLiquidationPenaltyRatio?: number
+}
+
+export interface AccountHealth {
+    trader: string
+    // all values are in 18 decimals
+    accountValue: BigNumber
+    totalAbsPositionValue: BigNumber
+    marginRequirementForLiquidation: BigNumber
+    // account value / total abs position value in decimal 6, undefined when there is no position
+    marginRatio?: BigNumber
+    hasOrder: boolean
+    // free collateral is below the maintenance margin, so that the orders can be cancelled
+    hasExcessOrders: boolean
+    // the positions can be liquidated by ClearingHouse.liquidate()
+    isPositionLiquidatable: boolean
+    // the non-settlement collateral can be liquidated by Vault.liquidateCollateral()
+    isCollateralLiquidatable: boolean
+}
+
+export type KeeperActionType =
+    | "cancelExcessOrders"
+    | "startLiquidationAuction"
+    | "stopLiquidationAuction"
+    | "liquidatePosition"
+    | "liquidateCollateral"
+
+export interface KeeperAction {
+    type: KeeperActionType
+    trader: string
+    // base token for orders and positions, collateral token for collateral, zero address for the auction
+    token: string
+    txHash?: string
+    // revert reason when the tx failed; the keeper moves on to the next account
+    error?: string
+}
+
+const RATIO_ONE = 1e6
+const DEFAULT_MAX_LIQUIDATIONS_PER_POSITION = 5
+
+export class LiquidationKeeper {
+    readonly accounts = new Set<string>()
+    // the accounts whose liquidation auctions may still be running
+    private readonly auctionAccounts = new Set<string>()
+    private nextBlock: number
+    private readonly maxLiquidationsPerPosition: number
+    private readonly minLiquidationPenaltyRatio: number
+
+    constructor(
+        readonly contracts: LiquidationKeeperContracts,
+        readonly signer: Signer,
+        options: LiquidationKeeperOptions = {},
+    ) {
+        this.nextBlock = options.fromBlock ?? 0
+        this.maxLiquidationsPerPosition = options.maxLiquidationsPerPosition ?? DEFAULT_MAX_LIQUIDATIONS_PER_POSITION
+        this.minLiquidationPenaltyRatio = options.minLiquidationPenaltyRatio ?? 0
+        if (this.minLiquidationPenaltyRatio < 0 || this.minLiquidationPenaltyRatio > RATIO_ONE) {
+            throw new Error(`invalid min liquidation penalty ratio ${this.minLiquidationPenaltyRatio}`)
+        }
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: LiquidationKeeperOptions = {},
+    ): Promise<LiquidationKeeper> {
+        const contracts = manifest.contracts
+        return new LiquidationKeeper(
+            {
+                clearingHouse: (await ethers.getContractAt(
+                    "ClearingHouse",
+                    contracts.ClearingHouse.proxy,
+                    signer,
+                )) as ClearingHouse,
+                accountBalance: (await ethers.getContractAt(
+                    "AccountBalance",
+                    contracts.AccountBalance.proxy,
+                    signer,
+                )) as AccountBalance,
+                orderBook: (await ethers.getContractAt("OrderBook", contracts.OrderBook.proxy, signer)) as OrderBook,
+                vault: (await ethers.getContractAt("Vault", contracts.Vault.proxy, signer)) as Vault,
+            },
+            signer,
+            options,
+        )
+    }
+
+    // scans PositionChanged, LiquidityChanged and Deposited events since the last sync, returns the new accounts;
+    // LiquidationAuctionStarted events are scanned as well for the auctions to stop
+    async syncAccounts(toBlock?: number): Promise<string[]> {
+        const { clearingHouse, accountBalance, vault } = this.contracts
+        const lastBlock = toBlock ?? (await clearingHouse.provider.getBlockNumber())
+        if (lastBlock < this.nextBlock) {
+            return []
+        }
+
+        const [positionChangedEvents, liquidityChangedEvents, depositedEvents, auctionStartedEvents] =
+            await Promise.all([
+                clearingHouse.queryFilter(clearingHouse.filters.PositionChanged(), this.nextBlock, lastBlock),
+                clearingHouse.queryFilter(clearingHouse.filters.LiquidityChanged(), this.nextBlock, lastBlock),
+                vault.queryFilter(vault.filters.Deposited(), this.nextBlock, lastBlock),
+                accountBalance.queryFilter(
+                    accountBalance.filters.LiquidationAuctionStarted(),
+                    this.nextBlock,
+                    lastBlock,
+                ),
+            ])
+        this.nextBlock = lastBlock + 1
+        for (const event of auctionStartedEvents) {
+            this.auctionAccounts.add(event.args.trader)
+        }
+
+        const newAccounts: string[] = []
+        const traders = [
+            ...positionChangedEvents.map(event => event.args.trader),
+            ...liquidityChangedEvents.map(event => event.args.maker),
+            ...depositedEvents.map(event => event.args.trader),
+        ]
+        for (const trader of traders) {
+            if (!this.accounts.has(trader)) {
+                this.accounts.add(trader)
+                newAccounts.push(trader)
+            }
+        }
+        return newAccounts
+    }
+
+    async getAccountHealth(trader: string): Promise<AccountHealth> {
+        const { clearingHouse, accountBalance, vault } = this.contracts
+        const [
+            accountValue,
+            totalAbsPositionValue,
+            marginRequirementForLiquidation,
+            hasOrder,
+            isCollateralLiquidatable,
+        ] = await Promise.all([
+            clearingHouse.getAccountValue(trader),
+            accountBalance.getTotalAbsPositionValue(trader),
+            accountBalance.getMarginRequirementForLiquidation(trader),
+            accountBalance.hasOrder(trader),
+            vault.isLiquidatable(trader),
+        ])
+
+        const isPositionLiquidatable = accountValue.lt(marginRequirementForLiquidation)
+        // same as the check of ClearingHouse._cancelExcessOrders()
+        const hasExcessOrders =
+            hasOrder &&
+            (isPositionLiquidatable || (await vault.getFreeCollateralByMarginRequirement(trader, false)).lt(0))
+
+        return {
+            trader,
+            accountValue,
+            totalAbsPositionValue,
+            marginRequirementForLiquidation,
+            marginRatio: totalAbsPositionValue.isZero()
+                ? undefined
+                : accountValue.mul(RATIO_ONE).div(totalAbsPositionValue),
+            hasOrder,
+            hasExcessOrders,
+            isPositionLiquidatable,
+            isCollateralLiquidatable,
+        }
+    }
+
+    // liquidates one account as much as possible, returns the txs sent
+    async liquidate(trader: string): Promise<KeeperAction[]> {
+        const { clearingHouse, accountBalance, orderBook } = this.contracts
+        const actions: KeeperAction[] = []
+        const baseTokens = await accountBalance.getBaseTokens(trader)
+
+        let health = await this.getAccountHealth(trader)
+        if (health.hasExcessOrders) {
+            for (const baseToken of baseTokens) {
+                if ((await orderBook.getOpenOrderIds(trader, baseToken)).length === 0) {
+                    continue
+                }
+                actions.push(
+                    await this.send("cancelExcessOrders", trader, baseToken, () =>
+                        clearingHouse.connect(this.signer).cancelAllExcessOrders(trader, baseToken),
+                    ),
+                )
+            }
+            health = await this.getAccountHealth(trader)
+        }
+
+        if (health.isPositionLiquidatable && !health.hasOrder) {
+            // the auction is stopped by the liquidation that leaves the account healthy or without positions
+            if ((await accountBalance.getLiquidationAuctionStartedAt(trader)).isZero()) {
+                actions.push(
+                    await this.send("startLiquidationAuction", trader, constants.AddressZero, () =>
+                        accountBalance.connect(this.signer).startLiquidationAuction(trader),
+                    ),
+                )
+            }
+            for (const baseToken of baseTokens) {
+                const liquidationPenaltyRatio = await accountBalance.getLiquidationPenaltyRatio(trader, baseToken)
+                if (liquidationPenaltyRatio < this.minLiquidationPenaltyRatio) {
+                    continue
+                }
+                for (let i = 0; i < this.maxLiquidationsPerPosition; i++) {
+                    const positionSize = await accountBalance.getTakerPositionSize(trader, baseToken)
+                    if (positionSize.isZero() || !(await this.getAccountHealth(trader)).isPositionLiquidatable) {
+                        break
+                    }
+                    const action = await this.send("liquidatePosition", trader, baseToken, () =>
+                        clearingHouse.connect(this.signer)["liquidate(address,address)"](trader, baseToken),
+                    )
+                    actions.push(action)
+                    if (action.error) {
+                        break
+                    }
+                }
+            }
+            health = await this.getAccountHealth(trader)
+        }
+
+        // collateral goes last, as liquidating positions realizes the loss into the settlement token debt
+        if (health.isCollateralLiquidatable) {
+            actions.push(...(await this.liquidateCollateral(trader)))
+        }
+        return actions
+    }
+
+    // stops the liquidation auction of an account that is no longer liquidatable, returns the tx sent if any
+    async stopLiquidationAuction(trader: string): Promise<KeeperAction[]> {
+        const { accountBalance } = this.contracts
+        if ((await accountBalance.getLiquidationAuctionStartedAt(trader)).isZero()) {
+            // stopped by the liquidation that leaves the account healthy or without positions
+            this.auctionAccounts.delete(trader)
+            return []
+        }
+        if ((await this.getAccountHealth(trader)).isPositionLiquidatable) {
+            return []
+        }
+
+        const action = await this.send("stopLiquidationAuction", trader, constants.AddressZero, () =>
+            accountBalance.connect(this.signer).stopLiquidationAuction(trader),
+        )
+        if (!action.error) {
+            this.auctionAccounts.delete(trader)
+        }
+        return [action]
+    }
+
+    // syncs the accounts, liquidates every unhealthy one and stops the auctions of the recovered ones
+    async runOnce(): Promise<KeeperAction[]> {
+        await this.syncAccounts()
+        const actions: KeeperAction[] = []
+        for (const trader of Array.from(this.accounts)) {
+            const health = await this.getAccountHealth(trader)
+            if (health.hasExcessOrders || health.isPositionLiquidatable || health.isCollateralLiquidatable) {
+                actions.push(...(await this.liquidate(trader)))
+            }
+        }
+        for (const trader of Array.from(this.auctionAccounts)) {
+            actions.push(...(await this.stopLiquidationAuction(trader)))
+        }
+        return actions
+    }
+
+    private async liquidateCollateral(trader: string): Promise<KeeperAction[]> {
+        const { vault } = this.contracts
+        const actions: KeeperAction[] = []
+        const settlementToken = await vault.getSettlementToken()
+        for (const token of await vault.getCollateralTokens(trader)) {
+            if (token === settlementToken || !(await vault.isLiquidatable(trader))) {
+                continue
+            }
+            const [maxRepaidSettlement] = await vault.getMaxRepaidSettlementAndLiquidatableCollateral(trader, token)
+            if (maxRepaidSettlement.isZero()) {
+                continue
+            }
+            await this.approveSettlementToken(settlementToken, maxRepaidSettlement)
+            actions.push(
+                await this.send("liquidateCollateral", trader, token, () =>
+                    vault.connect(this.signer).liquidateCollateral(trader, token, maxRepaidSettlement, true),
+                ),
+            )
+        }
+        return actions
+    }
+
+    // the liquidator repays the settlement token debt with its own wallet balance
+    private async approveSettlementToken(settlementToken: string, amount: BigNumber): Promise<void> {
+        const { vault } = this.contracts
+        const token = (await ethers.getContractAt("IERC20Metadata", settlementToken, this.signer)) as IERC20Metadata
+        const allowance = await token.allowance(await this.signer.getAddress(), vault.address)
+        if (allowance.lt(amount)) {
+            await (await token.approve(vault.address, constants.MaxUint256)).wait()
+        }
+    }
+
+    private async send(
+        type: KeeperActionType,
+        trader: string,
+        token: string,
+        sendTx: () => Promise<ContractTransaction>,
+    ): Promise<KeeperAction> {
+        try {
+            const tx = await sendTx()
+            await tx.wait()
+            return { type, trader, token, txHash: tx.hash }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            return { type, trader, token, error: message }
+        }
+    }
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const intervalSeconds = Number(process.env.KEEPER_INTERVAL_SECONDS || 15)
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const keeper = await LiquidationKeeper.fromManifest(manifest, signer, {
+        fromBlock: Number(process.env.KEEPER_FROM_BLOCK || 0),
+        minLiquidationPenaltyRatio: Number(process.env.KEEPER_MIN_LIQUIDATION_PENALTY_RATIO || 0),
+    })
+    console.log(`liquidation keeper ${await signer.getAddress()} watching ${manifest.network}`)
+
+    while (true) {
+        for (const action of await keeper.runOnce()) {
+            const { type, trader, token } = action
+            if (action.error) {
+                console.error(`${type} ${trader} ${token} failed: ${action.error}`)
+            } else {
+                console.log(`${type} ${trader} ${token}: ${action.txHash}`)
+            }
+        }
+        await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000))
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
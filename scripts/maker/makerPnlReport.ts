@@ -0,0 +1,356 @@
+import { BigNumber, Event, Signer } from "ethers"
+import { formatEther } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { AccountBalance, ClearingHouse, Exchange, MarketRegistry, OrderBook, UniswapV3Pool } from "../../typechain"
+import { FUNDING_PERIOD, getAmountsForLiquidity, ONE_ETHER, Q96, signedMulDiv, ZERO } from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+import { writeFile } from "../files"
+
+// decomposes the pnl of a maker into where it comes from, per order and per market:
+// - fees: the fees collected on every liquidity change (LiquidityChanged.quoteFee) plus the pending fees of open orders
+// - funding: the pending funding of the orders of a market, i.e. the funding of the base in the pool from
+//   OrderBook.getLiquidityCoefficientInFundingPayment() plus the funding of the base debts of the orders; OrderBook
+//   only exposes the sum over the orders of a market, and settled funding is mixed with the taker position in
+//   FundingPaymentSettled, so funding is reported per market only
+// - inventory: the unrealized pnl of the impermanent position of an open order at the mark price, i.e. the value of
+//   the amounts in the pool minus the value of the debts of the order; negative as impermanent loss
+// - realized: the pnl realized when the impermanent position of an order is merged into the taker position on removal
+//   (PositionChanged.realizedPnl of the removal)
+//
+//   HARDHAT_NETWORK=<network> npx ts-node --files scripts/maker/makerPnlReport.ts <maker> [manifest.json]
+// MAKER_PNL_REPORT_FROM_BLOCK=<block> (default 0) and MAKER_PNL_REPORT_OUTPUT=<file> (default stdout)
+
+export interface MakerPnlReportContracts {
+    clearingHouse: ClearingHouse
+    exchange: Exchange
+    orderBook: OrderBook
+    accountBalance: AccountBalance
+    marketRegistry: MarketRegistry
+}
+
+// all values are in 18 decimals; pnl is positive when the maker earns
+export interface OrderPnl {
+    baseToken: string
+    lowerTick: number
+    upperTick: number
+    // false once all liquidity of the order is removed
+    isOpen: boolean
+    liquidity: BigNumber
+    // the amounts of the open order in the pool
+    base: BigNumber
+    quote: BigNumber
+    baseDebt: BigNumber
+    quoteDebt: BigNumber
+    collectedFee: BigNumber
+    pendingFee: BigNumber
+    feePnl: BigNumber
+    inventoryPnl: BigNumber
+    realizedPnl: BigNumber
+    totalPnl: BigNumber
+}
+
+export interface MarketPnl {
+    baseToken: string
+    markPrice: BigNumber
+    orders: OrderPnl[]
+    feePnl: BigNumber
+    // pending, negative when the orders pay funding
+    fundingPnl: BigNumber
+    inventoryPnl: BigNumber
+    realizedPnl: BigNumber
+    totalPnl: BigNumber
+}
+
+export interface MakerPnlReport {
+    maker: string
+    blockNumber: number
+    markets: MarketPnl[]
+}
+
+export interface MakerPnlReportOptions {
+    // the first block of the history, default 0; orders added before it have no collected fees or realized pnl
+    fromBlock?: number
+}
+
+interface OrderHistory {
+    baseToken: string
+    lowerTick: number
+    upperTick: number
+    collectedFee: BigNumber
+    realizedPnl: BigNumber
+}
+
+export class MakerPnlReporter {
+    private readonly fromBlock: number
+
+    constructor(readonly contracts: MakerPnlReportContracts, options: MakerPnlReportOptions = {}) {
+        this.fromBlock = options.fromBlock ?? 0
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: MakerPnlReportOptions = {},
+    ): Promise<MakerPnlReporter> {
+        const contracts = manifest.contracts
+        return new MakerPnlReporter(
+            {
+                clearingHouse: (await ethers.getContractAt(
+                    "ClearingHouse",
+                    contracts.ClearingHouse.proxy,
+                    signer,
+                )) as ClearingHouse,
+                exchange: (await ethers.getContractAt("Exchange", contracts.Exchange.proxy, signer)) as Exchange,
+                orderBook: (await ethers.getContractAt("OrderBook", contracts.OrderBook.proxy, signer)) as OrderBook,
+                accountBalance: (await ethers.getContractAt(
+                    "AccountBalance",
+                    contracts.AccountBalance.proxy,
+                    signer,
+                )) as AccountBalance,
+                marketRegistry: (await ethers.getContractAt(
+                    "MarketRegistry",
+                    contracts.MarketRegistry.proxy,
+                    signer,
+                )) as MarketRegistry,
+            },
+            options,
+        )
+    }
+
+    async generate(maker: string): Promise<MakerPnlReport> {
+        const { clearingHouse, accountBalance } = this.contracts
+        const blockNumber = await clearingHouse.provider.getBlockNumber()
+        const histories = await this.getOrderHistories(maker, blockNumber)
+
+        // the markets of the history first, then the markets the maker has open orders in
+        const baseTokens: string[] = []
+        for (const baseToken of [
+            ...Array.from(histories.values()).map(history => history.baseToken),
+            ...(await accountBalance.getBaseTokens(maker)),
+        ]) {
+            if (!baseTokens.includes(baseToken)) {
+                baseTokens.push(baseToken)
+            }
+        }
+
+        const markets: MarketPnl[] = []
+        for (const baseToken of baseTokens) {
+            markets.push(await this.getMarketPnl(maker, baseToken, histories))
+        }
+        return { maker, blockNumber, markets: markets.filter(market => market.orders.length > 0) }
+    }
+
+    private async getMarketPnl(
+        maker: string,
+        baseToken: string,
+        histories: Map<string, OrderHistory>,
+    ): Promise<MarketPnl> {
+        const { exchange, orderBook, accountBalance, marketRegistry } = this.contracts
+        const pool = (await ethers.getContractAt(
+            "UniswapV3Pool",
+            await marketRegistry.getPool(baseToken),
+        )) as UniswapV3Pool
+        const [markPrice, { sqrtPriceX96 }, { fundingGrowthGlobal }, orderIds, accountInfo, totalBaseDebt] =
+            await Promise.all([
+                accountBalance.getMarkPrice(baseToken),
+                pool.slot0(),
+                exchange.getFundingGrowthGlobalAndTwaps(baseToken),
+                orderBook.getOpenOrderIds(maker, baseToken),
+                accountBalance.getAccountInfo(maker, baseToken),
+                orderBook.getTotalOrderDebt(maker, baseToken, true),
+            ])
+        const liquidityCoefficientInFundingPayment = await orderBook.getLiquidityCoefficientInFundingPayment(
+            maker,
+            baseToken,
+            fundingGrowthGlobal,
+        )
+
+        // every order in the history, plus the open orders added before the history
+        const ordersMap = new Map<string, OrderHistory>()
+        histories.forEach((history, key) => {
+            if (history.baseToken === baseToken) {
+                ordersMap.set(key, history)
+            }
+        })
+        for (const orderId of orderIds) {
+            const { lowerTick, upperTick } = await orderBook.getOpenOrderById(orderId)
+            const key = getOrderKey(baseToken, lowerTick, upperTick)
+            if (!ordersMap.has(key)) {
+                ordersMap.set(key, { baseToken, lowerTick, upperTick, collectedFee: ZERO, realizedPnl: ZERO })
+            }
+        }
+
+        const orders: OrderPnl[] = []
+        for (const history of Array.from(ordersMap.values())) {
+            const { lowerTick, upperTick } = history
+            const [order, pendingFee] = await Promise.all([
+                orderBook.getOpenOrder(maker, baseToken, lowerTick, upperTick),
+                orderBook.getPendingFee(maker, baseToken, lowerTick, upperTick),
+            ])
+            const { base, quote } = getAmountsForLiquidity(sqrtPriceX96, lowerTick, upperTick, order.liquidity)
+            const inventoryPnl = signedMulDiv(base.sub(order.baseDebt), markPrice, ONE_ETHER).add(
+                quote.sub(order.quoteDebt),
+            )
+            const feePnl = history.collectedFee.add(pendingFee)
+            orders.push({
+                baseToken,
+                lowerTick,
+                upperTick,
+                isOpen: !order.liquidity.isZero(),
+                liquidity: order.liquidity,
+                base,
+                quote,
+                baseDebt: order.baseDebt,
+                quoteDebt: order.quoteDebt,
+                collectedFee: history.collectedFee,
+                pendingFee,
+                feePnl,
+                inventoryPnl,
+                realizedPnl: history.realizedPnl,
+                totalPnl: feePnl.add(inventoryPnl).add(history.realizedPnl),
+            })
+        }
+
+        const sum = (getValue: (order: OrderPnl) => BigNumber) =>
+            orders.reduce((total, order) => total.add(getValue(order)), ZERO)
+        // Funding.calcPendingFundingPaymentWithLiquidityCoefficient() with the base debts of the orders as the base
+        // balance, i.e. without the taker position
+        const balanceCoefficientInFundingPayment = signedMulDiv(
+            ZERO.sub(totalBaseDebt),
+            fundingGrowthGlobal.twPremiumX96.sub(accountInfo.lastTwPremiumGrowthGlobalX96),
+            Q96,
+        )
+        const fundingPnl = liquidityCoefficientInFundingPayment
+            .add(balanceCoefficientInFundingPayment)
+            .div(FUNDING_PERIOD)
+            .mul(-1)
+        const feePnl = sum(order => order.feePnl)
+        const inventoryPnl = sum(order => order.inventoryPnl)
+        const realizedPnl = sum(order => order.realizedPnl)
+        return {
+            baseToken,
+            markPrice,
+            orders,
+            feePnl,
+            fundingPnl,
+            inventoryPnl,
+            realizedPnl,
+            totalPnl: feePnl.add(fundingPnl).add(inventoryPnl).add(realizedPnl),
+        }
+    }
+
+    // the collected fees of every order, and the pnl realized by the PositionChanged emitted right before the
+    // LiquidityChanged of a removal in the same tx
+    private async getOrderHistories(maker: string, toBlock: number): Promise<Map<string, OrderHistory>> {
+        const { clearingHouse } = this.contracts
+        const [liquidityChangedEvents, positionChangedEvents] = await Promise.all([
+            clearingHouse.queryFilter(clearingHouse.filters.LiquidityChanged(maker), this.fromBlock, toBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.PositionChanged(maker), this.fromBlock, toBlock),
+        ])
+        liquidityChangedEvents.sort(compareEvents)
+
+        const histories = new Map<string, OrderHistory>()
+        for (const event of liquidityChangedEvents) {
+            const { baseToken, lowerTick, upperTick, liquidity, quoteFee } = event.args
+            const key = getOrderKey(baseToken, lowerTick, upperTick)
+            const history = histories.get(key) ?? {
+                baseToken,
+                lowerTick,
+                upperTick,
+                collectedFee: ZERO,
+                realizedPnl: ZERO,
+            }
+            history.collectedFee = history.collectedFee.add(quoteFee)
+
+            if (liquidity.lt(0)) {
+                const removal = positionChangedEvents
+                    .filter(
+                        positionChanged =>
+                            positionChanged.transactionHash === event.transactionHash &&
+                            positionChanged.args.baseToken === baseToken &&
+                            positionChanged.logIndex < event.logIndex,
+                    )
+                    .sort(compareEvents)
+                    .pop()
+                if (removal) {
+                    history.realizedPnl = history.realizedPnl.add(removal.args.realizedPnl)
+                }
+            }
+            histories.set(key, history)
+        }
+        return histories
+    }
+}
+
+function getOrderKey(baseToken: string, lowerTick: number, upperTick: number): string {
+    return `${baseToken}:${lowerTick}:${upperTick}`
+}
+
+function compareEvents(a: Event, b: Event): number {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+export function formatMakerPnlReport(report: MakerPnlReport): object {
+    return {
+        maker: report.maker,
+        blockNumber: report.blockNumber,
+        markets: report.markets.map(market => ({
+            baseToken: market.baseToken,
+            markPrice: formatEther(market.markPrice),
+            feePnl: formatEther(market.feePnl),
+            fundingPnl: formatEther(market.fundingPnl),
+            inventoryPnl: formatEther(market.inventoryPnl),
+            realizedPnl: formatEther(market.realizedPnl),
+            totalPnl: formatEther(market.totalPnl),
+            orders: market.orders.map(order => ({
+                lowerTick: order.lowerTick,
+                upperTick: order.upperTick,
+                isOpen: order.isOpen,
+                liquidity: order.liquidity.toString(),
+                base: formatEther(order.base),
+                quote: formatEther(order.quote),
+                baseDebt: formatEther(order.baseDebt),
+                quoteDebt: formatEther(order.quoteDebt),
+                collectedFee: formatEther(order.collectedFee),
+                pendingFee: formatEther(order.pendingFee),
+                feePnl: formatEther(order.feePnl),
+                inventoryPnl: formatEther(order.inventoryPnl),
+                realizedPnl: formatEther(order.realizedPnl),
+                totalPnl: formatEther(order.totalPnl),
+            })),
+        })),
+    }
+}
+
+async function main(): Promise<void> {
+    const maker = process.argv[2]
+    if (!maker) {
+        throw new Error("usage: makerPnlReport.ts <maker> [manifest.json]")
+    }
+    const manifestPath = process.argv[3] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const reporter = await MakerPnlReporter.fromManifest(manifest, signer, {
+        fromBlock: Number(process.env.MAKER_PNL_REPORT_FROM_BLOCK || 0),
+    })
+
+    const report = await reporter.generate(maker)
+    const content = JSON.stringify(formatMakerPnlReport(report), null, 4) + "\n"
+    const outputPath = process.env.MAKER_PNL_REPORT_OUTPUT
+    if (outputPath) {
+        await writeFile(outputPath, content)
+        console.log(`maker pnl report of ${maker} written to ${outputPath}`)
+    } else {
+        process.stdout.write(content)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,393 @@
+import { BigNumber, constants, Signer } from "ethers"
+import { formatEther, Result } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { AccountBalance, ClearingHouse, MarketRegistry, OrderBook, UniswapV3Pool } from "../../typechain"
+import {
+    abs,
+    formatSqrtPriceX96ToPriceX96,
+    formatX96ToX10_18,
+    MAX_TICK,
+    MIN_TICK,
+    mulDiv,
+    ONE_ETHER,
+    RATIO_ONE,
+    ZERO,
+} from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+import { getMinAmount, getOppositeAmountBound } from "../sdk/clearingHouseSdk"
+import { ClearingHouseMulticallBuilder } from "../sdk/multicall"
+
+// a maker bot that keeps the range orders of the signer around the market price:
+// 1. reads the tick of the pool of every market the maker has orders in
+// 2. removes the orders the tick has moved out of (or within rebalanceBufferTicks of an edge)
+// 3. hedges the position of the maker, i.e. the taker position plus the impermanent position of the orders,
+//    by openPosition() in the opposite direction
+// 4. adds the value of the removed orders back as one range of rangeWidthTicks centered at the tick
+//
+// all steps of a market are sent in one ClearingHouse.multicall(), so the free collateral of the maker is checked
+// only once after the new range is added. The batch is static-called first, and every step is bounded by
+// slippageRatio of its quoted amounts, so a sandwiched batch reverts instead. Against a local market seeded by
+// scripts/seed.ts:
+//   HARDHAT_NETWORK=localhost npx ts-node --files scripts/maker/rangeRebalancer.ts [manifest.json]
+
+export interface RangeRebalancerContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    orderBook: OrderBook
+    marketRegistry: MarketRegistry
+}
+
+export interface RangeRebalancerOptions {
+    // the markets to rebalance, default the markets the maker has orders or positions in
+    baseTokens?: string[]
+    // the width of the new range, rounded up to the tick spacing of the pool, default 2000 (about +-10%)
+    rangeWidthTicks?: number
+    // rebalances an order once the tick is within this number of ticks of an edge, default 0
+    rebalanceBufferTicks?: number
+    // the ratio of the position to hedge in decimal 6, default 1e6; 0 disables hedging
+    hedgeRatio?: number
+    // skips hedging positions no larger than this, in base
+    minHedgeBase?: BigNumber
+    // the slippage tolerance of every step of the batch in decimal 6, default 5000 (0.5%)
+    slippageRatio?: number
+}
+
+export interface RangeOrder {
+    orderId: string
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumber
+}
+
+export interface MarketTick {
+    tick: number
+    sqrtPriceX96: BigNumber
+    tickSpacing: number
+}
+
+export interface RebalancePlan {
+    baseToken: string
+    tick: number
+    // the orders to be removed and re-added at the new range
+    outOfRangeOrders: RangeOrder[]
+    newLowerTick: number
+    newUpperTick: number
+    // the base amount to trade, positive when buying base; zero when not hedging
+    hedgeBase: BigNumber
+}
+
+export interface RebalanceBatch {
+    // the amounts to add at the new range
+    addedBase: BigNumber
+    addedQuote: BigNumber
+    // the calls with the slippage bounds
+    builder: ClearingHouseMulticallBuilder
+}
+
+export interface RebalanceAction extends RebalancePlan {
+    // the amounts added at the new range
+    addedBase: BigNumber
+    addedQuote: BigNumber
+    txHash?: string
+    // revert reason when the tx failed; the bot moves on to the next market
+    error?: string
+}
+
+const DEFAULT_RANGE_WIDTH_TICKS = 2000
+const DEFAULT_SLIPPAGE_RATIO = 5000
+
+export class RangeRebalancer {
+    private readonly rangeWidthTicks: number
+    private readonly rebalanceBufferTicks: number
+    private readonly hedgeRatio: number
+    private readonly minHedgeBase: BigNumber
+    private readonly slippageRatio: number
+
+    constructor(
+        readonly contracts: RangeRebalancerContracts,
+        readonly signer: Signer,
+        readonly options: RangeRebalancerOptions = {},
+    ) {
+        this.rangeWidthTicks = options.rangeWidthTicks ?? DEFAULT_RANGE_WIDTH_TICKS
+        this.rebalanceBufferTicks = options.rebalanceBufferTicks ?? 0
+        this.hedgeRatio = options.hedgeRatio ?? RATIO_ONE
+        this.minHedgeBase = options.minHedgeBase ?? ZERO
+        this.slippageRatio = options.slippageRatio ?? DEFAULT_SLIPPAGE_RATIO
+        if (this.rangeWidthTicks <= 0) {
+            throw new Error(`invalid range width ${this.rangeWidthTicks}`)
+        }
+        if (this.rebalanceBufferTicks * 2 >= this.rangeWidthTicks) {
+            throw new Error(`rebalance buffer ${this.rebalanceBufferTicks} leaves no room in the range`)
+        }
+        if (!Number.isInteger(this.hedgeRatio) || this.hedgeRatio < 0 || this.hedgeRatio > RATIO_ONE) {
+            throw new Error(`invalid hedge ratio ${this.hedgeRatio}`)
+        }
+        if (!Number.isInteger(this.slippageRatio) || this.slippageRatio < 0 || this.slippageRatio >= RATIO_ONE) {
+            throw new Error(`invalid slippage ratio ${this.slippageRatio}`)
+        }
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: RangeRebalancerOptions = {},
+    ): Promise<RangeRebalancer> {
+        const contracts = manifest.contracts
+        return new RangeRebalancer(
+            {
+                clearingHouse: (await ethers.getContractAt(
+                    "ClearingHouse",
+                    contracts.ClearingHouse.proxy,
+                    signer,
+                )) as ClearingHouse,
+                accountBalance: (await ethers.getContractAt(
+                    "AccountBalance",
+                    contracts.AccountBalance.proxy,
+                    signer,
+                )) as AccountBalance,
+                orderBook: (await ethers.getContractAt("OrderBook", contracts.OrderBook.proxy, signer)) as OrderBook,
+                marketRegistry: (await ethers.getContractAt(
+                    "MarketRegistry",
+                    contracts.MarketRegistry.proxy,
+                    signer,
+                )) as MarketRegistry,
+            },
+            signer,
+            options,
+        )
+    }
+
+    // the tick of the pool, which Exchange swaps against
+    async getMarketTick(baseToken: string): Promise<MarketTick> {
+        const pool = (await ethers.getContractAt(
+            "UniswapV3Pool",
+            await this.contracts.marketRegistry.getPool(baseToken),
+        )) as UniswapV3Pool
+        const [slot0, tickSpacing] = await Promise.all([pool.slot0(), pool.tickSpacing()])
+        return { tick: slot0.tick, sqrtPriceX96: slot0.sqrtPriceX96, tickSpacing }
+    }
+
+    async getOrders(baseToken: string): Promise<RangeOrder[]> {
+        const { orderBook } = this.contracts
+        const orderIds = await orderBook.getOpenOrderIds(await this.signer.getAddress(), baseToken)
+        return Promise.all(
+            orderIds.map(async orderId => {
+                const order = await orderBook.getOpenOrderById(orderId)
+                return {
+                    orderId,
+                    lowerTick: order.lowerTick,
+                    upperTick: order.upperTick,
+                    liquidity: order.liquidity,
+                }
+            }),
+        )
+    }
+
+    // an order earns fees only when lowerTick <= tick < upperTick, as in Uniswap v3
+    isOutOfRange(order: RangeOrder, tick: number): boolean {
+        return tick < order.lowerTick + this.rebalanceBufferTicks || tick >= order.upperTick - this.rebalanceBufferTicks
+    }
+
+    // a range of rangeWidthTicks around the tick, aligned to the tick spacing and within the usable ticks
+    getCenteredRange(tick: number, tickSpacing: number): { lowerTick: number; upperTick: number } {
+        const width = Math.ceil(this.rangeWidthTicks / tickSpacing) * tickSpacing
+        const minTick = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing
+        const maxTick = Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+        const lowerTick = Math.max(minTick, Math.floor((tick - width / 2) / tickSpacing) * tickSpacing)
+        const upperTick = Math.min(maxTick, lowerTick + width)
+        return { lowerTick, upperTick }
+    }
+
+    async getPlan(baseToken: string): Promise<RebalancePlan> {
+        const { accountBalance } = this.contracts
+        const [{ tick, tickSpacing }, orders, positionSize] = await Promise.all([
+            this.getMarketTick(baseToken),
+            this.getOrders(baseToken),
+            accountBalance.getTotalPositionSize(await this.signer.getAddress(), baseToken),
+        ])
+        const { lowerTick, upperTick } = this.getCenteredRange(tick, tickSpacing)
+        const hedgeBase = positionSize.mul(-this.hedgeRatio).div(RATIO_ONE)
+        return {
+            baseToken,
+            tick,
+            outOfRangeOrders: orders.filter(order => this.isOutOfRange(order, tick)),
+            newLowerTick: lowerTick,
+            newUpperTick: upperTick,
+            hedgeBase: abs(hedgeBase).gt(this.minHedgeBase) ? hedgeBase : ZERO,
+        }
+    }
+
+    // the calls of a plan bounded by the slippage tolerance, see the steps above
+    async getBatch(plan: RebalancePlan): Promise<RebalanceBatch> {
+        const removeBuilder = this.buildCalls(plan, ZERO, ZERO)
+        let addedBase = ZERO
+        let addedQuote = ZERO
+        if (plan.outOfRangeOrders.length > 0) {
+            // the value of the removed orders in quote, split evenly between base and quote at the current price
+            let removedBase = ZERO
+            let removedQuote = ZERO
+            for (const result of await removeBuilder.callStatic(this.signer)) {
+                removedBase = removedBase.add(result.base)
+                removedQuote = removedQuote.add(result.quote)
+            }
+            const { sqrtPriceX96 } = await this.getMarketTick(plan.baseToken)
+            const price = formatX96ToX10_18(formatSqrtPriceX96ToPriceX96(sqrtPriceX96))
+            const halfValue = mulDiv(removedBase, price, ONE_ETHER).add(removedQuote).div(2)
+            addedBase = mulDiv(halfValue, ONE_ETHER, price)
+            addedQuote = halfValue
+        }
+
+        // quotes the whole batch without bounds, then bounds every call by its quoted amounts
+        const unboundedBuilder = this.buildCalls(plan, addedBase, addedQuote)
+        const results = await unboundedBuilder.callStatic(this.signer)
+        const builder = this.buildCalls(plan, addedBase, addedQuote, results)
+        return { addedBase, addedQuote, builder }
+    }
+
+    // rebalances one market, returns undefined when there is nothing to do;
+    // a failed batch is returned with its revert reason, so that the caller moves on to the next market
+    async rebalance(baseToken: string): Promise<RebalanceAction | undefined> {
+        const plan = await this.getPlan(baseToken)
+        if (plan.outOfRangeOrders.length === 0 && plan.hedgeBase.isZero()) {
+            return undefined
+        }
+
+        let addedBase = ZERO
+        let addedQuote = ZERO
+        try {
+            const batch = await this.getBatch(plan)
+            addedBase = batch.addedBase
+            addedQuote = batch.addedQuote
+            const receipt = await batch.builder.execute(this.signer)
+            return { ...plan, addedBase, addedQuote, txHash: receipt.transactionHash }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            return { ...plan, addedBase, addedQuote, error: message }
+        }
+    }
+
+    async runOnce(): Promise<RebalanceAction[]> {
+        const baseTokens =
+            this.options.baseTokens ??
+            (await this.contracts.accountBalance.getBaseTokens(await this.signer.getAddress()))
+        const actions: RebalanceAction[] = []
+        for (const baseToken of baseTokens) {
+            const action = await this.rebalance(baseToken)
+            if (action) {
+                actions.push(action)
+            }
+        }
+        return actions
+    }
+
+    // results: the static-called results of the same calls without bounds, in the same order;
+    // without results, every call is unbounded
+    private buildCalls(
+        plan: RebalancePlan,
+        addedBase: BigNumber,
+        addedQuote: BigNumber,
+        results?: Result[],
+    ): ClearingHouseMulticallBuilder {
+        const { baseToken } = plan
+        const deadline = constants.MaxUint256
+        const builder = new ClearingHouseMulticallBuilder(this.contracts.clearingHouse)
+        const getMinAmounts = (): { minBase: BigNumber; minQuote: BigNumber } => {
+            const result = results?.[builder.getCalls().length]
+            return result
+                ? {
+                      minBase: getMinAmount(result.base, this.slippageRatio),
+                      minQuote: getMinAmount(result.quote, this.slippageRatio),
+                  }
+                : { minBase: ZERO, minQuote: ZERO }
+        }
+
+        for (const order of plan.outOfRangeOrders) {
+            builder.removeLiquidity({
+                baseToken,
+                lowerTick: order.lowerTick,
+                upperTick: order.upperTick,
+                liquidity: order.liquidity,
+                ...getMinAmounts(),
+                deadline,
+            })
+        }
+
+        // hedges after removing the orders, so that the removed orders don't take the other side of the hedge;
+        // in-range orders still take part of it. A hedge moving the price beyond the price band reverts (EX_OPB),
+        // and so does the whole multicall, which is reported and retried in the next round
+        if (!plan.hedgeBase.isZero()) {
+            const isBaseToQuote = plan.hedgeBase.lt(0)
+            // sells exact base or buys exact base
+            const isExactInput = isBaseToQuote
+            const result = results?.[builder.getCalls().length]
+            builder.openPosition({
+                baseToken,
+                isBaseToQuote,
+                isExactInput,
+                amount: abs(plan.hedgeBase),
+                oppositeAmountBound: result
+                    ? getOppositeAmountBound(isBaseToQuote, isExactInput, result.base, result.quote, this.slippageRatio)
+                    : isExactInput
+                    ? 0
+                    : constants.MaxUint256,
+                sqrtPriceLimitX96: 0,
+                deadline,
+                referralCode: constants.HashZero,
+            })
+        }
+
+        if (!addedBase.isZero() || !addedQuote.isZero()) {
+            builder.addLiquidity({
+                baseToken,
+                base: addedBase,
+                quote: addedQuote,
+                lowerTick: plan.newLowerTick,
+                upperTick: plan.newUpperTick,
+                ...getMinAmounts(),
+                useTakerBalance: false,
+                deadline,
+            })
+        }
+        return builder
+    }
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const intervalSeconds = Number(process.env.REBALANCER_INTERVAL_SECONDS || 15)
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    // the maker of scripts/seed.ts by default
+    const signer = (await ethers.getSigners())[Number(process.env.REBALANCER_SIGNER_INDEX || 1)]
+    const rebalancer = await RangeRebalancer.fromManifest(manifest, signer, {
+        rangeWidthTicks: Number(process.env.REBALANCER_RANGE_WIDTH_TICKS || DEFAULT_RANGE_WIDTH_TICKS),
+        rebalanceBufferTicks: Number(process.env.REBALANCER_BUFFER_TICKS || 0),
+        hedgeRatio: Number(process.env.REBALANCER_HEDGE_RATIO || RATIO_ONE),
+        slippageRatio: Number(process.env.REBALANCER_SLIPPAGE_RATIO || DEFAULT_SLIPPAGE_RATIO),
+    })
+    console.log(`range rebalancer ${await signer.getAddress()} watching ${manifest.network}`)
+
+    while (true) {
+        for (const action of await rebalancer.runOnce()) {
+            if (action.error) {
+                console.error(`rebalance ${action.baseToken} failed: ${action.error}`)
+            } else {
+                console.log(
+                    `rebalanced ${action.baseToken}: removed ${action.outOfRangeOrders.length} orders, ` +
+                        `new range [${action.newLowerTick}, ${action.newUpperTick}), ` +
+                        `hedged ${formatEther(action.hedgeBase)}: ${action.txHash}`,
+                )
+            }
+        }
+        await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000))
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -17,4 +17,5 @@ export const allDeployedContractsNamesAndDirs: ContractNameAndDir[] = [
     { name: "OrderBook.sol", dir: "./contracts" },
     { name: "CollateralManager.sol", dir: "./contracts" },
     { name: "DelegateApproval.sol", dir: "./contracts" },
+    { name: "LimitOrderBook.sol", dir: "./contracts" },
 ]
@@ -0,0 +1,490 @@
+import { BigNumber, BigNumberish, constants, Event, Signer } from "ethers"
+import {
+    formatBytes32String,
+    formatEther,
+    formatUnits,
+    getAddress,
+    hexConcat,
+    isHexString,
+    keccak256,
+    parseEther,
+    solidityKeccak256,
+} from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { ClearingHouse, Vault } from "../../typechain"
+import { formatSettlementToken, mulRatio, RATIO_ONE, ZERO } from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+import { writeFile } from "../files"
+
+// referral program accounting on top of the referralCode of openPosition() and closePosition(), which ClearingHouse
+// only emits as ReferredPositionChanged(referralCode) right after the PositionChanged of the referred trade:
+// - codes are registered to their owners off chain; the trades referred by an unregistered code or by the trader's
+//   own code are not attributed
+// - the volume (the absolute exchangedPositionNotional) and the fee of every referred trade are attributed to the
+//   owner of the code, the trader and the epoch of the block
+// - the tier of a referrer in an epoch is the highest tier the referred volume of all of the referrer's codes
+//   reaches, which decides both the rebate of the referred traders and the commission of the referrer
+// - the rewards of an epoch are distributed by a Merkle tree, claimable with MerkleProof of OpenZeppelin
+// all of the volumes, fees and rewards are in 18 decimals, except the amounts of the Merkle distribution
+
+export interface ReferralTier {
+    // the referred volume a referrer needs in an epoch
+    minVolume: BigNumber
+    // the ratios of the fee of a referred trade rebated to the trader and paid to the referrer, in decimal 6
+    traderRebateRatio: number
+    referrerCommissionRatio: number
+}
+
+export interface ReferralProgramConfig {
+    // the timestamp epoch 0 starts at
+    startTimestamp: number
+    // in seconds
+    epochDuration: number
+    // in ascending minVolume, a referrer below the first tier gets no commission and its traders no rebate
+    tiers: ReferralTier[]
+}
+
+export interface ReferralLedgerOptions {
+    // the first block to attribute, default 0
+    fromBlock?: number
+}
+
+export interface ReferredTradeRecord {
+    referralCode: string
+    referrer: string
+    trader: string
+    baseToken: string
+    epoch: number
+    blockNumber: number
+    logIndex: number
+    txHash: string
+    volume: BigNumber
+    fee: BigNumber
+}
+
+export interface ReferrerReward {
+    referrer: string
+    volume: BigNumber
+    fee: BigNumber
+    // -1 if the referrer is below the first tier
+    tierIndex: number
+    commission: BigNumber
+}
+
+export interface TraderRebate {
+    trader: string
+    volume: BigNumber
+    fee: BigNumber
+    rebate: BigNumber
+}
+
+export interface EpochRewards {
+    epoch: number
+    startTimestamp: number
+    endTimestamp: number
+    referrers: ReferrerReward[]
+    traders: TraderRebate[]
+}
+
+export interface MerkleClaim {
+    index: number
+    account: string
+    // in the decimals of the settlement token
+    amount: BigNumber
+    proof: string[]
+}
+
+export interface MerkleDistribution {
+    epoch: number
+    merkleRoot: string
+    // in the decimals of the settlement token
+    total: BigNumber
+    // key: account
+    claims: Record<string, MerkleClaim>
+}
+
+// throws on a config that could pay out more than the fees or whose tiers are out of order
+export function validateReferralProgramConfig(config: ReferralProgramConfig): void {
+    if (config.epochDuration <= 0) {
+        throw new Error("epochDuration should be positive")
+    }
+    config.tiers.forEach((tier, i) => {
+        if (i > 0 && tier.minVolume.lte(config.tiers[i - 1].minVolume)) {
+            throw new Error(`tier ${i} should require more volume than tier ${i - 1}`)
+        }
+        if (
+            tier.traderRebateRatio < 0 ||
+            tier.referrerCommissionRatio < 0 ||
+            tier.traderRebateRatio + tier.referrerCommissionRatio > RATIO_ONE
+        ) {
+            throw new Error(`tier ${i} should not pay out more than the fee`)
+        }
+    })
+}
+
+// the bytes32 referral code of a plain string of up to 31 bytes or of a bytes32 hex string
+export function toReferralCode(code: string): string {
+    return isHexString(code, 32) ? code.toLowerCase() : formatBytes32String(code)
+}
+
+// the highest tier the volume reaches, -1 if none
+export function getReferralTierIndex(tiers: ReferralTier[], volume: BigNumberish): number {
+    let index = -1
+    while (index + 1 < tiers.length && tiers[index + 1].minVolume.lte(volume)) {
+        index++
+    }
+    return index
+}
+
+export class ReferralLedger {
+    private readonly fromBlock: number
+    private lastBlock: number | undefined
+    // key: referral code
+    private readonly codeOwners = new Map<string, string>()
+    private readonly trades: ReferredTradeRecord[] = []
+    // key: block number
+    private readonly blockTimestamps = new Map<number, number>()
+
+    constructor(
+        readonly clearingHouse: ClearingHouse,
+        readonly config: ReferralProgramConfig,
+        options: ReferralLedgerOptions = {},
+    ) {
+        validateReferralProgramConfig(config)
+        this.fromBlock = options.fromBlock ?? 0
+    }
+
+    static async fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        config: ReferralProgramConfig,
+        options: ReferralLedgerOptions = {},
+    ): Promise<ReferralLedger> {
+        const clearingHouse = (await ethers.getContractAt(
+            "ClearingHouse",
+            manifest.contracts.ClearingHouse.proxy,
+            signer,
+        )) as ClearingHouse
+        return new ReferralLedger(clearingHouse, config, options)
+    }
+
+    // a code should be registered before syncing the trades it refers, they are not attributed otherwise
+    registerCode(code: string, owner: string): void {
+        const referralCode = toReferralCode(code)
+        if (referralCode === constants.HashZero) {
+            throw new Error("the empty referral code means no referral")
+        }
+        const registeredOwner = this.codeOwners.get(referralCode)
+        if (registeredOwner && registeredOwner !== getAddress(owner)) {
+            throw new Error(`referral code ${code} is registered to ${registeredOwner}`)
+        }
+        this.codeOwners.set(referralCode, getAddress(owner))
+    }
+
+    getCodeOwner(code: string): string | undefined {
+        return this.codeOwners.get(toReferralCode(code))
+    }
+
+    getCodes(owner: string): string[] {
+        return Array.from(this.codeOwners.entries())
+            .filter(([, codeOwner]) => codeOwner === getAddress(owner))
+            .map(([code]) => code)
+    }
+
+    getEpoch(timestamp: number): number {
+        if (timestamp < this.config.startTimestamp) {
+            throw new Error(`${timestamp} is before the referral program starts`)
+        }
+        return Math.floor((timestamp - this.config.startTimestamp) / this.config.epochDuration)
+    }
+
+    // attributes the referred trades since the last sync, returns the number of trades attributed
+    async sync(toBlock?: number): Promise<number> {
+        const clearingHouse = this.clearingHouse
+        const fromBlock = this.lastBlock === undefined ? this.fromBlock : this.lastBlock + 1
+        const lastBlock = toBlock ?? (await clearingHouse.provider.getBlockNumber())
+        if (lastBlock < fromBlock) {
+            return 0
+        }
+
+        const [positionChangedEvents, referredEvents] = await Promise.all([
+            clearingHouse.queryFilter(clearingHouse.filters.PositionChanged(), fromBlock, lastBlock),
+            clearingHouse.queryFilter(clearingHouse.filters.ReferredPositionChanged(), fromBlock, lastBlock),
+        ])
+        const positionChangedEventsByTx = new Map<string, Event[]>()
+        for (const event of positionChangedEvents) {
+            const events = positionChangedEventsByTx.get(event.transactionHash) || []
+            events.push(event)
+            positionChangedEventsByTx.set(event.transactionHash, events)
+        }
+
+        let count = 0
+        for (const referredEvent of referredEvents) {
+            // the trade is the last PositionChanged before ReferredPositionChanged in the same tx, which can have
+            // more than one referred trade through multicall
+            const positionChanged = (positionChangedEventsByTx.get(referredEvent.transactionHash) || [])
+                .filter(event => event.logIndex < referredEvent.logIndex)
+                .pop()
+            const referralCode = referredEvent.args!.referralCode.toLowerCase()
+            const referrer = this.codeOwners.get(referralCode)
+            if (!positionChanged || !referrer || referrer === positionChanged.args!.trader) {
+                continue
+            }
+            const timestamp = await this.getBlockTimestamp(positionChanged.blockNumber)
+            if (timestamp < this.config.startTimestamp) {
+                continue
+            }
+
+            const args = positionChanged.args!
+            this.trades.push({
+                referralCode,
+                referrer,
+                trader: args.trader,
+                baseToken: args.baseToken,
+                epoch: this.getEpoch(timestamp),
+                blockNumber: positionChanged.blockNumber,
+                logIndex: positionChanged.logIndex,
+                txHash: positionChanged.transactionHash,
+                volume: args.exchangedPositionNotional.abs(),
+                fee: args.fee,
+            })
+            count++
+        }
+
+        this.lastBlock = lastBlock
+        return count
+    }
+
+    getTrades(epoch?: number): ReferredTradeRecord[] {
+        return epoch === undefined ? [...this.trades] : this.trades.filter(trade => trade.epoch === epoch)
+    }
+
+    getEpochRewards(epoch: number): EpochRewards {
+        const trades = this.getTrades(epoch)
+        const tiers = this.config.tiers
+
+        const referrers = new Map<string, ReferrerReward>()
+        for (const trade of trades) {
+            const reward = referrers.get(trade.referrer) || {
+                referrer: trade.referrer,
+                volume: ZERO,
+                fee: ZERO,
+                tierIndex: -1,
+                commission: ZERO,
+            }
+            reward.volume = reward.volume.add(trade.volume)
+            reward.fee = reward.fee.add(trade.fee)
+            referrers.set(trade.referrer, reward)
+        }
+        for (const reward of Array.from(referrers.values())) {
+            reward.tierIndex = getReferralTierIndex(tiers, reward.volume)
+            reward.commission =
+                reward.tierIndex < 0 ? ZERO : mulRatio(reward.fee, tiers[reward.tierIndex].referrerCommissionRatio)
+        }
+
+        // a trader referred by more than one referrer gets the rebate of each referrer's tier
+        const traders = new Map<string, TraderRebate>()
+        const feesByTraderAndReferrer = new Map<string, BigNumber>()
+        for (const trade of trades) {
+            const rebate = traders.get(trade.trader) || { trader: trade.trader, volume: ZERO, fee: ZERO, rebate: ZERO }
+            rebate.volume = rebate.volume.add(trade.volume)
+            rebate.fee = rebate.fee.add(trade.fee)
+            traders.set(trade.trader, rebate)
+
+            const key = `${trade.trader}:${trade.referrer}`
+            feesByTraderAndReferrer.set(key, (feesByTraderAndReferrer.get(key) || ZERO).add(trade.fee))
+        }
+        for (const [key, fee] of Array.from(feesByTraderAndReferrer.entries())) {
+            const [trader, referrer] = key.split(":")
+            const tierIndex = referrers.get(referrer)!.tierIndex
+            if (tierIndex >= 0) {
+                const rebate = traders.get(trader)!
+                rebate.rebate = rebate.rebate.add(mulRatio(fee, tiers[tierIndex].traderRebateRatio))
+            }
+        }
+
+        const startTimestamp = this.config.startTimestamp + epoch * this.config.epochDuration
+        return {
+            epoch,
+            startTimestamp,
+            endTimestamp: startTimestamp + this.config.epochDuration,
+            referrers: Array.from(referrers.values()),
+            traders: Array.from(traders.values()),
+        }
+    }
+
+    private async getBlockTimestamp(blockNumber: number): Promise<number> {
+        if (!this.blockTimestamps.has(blockNumber)) {
+            const block = await this.clearingHouse.provider.getBlock(blockNumber)
+            this.blockTimestamps.set(blockNumber, block.timestamp)
+        }
+        return this.blockTimestamps.get(blockNumber)!
+    }
+}
+
+//
+// MERKLE DISTRIBUTION
+//
+
+// keccak256(abi.encodePacked(index, account, amount))
+export function getMerkleLeaf(index: number, account: string, amount: BigNumberish): string {
+    return solidityKeccak256(["uint256", "address", "uint256"], [index, account, amount])
+}
+
+// MerkleProof.verify() of OpenZeppelin hashes each pair of nodes in ascending order
+function hashPair(a: string, b: string): string {
+    return BigNumber.from(a).lte(b) ? keccak256(hexConcat([a, b])) : keccak256(hexConcat([b, a]))
+}
+
+// from the leaves up to the root, a node without a sibling is carried up as is
+function getMerkleLayers(leaves: string[]): string[][] {
+    const layers = [leaves]
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1]
+        const nextLayer: string[] = []
+        for (let i = 0; i < layer.length; i += 2) {
+            nextLayer.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i])
+        }
+        layers.push(nextLayer)
+    }
+    return layers
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], merkleRoot: string): boolean {
+    return proof.reduce((hash, node) => hashPair(hash, node), leaf).toLowerCase() === merkleRoot.toLowerCase()
+}
+
+// the rebate and the commission of an account add up to a single claim, rounded down to the decimals of the
+// settlement token; the claims are ordered by account so that the same rewards always produce the same root
+export function getMerkleDistribution(rewards: EpochRewards, decimals: number): MerkleDistribution {
+    const amounts = new Map<string, BigNumber>()
+    const add = (account: string, amount: BigNumber) => amounts.set(account, (amounts.get(account) || ZERO).add(amount))
+    rewards.traders.forEach(rebate => add(rebate.trader, rebate.rebate))
+    rewards.referrers.forEach(reward => add(reward.referrer, reward.commission))
+
+    const accounts = Array.from(amounts.keys())
+        .filter(account => !formatSettlementToken(amounts.get(account)!, decimals).isZero())
+        .sort((a, b) => (BigNumber.from(a).lt(b) ? -1 : 1))
+    const claims = accounts.map((account, index) => ({
+        index,
+        account,
+        amount: formatSettlementToken(amounts.get(account)!, decimals),
+        proof: [] as string[],
+    }))
+    const layers = getMerkleLayers(claims.map(claim => getMerkleLeaf(claim.index, claim.account, claim.amount)))
+    for (const claim of claims) {
+        let index = claim.index
+        for (const layer of layers.slice(0, -1)) {
+            const siblingIndex = index % 2 === 0 ? index + 1 : index - 1
+            if (siblingIndex < layer.length) {
+                claim.proof.push(layer[siblingIndex])
+            }
+            index = Math.floor(index / 2)
+        }
+    }
+
+    return {
+        epoch: rewards.epoch,
+        merkleRoot: claims.length > 0 ? layers[layers.length - 1][0] : constants.HashZero,
+        total: claims.reduce((total, claim) => total.add(claim.amount), ZERO),
+        claims: claims.reduce((record, claim) => ({ ...record, [claim.account]: claim }), {}),
+    }
+}
+
+export function verifyMerkleDistribution(distribution: MerkleDistribution): boolean {
+    return Object.values(distribution.claims).every(claim =>
+        verifyMerkleProof(
+            getMerkleLeaf(claim.index, claim.account, claim.amount),
+            claim.proof,
+            distribution.merkleRoot,
+        ),
+    )
+}
+
+//
+// CLI
+//
+
+// REFERRAL_CONFIG is a json file of the program and the registered codes:
+// { "startTimestamp": 1650000000, "epochDuration": 604800,
+//   "tiers": [{ "minVolume": "0", "traderRebateRatio": 50000, "referrerCommissionRatio": 100000 }],
+//   "codes": { "alice": "0x..." } }
+interface ReferralConfigFile {
+    startTimestamp: number
+    epochDuration: number
+    tiers: { minVolume: string; traderRebateRatio: number; referrerCommissionRatio: number }[]
+    codes: Record<string, string>
+}
+
+function formatMerkleDistribution(distribution: MerkleDistribution, decimals: number) {
+    return {
+        epoch: distribution.epoch,
+        merkleRoot: distribution.merkleRoot,
+        total: formatUnits(distribution.total, decimals),
+        claims: Object.values(distribution.claims).map(claim => ({
+            index: claim.index,
+            account: claim.account,
+            amount: claim.amount.toString(),
+            proof: claim.proof,
+        })),
+    }
+}
+
+async function main(): Promise<void> {
+    const epoch = Number(process.argv[2])
+    const configPath = process.env.REFERRAL_CONFIG
+    if (!Number.isInteger(epoch) || !configPath) {
+        throw new Error("usage: REFERRAL_CONFIG=<config.json> referralLedger.ts <epoch> [manifest.json]")
+    }
+    const manifestPath = process.argv[3] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const configFile = JSON.parse(fs.readFileSync(configPath, "utf8")) as ReferralConfigFile
+    const [signer] = await ethers.getSigners()
+    const ledger = await ReferralLedger.fromManifest(
+        manifest,
+        signer,
+        {
+            startTimestamp: configFile.startTimestamp,
+            epochDuration: configFile.epochDuration,
+            tiers: configFile.tiers.map(tier => ({ ...tier, minVolume: parseEther(tier.minVolume) })),
+        },
+        { fromBlock: Number(process.env.REFERRAL_FROM_BLOCK || 0) },
+    )
+    for (const code of Object.keys(configFile.codes)) {
+        ledger.registerCode(code, configFile.codes[code])
+    }
+
+    const count = await ledger.sync()
+    const rewards = ledger.getEpochRewards(epoch)
+    console.error(
+        `attributed ${count} referred trades, epoch ${epoch}: ` +
+            `${rewards.referrers.length} referrers, ${rewards.traders.length} traders, ` +
+            `volume ${formatEther(rewards.referrers.reduce((volume, reward) => volume.add(reward.volume), ZERO))}`,
+    )
+
+    const vault = (await ethers.getContractAt("Vault", manifest.contracts.Vault.proxy, signer)) as Vault
+    const decimals = await vault.decimals()
+    const distribution = getMerkleDistribution(rewards, decimals)
+    if (!verifyMerkleDistribution(distribution)) {
+        throw new Error("the Merkle distribution does not verify")
+    }
+
+    const content = JSON.stringify(formatMerkleDistribution(distribution, decimals), null, 4) + "\n"
+    const outputPath = process.env.REFERRAL_OUTPUT
+    if (outputPath) {
+        await writeFile(outputPath, content)
+        console.log(`referral distribution of epoch ${epoch} written to ${outputPath}`)
+    } else {
+        process.stdout.write(content)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,434 @@
+import { BigNumber, Signer } from "ethers"
+import { formatEther, formatUnits } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers, network } from "hardhat"
+import { AccountBalance, CollateralManager, IERC20Metadata, Vault } from "../typechain"
+import { ONE_ETHER, parseSettlementToken, RATIO_ONE } from "./accounting/math"
+import { DeploymentManifest } from "./deploy"
+import { writeFile } from "./files"
+
+// a snapshot of how close every account is to liquidation, sorted from the riskiest one:
+//   HARDHAT_NETWORK=<network> npm run risk-report -- [manifest.json] [trader...]
+// traders are discovered from Deposited events when not given;
+// RISK_REPORT_FORMAT=csv|json (default json) and RISK_REPORT_OUTPUT=<file> (default stdout)
+
+export interface RiskReportContracts {
+    accountBalance: AccountBalance
+    vault: Vault
+    collateralManager: CollateralManager
+}
+
+// all values are in 18 decimals and all ratios are in decimal 6, unless stated otherwise
+export interface MarketExposure {
+    baseToken: string
+    symbol: string
+    takerPositionSize: BigNumber
+    // taker position plus the base in the maker's orders
+    totalPositionSize: BigNumber
+    positionValue: BigNumber
+    openNotional: BigNumber
+    markPrice: BigNumber
+}
+
+export interface CollateralHolding {
+    token: string
+    symbol: string
+    // in the decimals of the token
+    balance: BigNumber
+    decimals: number
+    price: BigNumber
+    // balance * price, before applying the collateral ratio
+    value: BigNumber
+    collateralRatio: number
+    discountRatio: number
+}
+
+export interface AccountRisk {
+    trader: string
+    accountValue: BigNumber
+    freeCollateral: BigNumber
+    // settlement token balance plus pnl, negative when the account owes settlement token
+    settlementTokenValue: BigNumber
+    totalDebtValue: BigNumber
+    totalAbsPositionValue: BigNumber
+    marginRequirementForLiquidation: BigNumber
+    marginRequirementForCollateralLiquidation: BigNumber
+    // account value - margin requirement for liquidation, negative when the positions can be liquidated
+    distanceToLiquidation: BigNumber
+    // undefined when there is no position
+    distanceToLiquidationRatio?: BigNumber
+    marginRatio?: BigNumber
+    isPositionLiquidatable: boolean
+    isCollateralLiquidatable: boolean
+    markets: MarketExposure[]
+    // the settlement token goes first
+    collaterals: CollateralHolding[]
+}
+
+export interface CollateralRiskParameters {
+    collateralMmRatio: number
+    mmRatioBuffer: number
+    debtNonSettlementTokenValueRatio: number
+    liquidationRatio: number
+    debtThreshold: BigNumber
+}
+
+export interface RiskReport {
+    blockNumber: number
+    parameters: CollateralRiskParameters
+    accounts: AccountRisk[]
+}
+
+// Vault._COLLATERAL_TWAP_INTERVAL
+const COLLATERAL_TWAP_INTERVAL = 900
+
+export const CSV_HEADER = [
+    "trader",
+    "accountValue",
+    "freeCollateral",
+    "settlementTokenValue",
+    "totalDebtValue",
+    "totalAbsPositionValue",
+    "marginRequirementForLiquidation",
+    "marginRequirementForCollateralLiquidation",
+    "distanceToLiquidation",
+    "distanceToLiquidationRatio",
+    "marginRatio",
+    "isPositionLiquidatable",
+    "isCollateralLiquidatable",
+    "markets",
+    "collaterals",
+]
+
+export class RiskReporter {
+    private readonly tokens = new Map<string, IERC20Metadata>()
+
+    constructor(readonly contracts: RiskReportContracts, readonly signer: Signer) {}
+
+    static async fromManifest(manifest: DeploymentManifest, signer: Signer): Promise<RiskReporter> {
+        const contracts = manifest.contracts
+        return new RiskReporter(
+            {
+                accountBalance: (await ethers.getContractAt(
+                    "AccountBalance",
+                    contracts.AccountBalance.proxy,
+                    signer,
+                )) as AccountBalance,
+                vault: (await ethers.getContractAt("Vault", contracts.Vault.proxy, signer)) as Vault,
+                collateralManager: (await ethers.getContractAt(
+                    "CollateralManager",
+                    contracts.CollateralManager.proxy,
+                    signer,
+                )) as CollateralManager,
+            },
+            signer,
+        )
+    }
+
+    // every account that has ever deposited, in the order of their first deposit
+    async discoverTraders(fromBlock = 0, toBlock?: number): Promise<string[]> {
+        const { vault } = this.contracts
+        const events = await vault.queryFilter(vault.filters.Deposited(), fromBlock, toBlock)
+        const traders = new Set<string>()
+        for (const event of events) {
+            traders.add(event.args.trader)
+        }
+        return Array.from(traders)
+    }
+
+    async getParameters(): Promise<CollateralRiskParameters> {
+        const { vault, collateralManager } = this.contracts
+        const [collateralMmRatio, mmRatioBuffer, debtNonSettlementTokenValueRatio, liquidationRatio, debtThreshold] =
+            await Promise.all([
+                vault.getCollateralMmRatio(),
+                collateralManager.getMmRatioBuffer(),
+                collateralManager.getDebtNonSettlementTokenValueRatio(),
+                collateralManager.getLiquidationRatio(),
+                collateralManager.getDebtThreshold(),
+            ])
+        return {
+            collateralMmRatio,
+            mmRatioBuffer,
+            debtNonSettlementTokenValueRatio,
+            liquidationRatio,
+            debtThreshold: parseSettlementToken(debtThreshold, await vault.decimals()),
+        }
+    }
+
+    async getAccountRisk(trader: string): Promise<AccountRisk> {
+        const { accountBalance, vault } = this.contracts
+        const decimals = await vault.decimals()
+        const [
+            accountValueX10_S,
+            freeCollateralX10_S,
+            settlementTokenValueX10_S,
+            totalDebtValue,
+            totalAbsPositionValue,
+            marginRequirementForLiquidation,
+            marginRequirementForCollateralLiquidation,
+            isCollateralLiquidatable,
+        ] = await Promise.all([
+            vault.getAccountValue(trader),
+            vault.getFreeCollateral(trader),
+            vault.getSettlementTokenValue(trader),
+            accountBalance.getTotalDebtValue(trader),
+            accountBalance.getTotalAbsPositionValue(trader),
+            accountBalance.getMarginRequirementForLiquidation(trader),
+            vault.getMarginRequirementForCollateralLiquidation(trader),
+            vault.isLiquidatable(trader),
+        ])
+
+        // the same as ClearingHouse.getAccountValue()
+        const accountValue = parseSettlementToken(accountValueX10_S, decimals)
+        const distanceToLiquidation = accountValue.sub(marginRequirementForLiquidation)
+        const hasPosition = !totalAbsPositionValue.isZero()
+        return {
+            trader,
+            accountValue,
+            freeCollateral: parseSettlementToken(freeCollateralX10_S, decimals),
+            settlementTokenValue: parseSettlementToken(settlementTokenValueX10_S, decimals),
+            totalDebtValue,
+            totalAbsPositionValue,
+            marginRequirementForLiquidation,
+            marginRequirementForCollateralLiquidation,
+            distanceToLiquidation,
+            distanceToLiquidationRatio: hasPosition
+                ? distanceToLiquidation.mul(RATIO_ONE).div(totalAbsPositionValue)
+                : undefined,
+            marginRatio: hasPosition ? accountValue.mul(RATIO_ONE).div(totalAbsPositionValue) : undefined,
+            // the same as ClearingHouse._isLiquidatable()
+            isPositionLiquidatable: accountValue.lt(marginRequirementForLiquidation),
+            isCollateralLiquidatable,
+            markets: await this.getMarketExposures(trader),
+            collaterals: await this.getCollateralHoldings(trader),
+        }
+    }
+
+    // accounts with positions are sorted by the distance to liquidation relative to their position value,
+    // followed by the ones without positions in the given order
+    async generate(traders: string[]): Promise<RiskReport> {
+        const accounts: AccountRisk[] = []
+        for (const trader of traders) {
+            accounts.push(await this.getAccountRisk(trader))
+        }
+        return {
+            blockNumber: await this.signer.provider!.getBlockNumber(),
+            parameters: await this.getParameters(),
+            accounts: sortByDistanceToLiquidation(accounts),
+        }
+    }
+
+    private async getMarketExposures(trader: string): Promise<MarketExposure[]> {
+        const { accountBalance } = this.contracts
+        const exposures: MarketExposure[] = []
+        for (const baseToken of await accountBalance.getBaseTokens(trader)) {
+            const [takerPositionSize, totalPositionSize, positionValue, openNotional, markPrice] = await Promise.all([
+                accountBalance.getTakerPositionSize(trader, baseToken),
+                accountBalance.getTotalPositionSize(trader, baseToken),
+                accountBalance.getTotalPositionValue(trader, baseToken),
+                accountBalance.getTotalOpenNotional(trader, baseToken),
+                accountBalance.getMarkPrice(baseToken),
+            ])
+            exposures.push({
+                baseToken,
+                symbol: await (await this.getToken(baseToken)).symbol(),
+                takerPositionSize,
+                totalPositionSize,
+                positionValue,
+                openNotional,
+                markPrice,
+            })
+        }
+        return exposures
+    }
+
+    private async getCollateralHoldings(trader: string): Promise<CollateralHolding[]> {
+        const { vault, collateralManager } = this.contracts
+        const settlementToken = await vault.getSettlementToken()
+        const settlementDecimals = await vault.decimals()
+        const settlementBalance = await vault.getBalanceByToken(trader, settlementToken)
+        const holdings: CollateralHolding[] = [
+            {
+                token: settlementToken,
+                symbol: await (await this.getToken(settlementToken)).symbol(),
+                balance: settlementBalance,
+                decimals: settlementDecimals,
+                price: ONE_ETHER,
+                value: parseSettlementToken(settlementBalance, settlementDecimals),
+                collateralRatio: RATIO_ONE,
+                discountRatio: 0,
+            },
+        ]
+
+        for (const token of await vault.getCollateralTokens(trader)) {
+            const tokenContract = await this.getToken(token)
+            const [balance, decimals, symbol, price, priceFeedDecimals, config] = await Promise.all([
+                vault.getBalanceByToken(trader, token),
+                tokenContract.decimals(),
+                tokenContract.symbol(),
+                collateralManager.getPrice(token, COLLATERAL_TWAP_INTERVAL),
+                collateralManager.getPriceFeedDecimals(token),
+                collateralManager.getCollateralConfig(token),
+            ])
+            const priceX10_18 = price.mul(BigNumber.from(10).pow(18 - priceFeedDecimals))
+            holdings.push({
+                token,
+                symbol,
+                balance,
+                decimals,
+                price: priceX10_18,
+                // the same as Vault._getSettlementByCollateral() in 18 decimals
+                value: balance
+                    .mul(BigNumber.from(10).pow(18 - decimals))
+                    .mul(price)
+                    .div(BigNumber.from(10).pow(priceFeedDecimals)),
+                collateralRatio: config.collateralRatio,
+                discountRatio: config.discountRatio,
+            })
+        }
+        return holdings
+    }
+
+    private async getToken(address: string): Promise<IERC20Metadata> {
+        let token = this.tokens.get(address)
+        if (!token) {
+            token = (await ethers.getContractAt("IERC20Metadata", address, this.signer)) as IERC20Metadata
+            this.tokens.set(address, token)
+        }
+        return token
+    }
+}
+
+export function sortByDistanceToLiquidation(accounts: AccountRisk[]): AccountRisk[] {
+    const withPosition = accounts.filter(account => account.distanceToLiquidationRatio !== undefined)
+    const withoutPosition = accounts.filter(account => account.distanceToLiquidationRatio === undefined)
+    withPosition.sort((a, b) => {
+        const diff = a.distanceToLiquidationRatio!.sub(b.distanceToLiquidationRatio!)
+        return diff.isZero() ? 0 : diff.isNegative() ? -1 : 1
+    })
+    return [...withPosition, ...withoutPosition]
+}
+
+function formatRatio(ratio: BigNumber | number | undefined): string {
+    return ratio === undefined ? "" : formatUnits(ratio, 6)
+}
+
+// human readable values, e.g. "1.5" for 1.5 ether and "0.1" for 100000 in decimal 6
+export function formatRiskReport(report: RiskReport): object {
+    const { parameters } = report
+    return {
+        blockNumber: report.blockNumber,
+        parameters: {
+            collateralMmRatio: formatRatio(parameters.collateralMmRatio),
+            mmRatioBuffer: formatRatio(parameters.mmRatioBuffer),
+            debtNonSettlementTokenValueRatio: formatRatio(parameters.debtNonSettlementTokenValueRatio),
+            liquidationRatio: formatRatio(parameters.liquidationRatio),
+            debtThreshold: formatEther(parameters.debtThreshold),
+        },
+        accounts: report.accounts.map(account => ({
+            trader: account.trader,
+            accountValue: formatEther(account.accountValue),
+            freeCollateral: formatEther(account.freeCollateral),
+            settlementTokenValue: formatEther(account.settlementTokenValue),
+            totalDebtValue: formatEther(account.totalDebtValue),
+            totalAbsPositionValue: formatEther(account.totalAbsPositionValue),
+            marginRequirementForLiquidation: formatEther(account.marginRequirementForLiquidation),
+            marginRequirementForCollateralLiquidation: formatEther(account.marginRequirementForCollateralLiquidation),
+            distanceToLiquidation: formatEther(account.distanceToLiquidation),
+            distanceToLiquidationRatio: formatRatio(account.distanceToLiquidationRatio),
+            marginRatio: formatRatio(account.marginRatio),
+            isPositionLiquidatable: account.isPositionLiquidatable,
+            isCollateralLiquidatable: account.isCollateralLiquidatable,
+            markets: account.markets.map(market => ({
+                baseToken: market.baseToken,
+                symbol: market.symbol,
+                takerPositionSize: formatEther(market.takerPositionSize),
+                totalPositionSize: formatEther(market.totalPositionSize),
+                positionValue: formatEther(market.positionValue),
+                openNotional: formatEther(market.openNotional),
+                markPrice: formatEther(market.markPrice),
+            })),
+            collaterals: account.collaterals.map(collateral => ({
+                token: collateral.token,
+                symbol: collateral.symbol,
+                balance: formatUnits(collateral.balance, collateral.decimals),
+                price: formatEther(collateral.price),
+                value: formatEther(collateral.value),
+                collateralRatio: formatRatio(collateral.collateralRatio),
+                discountRatio: formatRatio(collateral.discountRatio),
+            })),
+        })),
+    }
+}
+
+// one row per account; markets are "<symbol>:<position size>:<position value>" and
+// collaterals are "<symbol>:<balance>:<value>", both separated by spaces
+export function toCsv(report: RiskReport): string {
+    const rows = report.accounts.map(account =>
+        [
+            account.trader,
+            formatEther(account.accountValue),
+            formatEther(account.freeCollateral),
+            formatEther(account.settlementTokenValue),
+            formatEther(account.totalDebtValue),
+            formatEther(account.totalAbsPositionValue),
+            formatEther(account.marginRequirementForLiquidation),
+            formatEther(account.marginRequirementForCollateralLiquidation),
+            formatEther(account.distanceToLiquidation),
+            formatRatio(account.distanceToLiquidationRatio),
+            formatRatio(account.marginRatio),
+            String(account.isPositionLiquidatable),
+            String(account.isCollateralLiquidatable),
+            account.markets
+                .map(
+                    market =>
+                        `${market.symbol}:${formatEther(market.totalPositionSize)}:${formatEther(
+                            market.positionValue,
+                        )}`,
+                )
+                .join(" "),
+            account.collaterals
+                .map(
+                    collateral =>
+                        `${collateral.symbol}:${formatUnits(collateral.balance, collateral.decimals)}:${formatEther(
+                            collateral.value,
+                        )}`,
+                )
+                .join(" "),
+        ].join(","),
+    )
+    return [CSV_HEADER.join(","), ...rows].join("\n") + "\n"
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    const format = process.env.RISK_REPORT_FORMAT || "json"
+    if (format !== "json" && format !== "csv") {
+        throw new Error(`unknown RISK_REPORT_FORMAT ${format}, expected json or csv`)
+    }
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as DeploymentManifest
+    const [signer] = await ethers.getSigners()
+    const reporter = await RiskReporter.fromManifest(manifest, signer)
+
+    const givenTraders = process.argv.slice(3)
+    const traders = givenTraders.length > 0 ? givenTraders : await reporter.discoverTraders()
+    const report = await reporter.generate(traders)
+    const content = format === "csv" ? toCsv(report) : JSON.stringify(formatRiskReport(report), null, 4) + "\n"
+
+    const outputPath = process.env.RISK_REPORT_OUTPUT
+    if (outputPath) {
+        await writeFile(outputPath, content)
+        console.log(`risk report of ${report.accounts.length} accounts written to ${outputPath}`)
+    } else {
+        process.stdout.write(content)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
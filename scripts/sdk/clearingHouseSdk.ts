@@ -0,0 +1,448 @@
+import { BigNumber, BigNumberish, constants, ContractReceipt, Signer } from "ethers"
+import {
+    AccountBalance,
+    AccountBalance__factory,
+    ClearingHouse,
+    ClearingHouse__factory,
+    Exchange,
+    Exchange__factory,
+    MarketRegistry,
+    MarketRegistry__factory,
+} from "../../typechain"
+import { abs, mulDiv, mulDivRoundingUp, mulRatio, ONE_ETHER, RATIO_ONE, ZERO } from "../accounting/math"
+import { DeploymentManifest } from "../deploy"
+import { CROSS_MARGIN_ACCOUNT_ID, getReversePosition, getSubAccount, isSubAccountId } from "./subAccount"
+
+// a thin layer over ClearingHouse that quotes every action by static-calling it with the trader as the sender,
+// then derives the slippage bounds from a tolerance so that callers never have to hard-code
+// oppositeAmountBound or minBase/minQuote to 0
+//
+// slippage tolerances are ratios in decimal 6, e.g. 5000 = 0.5%
+//
+// given a subAccountId, the sdk trades for that isolated sub-account of the signer through openPositionFor(),
+// see ./subAccount.ts; sub-accounts are taker-only, so providing liquidity throws
+
+export interface ClearingHouseSdkContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    exchange: Exchange
+    marketRegistry: MarketRegistry
+}
+
+export interface OpenPositionRequest {
+    baseToken: string
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumberish
+    sqrtPriceLimitX96?: BigNumberish
+    deadline?: BigNumberish
+    referralCode?: string
+}
+
+export interface ClosePositionRequest {
+    baseToken: string
+    sqrtPriceLimitX96?: BigNumberish
+    deadline?: BigNumberish
+    referralCode?: string
+}
+
+export interface AddLiquidityRequest {
+    baseToken: string
+    base: BigNumberish
+    quote: BigNumberish
+    lowerTick: number
+    upperTick: number
+    deadline?: BigNumberish
+}
+
+export interface RemoveLiquidityRequest {
+    baseToken: string
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumberish
+    deadline?: BigNumberish
+}
+
+export interface TradeQuote {
+    // the amounts returned by openPosition() & closePosition(), quote includes the fee
+    base: BigNumber
+    quote: BigNumber
+    // signed as in PositionChanged
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    // estimated by the fee ratio of the trader; the contract rounds up the fee of every tick step,
+    // so the actual fee can be larger by a few wei
+    fee: BigNumber
+    realizedPnl: BigNumber
+    // margin ratio after the trade in decimal 6 valued at the current mark price, undefined without positions
+    marginRatio?: BigNumber
+    // the bound derived from the slippage tolerance
+    oppositeAmountBound: BigNumber
+}
+
+export interface TradeResult {
+    txHash: string
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    fee: BigNumber
+    realizedPnl: BigNumber
+    openNotional: BigNumber
+    // funding payment settled before the trade, positive when paid by the trader
+    fundingPayment: BigNumber
+    // margin ratio after the trade in decimal 6, undefined without positions
+    marginRatio?: BigNumber
+}
+
+export interface LiquidityQuote {
+    base: BigNumber
+    quote: BigNumber
+    // the maker fee collected by the action
+    fee: BigNumber
+    // only for adding liquidity
+    liquidity?: BigNumber
+    minBase: BigNumber
+    minQuote: BigNumber
+}
+
+export interface LiquidityResult {
+    txHash: string
+    // signed as in LiquidityChanged, negative when removing
+    base: BigNumber
+    quote: BigNumber
+    liquidity: BigNumber
+    fee: BigNumber
+}
+
+// the bound of the opposite amount of a swap, see IClearingHouse.OpenPositionParams.oppositeAmountBound
+export function getOppositeAmountBound(
+    isBaseToQuote: boolean,
+    isExactInput: boolean,
+    base: BigNumber,
+    quote: BigNumber,
+    slippageRatio: number,
+): BigNumber {
+    const oppositeAmount = isBaseToQuote === isExactInput ? quote : base
+    // exact input: the lower bound of the output; exact output: the upper bound of the input
+    return isExactInput
+        ? getMinAmount(oppositeAmount, slippageRatio)
+        : mulDivRoundingUp(oppositeAmount, RATIO_ONE + slippageRatio, RATIO_ONE)
+}
+
+export function getMinAmount(amount: BigNumber, slippageRatio: number): BigNumber {
+    return mulRatio(amount, RATIO_ONE - slippageRatio)
+}
+
+function requireSlippageRatio(slippageRatio: number): void {
+    if (!Number.isInteger(slippageRatio) || slippageRatio < 0 || slippageRatio >= RATIO_ONE) {
+        throw new Error(`slippageRatio should be an integer in [0, ${RATIO_ONE}), got ${slippageRatio}`)
+    }
+}
+
+export class ClearingHouseSdk {
+    constructor(
+        readonly contracts: ClearingHouseSdkContracts,
+        readonly signer: Signer,
+        readonly subAccountId: BigNumberish = CROSS_MARGIN_ACCOUNT_ID,
+    ) {}
+
+    // builds the contracts by the typechain factories instead of the hardhat runtime, so that the sdk can be used
+    // by any service with an ethers signer connected to a provider
+    static fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        subAccountId: BigNumberish = CROSS_MARGIN_ACCOUNT_ID,
+    ): ClearingHouseSdk {
+        const contracts = manifest.contracts
+        return new ClearingHouseSdk(
+            {
+                clearingHouse: ClearingHouse__factory.connect(contracts.ClearingHouse.proxy, signer),
+                accountBalance: AccountBalance__factory.connect(contracts.AccountBalance.proxy, signer),
+                exchange: Exchange__factory.connect(contracts.Exchange.proxy, signer),
+                marketRegistry: MarketRegistry__factory.connect(contracts.MarketRegistry.proxy, signer),
+            },
+            signer,
+            subAccountId,
+        )
+    }
+
+    async quoteOpenPosition(request: OpenPositionRequest, slippageRatio: number): Promise<TradeQuote> {
+        requireSlippageRatio(slippageRatio)
+        const clearingHouse = this.contracts.clearingHouse.connect(this.signer)
+        const params = { ...this.getOpenPositionParams(request), oppositeAmountBound: 0 }
+        const [base, quote] = isSubAccountId(this.subAccountId)
+            ? await clearingHouse.callStatic.openPositionFor(await this.getTrader(), params)
+            : await clearingHouse.callStatic.openPosition(params)
+        return this.getTradeQuote(
+            request.baseToken,
+            request.isBaseToQuote,
+            request.isExactInput,
+            base,
+            quote,
+            slippageRatio,
+        )
+    }
+
+    async openPosition(request: OpenPositionRequest, slippageRatio: number): Promise<TradeResult> {
+        const clearingHouse = this.contracts.clearingHouse.connect(this.signer)
+        const { oppositeAmountBound } = await this.quoteOpenPosition(request, slippageRatio)
+        const params = { ...this.getOpenPositionParams(request), oppositeAmountBound }
+        const tx = isSubAccountId(this.subAccountId)
+            ? await clearingHouse.openPositionFor(await this.getTrader(), params)
+            : await clearingHouse.openPosition(params)
+        return this.getTradeResult(request.baseToken, await tx.wait())
+    }
+
+    async quoteClosePosition(request: ClosePositionRequest, slippageRatio: number): Promise<TradeQuote> {
+        requireSlippageRatio(slippageRatio)
+        const { clearingHouse, accountBalance } = this.contracts
+        const positionSize = await accountBalance.getTakerPositionSize(await this.getTrader(), request.baseToken)
+        if (isSubAccountId(this.subAccountId)) {
+            return this.quoteOpenPosition(this.getReversePositionRequest(request, positionSize), slippageRatio)
+        }
+        const [base, quote] = await clearingHouse.connect(this.signer).callStatic.closePosition({
+            ...this.getClosePositionParams(request),
+            oppositeAmountBound: 0,
+        })
+        // closing a long is selling the exact base, closing a short is buying the exact base back
+        const isBaseToQuote = positionSize.gt(0)
+        return this.getTradeQuote(request.baseToken, isBaseToQuote, isBaseToQuote, base, quote, slippageRatio)
+    }
+
+    async closePosition(request: ClosePositionRequest, slippageRatio: number): Promise<TradeResult> {
+        const { clearingHouse, accountBalance } = this.contracts
+        if (isSubAccountId(this.subAccountId)) {
+            const positionSize = await accountBalance.getTakerPositionSize(await this.getTrader(), request.baseToken)
+            return this.openPosition(this.getReversePositionRequest(request, positionSize), slippageRatio)
+        }
+        const { oppositeAmountBound } = await this.quoteClosePosition(request, slippageRatio)
+        const tx = await clearingHouse.connect(this.signer).closePosition({
+            ...this.getClosePositionParams(request),
+            oppositeAmountBound,
+        })
+        return this.getTradeResult(request.baseToken, await tx.wait())
+    }
+
+    async quoteAddLiquidity(request: AddLiquidityRequest, slippageRatio: number): Promise<LiquidityQuote> {
+        requireSlippageRatio(slippageRatio)
+        this.requireCrossMarginAccount()
+        const response = await this.contracts.clearingHouse
+            .connect(this.signer)
+            .callStatic.addLiquidity(this.getAddLiquidityParams(request, ZERO, ZERO))
+        return {
+            base: response.base,
+            quote: response.quote,
+            fee: response.fee,
+            liquidity: response.liquidity,
+            minBase: getMinAmount(response.base, slippageRatio),
+            minQuote: getMinAmount(response.quote, slippageRatio),
+        }
+    }
+
+    async addLiquidity(request: AddLiquidityRequest, slippageRatio: number): Promise<LiquidityResult> {
+        const { minBase, minQuote } = await this.quoteAddLiquidity(request, slippageRatio)
+        const tx = await this.contracts.clearingHouse
+            .connect(this.signer)
+            .addLiquidity(this.getAddLiquidityParams(request, minBase, minQuote))
+        return this.getLiquidityResult(await tx.wait())
+    }
+
+    async quoteRemoveLiquidity(request: RemoveLiquidityRequest, slippageRatio: number): Promise<LiquidityQuote> {
+        requireSlippageRatio(slippageRatio)
+        this.requireCrossMarginAccount()
+        const response = await this.contracts.clearingHouse
+            .connect(this.signer)
+            .callStatic.removeLiquidity(this.getRemoveLiquidityParams(request, ZERO, ZERO))
+        return {
+            base: response.base,
+            quote: response.quote,
+            fee: response.fee,
+            minBase: getMinAmount(response.base, slippageRatio),
+            minQuote: getMinAmount(response.quote, slippageRatio),
+        }
+    }
+
+    async removeLiquidity(request: RemoveLiquidityRequest, slippageRatio: number): Promise<LiquidityResult> {
+        const { minBase, minQuote } = await this.quoteRemoveLiquidity(request, slippageRatio)
+        const tx = await this.contracts.clearingHouse
+            .connect(this.signer)
+            .removeLiquidity(this.getRemoveLiquidityParams(request, minBase, minQuote))
+        return this.getLiquidityResult(await tx.wait())
+    }
+
+    // account value / total abs position value in decimal 6, undefined when there is no position
+    async getMarginRatio(): Promise<BigNumber | undefined> {
+        const trader = await this.getTrader()
+        const [accountValue, totalAbsPositionValue] = await Promise.all([
+            this.contracts.clearingHouse.getAccountValue(trader),
+            this.contracts.accountBalance.getTotalAbsPositionValue(trader),
+        ])
+        return totalAbsPositionValue.isZero() ? undefined : accountValue.mul(RATIO_ONE).div(totalAbsPositionValue)
+    }
+
+    private async getTradeQuote(
+        baseToken: string,
+        isBaseToQuote: boolean,
+        isExactInput: boolean,
+        base: BigNumber,
+        quote: BigNumber,
+        slippageRatio: number,
+    ): Promise<TradeQuote> {
+        const { clearingHouse, accountBalance, exchange, marketRegistry } = this.contracts
+        const trader = await this.getTrader()
+        const { exchangeFeeRatio } = await marketRegistry.getMarketInfoByTrader(trader, baseToken)
+
+        // the returned quote is exchangedPositionNotional - fee, the fee is charged in quote:
+        // long: fee = quote * feeRatio as the quote paid includes the fee
+        // short: fee = exchangedPositionNotional * feeRatio as the quote received excludes the fee
+        const exchangedPositionSize = isBaseToQuote ? base.mul(-1) : base
+        const signedQuote = isBaseToQuote ? quote : quote.mul(-1)
+        const fee = isBaseToQuote
+            ? mulDivRoundingUp(quote, exchangeFeeRatio, RATIO_ONE - exchangeFeeRatio)
+            : mulDivRoundingUp(quote, exchangeFeeRatio, RATIO_ONE)
+        const realizedPnl = await exchange.getPnlToBeRealized({
+            trader,
+            baseToken,
+            base: exchangedPositionSize,
+            quote: signedQuote,
+        })
+
+        // the account value changes by the value of the exchanged position plus the quote paid or received,
+        // no matter how much of it is realized
+        const [accountValue, totalAbsPositionValue, positionSize, positionValue, markPrice] = await Promise.all([
+            clearingHouse.getAccountValue(trader),
+            accountBalance.getTotalAbsPositionValue(trader),
+            accountBalance.getTotalPositionSize(trader, baseToken),
+            accountBalance.getTotalPositionValue(trader, baseToken),
+            accountBalance.getMarkPrice(baseToken),
+        ])
+        const accountValueAfter = accountValue.add(mulDiv(exchangedPositionSize, markPrice, ONE_ETHER)).add(signedQuote)
+        const totalAbsPositionValueAfter = totalAbsPositionValue
+            .sub(abs(positionValue))
+            .add(abs(mulDiv(positionSize.add(exchangedPositionSize), markPrice, ONE_ETHER)))
+
+        return {
+            base,
+            quote,
+            exchangedPositionSize,
+            exchangedPositionNotional: signedQuote.add(fee),
+            fee,
+            realizedPnl,
+            marginRatio: totalAbsPositionValueAfter.isZero()
+                ? undefined
+                : accountValueAfter.mul(RATIO_ONE).div(totalAbsPositionValueAfter),
+            oppositeAmountBound: getOppositeAmountBound(isBaseToQuote, isExactInput, base, quote, slippageRatio),
+        }
+    }
+
+    private async getTradeResult(baseToken: string, receipt: ContractReceipt): Promise<TradeResult> {
+        const { clearingHouse } = this.contracts
+        const trader = await this.getTrader()
+        let fundingPayment = ZERO
+        for (const log of receipt.logs) {
+            if (log.address !== clearingHouse.address) {
+                continue
+            }
+            const event = clearingHouse.interface.parseLog(log)
+            if (event.args.trader !== trader || event.args.baseToken !== baseToken) {
+                continue
+            }
+            if (event.name === "FundingPaymentSettled") {
+                fundingPayment = event.args.fundingPayment
+            } else if (event.name === "PositionChanged") {
+                return {
+                    txHash: receipt.transactionHash,
+                    exchangedPositionSize: event.args.exchangedPositionSize,
+                    exchangedPositionNotional: event.args.exchangedPositionNotional,
+                    fee: event.args.fee,
+                    realizedPnl: event.args.realizedPnl,
+                    openNotional: event.args.openNotional,
+                    fundingPayment,
+                    marginRatio: await this.getMarginRatio(),
+                }
+            }
+        }
+        throw new Error(`PositionChanged not found in ${receipt.transactionHash}`)
+    }
+
+    private getLiquidityResult(receipt: ContractReceipt): LiquidityResult {
+        const { clearingHouse } = this.contracts
+        const topic = clearingHouse.interface.getEventTopic("LiquidityChanged")
+        const log = receipt.logs.find(log => log.address === clearingHouse.address && log.topics[0] === topic)
+        if (!log) {
+            throw new Error(`LiquidityChanged not found in ${receipt.transactionHash}`)
+        }
+        const event = clearingHouse.interface.parseLog(log)
+        return {
+            txHash: receipt.transactionHash,
+            base: event.args.base,
+            quote: event.args.quote,
+            liquidity: event.args.liquidity,
+            fee: event.args.quoteFee,
+        }
+    }
+
+    // the sub-account when a subAccountId is given, otherwise the signer
+    async getTrader(): Promise<string> {
+        return getSubAccount(await this.signer.getAddress(), this.subAccountId)
+    }
+
+    private requireCrossMarginAccount(): void {
+        if (isSubAccountId(this.subAccountId)) {
+            throw new Error(`sub-account ${this.subAccountId.toString()} is taker-only and can't provide liquidity`)
+        }
+    }
+
+    private getReversePositionRequest(request: ClosePositionRequest, positionSize: BigNumber): OpenPositionRequest {
+        if (positionSize.isZero()) {
+            throw new Error(`no position of ${request.baseToken} to close`)
+        }
+        return { ...request, ...getReversePosition(positionSize) }
+    }
+
+    private getOpenPositionParams(request: OpenPositionRequest) {
+        return {
+            baseToken: request.baseToken,
+            isBaseToQuote: request.isBaseToQuote,
+            isExactInput: request.isExactInput,
+            amount: request.amount,
+            sqrtPriceLimitX96: request.sqrtPriceLimitX96 ?? 0,
+            deadline: request.deadline ?? constants.MaxUint256,
+            referralCode: request.referralCode ?? constants.HashZero,
+        }
+    }
+
+    private getClosePositionParams(request: ClosePositionRequest) {
+        return {
+            baseToken: request.baseToken,
+            sqrtPriceLimitX96: request.sqrtPriceLimitX96 ?? 0,
+            deadline: request.deadline ?? constants.MaxUint256,
+            referralCode: request.referralCode ?? constants.HashZero,
+        }
+    }
+
+    private getAddLiquidityParams(request: AddLiquidityRequest, minBase: BigNumber, minQuote: BigNumber) {
+        return {
+            baseToken: request.baseToken,
+            base: request.base,
+            quote: request.quote,
+            lowerTick: request.lowerTick,
+            upperTick: request.upperTick,
+            minBase,
+            minQuote,
+            useTakerBalance: false,
+            deadline: request.deadline ?? constants.MaxUint256,
+        }
+    }
+
+    private getRemoveLiquidityParams(request: RemoveLiquidityRequest, minBase: BigNumber, minQuote: BigNumber) {
+        return {
+            baseToken: request.baseToken,
+            lowerTick: request.lowerTick,
+            upperTick: request.upperTick,
+            liquidity: request.liquidity,
+            minBase,
+            minQuote,
+            deadline: request.deadline ?? constants.MaxUint256,
+        }
+    }
+}
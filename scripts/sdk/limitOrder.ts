@@ -0,0 +1,180 @@
+import { TypedDataDomain, TypedDataSigner } from "@ethersproject/abstract-signer"
+import { BigNumber, BigNumberish, constants, ContractReceipt } from "ethers"
+import { _TypedDataEncoder } from "ethers/lib/utils"
+import { ethers } from "hardhat"
+import { IIndexPrice, LimitOrderBook } from "../../typechain"
+import { mulDiv, mulDivRoundingUp } from "../accounting/math"
+
+// signing & matching helpers of LimitOrderBook: traders sign orders off-chain with EIP-712, while keepers collect
+// the signed orders, pick the ones that can be filled right now and fill them through
+// ClearingHouse.openPositionFor(), which requires the trader to approve LimitOrderBook in DelegateApproval first
+
+export const LIMIT_ORDER_DOMAIN_NAME = "PerpCurieLimitOrder"
+export const LIMIT_ORDER_DOMAIN_VERSION = "1"
+
+// has to be in the same order as the members of ILimitOrderBook.LimitOrder
+export const LIMIT_ORDER_TYPES = {
+    LimitOrder: [
+        { name: "orderType", type: "uint8" },
+        { name: "salt", type: "uint256" },
+        { name: "trader", type: "address" },
+        { name: "baseToken", type: "address" },
+        { name: "isBaseToQuote", type: "bool" },
+        { name: "isExactInput", type: "bool" },
+        { name: "amount", type: "uint256" },
+        { name: "oppositeAmountBound", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "triggerPrice", type: "uint256" },
+        { name: "reduceOnly", type: "bool" },
+        { name: "referralCode", type: "bytes32" },
+    ],
+}
+
+// the same as ILimitOrderBook.OrderType
+export enum OrderType {
+    Limit = 0,
+    StopLoss = 1,
+    TakeProfit = 2,
+}
+
+export interface LimitOrder {
+    orderType: OrderType
+    salt: BigNumberish
+    trader: string
+    baseToken: string
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumberish
+    oppositeAmountBound: BigNumberish
+    deadline: BigNumberish
+    // index price in 18 decimals, 0 for limit orders
+    triggerPrice: BigNumberish
+    reduceOnly: boolean
+    referralCode: string
+}
+
+export interface SignedLimitOrder {
+    order: LimitOrder
+    signature: string
+}
+
+export interface LimitOrderMatch extends SignedLimitOrder {
+    orderHash: string
+    fillAmount: BigNumber
+}
+
+export type LimitOrderParams = Omit<LimitOrder, "salt" | "deadline" | "triggerPrice" | "reduceOnly" | "referralCode"> &
+    Partial<Pick<LimitOrder, "salt" | "deadline" | "triggerPrice" | "reduceOnly" | "referralCode">>
+
+// fills in the optional members: a random salt, no expiry, no trigger price, not reduce only and no referral code
+export function createLimitOrder(params: LimitOrderParams): LimitOrder {
+    return {
+        salt: BigNumber.from(ethers.utils.randomBytes(32)),
+        deadline: constants.MaxUint256,
+        triggerPrice: 0,
+        reduceOnly: false,
+        referralCode: constants.HashZero,
+        ...params,
+    }
+}
+
+export function getLimitOrderDomain(limitOrderBook: string, chainId: number): TypedDataDomain {
+    return {
+        name: LIMIT_ORDER_DOMAIN_NAME,
+        version: LIMIT_ORDER_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: limitOrderBook,
+    }
+}
+
+// the same as LimitOrderBook.getOrderHash()
+export function getLimitOrderHash(domain: TypedDataDomain, order: LimitOrder): string {
+    return _TypedDataEncoder.hash(domain, LIMIT_ORDER_TYPES, order)
+}
+
+export async function signLimitOrder(
+    signer: TypedDataSigner,
+    domain: TypedDataDomain,
+    order: LimitOrder,
+): Promise<SignedLimitOrder> {
+    return { order, signature: await signer._signTypedData(domain, LIMIT_ORDER_TYPES, order) }
+}
+
+// the same as LimitOrderBook._isTriggered(), except that an invalid trigger price is never triggered instead of
+// reverting
+export function isLimitOrderTriggered(order: LimitOrder, indexPrice: BigNumberish): boolean {
+    const triggerPrice = BigNumber.from(order.triggerPrice)
+    if (order.orderType === OrderType.Limit) {
+        return triggerPrice.isZero()
+    }
+    if (triggerPrice.isZero()) {
+        return false
+    }
+    // a stop loss sell (closing a long) and a take profit buy (closing a short) are triggered when the price drops
+    const isTriggeredByPriceDrop = (order.orderType === OrderType.StopLoss) === order.isBaseToQuote
+    return isTriggeredByPriceDrop ? triggerPrice.gte(indexPrice) : triggerPrice.lte(indexPrice)
+}
+
+// the opposite amount bound of a partial fill, which keeps the limit price of the whole order
+export function getFillOppositeAmountBound(order: LimitOrder, fillAmount: BigNumberish): BigNumber {
+    return order.isExactInput
+        ? mulDivRoundingUp(order.oppositeAmountBound, fillAmount, order.amount)
+        : mulDiv(order.oppositeAmountBound, fillAmount, order.amount)
+}
+
+export class LimitOrderKeeper {
+    constructor(readonly limitOrderBook: LimitOrderBook, readonly domain: TypedDataDomain) {}
+
+    static async create(limitOrderBook: LimitOrderBook): Promise<LimitOrderKeeper> {
+        const { chainId } = await limitOrderBook.provider.getNetwork()
+        return new LimitOrderKeeper(limitOrderBook, getLimitOrderDomain(limitOrderBook.address, chainId))
+    }
+
+    async getRemainingAmount(order: LimitOrder): Promise<BigNumber> {
+        const orderHash = getLimitOrderHash(this.domain, order)
+        if (await this.limitOrderBook.isCancelled(orderHash)) {
+            return BigNumber.from(0)
+        }
+        return BigNumber.from(order.amount).sub(await this.limitOrderBook.getFilledAmount(orderHash))
+    }
+
+    // returns the orders which can be filled in the current block with their remaining amounts, in the given order;
+    // orders are first filtered off-chain by expiry and trigger price, then fillLimitOrder() is static-called to
+    // rule out the ones failing the limit price, the approval of the trader or the margin requirement
+    async match(signedOrders: SignedLimitOrder[]): Promise<LimitOrderMatch[]> {
+        const { timestamp } = await this.limitOrderBook.provider.getBlock("latest")
+        const indexPriceMap: Record<string, BigNumber> = {}
+        const matches: LimitOrderMatch[] = []
+
+        for (const { order, signature } of signedOrders) {
+            if (BigNumber.from(order.deadline).lt(timestamp)) {
+                continue
+            }
+            const fillAmount = await this.getRemainingAmount(order)
+            if (fillAmount.lte(0)) {
+                continue
+            }
+            if (!indexPriceMap[order.baseToken]) {
+                const baseToken = (await ethers.getContractAt("IIndexPrice", order.baseToken)) as IIndexPrice
+                indexPriceMap[order.baseToken] = await baseToken.getIndexPrice(0)
+            }
+            if (!isLimitOrderTriggered(order, indexPriceMap[order.baseToken])) {
+                continue
+            }
+
+            try {
+                await this.limitOrderBook.callStatic.fillLimitOrder(order, signature, fillAmount)
+            } catch {
+                // not fillable for now, e.g. the price is worse than the limit price
+                continue
+            }
+            matches.push({ order, signature, orderHash: getLimitOrderHash(this.domain, order), fillAmount })
+        }
+        return matches
+    }
+
+    async fill(match: LimitOrderMatch): Promise<ContractReceipt> {
+        const tx = await this.limitOrderBook.fillLimitOrder(match.order, match.signature, match.fillAmount)
+        return tx.wait()
+    }
+}
@@ -0,0 +1,100 @@
+import { BytesLike, ContractReceipt, Overrides, Signer } from "ethers"
+import { Interface, Result } from "ethers/lib/utils"
+import { ClearingHouse } from "../../typechain"
+
+// builds a batch of ClearingHouse calls for ClearingHouse.multicall(), e.g. removing liquidity, closing position and
+// re-adding liquidity at a new range in a single transaction
+//
+// every call is executed as if it's sent by the signer of the multicall, and the free collateral of the signer is
+// checked only once after all calls; so a call may leave the signer below the initial margin requirement as long
+// as the following calls bring it back, while the multicall reverts with the reason of the first failed call;
+// a batch of only removing liquidity and reducing positions requires no more than sending them one by one
+
+type ClearingHouseFunctions = ClearingHouse["functions"]
+
+export type AddLiquidityParams = Parameters<ClearingHouseFunctions["addLiquidity"]>[0]
+export type RemoveLiquidityParams = Parameters<ClearingHouseFunctions["removeLiquidity"]>[0]
+export type OpenPositionParams = Parameters<ClearingHouseFunctions["openPosition"]>[0]
+export type ClosePositionParams = Parameters<ClearingHouseFunctions["closePosition"]>[0]
+
+export interface MulticallCall {
+    functionName: string
+    data: string
+}
+
+export class ClearingHouseMulticallBuilder {
+    private readonly calls: MulticallCall[] = []
+    // untyped to encode & decode by function names
+    private readonly contractInterface: Interface
+
+    constructor(readonly clearingHouse: ClearingHouse) {
+        this.contractInterface = clearingHouse.interface
+    }
+
+    addLiquidity(params: AddLiquidityParams): this {
+        return this.push("addLiquidity", [params])
+    }
+
+    removeLiquidity(params: RemoveLiquidityParams): this {
+        return this.push("removeLiquidity", [params])
+    }
+
+    openPosition(params: OpenPositionParams): this {
+        return this.push("openPosition", [params])
+    }
+
+    // requires the approval of the trader in DelegateApproval unless the signer owns the sub-account of the trader;
+    // the free collateral of the trader is checked right after the call if the trader is not the signer
+    openPositionFor(trader: string, params: OpenPositionParams): this {
+        return this.push("openPositionFor", [trader, params])
+    }
+
+    closePosition(params: ClosePositionParams): this {
+        return this.push("closePosition", [params])
+    }
+
+    settleAllFunding(trader: string): this {
+        return this.push("settleAllFunding", [trader])
+    }
+
+    getCalls(): MulticallCall[] {
+        return [...this.calls]
+    }
+
+    build(): string[] {
+        return this.calls.map(call => call.data)
+    }
+
+    // the return values of every call, decoded by the function of the call
+    decodeResults(results: BytesLike[]): Result[] {
+        if (results.length !== this.calls.length) {
+            throw new Error(`expected ${this.calls.length} results, got ${results.length}`)
+        }
+        return this.calls.map((call, i) => {
+            const result = this.contractInterface.decodeFunctionResult(call.functionName, results[i])
+            // unwrap the single struct returned by functions such as addLiquidity() and removeLiquidity()
+            const outputs = this.contractInterface.getFunction(call.functionName).outputs
+            return outputs && outputs.length === 1 && outputs[0].type === "tuple" ? result[0] : result
+        })
+    }
+
+    async callStatic(signer: Signer): Promise<Result[]> {
+        return this.decodeResults(await this.clearingHouse.connect(signer).callStatic.multicall(this.build()))
+    }
+
+    async execute(signer: Signer, overrides: Overrides = {}): Promise<ContractReceipt> {
+        if (this.calls.length === 0) {
+            throw new Error("no call to execute")
+        }
+        const tx = await this.clearingHouse.connect(signer).multicall(this.build(), overrides)
+        return tx.wait()
+    }
+
+    private push(functionName: string, args: unknown[]): this {
+        this.calls.push({
+            functionName,
+            data: this.contractInterface.encodeFunctionData(functionName, args),
+        })
+        return this
+    }
+}
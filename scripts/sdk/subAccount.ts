@@ -0,0 +1,43 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { getAddress, hexDataSlice, solidityKeccak256 } from "ethers/lib/utils"
+
+// isolated sub-accounts of Vault: every sub-account is an account of its own with its own collateral, positions and
+// liquidation, addressed by an address derived from its owner and id; the id 0 is the owner's cross margin account
+//
+// owners deposit to their sub-accounts with Vault.depositToSubAccount(), move collateral with
+// Vault.transferBetweenSubAccounts() and trade for their sub-accounts with ClearingHouse.openPositionFor(), while every
+// getter such as Vault.getFreeCollateral() and Vault.isLiquidatable() takes the sub-account address as the trader;
+// ClearingHouseSdk trades for a sub-account when it's given a subAccountId
+//
+// sub-accounts are taker-only: there's no addLiquidity(), removeLiquidity() or closePosition() for them, so they
+// close their positions by reversing them with openPositionFor()
+
+export const CROSS_MARGIN_ACCOUNT_ID = 0
+
+// the same as Vault.getSubAccount()
+export function getSubAccount(trader: string, subAccountId: BigNumberish): string {
+    if (BigNumber.from(subAccountId).isZero()) {
+        return trader
+    }
+    return getAddress(hexDataSlice(solidityKeccak256(["address", "uint256"], [trader, subAccountId]), 12))
+}
+
+export function isSubAccountId(subAccountId: BigNumberish): boolean {
+    return !BigNumber.from(subAccountId).eq(CROSS_MARGIN_ACCOUNT_ID)
+}
+
+// the openPositionFor() direction and amount closing a position, the same as ClearingHouse.closePosition():
+// closing a long is selling the exact base, closing a short is buying the exact base back
+export function getReversePosition(positionSize: BigNumber): {
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumber
+} {
+    const isBaseToQuote = positionSize.gt(0)
+    return { isBaseToQuote, isExactInput: isBaseToQuote, amount: positionSize.abs() }
+}
+
+// the conventional id of the sub-account isolating a single market
+export function getMarketSubAccountId(baseToken: string): BigNumber {
+    return BigNumber.from(baseToken)
+}
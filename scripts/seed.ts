@@ -0,0 +1,187 @@
+import { BigNumberish, Signer } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, network } from "hardhat"
+import { BaseToken, TestChainlinkPriceFeed, TestERC20, TestPriceFeedDispatcher } from "../typechain"
+import { MAX_TICK } from "./accounting/math"
+import { DeployConfig, Deployment, deploy } from "./deploy"
+
+// deploys the whole stack with test tokens and settable price feeds to a local network, and populates it with
+// a maker providing full range liquidity and a few takers at different leverages, e.g. for scripts/risk-report.ts:
+//   npx hardhat node
+//   HARDHAT_NETWORK=localhost npm run seed -- [manifest.json]
+
+export interface SeedResult {
+    deployment: Deployment
+    USDC: TestERC20
+    WETH: TestERC20
+    // one per market, in the same order as deployment.baseTokens
+    priceFeeds: TestPriceFeedDispatcher[]
+    wethPriceFeed: TestChainlinkPriceFeed
+    maker: string
+    traders: string[]
+}
+
+const USDC_DECIMALS = 6
+const WETH_DECIMALS = 18
+const ETH_PRICE = "3000"
+const BTC_PRICE = "30000"
+// ClearingHouseConfig._markPriceMarketTwapInterval after initialization
+const MARK_PRICE_MARKET_TWAP_INTERVAL = 30 * 60
+
+export async function seed(manifestPath?: string): Promise<SeedResult> {
+    const [, maker, alice, bob, carol, dave] = await ethers.getSigners()
+
+    const tokenFactory = await ethers.getContractFactory("TestERC20")
+    const USDC = (await tokenFactory.deploy()) as TestERC20
+    await (await USDC.__TestERC20_init("TestUSDC", "USDC", USDC_DECIMALS)).wait()
+    const WETH = (await tokenFactory.deploy()) as TestERC20
+    await (await WETH.__TestERC20_init("TestWETH", "WETH", WETH_DECIMALS)).wait()
+
+    const wethPriceFeedFactory = await ethers.getContractFactory("TestChainlinkPriceFeed")
+    const wethPriceFeed = (await wethPriceFeedFactory.deploy()) as TestChainlinkPriceFeed
+    await (await wethPriceFeed.setPrice(parseEther(ETH_PRICE))).wait()
+
+    const priceFeeds: TestPriceFeedDispatcher[] = []
+    const dispatcherFactory = await ethers.getContractFactory("TestPriceFeedDispatcher")
+    for (const price of [ETH_PRICE, BTC_PRICE]) {
+        const priceFeed = (await dispatcherFactory.deploy()) as TestPriceFeedDispatcher
+        await (await priceFeed.setPrice(parseEther(price))).wait()
+        priceFeeds.push(priceFeed)
+    }
+
+    const config: DeployConfig = {
+        settlementToken: USDC.address,
+        quoteToken: { name: "QuoteToken", symbol: "vUSD" },
+        clearingHouseConfig: { maxMarketsPerAccount: 10 },
+        collateralManager: {
+            maxCollateralTokensPerAccount: 3,
+            debtNonSettlementTokenValueRatio: 800000,
+            liquidationRatio: 500000,
+            mmRatioBuffer: 5000,
+            clInsuranceFundFeeRatio: 30000,
+            debtThreshold: "10000",
+            collateralValueDust: "10",
+        },
+        collaterals: [
+            {
+                token: WETH.address,
+                priceFeed: wethPriceFeed.address,
+                collateralRatio: 800000,
+                discountRatio: 100000,
+                depositCap: "1000",
+            },
+        ],
+        markets: [
+            {
+                name: "vETH",
+                symbol: "vETH",
+                priceFeed: priceFeeds[0].address,
+                initialPrice: ETH_PRICE,
+                uniswapFeeTier: 3000,
+                exchangeFeeRatio: 1000,
+                insuranceFundFeeRatio: 100000,
+                maxTickCrossedWithinBlock: 1000,
+            },
+            {
+                name: "vBTC",
+                symbol: "vBTC",
+                priceFeed: priceFeeds[1].address,
+                initialPrice: BTC_PRICE,
+                uniswapFeeTier: 3000,
+                exchangeFeeRatio: 1000,
+                insuranceFundFeeRatio: 100000,
+                maxTickCrossedWithinBlock: 1000,
+            },
+        ],
+    }
+    const deployment = await deploy(config, manifestPath)
+    const [vETH, vBTC] = deployment.baseTokens
+
+    // the mark price reads the market twap, which requires pool observations as old as the twap interval
+    await ethers.provider.send("evm_increaseTime", [MARK_PRICE_MARKET_TWAP_INTERVAL])
+    await ethers.provider.send("evm_mine", [])
+
+    async function depositCollateral(signer: Signer, token: TestERC20, amount: BigNumberish): Promise<void> {
+        const { vault } = deployment
+        await (await token.mint(await signer.getAddress(), amount)).wait()
+        await (await token.connect(signer).approve(vault.address, amount)).wait()
+        await (await vault.connect(signer).deposit(token.address, amount)).wait()
+    }
+
+    async function openPosition(
+        signer: Signer,
+        baseToken: BaseToken,
+        isBaseToQuote: boolean,
+        isExactInput: boolean,
+        amount: string,
+    ): Promise<void> {
+        await (
+            await deployment.clearingHouse.connect(signer).openPosition({
+                baseToken: baseToken.address,
+                isBaseToQuote,
+                isExactInput,
+                amount: parseEther(amount),
+                oppositeAmountBound: 0,
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            })
+        ).wait()
+    }
+
+    // the maker provides full range liquidity worth 6m to both markets
+    await depositCollateral(maker, USDC, parseUnits("10000000", USDC_DECIMALS))
+    const makerBases = ["1000", "100"]
+    for (let i = 0; i < makerBases.length; i++) {
+        const tickSpacing = await deployment.pools[i].tickSpacing()
+        const maxTick = Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+        await (
+            await deployment.clearingHouse.connect(maker).addLiquidity({
+                baseToken: deployment.baseTokens[i].address,
+                base: parseEther(makerBases[i]),
+                quote: parseEther("3000000"),
+                lowerTick: -maxTick,
+                upperTick: maxTick,
+                minBase: 0,
+                minQuote: 0,
+                useTakerBalance: false,
+                deadline: ethers.constants.MaxUint256,
+            })
+        ).wait()
+    }
+
+    // alice: 1x long ETH
+    await depositCollateral(alice, USDC, parseUnits("10000", USDC_DECIMALS))
+    await openPosition(alice, vETH, false, true, "10000")
+
+    // bob: 8x long ETH, close to the maintenance margin
+    await depositCollateral(bob, USDC, parseUnits("1000", USDC_DECIMALS))
+    await openPosition(bob, vETH, false, true, "8000")
+
+    // carol: short BTC and long ETH, margined with both USDC and WETH
+    await depositCollateral(carol, USDC, parseUnits("1000", USDC_DECIMALS))
+    await depositCollateral(carol, WETH, parseUnits("1", WETH_DECIMALS))
+    await openPosition(carol, vBTC, true, false, "10000")
+    await openPosition(carol, vETH, false, true, "3000")
+
+    // dave: collateral only
+    await depositCollateral(dave, USDC, parseUnits("500", USDC_DECIMALS))
+
+    const traders = await Promise.all([alice, bob, carol, dave].map(signer => signer.getAddress()))
+    console.log(`seeded ${network.name}: maker ${maker.address}, traders ${traders.join(", ")}`)
+    return { deployment, USDC, WETH, priceFeeds, wethPriceFeed, maker: maker.address, traders }
+}
+
+async function main(): Promise<void> {
+    const manifestPath = process.argv[2] || process.env.DEPLOY_MANIFEST || `./deployments/${network.name}.json`
+    await seed(manifestPath)
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,266 @@
+import fs from "fs"
+import { artifacts, run } from "hardhat"
+import { basename, join } from "path"
+import { writeFile } from "./files"
+import { allDeployedContractsNamesAndDirs } from "./path"
+
+// compares the compiled storage layout of every deployed contract against the committed baseline, so that an
+// upgrade cannot silently corrupt the state of the proxies:
+//   npm run storage-layout             fails on removed, moved or retyped variables
+//   npm run storage-layout -- --update overwrites the baseline after reviewing the diff
+// appending variables to the latest XXXStorageVN or adding a new XXXStorageV(N+1) is always compatible
+
+export const STORAGE_LAYOUT_BASELINE = "./storage-layout.json"
+
+// a solc storage type without the ast ids, with the key, value, base and member types inlined
+export interface StorageType {
+    label: string
+    numberOfBytes: string
+    key?: StorageType
+    value?: StorageType
+    base?: StorageType
+    members?: StorageVariable[]
+}
+
+export interface StorageVariable {
+    label: string
+    slot: string
+    offset: number
+    type: StorageType
+}
+
+// contract name => variables in the order of their slots
+export type StorageLayoutSnapshot = Record<string, StorageVariable[]>
+
+export type StorageLayoutChangeType = "removed" | "moved" | "retyped" | "renamed" | "added"
+
+export interface StorageLayoutChange {
+    contract: string
+    type: StorageLayoutChangeType
+    // renamed and added variables are reported but compatible
+    isBreaking: boolean
+    message: string
+}
+
+interface SolcStorageVariable {
+    label: string
+    slot: string
+    offset: number
+    type: string
+}
+
+interface SolcStorageType {
+    label: string
+    numberOfBytes: string
+    key?: string
+    value?: string
+    base?: string
+    members?: SolcStorageVariable[]
+}
+
+interface SolcStorageLayout {
+    storage: SolcStorageVariable[]
+    types: Record<string, SolcStorageType> | null
+}
+
+function toStorageVariable(variable: SolcStorageVariable, types: Record<string, SolcStorageType>): StorageVariable {
+    return {
+        label: variable.label,
+        slot: variable.slot,
+        offset: variable.offset,
+        type: toStorageType(variable.type, types),
+    }
+}
+
+function toStorageType(typeId: string, types: Record<string, SolcStorageType>): StorageType {
+    const solcType = types[typeId]
+    const type: StorageType = { label: solcType.label, numberOfBytes: solcType.numberOfBytes }
+    if (solcType.key) {
+        type.key = toStorageType(solcType.key, types)
+    }
+    if (solcType.value) {
+        type.value = toStorageType(solcType.value, types)
+    }
+    if (solcType.base) {
+        type.base = toStorageType(solcType.base, types)
+    }
+    if (solcType.members) {
+        type.members = solcType.members.map(member => toStorageVariable(member, types))
+    }
+    return type
+}
+
+// reads the storage layout from the build info, hardhat.config.ts has to output "storageLayout"
+export async function getStorageLayout(sourceName: string, contractName: string): Promise<StorageVariable[]> {
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`)
+    if (!buildInfo) {
+        throw new Error(`build info of ${sourceName}:${contractName} not found, compile first`)
+    }
+    const layout = (buildInfo.output.contracts[sourceName][contractName] as { storageLayout?: SolcStorageLayout })
+        .storageLayout
+    if (!layout) {
+        throw new Error(`storage layout of ${sourceName}:${contractName} not found, check outputSelection`)
+    }
+    return layout.storage.map(variable => toStorageVariable(variable, layout.types || {}))
+}
+
+export async function getDeployedContractsStorageLayout(): Promise<StorageLayoutSnapshot> {
+    const snapshot: StorageLayoutSnapshot = {}
+    for (const { name, dir } of allDeployedContractsNamesAndDirs) {
+        const contractName = basename(name, ".sol")
+        snapshot[contractName] = await getStorageLayout(join(dir, name), contractName)
+    }
+    return snapshot
+}
+
+function formatVariable(variable: StorageVariable): string {
+    return `${variable.type.label} ${variable.label} (slot ${variable.slot}, offset ${variable.offset})`
+}
+
+function isSamePosition(a: StorageVariable, b: StorageVariable): boolean {
+    return a.slot === b.slot && a.offset === b.offset
+}
+
+// structs can only be extended where their size doesn't matter, i.e. as the values of mappings
+function isCompatibleType(baseline: StorageType, current: StorageType, isExtensible: boolean): boolean {
+    if (baseline.label !== current.label) {
+        return false
+    }
+    if (baseline.key || baseline.value) {
+        return (
+            !!current.key &&
+            !!current.value &&
+            isCompatibleType(baseline.key!, current.key, false) &&
+            isCompatibleType(baseline.value!, current.value, true)
+        )
+    }
+    if (baseline.base) {
+        return !!current.base && isCompatibleType(baseline.base, current.base, false)
+    }
+    if (baseline.members) {
+        const members = current.members || []
+        if (members.length < baseline.members.length) {
+            return false
+        }
+        if (members.length > baseline.members.length && !isExtensible) {
+            return false
+        }
+        return baseline.members.every((member, i) => {
+            const currentMember = members[i]
+            return (
+                member.label === currentMember.label &&
+                isSamePosition(member, currentMember) &&
+                isCompatibleType(member.type, currentMember.type, false)
+            )
+        })
+    }
+    return baseline.numberOfBytes === current.numberOfBytes
+}
+
+export function compareStorageLayout(
+    contract: string,
+    baseline: StorageVariable[],
+    current: StorageVariable[],
+): StorageLayoutChange[] {
+    const changes: StorageLayoutChange[] = []
+    const report = (type: StorageLayoutChangeType, message: string) =>
+        changes.push({ contract, type, isBreaking: type !== "renamed" && type !== "added", message })
+
+    // labels such as __gap are not unique, hence only the variables not found at their baseline positions count
+    const isUnchanged = (variable: StorageVariable, others: StorageVariable[]) =>
+        others.some(other => other.label === variable.label && isSamePosition(variable, other))
+
+    for (const variable of baseline) {
+        const atSamePosition = current.find(currentVariable => isSamePosition(variable, currentVariable))
+        const withSameLabel = current.find(
+            currentVariable => currentVariable.label === variable.label && !isUnchanged(currentVariable, baseline),
+        )
+
+        if (atSamePosition && atSamePosition.label === variable.label) {
+            if (!isCompatibleType(variable.type, atSamePosition.type, false)) {
+                report(
+                    "retyped",
+                    `${formatVariable(variable)} is retyped to ${atSamePosition.type.label}` +
+                        `${variable.type.label === atSamePosition.type.label ? " with a different layout" : ""}`,
+                )
+            }
+        } else if (withSameLabel) {
+            report(
+                "moved",
+                `${formatVariable(variable)} is moved to slot ${withSameLabel.slot}, offset ${withSameLabel.offset}`,
+            )
+        } else if (atSamePosition && isCompatibleType(variable.type, atSamePosition.type, false)) {
+            report("renamed", `${formatVariable(variable)} is renamed to ${atSamePosition.label}`)
+        } else if (atSamePosition) {
+            report("retyped", `${formatVariable(variable)} is replaced by ${formatVariable(atSamePosition)}`)
+        } else {
+            report("removed", `${formatVariable(variable)} is removed`)
+        }
+    }
+
+    for (const variable of current) {
+        const isInBaseline = baseline.some(
+            baselineVariable =>
+                isSamePosition(baselineVariable, variable) ||
+                (baselineVariable.label === variable.label && !isUnchanged(baselineVariable, current)),
+        )
+        if (!isInBaseline) {
+            report("added", `${formatVariable(variable)} is added`)
+        }
+    }
+    return changes
+}
+
+export function compareStorageLayoutSnapshot(
+    baseline: StorageLayoutSnapshot,
+    current: StorageLayoutSnapshot,
+): StorageLayoutChange[] {
+    const changes: StorageLayoutChange[] = []
+    for (const contract of Object.keys(baseline)) {
+        if (!current[contract]) {
+            // a contract which is no longer deployed can't be upgraded
+            continue
+        }
+        changes.push(...compareStorageLayout(contract, baseline[contract], current[contract]))
+    }
+    return changes
+}
+
+async function main(): Promise<void> {
+    const isUpdate = process.argv.includes("--update")
+    await run("compile", { quiet: true })
+    const current = await getDeployedContractsStorageLayout()
+
+    if (!fs.existsSync(STORAGE_LAYOUT_BASELINE)) {
+        if (!isUpdate) {
+            throw new Error(`${STORAGE_LAYOUT_BASELINE} not found, run with --update to create it`)
+        }
+    } else {
+        const baseline = JSON.parse(fs.readFileSync(STORAGE_LAYOUT_BASELINE, "utf8")) as StorageLayoutSnapshot
+        const changes = compareStorageLayoutSnapshot(baseline, current)
+        for (const change of changes) {
+            console.log(`${change.isBreaking ? "x" : "+"} ${change.contract}: ${change.message}`)
+        }
+        const breakingChanges = changes.filter(change => change.isBreaking)
+        if (breakingChanges.length > 0 && !isUpdate) {
+            throw new Error(`${breakingChanges.length} incompatible storage layout changes`)
+        }
+        if (changes.length === 0) {
+            console.log("storage layout unchanged")
+        }
+    }
+
+    if (isUpdate) {
+        await writeFile(STORAGE_LAYOUT_BASELINE, JSON.stringify(current, null, 2) + "\n")
+        console.log(`storage layout written to ${STORAGE_LAYOUT_BASELINE}`)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -1,267 +1,418 @@
-import { MockContract } from "@eth-optimism/smock"
-import { BigNumber } from "@ethersproject/bignumber"
-import { ContractReceipt } from "@ethersproject/contracts"
-import { expect } from "chai"
-import { parseEther, parseUnits } from "ethers/lib/utils"
+import { BigNumber } from "ethers"
+import { formatEther, parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import _ from "lodash"
 import {
     AccountBalance,
     BaseToken,
     Exchange,
     InsuranceFund,
-    MarketRegistry,
     OrderBook,
     TestClearingHouse,
     TestERC20,
+    UniswapV3Pool,
     Vault,
 } from "../../typechain"
+import { checkProperty, getFuzzConfig, Random } from "../helper/fuzz"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
-import { forwardBothTimestamps } from "../shared/time"
-import { filterLogs, mockIndexPrice } from "../shared/utilities"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { formatSqrtPriceX96ToPrice, mockIndexPrice } from "../shared/utilities"
 import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
 
-// WARNING: this test is outdated and will need to catch up with many upgrades if we'd like to run it
-describe.skip("ClearingHouse accounting", () => {
-    const [admin, maker, taker1, taker2, taker3] = waffle.provider.getWallets()
+type Action =
+    | { type: "deposit"; trader: number; amount: number }
+    // ratio of the free collateral, in percentage
+    | { type: "withdraw"; trader: number; ratio: number }
+    // ratio of the free collateral used as the initial margin of the position, in percentage;
+    // the notional is quote in for longs and quote out for shorts
+    | { type: "openPosition"; trader: number; market: number; isBaseToQuote: boolean; margin: number }
+    | { type: "addLiquidity"; trader: number; market: number; range: Range; quote: number }
+    // ratio of the liquidity of the order, in percentage
+    | { type: "removeLiquidity"; trader: number; market: number; order: number; ratio: number }
+    | { type: "liquidate"; liquidator: number; trader: number; market: number }
+    // index price is moved to market price * (1 + premium / 1000)
+    | { type: "forwardTime"; seconds: number; market: number; premium: number }
+
+type Range = "full" | "around" | "below" | "above"
+
+const TEST_FILE = "test/clearingHouse/ClearingHouse.accounting.randomTrades.test.ts"
+const INIT_PRICES = ["100", "50"]
+const RANGES: Range[] = ["full", "around", "below", "above"]
+// positions of all traders can only differ by the rounding of uniswap in each swap
+const POSITION_SIZE_TOLERANCE = BigNumber.from(1000)
+// every rounding is in favor of the vault, and an action can lose at most one unit of usdc precision,
+// which happens when owed realized pnl is settled into the vault balance
+const ROUNDING_PER_ACTION = parseUnits("1", 12)
+
+// replays seeded random action sequences across wallets and markets and checks the global invariants after every step;
+// a failure prints the seed and a shrunk sequence, see test/helper/fuzz.ts for the env vars to reproduce or widen a run
+describe("ClearingHouse accounting invariants", () => {
+    const [admin, maker, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const traders = [alice, bob, carol, davis]
     const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
     let fixture: ClearingHouseFixture
     let clearingHouse: TestClearingHouse
-    let marketRegistry: MarketRegistry
-    let exchange: Exchange
     let orderBook: OrderBook
     let accountBalance: AccountBalance
+    let exchange: Exchange
     let vault: Vault
     let insuranceFund: InsuranceFund
     let collateral: TestERC20
-    let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let baseTokens: BaseToken[]
+    let pools: UniswapV3Pool[]
+    let imRatio: number
     let collateralDecimals: number
+    let tickSpacing: number
+    let minTick: number
+    let maxTick: number
+    let roundingAllowance: BigNumber
 
-    let maxTick: number, minTick: number
-    const [lowerTick, upperTick] = [43980, 48000]
-    let getTakerRealizedPnlAndFees: (receipt: ContractReceipt) => [BigNumber, BigNumber]
-    let getMakerQuoteFees: (receipt: ContractReceipt) => BigNumber
-    let getFundingPayment: (receipt: ContractReceipt) => BigNumber
+    async function fuzzFixture(): Promise<ClearingHouseFixture> {
+        const _fixture = await createClearingHouseFixture()()
+        const { baseToken, baseToken2, USDC } = _fixture
+        const _clearingHouse = _fixture.clearingHouse as TestClearingHouse
+        const decimals = await USDC.decimals()
 
-    let takerCollateralAmount: BigNumber
-    let makerCollateralAmount: BigNumber
+        const tokens = [baseToken, baseToken2]
+        for (let index = 0; index < tokens.length; index++) {
+            await initMarket(_fixture, INIT_PRICES[index], 1000, 100000, undefined, tokens[index].address)
+            // let the market drift far enough from the index for traders to get liquidated
+            await _fixture.marketRegistry.setMarketMaxPriceSpreadRatio(tokens[index].address, 0.5e6)
+        }
+        await mockIndexPrice(_fixture.mockedPriceFeedDispatcher, INIT_PRICES[0])
+        await mockIndexPrice(_fixture.mockedPriceFeedDispatcher2, INIT_PRICES[1])
 
-    let totalTakerRealizedPnl: BigNumber
-    let totalFundingPayment: BigNumber
-    let totalTakerFees: BigNumber
+        // insurance fund needs some capacity for liquidations
+        await USDC.mint(_fixture.insuranceFund.address, parseUnits("1000000", decimals))
 
-    beforeEach(async () => {
-        fixture = await loadFixture(createClearingHouseFixture(undefined, 3000))
-        clearingHouse = fixture.clearingHouse as TestClearingHouse
-        orderBook = fixture.orderBook
-        accountBalance = fixture.accountBalance
-        vault = fixture.vault
-        insuranceFund = fixture.insuranceFund
-        exchange = fixture.exchange
-        marketRegistry = fixture.marketRegistry
-        collateral = fixture.USDC
-        baseToken = fixture.baseToken
-        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
-        collateralDecimals = await collateral.decimals()
+        for (const wallet of [maker, ...traders]) {
+            await USDC.mint(wallet.address, parseUnits("10000000", decimals))
+        }
+        await deposit(maker, _fixture.vault, 10000000, USDC)
+        for (const trader of traders) {
+            await deposit(trader, _fixture.vault, 1000, USDC)
+        }
 
-        getTakerRealizedPnlAndFees = (receipt: ContractReceipt): [BigNumber, BigNumber] => {
-            const logs = filterLogs(receipt, clearingHouse.interface.getEventTopic("PositionChanged"), clearingHouse)
-            let realizedPnl = BigNumber.from(0)
-            let fees = BigNumber.from(0)
-            for (const log of logs) {
-                realizedPnl = realizedPnl.add(log.args.realizedPnl)
-                fees = fees.add(log.args.fee)
-            }
-            return [realizedPnl, fees]
+        await initiateBothTimestamps(_clearingHouse)
+
+        // a deep full range order in every market, so that most of the random trades can be filled
+        const { minTick, maxTick } = await getTickRange(_fixture.pool)
+        for (let index = 0; index < tokens.length; index++) {
+            await _clearingHouse.connect(maker).addLiquidity({
+                baseToken: tokens[index].address,
+                base: parseEther("1000"),
+                quote: parseEther("1000").mul(INIT_PRICES[index]),
+                lowerTick: minTick,
+                upperTick: maxTick,
+                minBase: 0,
+                minQuote: 0,
+                useTakerBalance: false,
+                deadline: ethers.constants.MaxUint256,
+            })
         }
+        await forwardBothTimestamps(_clearingHouse, 100)
+        return _fixture
+    }
 
-        getMakerQuoteFees = (receipt: ContractReceipt): BigNumber => {
-            const logs = filterLogs(receipt, orderBook.interface.getEventTopic("LiquidityChanged"), orderBook)
-            let amount = BigNumber.from(0)
-            for (const log of logs) {
-                amount = amount.add(log.args.quoteFee)
-            }
-            return amount
+    async function getTickRange(pool: UniswapV3Pool): Promise<{ minTick: number; maxTick: number }> {
+        const spacing = await pool.tickSpacing()
+        return {
+            minTick: Math.ceil(-887272 / spacing) * spacing,
+            maxTick: Math.floor(887272 / spacing) * spacing,
         }
+    }
 
-        getFundingPayment = (receipt: ContractReceipt): BigNumber => {
-            const logs = filterLogs(receipt, exchange.interface.getEventTopic("FundingPaymentSettled"), clearingHouse)
-            let fundingPayment = BigNumber.from(0)
-            for (const log of logs) {
-                fundingPayment = fundingPayment.add(log.args.fundingPayment)
+    function generate(random: Random, steps: number): Action[] {
+        const actions: Action[] = []
+        const market = () => random.int(0, INIT_PRICES.length - 1)
+        for (let i = 0; i < steps; i++) {
+            const trader = random.int(0, traders.length - 1)
+            const type = random.weighted<Action["type"]>({
+                deposit: 3,
+                withdraw: 1,
+                openPosition: 6,
+                addLiquidity: 2,
+                removeLiquidity: 1,
+                liquidate: 2,
+                forwardTime: 3,
+            })
+            switch (type) {
+                case "deposit":
+                    actions.push({ type, trader, amount: random.int(100, 2000) })
+                    break
+                case "withdraw":
+                    actions.push({ type, trader, ratio: random.int(1, 100) })
+                    break
+                case "openPosition":
+                    actions.push({
+                        type,
+                        trader,
+                        market: market(),
+                        isBaseToQuote: random.bool(),
+                        margin: random.int(1, 100),
+                    })
+                    break
+                case "addLiquidity":
+                    actions.push({
+                        type,
+                        trader,
+                        market: market(),
+                        range: random.pick(RANGES),
+                        quote: random.int(100, 5000),
+                    })
+                    break
+                case "removeLiquidity":
+                    actions.push({ type, trader, market: market(), order: random.int(0, 3), ratio: random.int(1, 100) })
+                    break
+                case "liquidate":
+                    actions.push({
+                        type,
+                        liquidator: (trader + random.int(1, traders.length - 1)) % traders.length,
+                        trader,
+                        market: market(),
+                    })
+                    break
+                case "forwardTime":
+                    actions.push({ type, seconds: random.int(1, 3600), market: market(), premium: random.int(-50, 50) })
+                    break
             }
-            return fundingPayment
         }
+        return actions
+    }
 
-        await mockIndexPrice(mockedPriceFeedDispatcher, "100")
-
-        const initPrice = "100"
-        // add pool with 0.3% fee
-        let { maxTick, minTick } = await initMarket(fixture, initPrice, 1000)
-
-        // prepare collateral for maker
-        makerCollateralAmount = parseUnits("1000000", collateralDecimals)
-        await collateral.mint(maker.address, makerCollateralAmount)
-        await deposit(maker, vault, 1000000, collateral)
-
-        // maker add a v2 style liquidity
-        await clearingHouse.connect(maker).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("100"),
-            quote: parseEther("10000"),
-            lowerTick: minTick,
-            upperTick: maxTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // maker add another v3 style liquidity in range [43980, 48000]
-        await clearingHouse.connect(maker).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("20"),
-            quote: parseEther("20000"),
-            lowerTick,
-            upperTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // prepare collateral for takers
-        takerCollateralAmount = parseUnits("10000000", collateralDecimals)
-        await collateral.mint(taker1.address, takerCollateralAmount)
-        await collateral.connect(taker1).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker1, vault, 1000, collateral)
-
-        await collateral.mint(taker2.address, takerCollateralAmount)
-        await collateral.connect(taker2).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker2, vault, 1000, collateral)
-
-        await collateral.mint(taker3.address, takerCollateralAmount)
-        await collateral.connect(taker3).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker3, vault, 1000, collateral)
-
-        totalFundingPayment = BigNumber.from(0)
-        totalTakerRealizedPnl = BigNumber.from(0)
-        totalTakerFees = BigNumber.from(0)
-        // takers do some random trades
-        for (let i = 0; i < 50; i++) {
-            const quoteAmount = `${Math.floor((Math.random() + 0.1) * 300)}`
-            const isBaseToQuote = _.sample([true, false])
-            const taker = _.sample([taker1, taker2, taker3])
+    function simplify(action: Action): Action[] {
+        switch (action.type) {
+            case "deposit":
+                return action.amount > 100 ? [{ ...action, amount: 100 }] : []
+            case "withdraw":
+            case "removeLiquidity":
+                return action.ratio < 100 ? [{ ...action, ratio: 100 }] : []
+            case "openPosition":
+                return action.margin > 1 ? [{ ...action, margin: Math.floor(action.margin / 2) }] : []
+            case "addLiquidity":
+                return action.quote > 10 ? [{ ...action, quote: Math.floor(action.quote / 2) }] : []
+            case "forwardTime":
+                return action.premium !== 0 ? [{ ...action, premium: 0 }] : []
+            default:
+                return []
+        }
+    }
 
-            // randomly open a position and calc realized pnl
-            const receipt = await (
-                await clearingHouse.connect(taker).openPosition({
-                    baseToken: baseToken.address,
-                    isBaseToQuote,
-                    isExactInput: isBaseToQuote ? false : true,
-                    oppositeAmountBound: 0,
-                    amount: quoteAmount,
-                    sqrtPriceLimitX96: 0,
-                    deadline: ethers.constants.MaxUint256,
-                    referralCode: ethers.constants.HashZero,
-                })
-            ).wait()
-            totalFundingPayment = totalFundingPayment.add(getFundingPayment(receipt))
-            const [realizedPnl, fee] = getTakerRealizedPnlAndFees(receipt)
-            totalTakerRealizedPnl = totalTakerRealizedPnl.add(realizedPnl)
-            totalTakerFees = totalTakerFees.add(fee)
+    async function getMarketPrice(market: number): Promise<string> {
+        return formatSqrtPriceX96ToPrice((await pools[market].slot0()).sqrtPriceX96)
+    }
 
-            await forwardBothTimestamps(clearingHouse, 300)
+    async function getRangeTicks(market: number, range: Range): Promise<[number, number]> {
+        if (range === "full") {
+            return [minTick, maxTick]
         }
-    })
+        const { tick } = await pools[market].slot0()
+        const currentTick = Math.floor(tick / tickSpacing) * tickSpacing
+        const width = tickSpacing * 10
+        switch (range) {
+            case "around":
+                return [currentTick - width, currentTick + width + tickSpacing]
+            case "below":
+                return [currentTick - width, currentTick]
+            case "above":
+                return [currentTick + tickSpacing, currentTick + tickSpacing + width]
+        }
+    }
 
-    it("sum of all positions should be close to zero", async () => {
-        // taker and maker's position size
-        let totalPositionSize = BigNumber.from(0)
+    // returns false if the action is rejected by the contracts
+    async function execute(action: Action): Promise<boolean> {
+        try {
+            switch (action.type) {
+                case "deposit":
+                    await deposit(traders[action.trader], vault, action.amount, collateral)
+                    return true
+                case "withdraw": {
+                    const trader = traders[action.trader]
+                    const amount = (await vault.getFreeCollateral(trader.address)).mul(action.ratio).div(100)
+                    if (amount.isZero()) {
+                        return false
+                    }
+                    await vault.connect(trader).withdraw(collateral.address, amount)
+                    return true
+                }
+                case "openPosition": {
+                    const trader = traders[action.trader]
+                    const freeCollateral = await vault.getFreeCollateral(trader.address)
+                    const notional = parseUnits(freeCollateral.toString(), 18 - collateralDecimals)
+                        .mul(action.margin)
+                        .div(100)
+                        .mul(1e6)
+                        .div(imRatio)
+                    if (notional.isZero()) {
+                        return false
+                    }
+                    await clearingHouse.connect(trader).openPosition({
+                        baseToken: baseTokens[action.market].address,
+                        isBaseToQuote: action.isBaseToQuote,
+                        isExactInput: !action.isBaseToQuote,
+                        oppositeAmountBound: 0,
+                        amount: notional,
+                        sqrtPriceLimitX96: 0,
+                        deadline: ethers.constants.MaxUint256,
+                        referralCode: ethers.constants.HashZero,
+                    })
+                    return true
+                }
+                case "addLiquidity": {
+                    const [lowerTick, upperTick] = await getRangeTicks(action.market, action.range)
+                    const price = Number(await getMarketPrice(action.market))
+                    await clearingHouse.connect(traders[action.trader]).addLiquidity({
+                        baseToken: baseTokens[action.market].address,
+                        base: parseEther((action.quote / price).toFixed(18)),
+                        quote: parseEther(action.quote.toString()),
+                        lowerTick,
+                        upperTick,
+                        minBase: 0,
+                        minQuote: 0,
+                        useTakerBalance: false,
+                        deadline: ethers.constants.MaxUint256,
+                    })
+                    return true
+                }
+                case "removeLiquidity": {
+                    const trader = traders[action.trader]
+                    const baseToken = baseTokens[action.market].address
+                    const orderIds = await orderBook.getOpenOrderIds(trader.address, baseToken)
+                    if (orderIds.length === 0) {
+                        return false
+                    }
+                    const order = await orderBook.getOpenOrderById(orderIds[action.order % orderIds.length])
+                    const liquidity = order.liquidity.mul(action.ratio).div(100)
+                    await clearingHouse.connect(trader).removeLiquidity({
+                        baseToken,
+                        lowerTick: order.lowerTick,
+                        upperTick: order.upperTick,
+                        liquidity: liquidity.isZero() ? order.liquidity : liquidity,
+                        minBase: 0,
+                        minQuote: 0,
+                        deadline: ethers.constants.MaxUint256,
+                    })
+                    return true
+                }
+                case "liquidate":
+                    await clearingHouse
+                        .connect(traders[action.liquidator])
+                        ["liquidate(address,address,int256)"](
+                            traders[action.trader].address,
+                            baseTokens[action.market].address,
+                            0,
+                        )
+                    return true
+                case "forwardTime": {
+                    await forwardBothTimestamps(clearingHouse, action.seconds)
+                    const indexPrice = Number(await getMarketPrice(action.market)) * (1 + action.premium / 1000)
+                    const dispatchers = [fixture.mockedPriceFeedDispatcher, fixture.mockedPriceFeedDispatcher2]
+                    await mockIndexPrice(dispatchers[action.market], indexPrice.toFixed(18))
+                    return true
+                }
+            }
+        } catch (err) {
+            if (err instanceof Error && err.message.includes("revert")) {
+                return false
+            }
+            throw err
+        }
+    }
 
-        for (const user of [maker, taker1, taker2, taker3]) {
-            totalPositionSize = totalPositionSize.add(
-                await accountBalance.getTotalPositionSize(user.address, baseToken.address),
-            )
+    async function checkInvariants(action: Action, succeeded: boolean): Promise<void> {
+        // 1. takers' positions are always taken over by makers
+        for (let market = 0; market < baseTokens.length; market++) {
+            const baseToken = baseTokens[market]
+            let takerPositionSize = BigNumber.from(0)
+            let makerPositionSize = BigNumber.from(0)
+            for (const wallet of [maker, ...traders]) {
+                const takerSize = await accountBalance.getTakerPositionSize(wallet.address, baseToken.address)
+                const totalSize = await accountBalance.getTotalPositionSize(wallet.address, baseToken.address)
+                takerPositionSize = takerPositionSize.add(takerSize)
+                makerPositionSize = makerPositionSize.add(totalSize.sub(takerSize))
+            }
+            if (takerPositionSize.add(makerPositionSize).abs().gt(POSITION_SIZE_TOLERANCE)) {
+                throw new Error(
+                    `taker positions ${takerPositionSize} do not net to maker positions ${makerPositionSize} in market ${market}`,
+                )
+            }
         }
-        // sum of position size should be close to zero
-        expect(totalPositionSize).to.closeTo("0", 50)
-    })
 
-    it("sum of all funding payments should be close to zero", async () => {
-        // maker remove all liquidity and settle all funding payment
-        for (const user of [maker, taker1, taker2, taker3]) {
-            totalFundingPayment = totalFundingPayment.add(
-                await exchange.getPendingFundingPayment(user.address, baseToken.address),
+        // 2. the vault is solvent: balances and pnl of all traders and the insurance fund add up to its usdc
+        let totalAccountValue = BigNumber.from(0)
+        for (const account of [maker.address, ...traders.map(trader => trader.address), insuranceFund.address]) {
+            const balance = await vault.getBalance(account)
+            const [owedRealizedPnl, unrealizedPnl, pendingFee] = await accountBalance.getPnlAndPendingFee(account)
+            const pendingFundingPayment = await exchange.getAllPendingFundingPayment(account)
+            totalAccountValue = totalAccountValue
+                .add(parseUnits(balance.toString(), 18 - collateralDecimals))
+                .add(owedRealizedPnl)
+                .add(unrealizedPnl)
+                .add(pendingFee)
+                .sub(pendingFundingPayment)
+        }
+        const vaultCollateral = parseUnits(
+            (await collateral.balanceOf(vault.address)).toString(),
+            18 - collateralDecimals,
+        )
+        const roundingLoss = vaultCollateral.sub(totalAccountValue)
+        if (roundingLoss.lt(0) || roundingLoss.gt(roundingAllowance)) {
+            throw new Error(
+                `total account value ${formatEther(totalAccountValue)} != usdc held by vault ${formatEther(
+                    vaultCollateral,
+                )}`,
             )
         }
-        expect(totalFundingPayment).to.closeTo("0", 50)
-    })
 
-    it("sum of realized pnl should close to zero after everyone close positions", async () => {
-        for (const taker of [taker1, taker2, taker3]) {
-            const positionSize = await accountBalance.getTotalPositionSize(taker.address, baseToken.address)
-            if (positionSize.eq(0)) {
-                continue
+        // 3. a withdrawal never leaves the trader below the initial margin requirement
+        if (action.type === "withdraw" && succeeded) {
+            const freeCollateral = await vault.getFreeCollateralByMarginRequirement(
+                traders[action.trader].address,
+                true,
+            )
+            if (freeCollateral.lt(0)) {
+                throw new Error(`free collateral ${freeCollateral} is negative after withdrawal`)
             }
-
-            const receipt = await (
-                await clearingHouse.connect(taker).closePosition({
-                    baseToken: baseToken.address,
-                    sqrtPriceLimitX96: parseEther("0"),
-                    oppositeAmountBound: parseEther("0"),
-                    deadline: ethers.constants.MaxUint256,
-                    referralCode: ethers.constants.HashZero,
-                })
-            ).wait()
-
-            const [realizedPnl, fee] = getTakerRealizedPnlAndFees(receipt)
-            totalTakerRealizedPnl = totalTakerRealizedPnl.add(realizedPnl)
-            totalTakerFees = totalTakerFees.add(fee)
         }
+    }
 
-        // maker's position size should be close to 0
-        const makerPositionSize = await accountBalance.getTotalPositionSize(maker.address, baseToken.address)
-        expect(makerPositionSize).to.closeTo("0", 200)
-
-        // maker remove all liquidity and collect fee
-        let makerFee = BigNumber.from(0)
-        let receipt = await (
-            await clearingHouse.connect(maker).removeLiquidity({
-                baseToken: baseToken.address,
-                lowerTick: minTick,
-                upperTick: maxTick,
-                liquidity: (await orderBook.getOpenOrder(maker.address, baseToken.address, minTick, maxTick)).liquidity,
-                minBase: parseEther("0"),
-                minQuote: parseEther("0"),
-                deadline: ethers.constants.MaxUint256,
-            })
-        ).wait()
-        makerFee = makerFee.add(getMakerQuoteFees(receipt))
-
-        receipt = await (
-            await clearingHouse.connect(maker).removeLiquidity({
-                baseToken: baseToken.address,
-                lowerTick,
-                upperTick,
-                liquidity: (
-                    await orderBook.getOpenOrder(maker.address, baseToken.address, lowerTick, upperTick)
-                ).liquidity,
-                minBase: parseEther("0"),
-                minQuote: parseEther("0"),
-                deadline: ethers.constants.MaxUint256,
-            })
-        ).wait()
-        makerFee = makerFee.add(getMakerQuoteFees(receipt))
+    async function run(actions: Action[]): Promise<void> {
+        fixture = await loadFixture(fuzzFixture)
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        orderBook = fixture.orderBook
+        accountBalance = fixture.accountBalance
+        exchange = fixture.exchange
+        vault = fixture.vault
+        insuranceFund = fixture.insuranceFund
+        collateral = fixture.USDC
+        baseTokens = [fixture.baseToken, fixture.baseToken2]
+        pools = [fixture.pool, fixture.pool2]
+        imRatio = await fixture.clearingHouseConfig.getImRatio()
+        collateralDecimals = await collateral.decimals()
+        tickSpacing = await fixture.pool.tickSpacing()
+        ;({ minTick, maxTick } = await getTickRange(fixture.pool))
+        // for the orders placed by the fixture
+        roundingAllowance = ROUNDING_PER_ACTION
 
-        const insuranceFundFee = (await accountBalance.getPnlAndPendingFee(insuranceFund.address))[0]
+        // mocked index prices live outside of the chain snapshot
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, INIT_PRICES[0])
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher2, INIT_PRICES[1])
 
-        // maker's fee + insurance fund fee should be close to taker's fees paid
-        expect(makerFee.add(insuranceFundFee)).to.closeTo(totalTakerFees, 10)
+        for (let step = 0; step < actions.length; step++) {
+            const action = actions[step]
+            try {
+                const succeeded = await execute(action)
+                if (succeeded) {
+                    roundingAllowance = roundingAllowance.add(ROUNDING_PER_ACTION)
+                }
+                await checkInvariants(action, succeeded)
+            } catch (err) {
+                throw new Error(`step ${step} ${JSON.stringify(action)}: ${err instanceof Error ? err.message : err}`)
+            }
+        }
+    }
 
-        // there's an error about 3000wei
-        expect(totalTakerRealizedPnl.add(makerFee).add(insuranceFundFee)).to.closeTo("0", 3000)
-    })
+    it("keeps the accounting invariants through random actions", async () => {
+        await checkProperty<Action>({ testFile: TEST_FILE, generate, run, simplify }, getFuzzConfig())
+    }).timeout(1800000) // 30 mins
 })
@@ -19,6 +19,7 @@ import {
 } from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit, mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
 import { filterLogs, mockIndexPrice, mockMarkPrice, syncIndexToMarketPrice } from "../shared/utilities"
 import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
 
@@ -192,6 +193,51 @@ describe("ClearingHouse liquidate maker", () => {
             )
     })
 
+    it("bob long, maker (alice) is liquidated at the penalty ratio of the liquidation auction", async () => {
+        // 1% rising to 2.5% in 10 minutes
+        await clearingHouseConfig.setLiquidationAuction(baseToken.address, 10000, 600)
+        await initiateBothTimestamps(clearingHouse)
+
+        // bob long
+        await collateral.mint(bob.address, parseUnits("10000000", collateralDecimals))
+        await deposit(bob, vault, 10000000, collateral)
+
+        await mockIndexPrice(mockedPriceFeedDispatcher, "40")
+        await clearingHouse.connect(bob).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote: false, // quote to base
+            isExactInput: true,
+            oppositeAmountBound: 0, // exact input (quote)
+            amount: parseEther("1000"),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+
+        await mockMarkPrice(accountBalance, baseToken.address, "115")
+
+        // the auction can start before alice's orders are cancelled
+        await accountBalance.connect(davis).startLiquidationAuction(alice.address)
+        await forwardBothTimestamps(clearingHouse, 300)
+        await clearingHouse.connect(davis).cancelAllExcessOrders(alice.address, baseToken.address)
+
+        // the same position as "bob long, maker (alice) should be liquidated"
+        // liquidation fee = 572.1105527685 * (1% + (2.5% - 1%) * 300 / 600) = 10.0119346734
+        // liquidation fee to liquidator = 10.0119346734 (alice has bad debt)
+        await expect(
+            clearingHouse.connect(davis)["liquidate(address,address,int256)"](alice.address, baseToken.address, 0),
+        )
+            .to.emit(clearingHouse, "PositionLiquidated")
+            .withArgs(
+                alice.address,
+                baseToken.address,
+                parseEther("572.110552763819095660"),
+                parseEther("4.974874371859296484"),
+                parseEther("10.011934673366834174"),
+                davis.address,
+            )
+    })
+
     describe("alice has three orders: below, in range and above", async () => {
         it("bob long, all alice's orders should be cancelled and positions be liquidated", async () => {
             await clearingHouse.connect(alice).addLiquidity({
@@ -0,0 +1,280 @@
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import {
+    getMarginBracketIndex,
+    getMarginRequirement,
+    getMaxPositionValue,
+    MarginBracket,
+    MarginRatios,
+} from "../../scripts/accounting/marginBracket"
+import { min, mulRatio, parseSettlementToken } from "../../scripts/accounting/math"
+import {
+    BaseToken,
+    ClearingHouseConfig,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { initiateBothTimestamps } from "../shared/time"
+import { mockMarkPrice, syncIndexToMarketPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse margin brackets", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let clearingHouseConfig: ClearingHouseConfig
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let globalRatios: MarginRatios
+
+    // 10% / 6.25% up to 1000, 20% / 10% up to 5000 and 50% / 25% above
+    const brackets: MarginBracket[] = [
+        { positionValue: parseEther("1000"), imRatio: 200000, mmRatio: 100000 },
+        { positionValue: parseEther("5000"), imRatio: 500000, mmRatio: 250000 },
+    ]
+
+    async function getPositionValue(trader: string) {
+        return (await accountBalance.getTotalPositionValue(trader, baseToken.address)).abs()
+    }
+
+    // Vault.getFreeCollateral() of a trader with a single position, in 18 decimals
+    async function getFreeCollateral(trader: string) {
+        const accountValue = await clearingHouse.getAccountValue(trader)
+        const [, unrealizedPnl] = await accountBalance.getPnlAndPendingFee(trader)
+        const totalDebtValue = await accountBalance.getTotalDebtValue(trader)
+        const positionValue = await getPositionValue(trader)
+        const marginRequirement = mulRatio(totalDebtValue, globalRatios.imRatio).add(
+            getMarginRequirement(brackets, positionValue, true, globalRatios).sub(
+                mulRatio(positionValue, globalRatios.imRatio),
+            ),
+        )
+        return min(accountValue.sub(unrealizedPnl), accountValue).sub(marginRequirement)
+    }
+
+    // the account value of ClearingHouse is rounded to the decimals of the settlement token
+    async function expectFreeCollateral(trader: string) {
+        const freeCollateral = parseSettlementToken(await vault.getFreeCollateral(trader), await collateral.decimals())
+        expect(freeCollateral).to.be.closeTo(await getFreeCollateral(trader), 1e12)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture(true, 500))
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        clearingHouseConfig = fixture.clearingHouseConfig
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        globalRatios = {
+            imRatio: await clearingHouseConfig.getImRatio(),
+            mmRatio: await clearingHouseConfig.getMmRatio(),
+        }
+
+        const { minTick, maxTick } = await initMarket(fixture, "100", 1000)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+        await mockMarkPrice(accountBalance, baseToken.address, "100")
+
+        await mintAndDeposit(fixture, alice, 10000000)
+        await addOrder(fixture, alice, 10000, 1000000, minTick, maxTick)
+        await mintAndDeposit(fixture, carol, 1000000)
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse)
+
+        await clearingHouseConfig.setMarginBrackets(baseToken.address, brackets)
+    })
+
+    it("set the margin brackets of a market", async () => {
+        const marginBrackets = await clearingHouseConfig.getMarginBrackets(baseToken.address)
+        expect(marginBrackets.length).to.be.eq(2)
+        for (let i = 0; i < brackets.length; i++) {
+            expect(marginBrackets[i].positionValue).to.be.eq(brackets[i].positionValue)
+            expect(marginBrackets[i].imRatio).to.be.eq(brackets[i].imRatio)
+            expect(marginBrackets[i].mmRatio).to.be.eq(brackets[i].mmRatio)
+        }
+        expect(await clearingHouseConfig.getMarginBrackets(fixture.baseToken2.address)).to.be.empty
+
+        // the same as the helper, which applies the brackets progressively
+        for (const positionValue of ["500", "1000", "3000", "5000", "8000"]) {
+            for (const isInitialMargin of [true, false]) {
+                const baseRatio = isInitialMargin ? globalRatios.imRatio : globalRatios.mmRatio
+                expect(
+                    await clearingHouseConfig.getExtraMarginRequirement(
+                        baseToken.address,
+                        parseEther(positionValue),
+                        isInitialMargin,
+                    ),
+                ).to.be.eq(
+                    getMarginRequirement(brackets, parseEther(positionValue), isInitialMargin, globalRatios).sub(
+                        mulRatio(parseEther(positionValue), baseRatio),
+                    ),
+                )
+            }
+        }
+        // 8000 * 10% + 7000 * 10% + 3000 * 30%
+        expect(getMarginRequirement(brackets, parseEther("8000"), true, globalRatios)).to.be.eq(parseEther("2400"))
+
+        await expect(clearingHouseConfig.setMarginBrackets(baseToken.address, []))
+            .to.emit(clearingHouseConfig, "MarginBracketsChanged")
+            .withArgs(baseToken.address, [])
+        expect(await clearingHouseConfig.getMarginBrackets(baseToken.address)).to.be.empty
+    })
+
+    it("force error, invalid margin brackets", async () => {
+        const [first, second] = brackets
+        await expect(
+            clearingHouseConfig.setMarginBrackets(baseToken.address, [{ ...first, imRatio: 1000001 }]),
+        ).to.be.revertedWith("CHC_RO")
+        await expect(clearingHouseConfig.setMarginBrackets(baseToken.address, [second, first])).to.be.revertedWith(
+            "CHC_IBPV",
+        )
+        // below the global imRatio
+        await expect(
+            clearingHouseConfig.setMarginBrackets(baseToken.address, [{ ...first, imRatio: 50000 }]),
+        ).to.be.revertedWith("CHC_IBR")
+        // decreasing mmRatio
+        await expect(
+            clearingHouseConfig.setMarginBrackets(baseToken.address, [first, { ...second, mmRatio: 90000 }]),
+        ).to.be.revertedWith("CHC_IBR")
+        // mmRatio above imRatio
+        await expect(
+            clearingHouseConfig.setMarginBrackets(baseToken.address, [{ ...first, mmRatio: 300000 }]),
+        ).to.be.revertedWith("CHC_IBR")
+        await expect(
+            clearingHouseConfig.connect(alice).setMarginBrackets(baseToken.address, brackets),
+        ).to.be.revertedWith("SO_CNO")
+    })
+
+    it("requires only the global ratios below the first bracket", async () => {
+        await mintAndDeposit(fixture, bob, 1000)
+        await q2bExactInput(fixture, bob, 500)
+
+        const positionValue = await getPositionValue(bob.address)
+        expect(getMarginBracketIndex(brackets, positionValue)).to.be.eq(-1)
+        expect(await accountBalance.getExtraMarginRequirement(bob.address, true)).to.be.eq(0)
+        expect(await accountBalance.getMarginRequirementForLiquidation(bob.address)).to.be.eq(
+            mulRatio(await accountBalance.getTotalAbsPositionValue(bob.address), globalRatios.mmRatio),
+        )
+        await expectFreeCollateral(bob.address)
+    })
+
+    describe("open position", () => {
+        it("requires the initial margin of the bracket the position crosses into", async () => {
+            await mintAndDeposit(fixture, bob, 300)
+            await q2bExactInput(fixture, bob, 1500)
+            expect(getMarginBracketIndex(brackets, await getPositionValue(bob.address))).to.be.eq(0)
+            expect(await accountBalance.getExtraMarginRequirement(bob.address, true)).to.be.gt(0)
+            await expectFreeCollateral(bob.address)
+
+            // 2500 requires 2500 * 10% + 1500 * 10% = 400 with the brackets, but only 250 with the global imRatio
+            const maxPositionValue = getMaxPositionValue(brackets, parseEther("300"), globalRatios)
+            expect(maxPositionValue).to.be.closeTo(parseEther("2000"), 10)
+            await expect(q2bExactInput(fixture, bob, 1000)).to.be.revertedWith("CH_NEFCI")
+
+            await clearingHouseConfig.setMarginBrackets(baseToken.address, [])
+            await q2bExactInput(fixture, bob, 1000)
+            expect(await accountBalance.getExtraMarginRequirement(bob.address, true)).to.be.eq(0)
+        })
+
+        it("crosses the brackets one after another as the position grows", async () => {
+            await mintAndDeposit(fixture, bob, 1000)
+
+            await q2bExactInput(fixture, bob, 800)
+            expect(getMarginBracketIndex(brackets, await getPositionValue(bob.address))).to.be.eq(-1)
+
+            await q2bExactInput(fixture, bob, 3700)
+            const positionValue = await getPositionValue(bob.address)
+            expect(getMarginBracketIndex(brackets, positionValue)).to.be.eq(0)
+            await expectFreeCollateral(bob.address)
+
+            // over 5000 the initial margin rises to 50%
+            await expect(q2bExactInput(fixture, bob, 1000)).to.be.revertedWith("CH_NEFCI")
+            expect(getMarginBracketIndex(brackets, positionValue.add(parseEther("1000")))).to.be.eq(1)
+
+            // the free collateral by the maintenance margin includes the brackets, too, while a ratio applies as is
+            const decimals = await collateral.decimals()
+            const freeCollateralByMm = parseSettlementToken(
+                await vault.getFreeCollateralByMarginRequirement(bob.address, false),
+                decimals,
+            )
+            const freeCollateralByMmRatio = parseSettlementToken(
+                await vault.getFreeCollateralByRatio(bob.address, globalRatios.mmRatio),
+                decimals,
+            )
+            expect(freeCollateralByMm).to.be.lt(freeCollateralByMmRatio)
+        })
+    })
+
+    describe("liquidation", () => {
+        beforeEach(async () => {
+            // 4000 requires 700 of the initial margin and 362.5 of the maintenance margin
+            await mintAndDeposit(fixture, bob, 1000)
+            await q2bExactInput(fixture, bob, 4000)
+        })
+
+        it("is liquidatable by the maintenance margin of the bracket", async () => {
+            // the position value drops by 18%, to about 3280
+            await mockMarkPrice(accountBalance, baseToken.address, "82")
+            const positionValue = await getPositionValue(bob.address)
+            const marginRequirement = await accountBalance.getMarginRequirementForLiquidation(bob.address)
+            expect(marginRequirement).to.be.eq(getMarginRequirement(brackets, positionValue, false, globalRatios))
+
+            // not liquidatable by the global mmRatio alone
+            const accountValue = await clearingHouse.getAccountValue(bob.address)
+            expect(accountValue).to.be.gte(mulRatio(positionValue, globalRatios.mmRatio))
+            expect(accountValue).to.be.lt(marginRequirement)
+
+            // the margin ratio is above the half of the margin requirement, so half of the position is liquidated
+            const positionSize = await accountBalance.getTotalPositionSize(bob.address, baseToken.address)
+            await clearingHouse.connect(carol)["liquidate(address,address)"](bob.address, baseToken.address)
+            expect(await accountBalance.getTotalPositionSize(bob.address, baseToken.address)).to.be.eq(
+                positionSize.sub(positionSize.div(2)),
+            )
+
+            // the rest falls back to the first bracket and is no longer liquidatable
+            const remainingPositionValue = await getPositionValue(bob.address)
+            expect(getMarginBracketIndex(brackets, remainingPositionValue)).to.be.eq(0)
+            expect(await clearingHouse.getAccountValue(bob.address)).to.be.gte(
+                await accountBalance.getMarginRequirementForLiquidation(bob.address),
+            )
+            await expect(
+                clearingHouse.connect(carol)["liquidate(address,address)"](bob.address, baseToken.address),
+            ).to.be.revertedWith("CH_EAV")
+        })
+
+        it("is not liquidatable at the same price without the brackets", async () => {
+            await mockMarkPrice(accountBalance, baseToken.address, "82")
+            await clearingHouseConfig.setMarginBrackets(baseToken.address, [])
+            await expect(
+                clearingHouse.connect(carol)["liquidate(address,address)"](bob.address, baseToken.address),
+            ).to.be.revertedWith("CH_EAV")
+        })
+
+        it("force error, cannot reduce the position below the maintenance margin of the bracket", async () => {
+            // the free collateral by mmRatio is negative, so only a liquidator can take over the position
+            await mockMarkPrice(accountBalance, baseToken.address, "82")
+            expect(await vault.getFreeCollateralByMarginRequirement(bob.address, false)).to.be.lt(0)
+            await expect(
+                clearingHouse.connect(bob).openPosition({
+                    baseToken: baseToken.address,
+                    isBaseToQuote: true,
+                    isExactInput: true,
+                    oppositeAmountBound: 0,
+                    amount: parseEther("1"),
+                    sqrtPriceLimitX96: 0,
+                    deadline: ethers.constants.MaxUint256,
+                    referralCode: ethers.constants.HashZero,
+                }),
+            ).to.be.revertedWith("CH_NEFCM")
+        })
+    })
+})
@@ -0,0 +1,308 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { hexConcat, parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { ClearingHouseMulticallBuilder } from "../../scripts/sdk/multicall"
+import { BaseToken, OrderBook, TestAccountBalance, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { priceToTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { ClearingHouseWithDelegateApprovalFixture, createClearingHouseWithDelegateApprovalFixture } from "./fixtures"
+
+describe("ClearingHouse multicall", () => {
+    const [admin, maker, alice, bob, forwarder] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const deadline = ethers.constants.MaxUint256
+    let fixture: ClearingHouseWithDelegateApprovalFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let orderBook: OrderBook
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let oldLowerTick: number
+    let oldUpperTick: number
+    let newLowerTick: number
+    let newUpperTick: number
+
+    function openLongParams(quote: string) {
+        return {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther(quote),
+            oppositeAmountBound: 0,
+            sqrtPriceLimitX96: 0,
+            deadline,
+            referralCode: ethers.constants.HashZero,
+        }
+    }
+
+    function closePositionParams() {
+        return {
+            baseToken: baseToken.address,
+            oppositeAmountBound: 0,
+            sqrtPriceLimitX96: 0,
+            deadline,
+            referralCode: ethers.constants.HashZero,
+        }
+    }
+
+    // quote-only liquidity below the market price
+    function addLiquidityParams(quote: string, lowerTick: number, upperTick: number) {
+        return {
+            baseToken: baseToken.address,
+            base: 0,
+            quote: parseEther(quote),
+            lowerTick,
+            upperTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline,
+        }
+    }
+
+    async function removeLiquidityParams(wallet: string, lowerTick: number, upperTick: number) {
+        const { liquidity } = await orderBook.getOpenOrder(wallet, baseToken.address, lowerTick, upperTick)
+        return {
+            baseToken: baseToken.address,
+            lowerTick,
+            upperTick,
+            liquidity,
+            minBase: 0,
+            minQuote: 0,
+            deadline,
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseWithDelegateApprovalFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        orderBook = fixture.orderBook
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        const { minTick, maxTick } = await initMarket(fixture, "151.3733069", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "151")
+
+        await mintAndDeposit(fixture, maker, 10_000_000)
+        await addOrder(fixture, maker, 1000, 151373, minTick, maxTick)
+
+        const tickSpacing = await pool.tickSpacing()
+        oldLowerTick = priceToTick(130, tickSpacing)
+        oldUpperTick = priceToTick(145, tickSpacing)
+        newLowerTick = priceToTick(115, tickSpacing)
+        newUpperTick = priceToTick(130, tickSpacing)
+
+        await mintAndDeposit(fixture, alice, 100)
+        await mintAndDeposit(fixture, bob, 100)
+    })
+
+    it("executes the calls in order as the sender and returns their results", async () => {
+        const builder = new ClearingHouseMulticallBuilder(clearingHouse)
+            .openPosition(openLongParams("500"))
+            .closePosition(closePositionParams())
+
+        const [openResult, closeResult] = await builder.callStatic(alice)
+        expect(openResult.base).to.be.gt(0)
+        expect(openResult.quote).to.be.eq(parseEther("500"))
+        expect(closeResult.base).to.be.eq(openResult.base)
+
+        const receipt = await builder.execute(alice)
+        const positionChangedEvents = receipt.logs
+            .filter(log => log.address === clearingHouse.address)
+            .map(log => clearingHouse.interface.parseLog(log))
+            .filter(event => event.name === "PositionChanged")
+        expect(positionChangedEvents.length).to.be.eq(2)
+        expect(positionChangedEvents[0].args.trader).to.be.eq(alice.address)
+        expect(positionChangedEvents[0].args.exchangedPositionSize).to.be.eq(openResult.base)
+        expect(positionChangedEvents[1].args.exchangedPositionSize).to.be.eq(openResult.base.mul(-1))
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+    })
+
+    it("increases the position beyond the initial margin requirement before reducing it", async () => {
+        await q2bExactInput(fixture, alice, 800)
+
+        // on its own, increasing the position by 500 quote needs 130 collateral with the imRatio of 10%
+        await expect(clearingHouse.connect(alice).openPosition(openLongParams("500"))).to.be.revertedWith("CH_NEFCI")
+
+        const positionSizeBefore = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+        await new ClearingHouseMulticallBuilder(clearingHouse)
+            .openPosition(openLongParams("500"))
+            .openPosition({
+                ...openLongParams("900"),
+                isBaseToQuote: true,
+                isExactInput: false,
+            })
+            .execute(alice)
+
+        const positionSizeAfter = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+        expect(positionSizeAfter).to.be.gt(0)
+        expect(positionSizeAfter).to.be.lt(positionSizeBefore)
+    })
+
+    it("reduces the position below the initial margin requirement, the same as reducing it on its own", async () => {
+        await q2bExactInput(fixture, alice, 800)
+        // alice is between the initial and the maintenance margin requirement
+        await mockMarkPrice(accountBalance, baseToken.address, "145")
+        const imRatio = await fixture.clearingHouseConfig.getImRatio()
+        const mmRatio = await fixture.clearingHouseConfig.getMmRatio()
+        expect(await fixture.vault.getFreeCollateralByRatio(alice.address, imRatio)).to.be.lt(0)
+        expect(await fixture.vault.getFreeCollateralByRatio(alice.address, mmRatio)).to.be.gt(0)
+
+        const reduceParams = {
+            ...openLongParams("0"),
+            isBaseToQuote: true,
+            amount: parseEther("0.25"),
+        }
+        // reducing trades only require the mmRatio on their own
+        await clearingHouse.connect(alice).callStatic.openPosition(reduceParams)
+
+        const positionSizeBefore = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+        await new ClearingHouseMulticallBuilder(clearingHouse)
+            .openPosition(reduceParams)
+            .openPosition(reduceParams)
+            .execute(alice)
+
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(
+            positionSizeBefore.sub(parseEther("0.5")),
+        )
+        // still below the initial margin requirement, which isn't required at the end either
+        expect(await fixture.vault.getFreeCollateralByRatio(alice.address, imRatio)).to.be.lt(0)
+    })
+
+    describe("maker", () => {
+        beforeEach(async () => {
+            // the debt of the range and the position is 900 quote, close to the limit of 1000 quote for 100 collateral
+            // with the imRatio of 10%
+            await clearingHouse.connect(bob).addLiquidity(addLiquidityParams("800", oldLowerTick, oldUpperTick))
+            await clearingHouse.connect(bob).openPosition(openLongParams("100"))
+        })
+
+        it("adds liquidity at a new range before removing the old range", async () => {
+            await expect(
+                clearingHouse.connect(bob).addLiquidity(addLiquidityParams("800", newLowerTick, newUpperTick)),
+            ).to.be.revertedWith("CH_NEFCI")
+
+            await new ClearingHouseMulticallBuilder(clearingHouse)
+                .addLiquidity(addLiquidityParams("800", newLowerTick, newUpperTick))
+                .removeLiquidity(await removeLiquidityParams(bob.address, oldLowerTick, oldUpperTick))
+                .execute(bob)
+
+            const orderIds = await orderBook.getOpenOrderIds(bob.address, baseToken.address)
+            expect(orderIds.length).to.be.eq(1)
+            const order = await orderBook.getOpenOrderById(orderIds[0])
+            expect(order.lowerTick).to.be.eq(newLowerTick)
+            expect(order.upperTick).to.be.eq(newUpperTick)
+        })
+
+        it("removes liquidity, closes position and re-adds liquidity at a new range atomically", async () => {
+            const builder = new ClearingHouseMulticallBuilder(clearingHouse)
+                .removeLiquidity(await removeLiquidityParams(bob.address, oldLowerTick, oldUpperTick))
+                .closePosition(closePositionParams())
+                .addLiquidity(addLiquidityParams("800", newLowerTick, newUpperTick))
+
+            const [removeResult, closeResult, addResult] = await builder.callStatic(bob)
+            expect(removeResult.quote).to.be.closeTo(parseEther("800"), 1)
+            expect(closeResult.base).to.be.eq(await accountBalance.getTakerPositionSize(bob.address, baseToken.address))
+            expect(addResult.quote).to.be.closeTo(parseEther("800"), 1)
+
+            await builder.execute(bob)
+
+            expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.eq(0)
+            const orderIds = await orderBook.getOpenOrderIds(bob.address, baseToken.address)
+            expect(orderIds.length).to.be.eq(1)
+            expect((await orderBook.getOpenOrderById(orderIds[0])).lowerTick).to.be.eq(newLowerTick)
+        })
+    })
+
+    describe("force error", () => {
+        it("force error, not enough free collateral after all calls", async () => {
+            await expect(
+                new ClearingHouseMulticallBuilder(clearingHouse)
+                    .openPosition(openLongParams("500"))
+                    .openPosition(openLongParams("600"))
+                    .execute(alice),
+            ).to.be.revertedWith("CH_NEFCI")
+        })
+
+        it("force error, reverts with the reason of the failed call", async () => {
+            await expect(
+                new ClearingHouseMulticallBuilder(clearingHouse)
+                    .openPosition(openLongParams("500"))
+                    .closePosition({ ...closePositionParams(), deadline: 0 })
+                    .execute(alice),
+            ).to.be.revertedWith("CH_TE")
+            expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+        })
+
+        it("force error, nested multicall", async () => {
+            const innerData = new ClearingHouseMulticallBuilder(clearingHouse)
+                .openPosition(openLongParams("500"))
+                .build()
+            await expect(
+                clearingHouse
+                    .connect(alice)
+                    .multicall([clearingHouse.interface.encodeFunctionData("multicall", [innerData])]),
+            ).to.be.revertedWith("CH_NMC")
+        })
+    })
+
+    describe("openPositionFor", () => {
+        beforeEach(async () => {
+            await fixture.delegateApproval.connect(bob).approve(alice.address, fixture.clearingHouseOpenPositionAction)
+        })
+
+        it("opens position for the trader who approves the sender", async () => {
+            await new ClearingHouseMulticallBuilder(clearingHouse)
+                .openPositionFor(bob.address, openLongParams("500"))
+                .openPosition(openLongParams("500"))
+                .execute(alice)
+
+            expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.gt(0)
+            expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.gt(0)
+        })
+
+        it("force error, the free collateral of the trader is checked right after the call", async () => {
+            // alice can afford the position, but the position is bob's
+            await mintAndDeposit(fixture, alice, 1000)
+            await expect(
+                new ClearingHouseMulticallBuilder(clearingHouse)
+                    .openPositionFor(bob.address, openLongParams("1500"))
+                    .openPosition(openLongParams("100"))
+                    .execute(alice),
+            ).to.be.revertedWith("CH_NEFCI")
+        })
+
+        it("force error, the sender is not approved by the trader", async () => {
+            await expect(
+                new ClearingHouseMulticallBuilder(clearingHouse)
+                    .openPositionFor(alice.address, openLongParams("500"))
+                    .execute(bob),
+            ).to.be.revertedWith("CH_SHNAOPT")
+        })
+    })
+
+    it("executes the calls for the sender relayed by the trusted forwarder", async () => {
+        await clearingHouse.setTrustedForwarderUnsafe(forwarder.address)
+
+        const data = new ClearingHouseMulticallBuilder(clearingHouse).openPosition(openLongParams("500")).build()
+        // the trusted forwarder appends the sender to the data
+        await forwarder.sendTransaction({
+            to: clearingHouse.address,
+            data: hexConcat([clearingHouse.interface.encodeFunctionData("multicall", [data]), alice.address]),
+        })
+
+        const positionSize = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+        expect(positionSize).to.be.gt(0)
+        expect(await accountBalance.getTakerPositionSize(forwarder.address, baseToken.address)).to.be.eq(
+            BigNumber.from(0),
+        )
+    })
+})
@@ -0,0 +1,283 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { parseEther } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { formatSqrtPriceX96ToPriceX96, formatX96ToX10_18 } from "../../scripts/accounting/math"
+import { BaseToken, MarketRegistry, TestAccountBalance, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { addOrder, b2qExactInput, closePosition, q2bExactOutput, removeAllOrders } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { initiateBothTimestamps } from "../shared/time"
+import { syncIndexToMarketPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse open interest caps", () => {
+    const [admin, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let marketRegistry: MarketRegistry
+    let accountBalance: TestAccountBalance
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+
+    async function expectOpenInterest(long: string, short: string) {
+        const [longOpenInterest, shortOpenInterest] = await accountBalance.getOpenInterest(baseToken.address)
+        expect(longOpenInterest).to.be.eq(parseEther(long))
+        expect(shortOpenInterest).to.be.eq(parseEther(short))
+    }
+
+    async function getMarketPrice(): Promise<BigNumber> {
+        return formatX96ToX10_18(formatSqrtPriceX96ToPriceX96((await pool.slot0()).sqrtPriceX96))
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        marketRegistry = fixture.marketRegistry
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+
+        const { minTick, maxTick } = await initMarket(fixture, "100", 1000)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+
+        await mintAndDeposit(fixture, alice, 10000000)
+        await addOrder(fixture, alice, 10000, 1000000, minTick, maxTick)
+        for (const trader of [bob, carol, davis]) {
+            await mintAndDeposit(fixture, trader, 100000)
+        }
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse)
+    })
+
+    describe("set caps", () => {
+        it("uncapped by default", async () => {
+            expect(await marketRegistry.getOpenInterestCap(baseToken.address)).to.be.eq(0)
+            expect(await marketRegistry.getTraderPositionNotionalCap(baseToken.address)).to.be.eq(0)
+        })
+
+        it("set the caps of a market", async () => {
+            await expect(marketRegistry.setOpenInterestCap(baseToken.address, parseEther("50000")))
+                .to.emit(marketRegistry, "OpenInterestCapChanged")
+                .withArgs(baseToken.address, parseEther("50000"))
+            await expect(marketRegistry.setTraderPositionNotionalCap(baseToken.address, parseEther("5000")))
+                .to.emit(marketRegistry, "TraderPositionNotionalCapChanged")
+                .withArgs(baseToken.address, parseEther("5000"))
+
+            expect(await marketRegistry.getOpenInterestCap(baseToken.address)).to.be.eq(parseEther("50000"))
+            expect(await marketRegistry.getTraderPositionNotionalCap(baseToken.address)).to.be.eq(parseEther("5000"))
+            expect(await marketRegistry.getOpenInterestCap(fixture.baseToken2.address)).to.be.eq(0)
+            expect(await marketRegistry.getTraderPositionNotionalCap(fixture.baseToken2.address)).to.be.eq(0)
+        })
+
+        it("force error, not owner", async () => {
+            await expect(
+                marketRegistry.connect(bob).setOpenInterestCap(baseToken.address, parseEther("50000")),
+            ).to.be.revertedWith("SO_CNO")
+            await expect(
+                marketRegistry.connect(bob).setTraderPositionNotionalCap(baseToken.address, parseEther("5000")),
+            ).to.be.revertedWith("SO_CNO")
+        })
+
+        it("force error, pool does not exist", async () => {
+            await expect(marketRegistry.setOpenInterestCap(bob.address, parseEther("50000"))).to.be.revertedWith(
+                "MR_PNE",
+            )
+            await expect(
+                marketRegistry.setTraderPositionNotionalCap(bob.address, parseEther("5000")),
+            ).to.be.revertedWith("MR_PNE")
+        })
+    })
+
+    describe("open interest", () => {
+        beforeEach(async () => {
+            await accountBalance.setOpenInterest(baseToken.address, 0, 0)
+        })
+
+        it("sum the long and the short taker positions", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+            await b2qExactInput(fixture, carol, 4)
+            await q2bExactOutput(fixture, davis, 3)
+            await expectOpenInterest("13", "4")
+
+            // reduce and reverse
+            await b2qExactInput(fixture, bob, 6)
+            await q2bExactOutput(fixture, carol, 5)
+            await expectOpenInterest("8", "0")
+            await b2qExactInput(fixture, davis, 5)
+            await expectOpenInterest("5", "2")
+        })
+
+        it("decrease when closing positions", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+            await b2qExactInput(fixture, carol, 4)
+
+            await closePosition(fixture, bob)
+            await closePosition(fixture, carol)
+            await expectOpenInterest("0", "0")
+        })
+
+        it("count the position a maker takes over when removing liquidity", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+
+            // alice takes the other side of bob's position
+            await removeAllOrders(fixture, alice)
+            const [longOpenInterest, shortOpenInterest] = await accountBalance.getOpenInterest(baseToken.address)
+            expect(longOpenInterest).to.be.eq(parseEther("10"))
+            expect(shortOpenInterest).to.be.eq(
+                (await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).abs(),
+            )
+        })
+    })
+
+    describe("backfill the open interest", () => {
+        it("not tracked until backfilled", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+            await b2qExactInput(fixture, carol, 4)
+            expect(await accountBalance.isOpenInterestTracked(baseToken.address)).to.be.false
+            await expectOpenInterest("0", "0")
+        })
+
+        it("set the open interest of a market", async () => {
+            await expect(accountBalance.setOpenInterest(baseToken.address, parseEther("20"), parseEther("5")))
+                .to.emit(accountBalance, "OpenInterestChanged")
+                .withArgs(baseToken.address, parseEther("20"), parseEther("5"))
+            expect(await accountBalance.isOpenInterestTracked(baseToken.address)).to.be.true
+            expect(await accountBalance.isOpenInterestTracked(fixture.baseToken2.address)).to.be.false
+
+            // the positions traded afterwards are added to the backfilled sums
+            await q2bExactOutput(fixture, bob, 10)
+            await expectOpenInterest("30", "5")
+        })
+
+        it("the positions opened before the backfill are subtracted once they are closed", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+            // e.g. bob's position was opened before the upgrade tracking the open interest
+            await accountBalance.setOpenInterest(baseToken.address, parseEther("15"), 0)
+
+            await closePosition(fixture, bob)
+            await expectOpenInterest("5", "0")
+        })
+
+        it("force error, increase a position before the open interest of a capped market is backfilled", async () => {
+            await q2bExactOutput(fixture, bob, 10)
+            await marketRegistry.setOpenInterestCap(baseToken.address, parseEther("3000"))
+            await expect(q2bExactOutput(fixture, bob, 1)).to.be.revertedWith("EX_OINT")
+
+            // reducing is always allowed
+            await closePosition(fixture, bob)
+
+            await accountBalance.setOpenInterest(baseToken.address, 0, 0)
+            await q2bExactOutput(fixture, bob, 1)
+            await expectOpenInterest("1", "0")
+        })
+
+        it("force error, not owner", async () => {
+            await expect(
+                accountBalance.connect(bob).setOpenInterest(baseToken.address, parseEther("20"), parseEther("5")),
+            ).to.be.revertedWith("SO_CNO")
+        })
+    })
+
+    describe("trader position notional cap", () => {
+        beforeEach(async () => {
+            await marketRegistry.setTraderPositionNotionalCap(baseToken.address, parseEther("2000"))
+        })
+
+        it("increase a position up to the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await q2bExactOutput(fixture, bob, 4)
+            const positionSize = await accountBalance.getTakerPositionSize(bob.address, baseToken.address)
+            expect(positionSize.mul(await getMarketPrice()).div(parseEther("1"))).to.be.lte(parseEther("2000"))
+
+            await b2qExactInput(fixture, carol, 19)
+        })
+
+        it("force error, increase a position over the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await expect(q2bExactOutput(fixture, bob, 6)).to.be.revertedWith("EX_OTPNC")
+
+            await expect(b2qExactInput(fixture, carol, 21)).to.be.revertedWith("EX_OTPNC")
+        })
+
+        it("force error, reverse a position over the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await expect(b2qExactInput(fixture, bob, 36)).to.be.revertedWith("EX_OTPNC")
+
+            // under the cap after reversing
+            await b2qExactInput(fixture, bob, 30)
+            expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.eq(
+                parseEther("-15"),
+            )
+        })
+
+        it("reduce a position over the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await marketRegistry.setTraderPositionNotionalCap(baseToken.address, parseEther("1000"))
+            await expect(q2bExactOutput(fixture, bob, 1)).to.be.revertedWith("EX_OTPNC")
+
+            // still over the cap after reducing
+            await b2qExactInput(fixture, bob, 1)
+            await closePosition(fixture, bob)
+            expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.eq(0)
+        })
+
+        it("uncapped after setting the cap to 0", async () => {
+            await marketRegistry.setTraderPositionNotionalCap(baseToken.address, 0)
+            await q2bExactOutput(fixture, bob, 30)
+        })
+    })
+
+    describe("open interest cap", () => {
+        beforeEach(async () => {
+            await accountBalance.setOpenInterest(baseToken.address, 0, 0)
+            await marketRegistry.setOpenInterestCap(baseToken.address, parseEther("3000"))
+        })
+
+        it("increase the open interest of each side up to the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await q2bExactOutput(fixture, carol, 13)
+            await b2qExactInput(fixture, davis, 28)
+            await expectOpenInterest("28", "28")
+        })
+
+        it("force error, increase the open interest of a side over the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await q2bExactOutput(fixture, carol, 10)
+            await expect(q2bExactOutput(fixture, carol, 6)).to.be.revertedWith("EX_OOIC")
+            await expect(q2bExactOutput(fixture, davis, 6)).to.be.revertedWith("EX_OOIC")
+
+            // the short side has its own cap
+            await b2qExactInput(fixture, davis, 25)
+            await expectOpenInterest("25", "25")
+        })
+
+        it("force error, reverse a position over the cap of the other side", async () => {
+            await b2qExactInput(fixture, bob, 25)
+            await q2bExactOutput(fixture, carol, 20)
+            await expect(q2bExactOutput(fixture, bob, 36)).to.be.revertedWith("EX_OOIC")
+
+            // closing the short position leaves the long side as is
+            await closePosition(fixture, bob)
+            await expectOpenInterest("20", "0")
+        })
+
+        it("reduce positions when the open interest is over the cap", async () => {
+            await q2bExactOutput(fixture, bob, 15)
+            await q2bExactOutput(fixture, carol, 10)
+            await marketRegistry.setOpenInterestCap(baseToken.address, parseEther("1000"))
+            await expect(q2bExactOutput(fixture, bob, 1)).to.be.revertedWith("EX_OOIC")
+
+            await b2qExactInput(fixture, bob, 5)
+            await closePosition(fixture, carol)
+            await expectOpenInterest("10", "0")
+        })
+
+        it("uncapped after setting the cap to 0", async () => {
+            await marketRegistry.setOpenInterestCap(baseToken.address, 0)
+            await q2bExactOutput(fixture, bob, 40)
+        })
+    })
+})
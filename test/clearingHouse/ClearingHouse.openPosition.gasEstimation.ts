@@ -1,149 +0,0 @@
-import { MockContract } from "@eth-optimism/smock"
-import { parseEther } from "@ethersproject/units"
-import { parseUnits } from "ethers/lib/utils"
-import { ethers, waffle } from "hardhat"
-import {
-    BaseToken,
-    OrderBook,
-    TestAccountBalance,
-    TestClearingHouse,
-    TestERC20,
-    UniswapV3Pool,
-    Vault,
-} from "../../typechain"
-import { initMarket } from "../helper/marketHelper"
-import { deposit } from "../helper/token"
-import { forwardBothTimestamps } from "../shared/time"
-import { mockIndexPrice } from "../shared/utilities"
-import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
-
-// WARNING: this test is outdated and will need to catch up with many upgrades if we'd like to run it
-describe.skip("ClearingHouse.openPosition gasEstimation", () => {
-    const [admin, alice, bob, carol] = waffle.provider.getWallets()
-    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
-    let fixture: ClearingHouseFixture
-    let clearingHouse: TestClearingHouse
-    let orderBook: OrderBook
-    let accountBalance: TestAccountBalance
-    let vault: Vault
-    let collateral: TestERC20
-    let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
-    let pool: UniswapV3Pool
-    let lowerTick: number
-    let upperTick: number
-    let collateralDecimals: number
-
-    beforeEach(async () => {
-        fixture = await loadFixture(createClearingHouseFixture())
-        clearingHouse = fixture.clearingHouse as TestClearingHouse
-        orderBook = fixture.orderBook
-        accountBalance = fixture.accountBalance as TestAccountBalance
-        vault = fixture.vault
-        collateral = fixture.USDC
-        baseToken = fixture.baseToken
-        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
-        pool = fixture.pool
-        collateralDecimals = await collateral.decimals()
-
-        const initPrice = "100"
-        const { maxTick, minTick } = await initMarket(fixture, initPrice)
-        await mockIndexPrice(mockedPriceFeedDispatcher, initPrice)
-
-        lowerTick = minTick
-        upperTick = maxTick
-
-        // alice add v2 style liquidity
-        await collateral.mint(alice.address, parseUnits("1000000", collateralDecimals))
-        await deposit(alice, vault, 1000000, collateral)
-        await clearingHouse.connect(alice).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("100"),
-            quote: parseEther("10000"),
-            lowerTick,
-            upperTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // so do carol (to avoid liquidity is 0 when any of the maker remove 100% liquidity)
-        await collateral.mint(carol.address, parseUnits("1000000", collateralDecimals))
-        await deposit(carol, vault, 1000000, collateral)
-        await clearingHouse.connect(carol).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("100"),
-            quote: parseEther("10000"),
-            lowerTick,
-            upperTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-    })
-
-    it("gas cost for taker", async () => {
-        await collateral.mint(carol.address, parseUnits("1000", collateralDecimals))
-        await deposit(carol, vault, 1000, collateral)
-        const receipt = await (
-            await clearingHouse.connect(carol).openPosition({
-                baseToken: baseToken.address,
-                isBaseToQuote: false,
-                isExactInput: true,
-                oppositeAmountBound: 0,
-                amount: parseEther("0.1"),
-                sqrtPriceLimitX96: 0,
-                deadline: ethers.constants.MaxUint256,
-                referralCode: ethers.constants.HashZero,
-            })
-        ).wait()
-        console.log("gas used: ", receipt.gasUsed.toString())
-    })
-
-    it("gas cost for maker", async () => {
-        // carol long
-        await collateral.mint(carol.address, parseUnits("1000", collateralDecimals))
-        await deposit(carol, vault, 1000, collateral)
-        for (let i = 0; i < 720; i++) {
-            await clearingHouse.connect(carol).openPosition({
-                baseToken: baseToken.address,
-                isBaseToQuote: false,
-                isExactInput: true,
-                oppositeAmountBound: 0,
-                amount: parseEther("0.1"),
-                sqrtPriceLimitX96: 0,
-                deadline: ethers.constants.MaxUint256,
-                referralCode: ethers.constants.HashZero,
-            })
-            await forwardBothTimestamps(clearingHouse, 3600)
-        }
-
-        // maker remove liquidity position
-        const order = await orderBook.getOpenOrder(alice.address, baseToken.address, lowerTick, upperTick)
-        const liquidity = order.liquidity
-        await clearingHouse.connect(alice).removeLiquidity({
-            baseToken: baseToken.address,
-            lowerTick,
-            upperTick,
-            liquidity,
-            minBase: 0,
-            minQuote: 0,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // maker close position
-        const posSize = await accountBalance.getTotalPositionSize(alice.address, baseToken.address)
-        await clearingHouse.connect(alice).openPosition({
-            baseToken: baseToken.address,
-            isBaseToQuote: false, // quote to base
-            isExactInput: false,
-            oppositeAmountBound: ethers.constants.MaxUint256, // exact output (base)
-            amount: posSize.abs().toString(),
-            sqrtPriceLimitX96: 0,
-            deadline: ethers.constants.MaxUint256,
-            referralCode: ethers.constants.HashZero,
-        })
-    }).timeout(300000) // 5 mins
-})
@@ -0,0 +1,292 @@
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { mulRatio } from "../../scripts/accounting/math"
+import {
+    getPortfolioMarginRequirement,
+    getPortfolioPositionValue,
+    PortfolioMarginConfig,
+    PortfolioPosition,
+    validateMarginCorrelation,
+} from "../../scripts/accounting/portfolioMargin"
+import { BaseToken, ClearingHouseConfig, TestAccountBalance, TestClearingHouse, Vault } from "../../typechain"
+import { addOrder, b2qExactInput, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { initiateBothTimestamps } from "../shared/time"
+import { mockMarkPrice, syncIndexToMarketPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse portfolio margin", () => {
+    const [admin, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let clearingHouseConfig: ClearingHouseConfig
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let baseToken: BaseToken
+    let baseToken2: BaseToken
+    let mmRatio: number
+    let portfolioMargin: PortfolioMarginConfig
+
+    // the two markets move together by 90%
+    const correlationRatio = 900000
+
+    async function getPositions(trader: string): Promise<PortfolioPosition[]> {
+        const positions: PortfolioPosition[] = []
+        for (const baseTokenAddr of await accountBalance.getBaseTokens(trader)) {
+            positions.push({
+                baseToken: baseTokenAddr,
+                positionValue: await accountBalance.getTotalPositionValue(trader, baseTokenAddr),
+            })
+        }
+        return positions
+    }
+
+    async function isLiquidatable(trader: string): Promise<boolean> {
+        return (await clearingHouse.getAccountValue(trader)).lt(
+            await accountBalance.getMarginRequirementForLiquidation(trader),
+        )
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        clearingHouseConfig = fixture.clearingHouseConfig
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        baseToken = fixture.baseToken
+        baseToken2 = fixture.baseToken2
+        mmRatio = await clearingHouseConfig.getMmRatio()
+
+        const { minTick, maxTick } = await initMarket(fixture, "100", 1000)
+        await initMarket(fixture, "100", 1000, undefined, undefined, baseToken2.address)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher2, fixture.pool2)
+        await mockMarkPrice(accountBalance, baseToken.address, "100")
+        await mockMarkPrice(accountBalance, baseToken2.address, "100")
+
+        await mintAndDeposit(fixture, alice, 10000000)
+        await addOrder(fixture, alice, 10000, 1000000, minTick, maxTick)
+        await addOrder(fixture, alice, 10000, 1000000, minTick, maxTick, false, baseToken2.address)
+        await mintAndDeposit(fixture, davis, 100000)
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse)
+
+        // bob hedges a long position with a short position of the correlated market, while carol goes long on both
+        await mintAndDeposit(fixture, bob, 1000)
+        await q2bExactInput(fixture, bob, 5000)
+        await b2qExactInput(fixture, bob, 50, baseToken2.address)
+        await mintAndDeposit(fixture, carol, 1100)
+        await q2bExactInput(fixture, carol, 5000)
+        await q2bExactInput(fixture, carol, 5000, baseToken2.address)
+
+        await clearingHouseConfig.setMarginCorrelationRatio(baseToken.address, baseToken2.address, correlationRatio)
+        portfolioMargin = {
+            enabled: true,
+            correlations: [{ baseTokenA: baseToken.address, baseTokenB: baseToken2.address, correlationRatio }],
+        }
+    })
+
+    it("set the margin correlation ratios", async () => {
+        expect(await clearingHouseConfig.getMarginCorrelationRatio(baseToken.address, baseToken2.address)).to.be.eq(
+            correlationRatio,
+        )
+        expect(await clearingHouseConfig.getMarginCorrelationRatio(baseToken2.address, baseToken.address)).to.be.eq(
+            correlationRatio,
+        )
+        expect(await clearingHouseConfig.getMarginCorrelationRatio(baseToken.address, baseToken.address)).to.be.eq(1e6)
+
+        await expect(clearingHouseConfig.setMarginCorrelationRatio(baseToken2.address, baseToken.address, 0))
+            .to.emit(clearingHouseConfig, "MarginCorrelationRatioChanged")
+            .withArgs(baseToken2.address, baseToken.address, 0)
+        expect(await clearingHouseConfig.getMarginCorrelationRatio(baseToken.address, baseToken2.address)).to.be.eq(0)
+
+        expect(await clearingHouseConfig.isPortfolioMarginEnabled()).to.be.false
+        await expect(clearingHouseConfig.setPortfolioMarginEnabled(true))
+            .to.emit(clearingHouseConfig, "PortfolioMarginEnabledChanged")
+            .withArgs(true)
+        expect(await clearingHouseConfig.isPortfolioMarginEnabled()).to.be.true
+    })
+
+    it("force error, invalid margin correlation ratios", async () => {
+        await expect(
+            clearingHouseConfig.setMarginCorrelationRatio(baseToken.address, baseToken2.address, 1000001),
+        ).to.be.revertedWith("CHC_RO")
+        await expect(
+            clearingHouseConfig.setMarginCorrelationRatio(baseToken.address, baseToken.address, correlationRatio),
+        ).to.be.revertedWith("CHC_IMCP")
+        await expect(
+            clearingHouseConfig
+                .connect(alice)
+                .setMarginCorrelationRatio(baseToken.address, baseToken2.address, correlationRatio),
+        ).to.be.revertedWith("SO_CNO")
+        await expect(clearingHouseConfig.connect(alice).setPortfolioMarginEnabled(true)).to.be.revertedWith("SO_CNO")
+
+        // the same as the helper
+        expect(() =>
+            validateMarginCorrelation({
+                baseTokenA: baseToken.address,
+                baseTokenB: baseToken2.address,
+                correlationRatio: 1000001,
+            }),
+        ).to.throw("CHC_RO")
+        expect(() =>
+            validateMarginCorrelation({
+                baseTokenA: baseToken.address,
+                baseTokenB: baseToken.address,
+                correlationRatio,
+            }),
+        ).to.throw("CHC_IMCP")
+    })
+
+    it("margin every position as is when the portfolio margin is disabled", async () => {
+        for (const trader of [bob.address, carol.address]) {
+            const totalAbsPositionValue = await accountBalance.getTotalAbsPositionValue(trader)
+            expect(await accountBalance.getTotalPortfolioPositionValue(trader)).to.be.eq(totalAbsPositionValue)
+            expect(await accountBalance.getMarginRequirementForLiquidation(trader)).to.be.eq(
+                mulRatio(totalAbsPositionValue, mmRatio),
+            )
+            expect(
+                getPortfolioPositionValue({ ...portfolioMargin, enabled: false }, await getPositions(trader)),
+            ).to.be.eq(totalAbsPositionValue)
+        }
+    })
+
+    describe("enabled", () => {
+        beforeEach(async () => {
+            await clearingHouseConfig.setPortfolioMarginEnabled(true)
+        })
+
+        it("the same as the calculator", async () => {
+            for (const trader of [bob.address, carol.address]) {
+                const positions = await getPositions(trader)
+                expect(await accountBalance.getTotalPortfolioPositionValue(trader)).to.be.eq(
+                    getPortfolioPositionValue(portfolioMargin, positions),
+                )
+                expect(await accountBalance.getMarginRequirementForLiquidation(trader)).to.be.eq(
+                    getPortfolioMarginRequirement(portfolioMargin, positions, mmRatio),
+                )
+            }
+
+            // a third market not correlated to the others adds up as is
+            const positions = [
+                { baseToken: baseToken.address, positionValue: parseEther("5000") },
+                { baseToken: baseToken2.address, positionValue: parseEther("-4000") },
+                { baseToken: alice.address, positionValue: parseEther("-3000") },
+            ]
+            expect(
+                await clearingHouseConfig.getPortfolioPositionValue(
+                    positions.map(position => position.baseToken),
+                    positions.map(position => position.positionValue),
+                ),
+            ).to.be.eq(getPortfolioPositionValue(portfolioMargin, positions))
+        })
+
+        it("offset the hedged positions more than the naked ones", async () => {
+            const hedgedPositionValue = await accountBalance.getTotalAbsPositionValue(bob.address)
+            const nakedPositionValue = await accountBalance.getTotalAbsPositionValue(carol.address)
+            expect(hedgedPositionValue).to.be.closeTo(nakedPositionValue, parseEther("100"))
+
+            // sqrt(2 * (1 - 90%)) = 44.7% of the position value of the hedged positions
+            const hedgedRequirement = await accountBalance.getMarginRequirementForLiquidation(bob.address)
+            expect(hedgedRequirement).to.be.lt(mulRatio(mulRatio(hedgedPositionValue, mmRatio), 500000))
+
+            // the naked positions of the same direction are not offset
+            const nakedRequirement = await accountBalance.getMarginRequirementForLiquidation(carol.address)
+            expect(nakedRequirement).to.be.eq(mulRatio(nakedPositionValue, mmRatio))
+            expect(hedgedRequirement.mul(2)).to.be.lt(nakedRequirement)
+        })
+
+        it("keep the requirement of the naked and the uncorrelated positions", async () => {
+            // carol's positions are of the same direction
+            const nakedPositionValue = await accountBalance.getTotalAbsPositionValue(carol.address)
+            expect(await accountBalance.getTotalPortfolioPositionValue(carol.address)).to.be.eq(nakedPositionValue)
+            expect(await accountBalance.getMarginRequirementForLiquidation(carol.address)).to.be.eq(
+                mulRatio(nakedPositionValue, mmRatio),
+            )
+
+            // bob's positions are of the opposite directions, but the markets are no longer correlated
+            await clearingHouseConfig.setMarginCorrelationRatio(baseToken.address, baseToken2.address, 0)
+            const uncorrelatedPositionValue = await accountBalance.getTotalAbsPositionValue(bob.address)
+            expect(await accountBalance.getTotalPortfolioPositionValue(bob.address)).to.be.eq(uncorrelatedPositionValue)
+            expect(await accountBalance.getMarginRequirementForLiquidation(bob.address)).to.be.eq(
+                mulRatio(uncorrelatedPositionValue, mmRatio),
+            )
+            expect(
+                getPortfolioPositionValue({ enabled: true, correlations: [] }, await getPositions(bob.address)),
+            ).to.be.eq(uncorrelatedPositionValue)
+        })
+
+        it("apply to the margin requirement for collateral liquidation", async () => {
+            expect(await vault.getMarginRequirementForCollateralLiquidation(bob.address)).to.be.eq(
+                mulRatio(
+                    await accountBalance.getTotalPortfolioPositionValue(bob.address),
+                    await vault.getCollateralMmRatio(),
+                ),
+            )
+        })
+
+        it("offset a short position against the long positions of the correlated markets at most", async () => {
+            // the short position of tokenB offsets both long positions, which are not offset by each other
+            const [tokenA, tokenB, tokenC] = [baseToken.address, baseToken2.address, alice.address]
+            const config = {
+                enabled: true,
+                correlations: [
+                    { baseTokenA: tokenA, baseTokenB: tokenB, correlationRatio: 1e6 },
+                    { baseTokenA: tokenB, baseTokenB: tokenC, correlationRatio: 1e6 },
+                ],
+            }
+            await clearingHouseConfig.setMarginCorrelationRatio(tokenA, tokenB, 1e6)
+            await clearingHouseConfig.setMarginCorrelationRatio(tokenB, tokenC, 1e6)
+
+            // sqrt(1000^2 * 3 - 2 * 1000^2 + 2 * 1000^2 - 2 * 1000^2), the net of the longs and the short
+            const positionValues = [parseEther("1000"), parseEther("-1000"), parseEther("1000")]
+            expect(
+                await clearingHouseConfig.getPortfolioPositionValue([tokenA, tokenB, tokenC], positionValues),
+            ).to.be.eq(parseEther("1000"))
+            expect(
+                getPortfolioPositionValue(config, [
+                    { baseToken: tokenA, positionValue: positionValues[0] },
+                    { baseToken: tokenB, positionValue: positionValues[1] },
+                    { baseToken: tokenC, positionValue: positionValues[2] },
+                ]),
+            ).to.be.eq(parseEther("1000"))
+        })
+    })
+
+    describe("liquidation", () => {
+        beforeEach(async () => {
+            // the short position of bob loses about 500 as the second market rises by 10% alone
+            await mockMarkPrice(accountBalance, baseToken2.address, "110")
+        })
+
+        it("the hedged positions are liquidatable without the portfolio margin", async () => {
+            expect(await isLiquidatable(bob.address)).to.be.true
+            await clearingHouse.connect(davis)["liquidate(address,address)"](bob.address, baseToken2.address)
+        })
+
+        it("force error, the hedged positions are not liquidatable with the portfolio margin", async () => {
+            await clearingHouseConfig.setPortfolioMarginEnabled(true)
+            expect(await isLiquidatable(bob.address)).to.be.false
+            await expect(
+                clearingHouse.connect(davis)["liquidate(address,address)"](bob.address, baseToken2.address),
+            ).to.be.revertedWith("CH_EAV")
+        })
+
+        it("the naked positions are liquidatable with the portfolio margin as their prices drop together", async () => {
+            await clearingHouseConfig.setPortfolioMarginEnabled(true)
+            await mockMarkPrice(accountBalance, baseToken.address, "94")
+            await mockMarkPrice(accountBalance, baseToken2.address, "94")
+            expect(await isLiquidatable(carol.address)).to.be.true
+            await clearingHouse.connect(davis)["liquidate(address,address)"](carol.address, baseToken.address)
+        })
+    })
+
+    it("force error, the initial margin is not offset", async () => {
+        await clearingHouseConfig.setPortfolioMarginEnabled(true)
+        await expect(q2bExactInput(fixture, bob, 5000)).to.be.revertedWith("CH_NEFCI")
+    })
+})
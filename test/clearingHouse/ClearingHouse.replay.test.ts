@@ -0,0 +1,109 @@
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import fs from "fs"
+import path from "path"
+import {
+    diffReplayState,
+    formatReplayResult,
+    loadReplay,
+    ReplayDefinition,
+    ReplayStepResult,
+    runReplay,
+} from "../helper/replay"
+
+describe("ClearingHouse incident replays", () => {
+    const replayDir = path.join(__dirname, "replays")
+
+    function getChange(step: ReplayStepResult, key: string) {
+        const change = step.diff.find(change => change.key === key)
+        return change && change.after.sub(change.before)
+    }
+
+    for (const filename of fs.readdirSync(replayDir).filter(filename => filename.endsWith(".json"))) {
+        it(`replays ${filename}`, async () => {
+            const result = await runReplay(loadReplay(path.join(replayDir, filename)))
+            if (process.env.REPLAY_LOG === "true") {
+                console.log(formatReplayResult(result))
+            }
+        })
+    }
+
+    it("diffs the state around every call of the 7494 bad debt attack", async () => {
+        const definition = loadReplay(path.join(replayDir, "7494.badDebtAttack.json"))
+        const result = await runReplay(definition)
+        const { steps } = result
+        expect(steps.map(step => step.timestamp)).to.be.deep.eq([0, 15, 30, 45, 60, 75, 90, 105, 105, 105])
+
+        // every trade of account1 pushes the market price up and pays the insurance fund its share of the fee
+        for (const step of steps.slice(1, 4)) {
+            expect(getChange(step, "SAND.marketPrice")).to.be.gt(0)
+            expect(getChange(step, "account1.SAND.positionSize")).to.be.gt(0)
+            expect(getChange(step, "account1.SAND.openNotional")).to.be.eq(parseEther("-6300"))
+            expect(getChange(step, "insuranceFund.capacity")).to.be.eq(parseEther("0.63"))
+        }
+        expect(steps[3].state["SAND.marketPrice"]).to.be.gte(parseEther("1.4"))
+
+        // the reverted call changes nothing but what the time does
+        expect(getChange(steps[4], "SAND.marketPrice")).to.be.undefined
+        expect(getChange(steps[4], "account1.SAND.positionSize")).to.be.undefined
+        expect(getChange(steps[4], "SAND.markPrice")).to.be.gt(0)
+
+        // account2's order takes the position of account1 when closing
+        const closing = steps[7]
+        expect(closing.state["account1.SAND.positionSize"]).to.be.eq(0)
+        expect(getChange(closing, "account2.SAND.positionSize")).to.be.gt(0)
+        expect(getChange(closing, "account1.owedRealizedPnl")).to.be.gt(0)
+        expect(getChange(closing, "account2.accountValue")).to.be.lt(0)
+
+        // expectations don't change the state
+        expect(steps[8].diff).to.be.empty
+        expect(steps[9].diff).to.be.empty
+
+        expect(formatReplayResult({ ...result, steps: [closing] })).to.include(
+            "call 7 at 105s (closePosition account1 SAND)\n  SAND.marketPrice",
+        )
+    })
+
+    it("diffs the keys of both states", async () => {
+        const before = { a: parseEther("1"), b: parseEther("2"), c: parseEther("3") }
+        const after = { a: parseEther("1"), b: parseEther("1"), d: parseEther("4") }
+        expect(
+            diffReplayState(before, after).map(change => [
+                change.key,
+                change.before.toString(),
+                change.after.toString(),
+            ]),
+        ).to.be.deep.eq([
+            ["b", parseEther("2").toString(), parseEther("1").toString()],
+            ["c", parseEther("3").toString(), "0"],
+            ["d", "0", parseEther("4").toString()],
+        ])
+    })
+
+    it("force error, calls out of order", async () => {
+        const definition: ReplayDefinition = {
+            name: "out of order",
+            markets: { ETH: { initPrice: "100" } },
+            actors: { maker: { collateral: 100000 } },
+            calls: [
+                { timestamp: 10, step: { action: "deposit", actor: "maker", amount: 1 } },
+                { timestamp: 5, step: { action: "deposit", actor: "maker", amount: 1 } },
+            ],
+        }
+        const error = await runReplay(definition).catch(error => error)
+        expect(error.message).to.be.eq("call 1 (deposit) is at 5, before the previous call")
+    })
+
+    it("force error, an actor named after a market", async () => {
+        const definition: ReplayDefinition = {
+            name: "ambiguous names",
+            markets: { ETH: { initPrice: "100" } },
+            actors: { ETH: { collateral: 100000 } },
+            calls: [],
+        }
+        const error = await runReplay(definition).catch(error => error)
+        expect(error.message).to.be.eq(
+            "the actor ETH should be named differently from the markets and the insurance fund",
+        )
+    })
+})
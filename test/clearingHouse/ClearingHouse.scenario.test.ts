@@ -0,0 +1,120 @@
+import { expect } from "chai"
+import { getSubAccount } from "../../scripts/sdk/subAccount"
+import { runScenario, ScenarioDefinition, scenario } from "../helper/scenario"
+
+describe("ClearingHouse scenarios", () => {
+    it("takers long, the same as ClearingHouse getTotalUnrealizedPnl & getAccountValue", async () => {
+        await scenario()
+            .market("ETH", { initPrice: "100" })
+            .actor("maker", { collateral: 1000000 })
+            .actor("taker", { collateral: 10000 })
+            .actor("taker2", { collateral: 10000 })
+            .addLiquidity("maker", "ETH", "100", "10000", 0, 100000)
+            .trade("q2bExactInput", "taker", "ETH", "100")
+            // mock mark price to make calculation simpler
+            .setMarkPrice("ETH", "101.855079")
+            // position value = 0.980943170969551031 * 101.855079 = 99.9140441736
+            // pnl = -100 + 99.9140441736 = -0.0859558264
+            .expect("taker", {
+                unrealizedPnl: "-0.085955826385873143",
+                accountValue: { closeTo: "9999.914044", delta: "0.000000000000000001" },
+                markets: { ETH: { positionSize: "0.980943170969551031", openNotional: "-100" } },
+            })
+            .trade("q2bExactInput", "taker2", "ETH", "100")
+            .setMarkPrice("ETH", "103.727208")
+            // position value = 0.980943170969551031 * 103.727208 = 101.7504963313
+            // pnl = -100 + 101.7504963313 = 1.7504963313
+            .expect("taker", {
+                unrealizedPnl: "1.750496331338181459",
+                accountValue: { closeTo: "10001.750496", delta: "0.000000000000000001" },
+                markets: { ETH: { openNotional: "-100" } },
+            })
+            .run()
+    })
+
+    it("pays funding and realizes pnl across markets", async () => {
+        const context = await scenario()
+            .market("ETH", { initPrice: "151.3733069" })
+            .market("BTC", { initPrice: "151.3733069", exFeeRatio: 3000 })
+            .actor("maker", { collateral: 1000000 })
+            .actor("alice", { collateral: 1000 })
+            .addLiquidity("maker", "ETH", "100", "15000", 49000, 51400)
+            .addLiquidity("maker", "BTC", "100", "15000", 49000, 51400)
+            .trade("q2bExactInput", "alice", "ETH", "300")
+            .trade("b2qExactInput", "alice", "BTC", "1")
+            // the market price of ETH is above the index price and the one of BTC below,
+            // so alice pays funding as a long in ETH and as a short in BTC
+            .setIndexPrice("ETH", "150")
+            .setIndexPrice("BTC", "155")
+            .forward(3600)
+            .expect("alice", {
+                markets: {
+                    ETH: { pendingFundingPayment: { gt: "0" } },
+                    BTC: { positionSize: "-1", pendingFundingPayment: { gt: "0" } },
+                },
+            })
+            .closePosition("alice", "ETH")
+            .expect("alice", {
+                // fees and funding payments
+                owedRealizedPnl: { lt: "0" },
+                markets: { ETH: { positionSize: "0", openNotional: "0", pendingFundingPayment: "0" } },
+            })
+            .expectRevert("V_NEFC", { action: "withdraw", actor: "alice", amount: 1000 })
+            .step({ action: "syncIndexPrice", market: "BTC" }, { action: "syncMarkPrice", market: "BTC" })
+            .closePosition("alice", "BTC")
+            .step({ action: "withdraw", actor: "alice", amount: 900 })
+            .removeLiquidity("maker", "ETH", 49000, 51400, 0.5e6)
+            .expect("maker", { owedRealizedPnl: { gt: "0" } })
+            .run()
+
+        // the context exposes the fixture for assertions beyond the dsl
+        const alice = context.wallets["alice"].address
+        expect(await context.accountBalance.getBaseTokens(alice)).to.be.empty
+        expect(
+            await context.fixture.orderBook.getOpenOrderIds(
+                context.wallets["maker"].address,
+                context.baseTokens["ETH"],
+            ),
+        ).to.have.length(1)
+    })
+
+    it("isolates the positions of sub-accounts", async () => {
+        const context = await scenario()
+            .market("ETH", { initPrice: "100" })
+            .actor("maker", { collateral: 1000000 })
+            .actor("alice", { collateral: 1000 })
+            .subAccount("aliceEth", "alice", 1, { collateral: 100 })
+            .addLiquidity("maker", "ETH", "1000", "100000")
+            .transfer("alice", "aliceEth", 50)
+            .trade("q2bExactInput", "aliceEth", "ETH", "1000")
+            .expect("aliceEth", { freeCollateral: { lt: "50" }, markets: { ETH: { positionSize: { gt: "9" } } } })
+            .expect("alice", { freeCollateral: "950", markets: { ETH: { positionSize: "0" } } })
+            // the collateral of alice's cross margin account doesn't count
+            .expectRevert("CH_NEFCI", { action: "q2bExactInput", actor: "aliceEth", market: "ETH", amount: "600" })
+            .closePosition("aliceEth", "ETH")
+            .transfer("aliceEth", "alice", 100)
+            .expect("alice", { freeCollateral: "1050" })
+            .run()
+
+        expect(context.accounts["aliceEth"]).to.be.eq(getSubAccount(context.wallets["alice"].address, 1))
+    })
+
+    it("runs scenarios written as plain data", async () => {
+        // the same shape can be loaded from a json file
+        const definition: ScenarioDefinition = {
+            markets: { ETH: { initPrice: "10" } },
+            actors: { maker: { collateral: 100000 }, taker: { collateral: 10 } },
+            steps: [
+                { action: "addLiquidity", actor: "maker", market: "ETH", base: "1000", quote: "10000" },
+                { action: "q2bExactOutput", actor: "taker", market: "ETH", amount: "1" },
+                { action: "expect", actor: "taker", markets: { ETH: { positionSize: "1" } } },
+                {
+                    action: "expectRevert",
+                    reason: "CH_NEFCI",
+                    step: { action: "q2bExactInput", actor: "taker", market: "ETH", amount: "200" },
+                },
+            ],
+        }
+        await runScenario(definition)
+    })
+})
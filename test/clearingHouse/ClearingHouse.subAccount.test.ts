@@ -0,0 +1,208 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { getMarketSubAccountId, getSubAccount } from "../../scripts/sdk/subAccount"
+import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import { addOrder, closePosition, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { withdrawAll } from "../helper/vaultHelper"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { ClearingHouseWithDelegateApprovalFixture, createClearingHouseWithDelegateApprovalFixture } from "./fixtures"
+
+describe("ClearingHouse isolated sub-accounts", () => {
+    const [admin, maker, alice, bob] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseWithDelegateApprovalFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let usdc: TestERC20
+    let baseToken: BaseToken
+    let mockedPriceFeedDispatcher: MockContract
+    let aliceSubAccount: string
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseWithDelegateApprovalFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        usdc = fixture.USDC
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        const { minTick, maxTick } = await initMarket(fixture, "151.3733069", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "151")
+
+        await mintAndDeposit(fixture, maker, 10_000_000)
+        await addOrder(fixture, maker, 1000, 151373, minTick, maxTick)
+
+        await mintAndDeposit(fixture, alice, 1000)
+        aliceSubAccount = getSubAccount(alice.address, 1)
+    })
+
+    it("derives sub-account addresses the same as Vault", async () => {
+        expect(await vault.getSubAccount(alice.address, 0)).to.be.eq(alice.address)
+        expect(await vault.getSubAccount(alice.address, 1)).to.be.eq(aliceSubAccount)
+        expect(aliceSubAccount).to.be.not.eq(getSubAccount(bob.address, 1))
+
+        const marketSubAccountId = getMarketSubAccountId(baseToken.address)
+        expect(await vault.getSubAccount(alice.address, marketSubAccountId)).to.be.eq(
+            getSubAccount(alice.address, marketSubAccountId),
+        )
+    })
+
+    describe("transferBetweenSubAccounts", () => {
+        it("transfers collateral between the accounts of the sender", async () => {
+            expect(await vault.getSubAccountOwner(aliceSubAccount)).to.be.eq(ethers.constants.AddressZero)
+
+            await expect(vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, parseUnits("300", 6)))
+                .to.emit(vault, "SubAccountTransferred")
+                .withArgs(alice.address, usdc.address, 0, 1, parseUnits("300", 6))
+            expect(await vault.getSubAccountOwner(aliceSubAccount)).to.be.eq(alice.address)
+            expect(await vault.getBalance(alice.address)).to.be.eq(parseUnits("700", 6))
+            expect(await vault.getBalance(aliceSubAccount)).to.be.eq(parseUnits("300", 6))
+            expect(await vault.getFreeCollateral(aliceSubAccount)).to.be.eq(parseUnits("300", 6))
+
+            // between two sub-accounts
+            await vault.connect(alice).transferBetweenSubAccounts(usdc.address, 1, 2, parseUnits("100", 6))
+            expect(await vault.getBalance(aliceSubAccount)).to.be.eq(parseUnits("200", 6))
+            expect(await vault.getBalance(getSubAccount(alice.address, 2))).to.be.eq(parseUnits("100", 6))
+
+            // withdrawn through the cross margin account
+            await withdrawAll(fixture, alice, 1)
+            expect(await vault.getBalance(aliceSubAccount)).to.be.eq(0)
+            expect(await vault.getBalance(alice.address)).to.be.eq(parseUnits("700", 6))
+            expect(await usdc.balanceOf(alice.address)).to.be.eq(parseUnits("200", 6))
+        })
+
+        it("force error, invalid transfers", async () => {
+            await expect(
+                vault.connect(alice).transferBetweenSubAccounts(usdc.address, 1, 1, parseUnits("100", 6)),
+            ).to.be.revertedWith("V_SSA")
+            await expect(vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, 0)).to.be.revertedWith(
+                "V_ZA",
+            )
+            await expect(
+                vault.connect(alice).transferBetweenSubAccounts(baseToken.address, 0, 1, parseUnits("100", 6)),
+            ).to.be.revertedWith("V_OSCT")
+            await expect(
+                vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, parseUnits("1000.1", 6)),
+            ).to.be.revertedWith("V_NEFC")
+
+            // bob's sub-account 1 is a different account from alice's
+            await vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, parseUnits("100", 6))
+            await expect(
+                vault.connect(bob).transferBetweenSubAccounts(usdc.address, 1, 0, parseUnits("100", 6)),
+            ).to.be.revertedWith("V_NEFC")
+        })
+
+        it("force error, cannot transfer the collateral required by positions", async () => {
+            await vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, parseUnits("100", 6))
+            await q2bExactInput(fixture, alice, 500, baseToken.address, 1)
+
+            const freeCollateral = await vault.getFreeCollateral(aliceSubAccount)
+            expect(freeCollateral).to.be.lt(parseUnits("100", 6))
+            await expect(
+                vault.connect(alice).transferBetweenSubAccounts(usdc.address, 1, 0, freeCollateral.add(1)),
+            ).to.be.revertedWith("V_NEFC")
+            await vault.connect(alice).transferBetweenSubAccounts(usdc.address, 1, 0, freeCollateral)
+        })
+    })
+
+    describe("depositToSubAccount", () => {
+        it("registers the sub-account so that its owner can trade for it right away", async () => {
+            await usdc.mint(alice.address, parseUnits("100", 6))
+            await usdc.connect(alice).approve(vault.address, parseUnits("100", 6))
+            await expect(vault.connect(alice).depositToSubAccount(usdc.address, 1, parseUnits("100", 6)))
+                .to.emit(vault, "Deposited")
+                .withArgs(usdc.address, aliceSubAccount, parseUnits("100", 6))
+            expect(await vault.getSubAccountOwner(aliceSubAccount)).to.be.eq(alice.address)
+            expect(await vault.getBalance(aliceSubAccount)).to.be.eq(parseUnits("100", 6))
+
+            await q2bExactInput(fixture, alice, 500, baseToken.address, 1)
+            expect(await accountBalance.getTakerPositionSize(aliceSubAccount, baseToken.address)).to.be.gt(0)
+        })
+
+        it("force error, depositFor a sub-account address doesn't register it", async () => {
+            await usdc.mint(alice.address, parseUnits("100", 6))
+            await usdc.connect(alice).approve(vault.address, parseUnits("100", 6))
+            await vault.connect(alice).depositFor(aliceSubAccount, usdc.address, parseUnits("100", 6))
+            expect(await vault.getSubAccountOwner(aliceSubAccount)).to.be.eq(ethers.constants.AddressZero)
+            await expect(q2bExactInput(fixture, alice, 500, baseToken.address, 1)).to.be.revertedWith("CH_SHNAOPT")
+        })
+    })
+
+    describe("trading", () => {
+        beforeEach(async () => {
+            await vault.connect(alice).transferBetweenSubAccounts(usdc.address, 0, 1, parseUnits("100", 6))
+        })
+
+        it("keeps positions and free collateral of sub-accounts isolated", async () => {
+            await q2bExactInput(fixture, alice, 500, baseToken.address, 1)
+
+            const subAccountPositionSize = await accountBalance.getTakerPositionSize(aliceSubAccount, baseToken.address)
+            expect(subAccountPositionSize).to.be.gt(0)
+            expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+            // the cross margin account doesn't back the position of the sub-account
+            expect(await vault.getFreeCollateral(alice.address)).to.be.eq(parseUnits("900", 6))
+            expect(await clearingHouse.getAccountValue(alice.address)).to.be.eq(parseEther("900"))
+
+            // the imRatio is 10%, so the sub-account can't open more than 10x of its own collateral
+            await expect(q2bExactInput(fixture, alice, 600, baseToken.address, 1)).to.be.revertedWith("CH_NEFCI")
+
+            await closePosition(fixture, alice, 0, baseToken.address, 1)
+            expect(await accountBalance.getTakerPositionSize(aliceSubAccount, baseToken.address)).to.be.eq(0)
+        })
+
+        it("force error, only the owner trades for sub-accounts", async () => {
+            await expect(
+                clearingHouse.connect(bob).openPositionFor(aliceSubAccount, {
+                    baseToken: baseToken.address,
+                    isBaseToQuote: false,
+                    isExactInput: true,
+                    oppositeAmountBound: 0,
+                    amount: parseEther("100"),
+                    sqrtPriceLimitX96: 0,
+                    deadline: ethers.constants.MaxUint256,
+                    referralCode: ethers.constants.HashZero,
+                }),
+            ).to.be.revertedWith("CH_SHNAOPT")
+        })
+
+        it("liquidates a sub-account without touching the cross margin account", async () => {
+            // alice's cross margin account holds a small long as well
+            await q2bExactInput(fixture, alice, 100, baseToken.address)
+            await q2bExactInput(fixture, alice, 800, baseToken.address, 1)
+            const crossPositionSize = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+            const subAccountPositionSize = await accountBalance.getTakerPositionSize(aliceSubAccount, baseToken.address)
+
+            await mockMarkPrice(accountBalance, baseToken.address, "141")
+            await mockIndexPrice(mockedPriceFeedDispatcher, "141")
+            expect(await clearingHouse.getAccountValue(aliceSubAccount)).to.be.lt(
+                await accountBalance.getMarginRequirementForLiquidation(aliceSubAccount),
+            )
+            expect(await clearingHouse.getAccountValue(alice.address)).to.be.gt(
+                await accountBalance.getMarginRequirementForLiquidation(alice.address),
+            )
+
+            await mintAndDeposit(fixture, bob, 10000)
+            await expect(
+                clearingHouse.connect(bob)["liquidate(address,address)"](alice.address, baseToken.address),
+            ).to.be.revertedWith("CH_EAV")
+            await expect(
+                clearingHouse.connect(bob)["liquidate(address,address)"](aliceSubAccount, baseToken.address),
+            ).to.emit(clearingHouse, "PositionLiquidated")
+
+            // the margin ratio is above half of the mmRatio, so half of the position is liquidated
+            expect(await accountBalance.getTakerPositionSize(aliceSubAccount, baseToken.address)).to.be.eq(
+                subAccountPositionSize.div(2),
+            )
+            expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(
+                crossPositionSize,
+            )
+            expect(await vault.getBalance(alice.address)).to.be.eq(parseUnits("900", 6))
+        })
+    })
+})
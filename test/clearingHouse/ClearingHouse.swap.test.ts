@@ -2,9 +2,18 @@ import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
+import {
+    isOverPriceLimitWithTick,
+    loadPoolState,
+    loadPriceLimitConfig,
+    loadSwapFeeConfig,
+    simulateSwap,
+    SimulateSwapParams,
+} from "../../scripts/accounting/swapSimulator"
 import { AccountBalance, BaseToken, TestClearingHouse, TestERC20, Vault } from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
+import { forwardBothTimestamps } from "../shared/time"
 import { mockIndexPrice } from "../shared/utilities"
 import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
 
@@ -290,4 +299,128 @@ describe("ClearingHouse.swap", () => {
             })
         })
     })
+    describe("swap simulator", () => {
+        beforeEach(async () => {
+            await collateral.mint(bob.address, parseUnits("10000", collateralDecimals))
+            await deposit(bob, vault, 10000, collateral)
+
+            // carol provides concentrated liquidity around the market price so that swaps cross initialized ticks
+            await collateral.mint(carol.address, parseUnits("10000", collateralDecimals))
+            await deposit(carol, vault, 10000, collateral)
+            for (const order of [
+                { lowerTick: 22600, upperTick: 23000, base: "0", quote: "50" },
+                { lowerTick: 23000, upperTick: 23400, base: "5", quote: "50" },
+                { lowerTick: 22800, upperTick: 23200, base: "5", quote: "50" },
+            ]) {
+                await clearingHouse.connect(carol).addLiquidity({
+                    ...order,
+                    baseToken: baseToken.address,
+                    base: parseEther(order.base),
+                    quote: parseEther(order.quote),
+                    minBase: 0,
+                    minQuote: 0,
+                    useTakerBalance: false,
+                    deadline: ethers.constants.MaxUint256,
+                })
+            }
+            // only the price limit is in the scope of these tests
+            await fixture.marketRegistry.setMarketMaxPriceSpreadRatio(baseToken.address, 1e6 - 1)
+        })
+
+        async function expectSimulatedSwap(params: SimulateSwapParams, feeDiscountRatio = 0) {
+            const poolState = await loadPoolState(fixture.pool)
+            const feeConfig = await loadSwapFeeConfig(fixture.marketRegistry, baseToken.address, feeDiscountRatio)
+            const simulated = simulateSwap(poolState, params, feeConfig)
+
+            const response = await clearingHouse.connect(bob).callStatic.swap({
+                baseToken: baseToken.address,
+                sqrtPriceLimitX96: 0,
+                ...params,
+            })
+            expect(simulated.base).to.be.eq(response.base)
+            expect(simulated.quote).to.be.eq(response.quote)
+            expect(simulated.exchangedPositionSize).to.be.eq(response.exchangedPositionSize)
+            expect(simulated.exchangedPositionNotional).to.be.eq(response.exchangedPositionNotional)
+            expect(simulated.fee).to.be.eq(response.fee)
+            expect(simulated.insuranceFundFee).to.be.eq(response.insuranceFundFee)
+            expect(simulated.sqrtPriceX96).to.be.eq(response.sqrtPriceAfterX96)
+            expect(simulated.replayTick).to.be.eq(response.tick)
+
+            // the pool ends up at the simulated price as well
+            await clearingHouse.connect(bob).swap({ baseToken: baseToken.address, sqrtPriceLimitX96: 0, ...params })
+            const slot0 = await fixture.pool.slot0()
+            expect(simulated.sqrtPriceX96).to.be.eq(slot0.sqrtPriceX96)
+            expect(simulated.tick).to.be.eq(slot0.tick)
+            return simulated
+        }
+
+        it("matches swaps of all directions", async () => {
+            await expectSimulatedSwap({ isBaseToQuote: true, isExactInput: true, amount: parseEther("1") })
+            await expectSimulatedSwap({ isBaseToQuote: true, isExactInput: false, amount: parseEther("10") })
+            await expectSimulatedSwap({ isBaseToQuote: false, isExactInput: true, amount: parseEther("10") })
+            await expectSimulatedSwap({ isBaseToQuote: false, isExactInput: false, amount: parseEther("1") })
+        })
+
+        it("matches swaps crossing initialized ticks", async () => {
+            const long = await expectSimulatedSwap({
+                isBaseToQuote: false,
+                isExactInput: true,
+                amount: parseEther("150"),
+            })
+            expect(long.steps.map(step => step.crossedTick).filter(tick => tick !== undefined)).to.deep.eq([
+                23200, 23400,
+            ])
+
+            const short = await expectSimulatedSwap({
+                isBaseToQuote: true,
+                isExactInput: false,
+                amount: parseEther("300"),
+            })
+            expect(short.steps.some(step => step.crossedTick !== undefined)).to.be.true
+        })
+
+        it("matches swaps with a different exchange fee ratio and a fee discount", async () => {
+            await fixture.marketRegistry.setFeeRatio(baseToken.address, 30000)
+            await fixture.marketRegistry.setFeeDiscountRatio(bob.address, 0.4e6)
+            const feeConfig = await loadSwapFeeConfig(fixture.marketRegistry, baseToken.address)
+            expect(
+                (await fixture.marketRegistry.getMarketInfoByTrader(bob.address, baseToken.address)).exchangeFeeRatio,
+            ).to.be.eq(feeConfig.exchangeFeeRatio * 0.6)
+
+            await expectSimulatedSwap({ isBaseToQuote: false, isExactInput: true, amount: parseEther("80") }, 0.4e6)
+            await expectSimulatedSwap({ isBaseToQuote: true, isExactInput: true, amount: parseEther("12") }, 0.4e6)
+            await expectSimulatedSwap({ isBaseToQuote: true, isExactInput: false, amount: parseEther("50") }, 0.4e6)
+            await expectSimulatedSwap({ isBaseToQuote: false, isExactInput: false, amount: parseEther("3") }, 0.4e6)
+        })
+
+        it("rejects swaps over the max tick crossed within a block", async () => {
+            await fixture.exchange.setMaxTickCrossedWithinBlock(baseToken.address, 100)
+            // settling funding records the current tick for the price limit once the interval passed
+            await forwardBothTimestamps(clearingHouse, 15)
+            await clearingHouse.connect(alice).settleAllFunding(alice.address)
+            const priceLimit = await loadPriceLimitConfig(
+                fixture.exchange,
+                baseToken.address,
+                (
+                    await fixture.pool.slot0()
+                ).tick,
+            )
+
+            const poolState = await loadPoolState(fixture.pool)
+            const feeConfig = await loadSwapFeeConfig(fixture.marketRegistry, baseToken.address)
+            const small = { isBaseToQuote: false, isExactInput: true, amount: parseEther("1") }
+            const simulated = simulateSwap(poolState, small, feeConfig, priceLimit)
+            expect(isOverPriceLimitWithTick(priceLimit, simulated.replayTick)).to.be.false
+            const response = await clearingHouse
+                .connect(bob)
+                .callStatic.swap({ baseToken: baseToken.address, sqrtPriceLimitX96: 0, ...small })
+            expect(simulated.exchangedPositionSize).to.be.eq(response.exchangedPositionSize)
+
+            const large = { isBaseToQuote: false, isExactInput: true, amount: parseEther("100") }
+            expect(() => simulateSwap(poolState, large, feeConfig, priceLimit)).to.throw("EX_OPLAS")
+            await expect(
+                clearingHouse.connect(bob).swap({ baseToken: baseToken.address, sqrtPriceLimitX96: 0, ...large }),
+            ).to.be.revertedWith("EX_OPLAS")
+        })
+    })
 })
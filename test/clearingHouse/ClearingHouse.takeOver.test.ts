@@ -1,7 +1,7 @@
 import { MockContract } from "@eth-optimism/smock"
 import bn from "bignumber.js"
 import { expect } from "chai"
-import { Wallet } from "ethers"
+import { BigNumber, Wallet } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
 import {
@@ -773,6 +773,138 @@ describe("ClearingHouse takeOver (liquidate)", () => {
                 expect((await _getMarginRatio(bob)).eq(0)).to.be.true
             })
         })
+
+        describe("liquidation auction: the penalty ratio rises from 1% to 2.5% in 10 minutes", () => {
+            // bob's position size 0.989984344318166945, half of it is liquidated at the mark price of 900
+            const liquidatedPositionNotional = parseEther("445.492954943175124800")
+
+            async function expectLiquidationFee(liquidationFee: BigNumber) {
+                const tx = await (
+                    await clearingHouse.connect(davis)["liquidate(address,address)"](bob.address, baseToken.address)
+                ).wait()
+                const positionLiquidated = findEvent(tx, clearingHouse, "PositionLiquidated")
+                expect(positionLiquidated.args.positionNotional).to.be.eq(liquidatedPositionNotional)
+                expect(positionLiquidated.args.liquidationFee).to.be.eq(liquidationFee)
+
+                // bob has no bad debt, the liquidator and insurance fund share the penalty
+                const pnlRealizedIf = findEvent(tx, accountBalance, "PnlRealized", 3)
+                expect(pnlRealizedIf.args.trader).to.be.eq(insuranceFund.address)
+                expect(pnlRealizedIf.args.amount).to.be.eq(liquidationFee.sub(liquidationFee.div(2)))
+            }
+
+            beforeEach(async () => {
+                await fixture.clearingHouseConfig.setLiquidationAuction(baseToken.address, 10000, 600)
+                await mintAndDeposit(fixture, davis, 1000)
+            })
+
+            it("force error, bob is not liquidatable yet", async () => {
+                await expect(accountBalance.connect(alice).startLiquidationAuction(bob.address)).to.be.revertedWith(
+                    "AB_NL",
+                )
+                await expect(accountBalance.connect(alice).stopLiquidationAuction(bob.address)).to.be.revertedWith(
+                    "AB_LANS",
+                )
+            })
+
+            describe("bob's margin ratio drops between 3.125% and 6.25%", () => {
+                beforeEach(async () => {
+                    await mockMarkPrice(accountBalance, baseToken.address, "900")
+                })
+
+                it("liquidates at the start penalty ratio if the auction is not started", async () => {
+                    expect(await accountBalance.getLiquidationPenaltyRatio(bob.address, baseToken.address)).to.be.eq(
+                        10000,
+                    )
+                    // 445.4929549431751248 * 1%
+                    await expectLiquidationFee(parseEther("4.454929549431751248"))
+                })
+
+                it("the penalty ratio rises since the auction started", async () => {
+                    const startedAt = await accountBalance.getBlockTimestamp()
+                    await expect(accountBalance.connect(alice).startLiquidationAuction(bob.address))
+                        .to.emit(accountBalance, "LiquidationAuctionStarted")
+                        .withArgs(bob.address, startedAt)
+                    expect(await accountBalance.getLiquidationAuctionStartedAt(bob.address)).to.be.eq(startedAt)
+
+                    await forwardBothTimestamps(clearingHouse, 300)
+                    // 1% + (2.5% - 1%) * 300 / 600
+                    expect(await accountBalance.getLiquidationPenaltyRatio(bob.address, baseToken.address)).to.be.eq(
+                        17500,
+                    )
+                    // 445.4929549431751248 * 1.75%
+                    await expectLiquidationFee(parseEther("7.796126711505564684"))
+                })
+
+                it("liquidates at the fixed penalty ratio once the auction ends", async () => {
+                    await accountBalance.connect(alice).startLiquidationAuction(bob.address)
+                    await forwardBothTimestamps(clearingHouse, 900)
+
+                    // 445.4929549431751248 * 2.5%
+                    await expectLiquidationFee(parseEther("11.137323873579378120"))
+                })
+
+                it("the market without an auction liquidates at the fixed penalty ratio", async () => {
+                    await fixture.clearingHouseConfig.setLiquidationAuction(baseToken.address, 0, 0)
+                    await expectLiquidationFee(parseEther("11.137323873579378120"))
+                })
+
+                it("force error, the auction is started", async () => {
+                    await accountBalance.connect(alice).startLiquidationAuction(bob.address)
+                    await expect(accountBalance.connect(alice).startLiquidationAuction(bob.address)).to.be.revertedWith(
+                        "AB_LAS",
+                    )
+                })
+
+                it("stops the auction once bob is not liquidatable", async () => {
+                    await accountBalance.connect(alice).startLiquidationAuction(bob.address)
+                    await expect(accountBalance.connect(alice).stopLiquidationAuction(bob.address)).to.be.revertedWith(
+                        "AB_L",
+                    )
+
+                    await mintAndDeposit(fixture, bob, 100)
+                    await expect(accountBalance.connect(bob).stopLiquidationAuction(bob.address))
+                        .to.emit(accountBalance, "LiquidationAuctionStopped")
+                        .withArgs(bob.address)
+                    expect(await accountBalance.getLiquidationAuctionStartedAt(bob.address)).to.be.eq(0)
+                })
+
+                it("the liquidation that recovers bob stops the auction, the next one starts over", async () => {
+                    await accountBalance.connect(alice).startLiquidationAuction(bob.address)
+                    await forwardBothTimestamps(clearingHouse, 900)
+
+                    // half of the position is liquidated and bob is above the maintenance margin again
+                    await expect(
+                        clearingHouse.connect(davis)["liquidate(address,address)"](bob.address, baseToken.address),
+                    )
+                        .to.emit(accountBalance, "LiquidationAuctionStopped")
+                        .withArgs(bob.address)
+                    expect(await accountBalance.getLiquidationAuctionStartedAt(bob.address)).to.be.eq(0)
+
+                    // bob is liquidatable again at a lower price, at the start penalty ratio
+                    await mockMarkPrice(accountBalance, baseToken.address, "800")
+                    expect(await accountBalance.getLiquidationPenaltyRatio(bob.address, baseToken.address)).to.be.eq(
+                        10000,
+                    )
+                    await expect(accountBalance.connect(alice).startLiquidationAuction(bob.address)).to.emit(
+                        accountBalance,
+                        "LiquidationAuctionStarted",
+                    )
+                })
+
+                it("keeps the auction while bob is still liquidatable after a liquidation", async () => {
+                    await accountBalance.connect(alice).startLiquidationAuction(bob.address)
+                    const startedAt = await accountBalance.getLiquidationAuctionStartedAt(bob.address)
+
+                    // the position is liquidated by a small size at a time
+                    await expect(
+                        clearingHouse
+                            .connect(davis)
+                            ["liquidate(address,address,int256)"](bob.address, baseToken.address, parseEther("0.01")),
+                    ).not.to.emit(accountBalance, "LiquidationAuctionStopped")
+                    expect(await accountBalance.getLiquidationAuctionStartedAt(bob.address)).to.be.eq(startedAt)
+                })
+            })
+        })
     })
 
     describe("single market: bob has ETH short", () => {
@@ -9,6 +9,7 @@ import {
     DelegateApproval,
     Exchange,
     InsuranceFund,
+    LimitOrderBook,
     MarketRegistry,
     OrderBook,
     TestClearingHouse,
@@ -72,6 +73,7 @@ export interface ClearingHouseWithDelegateApprovalFixture extends ClearingHouseF
     notExistedAction2: number
     limitOrderBook: TestLimitOrderBook
     limitOrderBook2: TestLimitOrderBook
+    nativeLimitOrderBook: LimitOrderBook
 }
 
 interface UniswapV3BrokerFixture {
@@ -489,6 +491,10 @@ export function createClearingHouseWithDelegateApprovalFixture(): () => Promise<
         const testLimitOrderBook = await testLimitOrderBookFactory.deploy(clearingHouse.address)
         const testLimitOrderBook2 = await testLimitOrderBookFactory.deploy(clearingHouse.address)
 
+        const limitOrderBookFactory = await ethers.getContractFactory("LimitOrderBook")
+        const limitOrderBook = (await limitOrderBookFactory.deploy()) as LimitOrderBook
+        await limitOrderBook.initialize(clearingHouse.address)
+
         await clearingHouse.setDelegateApproval(delegateApproval.address)
 
         return {
@@ -501,6 +507,7 @@ export function createClearingHouseWithDelegateApprovalFixture(): () => Promise<
             notExistedAction2: 128,
             limitOrderBook: testLimitOrderBook,
             limitOrderBook2: testLimitOrderBook2,
+            nativeLimitOrderBook: limitOrderBook,
         }
     }
 }
@@ -1,13 +1,35 @@
+import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
-import { waffle } from "hardhat"
-import { DelegateApproval, TestLimitOrderBook } from "../../typechain"
+import { parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import {
+    createLimitOrder,
+    getLimitOrderHash,
+    LimitOrder,
+    LimitOrderKeeper,
+    OrderType,
+    signLimitOrder,
+} from "../../scripts/sdk/limitOrder"
+import {
+    BaseToken,
+    DelegateApproval,
+    LimitOrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestLimitOrderBook,
+} from "../../typechain"
 import {
     ClearingHouseWithDelegateApprovalFixture,
     createClearingHouseWithDelegateApprovalFixture,
 } from "../clearingHouse/fixtures"
+import { b2qExactInput, q2bExactOutput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { priceToTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { mockIndexPrice, syncIndexToMarketPrice } from "../shared/utilities"
 
 describe("DelegateApproval test", async () => {
-    const [admin, trader] = waffle.provider.getWallets()
+    const [admin, trader, maker, keeper] = waffle.provider.getWallets()
     const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
 
     let fixture: ClearingHouseWithDelegateApprovalFixture
@@ -420,4 +442,357 @@ describe("DelegateApproval test", async () => {
             ).to.revertedWith("DA_IA")
         })
     })
+
+    describe("LimitOrderBook", () => {
+        let clearingHouse: TestClearingHouse
+        let accountBalance: TestAccountBalance
+        let baseToken: BaseToken
+        let mockedPriceFeedDispatcher: MockContract
+        let nativeLimitOrderBook: LimitOrderBook
+        let orderKeeper: LimitOrderKeeper
+
+        beforeEach(async () => {
+            clearingHouse = fixture.clearingHouse as TestClearingHouse
+            accountBalance = fixture.accountBalance as TestAccountBalance
+            baseToken = fixture.baseToken
+            mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+            nativeLimitOrderBook = fixture.nativeLimitOrderBook
+            orderKeeper = await LimitOrderKeeper.create(nativeLimitOrderBook.connect(keeper))
+
+            const tickSpacing = await fixture.pool.tickSpacing()
+            await initMarket(fixture, "2960", undefined, 0)
+            await syncIndexToMarketPrice(mockedPriceFeedDispatcher, fixture.pool)
+
+            await mintAndDeposit(fixture, maker, 1_000_000_000_000)
+            await clearingHouse.connect(maker).addLiquidity({
+                baseToken: baseToken.address,
+                base: parseEther("3000"),
+                quote: parseEther("10000000"),
+                lowerTick: priceToTick(2900, tickSpacing),
+                upperTick: priceToTick(3100, tickSpacing),
+                minBase: 0,
+                minQuote: 0,
+                useTakerBalance: false,
+                deadline: ethers.constants.MaxUint256,
+            })
+
+            await mintAndDeposit(fixture, trader, 1000)
+        })
+
+        // buys base with 600 quote at a price no higher than 3000, i.e. for at least 0.2 base
+        function createLongLimitOrder(params: Partial<LimitOrder> = {}): LimitOrder {
+            return createLimitOrder({
+                orderType: OrderType.Limit,
+                trader: trader.address,
+                baseToken: baseToken.address,
+                isBaseToQuote: false,
+                isExactInput: true,
+                amount: parseEther("600"),
+                oppositeAmountBound: parseEther("0.2"),
+                ...params,
+            })
+        }
+
+        async function approveLimitOrderBook(): Promise<void> {
+            await delegateApproval
+                .connect(trader)
+                .approve(nativeLimitOrderBook.address, fixture.clearingHouseOpenPositionAction)
+        }
+
+        it("force error, keeper cannot fill orders unless the trader approves", async () => {
+            const { order, signature } = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, order.amount),
+            ).to.be.revertedWith("CH_SHNAOPT")
+
+            await approveLimitOrderBook()
+            await delegateApproval
+                .connect(trader)
+                .revoke(nativeLimitOrderBook.address, fixture.clearingHouseOpenPositionAction)
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, order.amount),
+            ).to.be.revertedWith("CH_SHNAOPT")
+            expect(await nativeLimitOrderBook.getFilledAmount(await nativeLimitOrderBook.getOrderHash(order))).to.be.eq(
+                0,
+            )
+        })
+
+        it("fill a limit order partially and cancel the rest", async () => {
+            await approveLimitOrderBook()
+            const { order, signature } = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+            const orderHash = getLimitOrderHash(orderKeeper.domain, order)
+            expect(await nativeLimitOrderBook.getOrderHash(order)).to.be.eq(orderHash)
+
+            const tx = await nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("200"))
+            const receipt = await tx.wait()
+            const event = receipt.events!.find(event => event.event === "LimitOrderFilled")!
+            expect(event.args!.slice(0, 7)).to.be.deep.eq([
+                trader.address,
+                baseToken.address,
+                orderHash,
+                OrderType.Limit,
+                keeper.address,
+                parseEther("200"),
+                parseEther("200"),
+            ])
+            // 1/3 of the order is filled, which receives at least 1/3 of the opposite amount bound
+            expect(event.args!.base).to.be.gte(parseEther("0.2").div(3))
+            expect(event.args!.quote).to.be.eq(parseEther("200"))
+            // 1% of the quote, rounded up in every tick step
+            expect(event.args!.fee.sub(parseEther("2")).abs()).to.be.lte(10)
+            expect(await nativeLimitOrderBook.getFilledAmount(orderHash)).to.be.eq(parseEther("200"))
+            expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(
+                event.args!.base,
+            )
+
+            await expect(nativeLimitOrderBook.connect(keeper).cancelLimitOrder(order)).to.be.revertedWith("LOB_SNT")
+            await expect(nativeLimitOrderBook.connect(trader).cancelLimitOrder(order))
+                .to.emit(nativeLimitOrderBook, "LimitOrderCancelled")
+                .withArgs(trader.address, baseToken.address, orderHash)
+            expect(await nativeLimitOrderBook.isCancelled(orderHash)).to.be.eq(true)
+
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("200")),
+            ).to.be.revertedWith("LOB_OIC")
+            await expect(nativeLimitOrderBook.connect(trader).cancelLimitOrder(order)).to.be.revertedWith("LOB_OIC")
+        })
+
+        it("force error, fill more than the remaining amount", async () => {
+            await approveLimitOrderBook()
+            const { order, signature } = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+
+            await expect(nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, 0)).to.be.revertedWith(
+                "LOB_IFA",
+            )
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("600.1")),
+            ).to.be.revertedWith("LOB_IFA")
+
+            await nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("600"))
+            await expect(nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, 1)).to.be.revertedWith(
+                "LOB_IFA",
+            )
+        })
+
+        it("force error, price is worse than the limit price", async () => {
+            await approveLimitOrderBook()
+            // buying 0.21 base with 600 quote needs a price lower than ~2857
+            const { order, signature } = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ oppositeAmountBound: parseEther("0.21") }),
+            )
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("300")),
+            ).to.be.revertedWith("CH_TLRL")
+        })
+
+        it("force error, expired orders and invalid signatures", async () => {
+            await approveLimitOrderBook()
+            const { timestamp } = await waffle.provider.getBlock("latest")
+            const expired = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ deadline: timestamp }),
+            )
+            await expect(
+                nativeLimitOrderBook
+                    .connect(keeper)
+                    .fillLimitOrder(expired.order, expired.signature, parseEther("600")),
+            ).to.be.revertedWith("LOB_OE")
+
+            // signed by someone else
+            const order = createLongLimitOrder()
+            const { signature } = await signLimitOrder(keeper, orderKeeper.domain, order)
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("600")),
+            ).to.be.revertedWith("LOB_SINT")
+
+            // tampered after signing
+            const signed = await signLimitOrder(trader, orderKeeper.domain, order)
+            await expect(
+                nativeLimitOrderBook
+                    .connect(keeper)
+                    .fillLimitOrder({ ...order, oppositeAmountBound: 0 }, signed.signature, parseEther("600")),
+            ).to.be.revertedWith("LOB_SINT")
+
+            // a limit order with a trigger price
+            const triggered = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ triggerPrice: parseEther("3000") }),
+            )
+            await expect(
+                nativeLimitOrderBook
+                    .connect(keeper)
+                    .fillLimitOrder(triggered.order, triggered.signature, parseEther("600")),
+            ).to.be.revertedWith("LOB_ITP")
+        })
+
+        it("stop loss a long position once the index price drops to the trigger price", async () => {
+            await approveLimitOrderBook()
+            await q2bExactOutput(fixture, trader, "0.2")
+            const positionSize = await accountBalance.getTakerPositionSize(trader.address, baseToken.address)
+
+            const { order, signature } = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLimitOrder({
+                    orderType: OrderType.StopLoss,
+                    trader: trader.address,
+                    baseToken: baseToken.address,
+                    isBaseToQuote: true,
+                    isExactInput: true,
+                    amount: positionSize,
+                    // sell at a price no lower than 2700
+                    oppositeAmountBound: parseEther("540"),
+                    triggerPrice: parseEther("2800"),
+                    reduceOnly: true,
+                }),
+            )
+            expect(await nativeLimitOrderBook.isTriggered(order)).to.be.eq(false)
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, positionSize),
+            ).to.be.revertedWith("LOB_OINT")
+
+            await mockIndexPrice(mockedPriceFeedDispatcher, "2790")
+            expect(await nativeLimitOrderBook.isTriggered(order)).to.be.eq(true)
+            await expect(nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, positionSize)).to.emit(
+                nativeLimitOrderBook,
+                "LimitOrderFilled",
+            )
+            expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(0)
+        })
+
+        it("force error, reduce only orders cannot increase or flip positions", async () => {
+            await approveLimitOrderBook()
+            await q2bExactOutput(fixture, trader, "0.2")
+            await mockIndexPrice(mockedPriceFeedDispatcher, "2790")
+
+            const stopLossParams = {
+                orderType: OrderType.StopLoss,
+                trader: trader.address,
+                baseToken: baseToken.address,
+                isBaseToQuote: true,
+                isExactInput: true,
+                triggerPrice: parseEther("2800"),
+                reduceOnly: true,
+            }
+            // selling twice the position flips it into a short one
+            const flip = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLimitOrder({ ...stopLossParams, amount: parseEther("0.4"), oppositeAmountBound: 0 }),
+            )
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(flip.order, flip.signature, parseEther("0.4")),
+            ).to.be.revertedWith("LOB_NRO")
+
+            // a stop loss buy increases the long position
+            const increase = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLimitOrder({
+                    ...stopLossParams,
+                    isBaseToQuote: false,
+                    isExactInput: false,
+                    amount: parseEther("0.1"),
+                    oppositeAmountBound: 0,
+                    triggerPrice: parseEther("2700"),
+                }),
+            )
+            await expect(
+                nativeLimitOrderBook
+                    .connect(keeper)
+                    .fillLimitOrder(increase.order, increase.signature, parseEther("0.1")),
+            ).to.be.revertedWith("LOB_NRO")
+        })
+
+        it("take profit a short position once the index price drops to the trigger price", async () => {
+            await approveLimitOrderBook()
+            await b2qExactInput(fixture, trader, "0.2")
+
+            const { order, signature } = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLimitOrder({
+                    orderType: OrderType.TakeProfit,
+                    trader: trader.address,
+                    baseToken: baseToken.address,
+                    isBaseToQuote: false,
+                    isExactInput: false,
+                    amount: parseEther("0.2"),
+                    // buy at a price no higher than 3000
+                    oppositeAmountBound: parseEther("600"),
+                    triggerPrice: parseEther("2900"),
+                    reduceOnly: true,
+                }),
+            )
+            await expect(
+                nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("0.2")),
+            ).to.be.revertedWith("LOB_OINT")
+
+            await mockIndexPrice(mockedPriceFeedDispatcher, "2890")
+            await nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("0.1"))
+            expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(
+                parseEther("-0.1"),
+            )
+            await nativeLimitOrderBook.connect(keeper).fillLimitOrder(order, signature, parseEther("0.1"))
+            expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(0)
+        })
+
+        it("keeper matches the orders which can be filled", async () => {
+            await approveLimitOrderBook()
+            const { timestamp } = await waffle.provider.getBlock("latest")
+
+            const fillable = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+            const partiallyFilled = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+            await nativeLimitOrderBook
+                .connect(keeper)
+                .fillLimitOrder(partiallyFilled.order, partiallyFilled.signature, parseEther("100"))
+            const fullyFilled = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+            await nativeLimitOrderBook
+                .connect(keeper)
+                .fillLimitOrder(fullyFilled.order, fullyFilled.signature, parseEther("600"))
+            const cancelled = await signLimitOrder(trader, orderKeeper.domain, createLongLimitOrder())
+            await nativeLimitOrderBook.connect(trader).cancelLimitOrder(cancelled.order)
+            const expired = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ deadline: timestamp }),
+            )
+            const priceNotMet = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ oppositeAmountBound: parseEther("0.21") }),
+            )
+            const notTriggered = await signLimitOrder(
+                trader,
+                orderKeeper.domain,
+                createLongLimitOrder({ orderType: OrderType.StopLoss, triggerPrice: parseEther("3100") }),
+            )
+
+            const matches = await orderKeeper.match([
+                fillable,
+                partiallyFilled,
+                fullyFilled,
+                cancelled,
+                expired,
+                priceNotMet,
+                notTriggered,
+            ])
+            expect(matches.map(match => match.orderHash)).to.be.deep.eq([
+                getLimitOrderHash(orderKeeper.domain, fillable.order),
+                getLimitOrderHash(orderKeeper.domain, partiallyFilled.order),
+            ])
+            expect(matches[0].fillAmount).to.be.eq(parseEther("600"))
+            expect(matches[1].fillAmount).to.be.eq(parseEther("500"))
+
+            for (const match of matches) {
+                await orderKeeper.fill(match)
+                expect(await orderKeeper.getRemainingAmount(match.order)).to.be.eq(0)
+            }
+        })
+    })
 })
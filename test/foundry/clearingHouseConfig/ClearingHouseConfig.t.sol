@@ -142,4 +142,48 @@ contract ClearingHouseConfigTest is IClearingHouseConfigEvent, Setup, Constant {
         vm.prank(nonOwnerAddress);
         clearingHouseConfig.setMarkPricePremiumInterval(60);
     }
+
+    // setLiquidationAuction
+
+    function test_setLiquidationAuction_should_emit_event(uint24 startPenaltyRatio, uint32 duration) public {
+        vm.assume(startPenaltyRatio <= clearingHouseConfig.getLiquidationPenaltyRatio());
+
+        vm.expectEmit(true, false, false, true, address(clearingHouseConfig));
+        emit LiquidationAuctionChanged(address(baseToken), startPenaltyRatio, duration);
+        clearingHouseConfig.setLiquidationAuction(address(baseToken), startPenaltyRatio, duration);
+
+        (uint24 startPenaltyRatioAfter, uint32 durationAfter) =
+            clearingHouseConfig.getLiquidationAuction(address(baseToken));
+        assertEq(uint256(startPenaltyRatioAfter), startPenaltyRatio);
+        assertEq(uint256(durationAfter), duration);
+    }
+
+    function test_getLiquidationAuctionPenaltyRatio_rises_linearly() public {
+        clearingHouseConfig.setLiquidationPenaltyRatio(0.025e6);
+        clearingHouseConfig.setLiquidationAuction(address(baseToken), 0.01e6, 600);
+
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken), 0)), 0.01e6);
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken), 300)), 0.0175e6);
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken), 600)), 0.025e6);
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken), 6000)), 0.025e6);
+
+        // the market without the auction liquidates at the fixed ratio
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken2), 0)), 0.025e6);
+
+        // the liquidation penalty ratio is lowered below the start penalty ratio
+        clearingHouseConfig.setLiquidationPenaltyRatio(0.005e6);
+        assertEq(uint256(clearingHouseConfig.getLiquidationAuctionPenaltyRatio(address(baseToken), 0)), 0.005e6);
+    }
+
+    function test_revert_setLiquidationAuction_if_start_penalty_ratio_is_above_liquidation_penalty_ratio() public {
+        uint24 liquidationPenaltyRatio = clearingHouseConfig.getLiquidationPenaltyRatio();
+        vm.expectRevert(bytes("CHC_ISPR"));
+        clearingHouseConfig.setLiquidationAuction(address(baseToken), liquidationPenaltyRatio + 1, 600);
+    }
+
+    function test_revert_setLiquidationAuction_if_called_by_non_owner() public {
+        vm.expectRevert(bytes("SO_CNO"));
+        vm.prank(nonOwnerAddress);
+        clearingHouseConfig.setLiquidationAuction(address(baseToken), 0, 600);
+    }
 }
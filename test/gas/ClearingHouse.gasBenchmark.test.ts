@@ -0,0 +1,256 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { ContractTransaction } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { getSqrtRatioAtTick, mulRatio } from "../../scripts/accounting/math"
+import {
+    compareGasBenchmark,
+    formatGasBenchmarkTable,
+    GasBenchmarkSnapshot,
+    getGasRegressionThreshold,
+    isGasBenchmarkUpdate,
+    readGasBenchmarkBaseline,
+    writeGasBenchmarkBaseline,
+} from "../../scripts/gasBenchmark"
+import { BaseToken, TestAccountBalance, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTickRange } from "../helper/number"
+import { deposit, mintAndDeposit } from "../helper/token"
+import { token0Fixture } from "../shared/fixtures"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+
+// measures the gas of the common paths and compares it against gas-benchmark.json, see scripts/gasBenchmark.ts;
+// the numbers come from the test contracts of the fixture, which differ from the deployed ones only by the mocked time
+describe("ClearingHouse gas benchmark", () => {
+    const [admin, maker, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const marketCount = 5
+    const results: GasBenchmarkSnapshot = {}
+    let fixture: GasBenchmarkFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+
+    interface GasBenchmarkFixture extends ClearingHouseFixture {
+        baseTokens: BaseToken[]
+        mockedPriceFeedDispatchers: MockContract[]
+    }
+
+    // 5 markets at the price of 100 with full range liquidity, tick spacing 10
+    async function createGasBenchmarkFixture(): Promise<GasBenchmarkFixture> {
+        const clearingHouseFixture = await createClearingHouseFixture(true, 500)()
+        const { clearingHouse, quoteToken, uniV3Factory, uniFeeTier } = clearingHouseFixture
+        const baseTokens = [clearingHouseFixture.baseToken, clearingHouseFixture.baseToken2]
+        const mockedPriceFeedDispatchers = [
+            clearingHouseFixture.mockedPriceFeedDispatcher,
+            clearingHouseFixture.mockedPriceFeedDispatcher2,
+        ]
+        while (baseTokens.length < marketCount) {
+            const { baseToken, mockedPriceFeedDispatcher } = await token0Fixture(quoteToken.address)
+            await uniV3Factory.createPool(baseToken.address, quoteToken.address, uniFeeTier)
+            const poolAddr = await uniV3Factory.getPool(baseToken.address, quoteToken.address, uniFeeTier)
+            await baseToken.addWhitelist(poolAddr)
+            await quoteToken.addWhitelist(poolAddr)
+            await baseToken.mintMaximumTo(clearingHouse.address)
+            await baseToken.addWhitelist(clearingHouse.address)
+            baseTokens.push(baseToken)
+            mockedPriceFeedDispatchers.push(mockedPriceFeedDispatcher)
+        }
+
+        await mintAndDeposit(clearingHouseFixture, maker, 10000000)
+        for (let i = 0; i < marketCount; i++) {
+            const { minTick, maxTick } = await initMarket(
+                clearingHouseFixture,
+                "100",
+                1000,
+                100000,
+                getMaxTickRange(),
+                baseTokens[i].address,
+            )
+            await mockIndexPrice(mockedPriceFeedDispatchers[i], "100")
+            await addOrder(clearingHouseFixture, maker, 10000, 1000000, minTick, maxTick, false, baseTokens[i].address)
+        }
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse as TestClearingHouse)
+        return { ...clearingHouseFixture, baseTokens, mockedPriceFeedDispatchers }
+    }
+
+    function pluralize(count: number, noun: string): string {
+        return `${count} ${noun}${count === 1 ? "" : "s"}`
+    }
+
+    async function measure(path: string, tx: Promise<ContractTransaction>): Promise<void> {
+        const receipt = await (await tx).wait()
+        results[path] = receipt.gasUsed.toNumber()
+    }
+
+    // the initialized tick at or below the market price and the tick spacing
+    async function getTickRange(): Promise<{ tick: number; tickSpacing: number }> {
+        const tickSpacing = await pool.tickSpacing()
+        const { tick } = await pool.slot0()
+        return { tick: Math.floor(tick / tickSpacing) * tickSpacing, tickSpacing }
+    }
+
+    // alice places the given number of adjacent orders right above the market price, one tick spacing each
+    async function addOrdersAbove(count: number): Promise<void> {
+        const { tick, tickSpacing } = await getTickRange()
+        for (let i = 1; i <= count; i++) {
+            await addOrder(fixture, alice, 1, 0, tick + i * tickSpacing, tick + (i + 1) * tickSpacing)
+        }
+    }
+
+    async function openPositionsInMarkets(count: number): Promise<void> {
+        for (let i = 1; i < count; i++) {
+            await q2bExactInput(fixture, bob, 100, fixture.baseTokens[i].address)
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createGasBenchmarkFixture)
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+
+        await mintAndDeposit(fixture, alice, 100000)
+        await mintAndDeposit(fixture, bob, 100000)
+        await mintAndDeposit(fixture, carol, 1000000)
+    })
+
+    describe("paths", () => {
+        for (const ticksCrossed of [0, 1, 5, 10]) {
+            const path = `openPosition, ${pluralize(ticksCrossed, "tick")} crossed`
+            it(path, async () => {
+                await addOrdersAbove(Math.max(ticksCrossed, 1))
+                // the swap stops right below the tick after the last one to cross
+                const { tick, tickSpacing } = await getTickRange()
+                await measure(
+                    path,
+                    clearingHouse.connect(bob).openPosition({
+                        baseToken: baseToken.address,
+                        isBaseToQuote: false,
+                        isExactInput: true,
+                        oppositeAmountBound: 0,
+                        amount: parseEther("100000"),
+                        sqrtPriceLimitX96: getSqrtRatioAtTick(tick + (ticksCrossed + 1) * tickSpacing - 1),
+                        deadline: ethers.constants.MaxUint256,
+                        referralCode: ethers.constants.HashZero,
+                    }),
+                )
+                expect((await pool.slot0()).tick).to.be.gte(tick + ticksCrossed * tickSpacing)
+            })
+        }
+
+        for (const orderCount of [1, 5, 10]) {
+            const path = `openPosition, ${pluralize(orderCount, "open order")}`
+            it(path, async () => {
+                await addOrdersAbove(orderCount)
+                await measure(path, q2bExactInput(fixture, alice, 100))
+            })
+        }
+
+        for (const count of [1, 3, 5]) {
+            const path = `openPosition, ${pluralize(count, "market")}`
+            it(path, async () => {
+                await openPositionsInMarkets(count)
+                await measure(path, q2bExactInput(fixture, bob, 100))
+                expect(await accountBalance.getBaseTokens(bob.address)).to.have.length(count)
+            })
+        }
+
+        it("addLiquidity", async () => {
+            const { tick, tickSpacing } = await getTickRange()
+            await measure("addLiquidity", addOrder(fixture, alice, 10, 1000, tick - tickSpacing, tick + tickSpacing))
+        })
+
+        it("removeLiquidity", async () => {
+            const { tick, tickSpacing } = await getTickRange()
+            const [lowerTick, upperTick] = [tick - tickSpacing, tick + tickSpacing]
+            await addOrder(fixture, alice, 10, 1000, lowerTick, upperTick)
+            // collects the fee of a taker crossing the order
+            await q2bExactInput(fixture, bob, 100)
+            const { liquidity } = await fixture.orderBook.getOpenOrder(
+                alice.address,
+                baseToken.address,
+                lowerTick,
+                upperTick,
+            )
+            await measure(
+                "removeLiquidity",
+                clearingHouse.connect(alice).removeLiquidity({
+                    baseToken: baseToken.address,
+                    lowerTick,
+                    upperTick,
+                    liquidity,
+                    minBase: 0,
+                    minQuote: 0,
+                    deadline: ethers.constants.MaxUint256,
+                }),
+            )
+        })
+
+        it("liquidate", async () => {
+            await mintAndDeposit(fixture, davis, 100)
+            await q2bExactInput(fixture, davis, 800)
+            // 8x leverage and the price drops by 10%
+            const markPrice = await accountBalance.getMarkPrice(baseToken.address)
+            await accountBalance.mockMarkPrice(baseToken.address, mulRatio(markPrice, 900000))
+            await measure(
+                "liquidate",
+                clearingHouse.connect(carol)["liquidate(address,address)"](davis.address, baseToken.address),
+            )
+        })
+
+        it("liquidateCollateral", async () => {
+            const { vault, WETH: weth, USDC: usdc, mockedWethPriceFeed } = fixture
+            mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+            await weth.mint(davis.address, parseEther("1"))
+            await deposit(davis, vault, 1, weth)
+            await q2bExactInput(fixture, davis, 300)
+            // the collateral value drops below the margin requirement
+            mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("10", 8))
+            expect(await vault.isLiquidatable(davis.address)).to.be.true
+
+            await usdc.mint(carol.address, parseUnits("1000", await usdc.decimals()))
+            await usdc.connect(carol).approve(vault.address, ethers.constants.MaxUint256)
+            const [, maxLiquidatableCollateral] = await vault.getMaxRepaidSettlementAndLiquidatableCollateral(
+                davis.address,
+                weth.address,
+            )
+            await measure(
+                "liquidateCollateral",
+                vault.connect(carol).liquidateCollateral(davis.address, weth.address, maxLiquidatableCollateral, false),
+            )
+        })
+
+        for (const count of [1, 3, 5]) {
+            const path = `settleAllFunding, ${pluralize(count, "market")}`
+            it(path, async () => {
+                await openPositionsInMarkets(count)
+                await q2bExactInput(fixture, bob, 100)
+                await forwardBothTimestamps(clearingHouse, 3600)
+                await measure(path, clearingHouse.connect(bob).settleAllFunding(bob.address))
+            })
+        }
+    })
+
+    describe("baseline", () => {
+        it("does not regress beyond the threshold", async () => {
+            const changes = compareGasBenchmark(readGasBenchmarkBaseline(), results, getGasRegressionThreshold())
+            console.log(formatGasBenchmarkTable(changes))
+
+            if (isGasBenchmarkUpdate()) {
+                await writeGasBenchmarkBaseline(results)
+                return
+            }
+            // run `GAS_BENCHMARK_UPDATE=true npm run gas-benchmark` to accept the changes
+            expect(changes.filter(change => change.isBreaking).map(change => change.path)).to.be.empty
+        })
+    })
+})
@@ -1,26 +1,50 @@
 import { LogDescription } from "@ethersproject/abi"
 import { TransactionReceipt } from "@ethersproject/abstract-provider"
-import { BigNumberish, ContractTransaction, ethers, Wallet } from "ethers"
+import { BigNumber, BigNumberish, ContractTransaction, ethers, Wallet } from "ethers"
 import { parseEther } from "ethers/lib/utils"
+import { getReversePosition, getSubAccount } from "../../scripts/sdk/subAccount"
 import { ClearingHouse, OrderBook } from "../../typechain"
 import { ClearingHouseFixture } from "../clearingHouse/fixtures"
 
+type OpenPositionParams = Parameters<ClearingHouse["openPosition"]>[0]
+
+// subAccountId of the taker helpers: trades for an isolated sub-account of the wallet through openPositionFor(),
+// 0 for the cross margin account of the wallet
+function openPositionForAccount(
+    fixture: ClearingHouseFixture,
+    wallet: Wallet,
+    params: OpenPositionParams,
+    subAccountId: BigNumberish,
+): Promise<ContractTransaction> {
+    const clearingHouse = fixture.clearingHouse.connect(wallet)
+    if (BigNumber.from(subAccountId).isZero()) {
+        return clearingHouse.openPosition(params)
+    }
+    return clearingHouse.openPositionFor(getSubAccount(wallet.address, subAccountId), params)
+}
+
 export function q2bExactInput(
     fixture: ClearingHouseFixture,
     wallet: Wallet,
     amount: BigNumberish,
     baseToken: string = fixture.baseToken.address,
+    subAccountId: BigNumberish = 0,
 ): Promise<ContractTransaction> {
-    return fixture.clearingHouse.connect(wallet).openPosition({
-        baseToken,
-        isBaseToQuote: false,
-        isExactInput: true,
-        oppositeAmountBound: 0,
-        amount: parseEther(amount.toString()),
-        sqrtPriceLimitX96: 0,
-        deadline: ethers.constants.MaxUint256,
-        referralCode: ethers.constants.HashZero,
-    })
+    return openPositionForAccount(
+        fixture,
+        wallet,
+        {
+            baseToken,
+            isBaseToQuote: false,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount.toString()),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        },
+        subAccountId,
+    )
 }
 
 export function b2qExactInput(
@@ -28,17 +52,23 @@ export function b2qExactInput(
     wallet: Wallet,
     amount: BigNumberish,
     baseToken: string = fixture.baseToken.address,
+    subAccountId: BigNumberish = 0,
 ): Promise<ContractTransaction> {
-    return fixture.clearingHouse.connect(wallet).openPosition({
-        baseToken,
-        isBaseToQuote: true,
-        isExactInput: true,
-        oppositeAmountBound: 0,
-        amount: parseEther(amount.toString()),
-        sqrtPriceLimitX96: 0,
-        deadline: ethers.constants.MaxUint256,
-        referralCode: ethers.constants.HashZero,
-    })
+    return openPositionForAccount(
+        fixture,
+        wallet,
+        {
+            baseToken,
+            isBaseToQuote: true,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount.toString()),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        },
+        subAccountId,
+    )
 }
 
 export function q2bExactOutput(
@@ -46,17 +76,23 @@ export function q2bExactOutput(
     wallet: Wallet,
     amount: BigNumberish,
     baseToken: string = fixture.baseToken.address,
+    subAccountId: BigNumberish = 0,
 ): Promise<ContractTransaction> {
-    return fixture.clearingHouse.connect(wallet).openPosition({
-        baseToken,
-        isBaseToQuote: false,
-        isExactInput: false,
-        oppositeAmountBound: 0,
-        amount: parseEther(amount.toString()),
-        sqrtPriceLimitX96: 0,
-        deadline: ethers.constants.MaxUint256,
-        referralCode: ethers.constants.HashZero,
-    })
+    return openPositionForAccount(
+        fixture,
+        wallet,
+        {
+            baseToken,
+            isBaseToQuote: false,
+            isExactInput: false,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount.toString()),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        },
+        subAccountId,
+    )
 }
 
 export function b2qExactOutput(
@@ -64,17 +100,23 @@ export function b2qExactOutput(
     wallet: Wallet,
     amount: BigNumberish,
     baseToken: string = fixture.baseToken.address,
+    subAccountId: BigNumberish = 0,
 ): Promise<ContractTransaction> {
-    return fixture.clearingHouse.connect(wallet).openPosition({
-        baseToken,
-        isBaseToQuote: true,
-        isExactInput: false,
-        oppositeAmountBound: 0,
-        amount: parseEther(amount.toString()),
-        sqrtPriceLimitX96: 0,
-        deadline: ethers.constants.MaxUint256,
-        referralCode: ethers.constants.HashZero,
-    })
+    return openPositionForAccount(
+        fixture,
+        wallet,
+        {
+            baseToken,
+            isBaseToQuote: true,
+            isExactInput: false,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount.toString()),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        },
+        subAccountId,
+    )
 }
 
 export async function closePosition(
@@ -82,13 +124,32 @@ export async function closePosition(
     wallet: Wallet,
     ignorableDustPosSize: number = 0,
     baseToken: string = fixture.baseToken.address,
+    subAccountId: BigNumberish = 0,
 ): Promise<ContractTransaction | undefined> {
-    const posSize = await fixture.accountBalance.getTotalPositionSize(wallet.address, baseToken)
+    const trader = getSubAccount(wallet.address, subAccountId)
+    const posSize = await fixture.accountBalance.getTotalPositionSize(trader, baseToken)
     if (posSize.abs().lt(ignorableDustPosSize)) {
         // skip, may fail if the pos size is too small
         return
     }
 
+    if (!BigNumber.from(subAccountId).isZero()) {
+        // there's no closePositionFor(), sub-accounts are takers only and close by reversing their positions
+        return openPositionForAccount(
+            fixture,
+            wallet,
+            {
+                baseToken,
+                ...getReversePosition(posSize),
+                oppositeAmountBound: 0,
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            },
+            subAccountId,
+        )
+    }
+
     return fixture.clearingHouse.connect(wallet).closePosition({
         baseToken,
         sqrtPriceLimitX96: 0,
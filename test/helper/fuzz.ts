@@ -0,0 +1,175 @@
+// a tiny seeded property-based testing harness:
+// 1. `generate` builds a random action sequence from a seeded prng, so a seed always yields the same sequence
+// 2. `run` replays a sequence from a clean state and throws once an invariant is broken
+// 3. a failing sequence is shrunk by dropping chunks of actions and simplifying the remaining ones,
+//    and the error message carries the seed and the command to reproduce it
+//
+// env vars:
+// FUZZ_SEED: seed of the first run, each following run uses seed + 1; default 1
+// FUZZ_RUNS: number of sequences to try
+// FUZZ_STEPS: number of actions in a sequence
+// FUZZ_SHRINK_LIMIT: max number of replays spent on shrinking a failing sequence
+
+export interface FuzzConfig {
+    seed: number
+    runs: number
+    steps: number
+    shrinkLimit: number
+}
+
+export interface FuzzProperty<A> {
+    // the test file to run for reproducing a failing seed
+    testFile: string
+    generate: (random: Random, steps: number) => A[]
+    run: (actions: A[]) => Promise<void>
+    // simpler variants of an action tried during shrinking, the simplest first
+    simplify?: (action: A) => A[]
+}
+
+// mulberry32, good enough for generating test inputs and trivially reproducible
+export class Random {
+    private state: number
+
+    constructor(seed: number) {
+        this.state = seed >>> 0
+    }
+
+    // [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    // [min, max]
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1))
+    }
+
+    bool(probability: number = 0.5): boolean {
+        return this.next() < probability
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(0, items.length - 1)]
+    }
+
+    // picks a key by its weight
+    weighted<K extends string>(weights: Record<K, number>): K {
+        const entries = Object.entries(weights) as [K, number][]
+        const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+        let point = this.next() * total
+        for (const [key, weight] of entries) {
+            point -= weight
+            if (point < 0) {
+                return key
+            }
+        }
+        return entries[entries.length - 1][0]
+    }
+}
+
+function getEnvNumber(name: string, defaultValue: number): number {
+    const value = process.env[name]
+    if (value === undefined || value === "") {
+        return defaultValue
+    }
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`${name} should be a non-negative integer, got ${value}`)
+    }
+    return parsed
+}
+
+export function getFuzzConfig(defaults: Partial<FuzzConfig> = {}): FuzzConfig {
+    return {
+        seed: getEnvNumber("FUZZ_SEED", defaults.seed ?? 1),
+        runs: getEnvNumber("FUZZ_RUNS", defaults.runs ?? 3),
+        steps: getEnvNumber("FUZZ_STEPS", defaults.steps ?? 20),
+        shrinkLimit: getEnvNumber("FUZZ_SHRINK_LIMIT", defaults.shrinkLimit ?? 100),
+    }
+}
+
+async function getError<A>(property: FuzzProperty<A>, actions: A[]): Promise<Error | undefined> {
+    try {
+        await property.run(actions)
+        return undefined
+    } catch (err) {
+        return err instanceof Error ? err : new Error(String(err))
+    }
+}
+
+async function shrink<A>(
+    property: FuzzProperty<A>,
+    actions: A[],
+    error: Error,
+    shrinkLimit: number,
+): Promise<{ actions: A[]; error: Error; attempts: number }> {
+    let current = actions
+    let currentError = error
+    let attempts = 0
+
+    // drop chunks of actions, halving the chunk size until single actions are dropped
+    for (let size = Math.floor(current.length / 2); size >= 1; size = Math.floor(size / 2)) {
+        let index = 0
+        while (index < current.length && attempts < shrinkLimit) {
+            const candidate = [...current.slice(0, index), ...current.slice(index + size)]
+            attempts++
+            const candidateError = await getError(property, candidate)
+            if (candidateError) {
+                current = candidate
+                currentError = candidateError
+            } else {
+                index += size
+            }
+        }
+    }
+
+    // simplify the remaining actions one by one
+    if (property.simplify) {
+        for (let index = 0; index < current.length; index++) {
+            for (const simplified of property.simplify(current[index])) {
+                if (attempts >= shrinkLimit) {
+                    break
+                }
+                const candidate = [...current.slice(0, index), simplified, ...current.slice(index + 1)]
+                attempts++
+                const candidateError = await getError(property, candidate)
+                if (candidateError) {
+                    current = candidate
+                    currentError = candidateError
+                    // try to simplify the simplified action further
+                    index--
+                    break
+                }
+            }
+        }
+    }
+
+    return { actions: current, error: currentError, attempts }
+}
+
+export async function checkProperty<A>(property: FuzzProperty<A>, config: FuzzConfig = getFuzzConfig()): Promise<void> {
+    for (let run = 0; run < config.runs; run++) {
+        const seed = config.seed + run
+        const actions = property.generate(new Random(seed), config.steps)
+        const error = await getError(property, actions)
+        if (!error) {
+            continue
+        }
+
+        const shrunk = await shrink(property, actions, error, config.shrinkLimit)
+        throw new Error(
+            [
+                `property failed with seed ${seed} after ${actions.length} actions`,
+                `reproduce: FUZZ_SEED=${seed} FUZZ_RUNS=1 FUZZ_STEPS=${config.steps} npx hardhat test ${property.testFile}`,
+                `original error: ${error.message}`,
+                `shrunk to ${shrunk.actions.length} actions in ${shrunk.attempts} replays:`,
+                ...shrunk.actions.map((action, index) => `  ${index}: ${JSON.stringify(action)}`),
+                `shrunk error: ${shrunk.error.message}`,
+            ].join("\n"),
+        )
+    }
+}
@@ -0,0 +1,211 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { formatEther } from "ethers/lib/utils"
+import fs from "fs"
+import { ethers } from "hardhat"
+import { formatSqrtPriceX96ToPriceX96, formatX96ToX10_18, parseSettlementToken } from "../../scripts/accounting/math"
+import { BaseToken } from "../../typechain"
+import { forwardBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { createScenarioRunner, ScenarioContext, ScenarioDefinition, ScenarioRunner, ScenarioStep } from "./scenario"
+
+// incident reproductions as data: the calls recorded from the transactions of an incident, with the prices and
+// timestamps they were sent at, replayed on a fresh createClearingHouseFixture() through the scenario runner,
+// see scenario.ts for the markets, actors and steps
+//
+// the state of every actor and market is diffed around each call, so that a replay shows where the value moved;
+// all of the values are in 18 decimals, including collateral and free collateral;
+// REPLAY_LOG=true prints the diffs of the replays in test/clearingHouse/replays
+
+export interface ReplayCall {
+    // seconds since the replay started, both timestamps are forwarded to it before the call
+    timestamp?: number
+    // the prices right before the call, e.g. of the oracle at the block of the transaction
+    indexPrices?: Record<string, string>
+    markPrices?: Record<string, string>
+    step: ScenarioStep
+    // the reason of a call that reverted
+    revert?: string
+    note?: string
+}
+
+export interface ReplayDefinition extends Omit<ScenarioDefinition, "steps"> {
+    name: string
+    description?: string
+    calls: ReplayCall[]
+}
+
+// "<actor>.accountValue", "<actor>.<market>.positionSize", "<market>.markPrice" or "insuranceFund.capacity" => value
+export type ReplayState = Record<string, BigNumber>
+
+export interface ReplayStateChange {
+    key: string
+    before: BigNumber
+    after: BigNumber
+}
+
+export interface ReplayStepResult {
+    index: number
+    call: ReplayCall
+    // the timestamp of the call, since the replay started
+    timestamp: number
+    state: ReplayState
+    diff: ReplayStateChange[]
+}
+
+export interface ReplayResult {
+    context: ScenarioContext
+    initialState: ReplayState
+    steps: ReplayStepResult[]
+}
+
+export function loadReplay(filename: string): ReplayDefinition {
+    return JSON.parse(fs.readFileSync(filename, "utf8")) as ReplayDefinition
+}
+
+export async function runReplay(definition: ReplayDefinition): Promise<ReplayResult> {
+    for (const name of Object.keys(definition.actors)) {
+        if (definition.markets[name] || name === "insuranceFund") {
+            throw new Error(`the actor ${name} should be named differently from the markets and the insurance fund`)
+        }
+    }
+
+    const runner = await createScenarioRunner(definition)
+    const { context } = runner
+    const startTimestamp = await getTimestamp(runner)
+    const initialState = await getReplayState(runner)
+
+    const steps: ReplayStepResult[] = []
+    let state = initialState
+    for (let i = 0; i < definition.calls.length; i++) {
+        const call = definition.calls[i]
+        const label = `call ${i} (${call.step.action})`
+
+        if (call.timestamp !== undefined) {
+            const forward = startTimestamp + call.timestamp - (await getTimestamp(runner))
+            if (forward < 0) {
+                throw new Error(`${label} is at ${call.timestamp}, before the previous call`)
+            }
+            if (forward > 0) {
+                await forwardBothTimestamps(context.clearingHouse, forward)
+            }
+        }
+        const indexPrices = call.indexPrices || {}
+        for (const name of Object.keys(indexPrices)) {
+            await mockIndexPrice(getMarket(runner, name).mockedPriceFeedDispatcher, indexPrices[name])
+        }
+        const markPrices = call.markPrices || {}
+        for (const name of Object.keys(markPrices)) {
+            await mockMarkPrice(context.accountBalance, getMarket(runner, name).baseToken, markPrices[name])
+        }
+
+        if (call.revert) {
+            await expect(runner.runStep(call.step, label), label).to.be.revertedWith(call.revert)
+        } else {
+            await runner.runStep(call.step, label)
+        }
+
+        const nextState = await getReplayState(runner)
+        steps.push({
+            index: i,
+            call,
+            timestamp: (await getTimestamp(runner)) - startTimestamp,
+            state: nextState,
+            diff: diffReplayState(state, nextState),
+        })
+        state = nextState
+    }
+    return { context, initialState, steps }
+}
+
+// the keys of either state in order, skipping the unchanged values; a missing value counts as 0
+export function diffReplayState(before: ReplayState, after: ReplayState): ReplayStateChange[] {
+    const keys = [...Object.keys(before), ...Object.keys(after).filter(key => before[key] === undefined)]
+    return keys
+        .map(key => ({ key, before: before[key] || BigNumber.from(0), after: after[key] || BigNumber.from(0) }))
+        .filter(change => !change.before.eq(change.after))
+}
+
+// e.g.
+// call 1 at 15s (q2bExactInput account1 SAND 6300)
+//   account1.accountValue  220000.0 -> 219981.2 (-18.8)
+export function formatReplayResult(result: ReplayResult): string {
+    const lines: string[] = []
+    for (const step of result.steps) {
+        const { action, ...args } = step.call.step as ScenarioStep & Record<string, unknown>
+        const description = [
+            action,
+            ...Object.keys(args).map(key =>
+                typeof args[key] === "object" ? `${key} ${JSON.stringify(args[key])}` : String(args[key]),
+            ),
+        ].map(arg => arg.replace(/"/g, ""))
+        lines.push(
+            `call ${step.index} at ${step.timestamp}s (${description.join(" ")})` +
+                (step.call.revert ? ` reverted with ${step.call.revert}` : "") +
+                (step.call.note ? `: ${step.call.note}` : ""),
+        )
+        const width = Math.max(0, ...step.diff.map(change => change.key.length))
+        for (const change of step.diff) {
+            const delta = change.after.sub(change.before)
+            lines.push(
+                `  ${change.key.padEnd(width)}  ${formatEther(change.before)} -> ${formatEther(change.after)} ` +
+                    `(${delta.gt(0) ? "+" : ""}${formatEther(delta)})`,
+            )
+        }
+    }
+    return lines.join("\n")
+}
+
+async function getReplayState(runner: ScenarioRunner): Promise<ReplayState> {
+    const { fixture, clearingHouse, accountBalance, accounts } = runner.context
+    const decimals = await fixture.USDC.decimals()
+    const state: ReplayState = {}
+
+    for (const name of Object.keys(runner.markets)) {
+        const { baseToken, pool } = runner.markets[name]
+        const { sqrtPriceX96 } = await pool.slot0()
+        const baseTokenContract = (await ethers.getContractAt("BaseToken", baseToken)) as BaseToken
+        state[`${name}.marketPrice`] = formatX96ToX10_18(formatSqrtPriceX96ToPriceX96(sqrtPriceX96))
+        state[`${name}.markPrice`] = await accountBalance.getMarkPrice(baseToken)
+        state[`${name}.indexPrice`] = await baseTokenContract.getIndexPrice(0)
+    }
+    state["insuranceFund.capacity"] = parseSettlementToken(
+        await fixture.insuranceFund.getInsuranceFundCapacity(),
+        decimals,
+    )
+
+    for (const name of Object.keys(accounts)) {
+        const trader = accounts[name]
+        const [owedRealizedPnl, unrealizedPnl] = await accountBalance.getPnlAndPendingFee(trader)
+        state[`${name}.collateral`] = parseSettlementToken(
+            await fixture.vault.getBalanceByToken(trader, fixture.USDC.address),
+            decimals,
+        )
+        state[`${name}.accountValue`] = await clearingHouse.getAccountValue(trader)
+        state[`${name}.freeCollateral`] = parseSettlementToken(await fixture.vault.getFreeCollateral(trader), decimals)
+        state[`${name}.owedRealizedPnl`] = owedRealizedPnl
+        state[`${name}.unrealizedPnl`] = unrealizedPnl
+        for (const market of Object.keys(runner.markets)) {
+            const { baseToken } = runner.markets[market]
+            state[`${name}.${market}.positionSize`] = await accountBalance.getTotalPositionSize(trader, baseToken)
+            state[`${name}.${market}.openNotional`] = await accountBalance.getTotalOpenNotional(trader, baseToken)
+            state[`${name}.${market}.pendingFundingPayment`] = await fixture.exchange.getPendingFundingPayment(
+                trader,
+                baseToken,
+            )
+        }
+    }
+    return state
+}
+
+async function getTimestamp(runner: ScenarioRunner): Promise<number> {
+    return (await runner.context.clearingHouse.getBlockTimestamp()).toNumber()
+}
+
+function getMarket(runner: ScenarioRunner, name: string) {
+    const market = runner.markets[name]
+    if (!market) {
+        throw new Error(`unknown market ${name}`)
+    }
+    return market
+}
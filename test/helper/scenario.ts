@@ -0,0 +1,514 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { BigNumber, Wallet } from "ethers"
+import { parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { TestAccountBalance, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice, syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+import {
+    addOrder,
+    b2qExactInput,
+    b2qExactOutput,
+    closePosition,
+    q2bExactInput,
+    q2bExactOutput,
+    removeOrder,
+} from "./clearingHouseHelper"
+import { initMarket } from "./marketHelper"
+import { getMaxTick, getMaxTickRange, getMinTick } from "./number"
+import { getSubAccount } from "../../scripts/sdk/subAccount"
+import { mintAndDeposit } from "./token"
+
+// a declarative way of writing ClearingHouse tests on top of createClearingHouseFixture():
+// 1. markets are declared with their init prices and fee ratios, mapped to fixture.baseToken & fixture.baseToken2
+// 2. actors are declared with the collateral they deposit, mapped to the wallets after admin; an actor with an owner
+//    is an isolated sub-account of the owner's wallet, which trades through openPositionFor() and can't make markets
+// 3. the timeline is a list of plain steps (trades, liquidity, price moves, time jumps and expectations),
+//    so a scenario can also be written as json
+//
+// amounts are in ether units as strings, except collateral which is in settlement token units like mintAndDeposit();
+// account values, pnl and funding payments are compared in 18 decimals and free collateral in settlement decimals
+
+export interface ScenarioMarket {
+    initPrice: string
+    // defaults to initPrice
+    indexPrice?: string
+    exFeeRatio?: number
+    ifFeeRatio?: number
+    maxTickCrossedWithinBlock?: number
+}
+
+export interface ScenarioActor {
+    collateral?: number
+    // the actor owning this sub-account, which has to be declared before
+    owner?: string
+    subAccountId?: number
+}
+
+// an exact value, or a bound
+export type ExpectedValue = string | { closeTo: string; delta: string } | { gt: string } | { lt: string }
+
+export interface MarketExpectation {
+    positionSize?: ExpectedValue
+    openNotional?: ExpectedValue
+    pendingFundingPayment?: ExpectedValue
+}
+
+export interface AccountExpectation {
+    accountValue?: ExpectedValue
+    owedRealizedPnl?: ExpectedValue
+    unrealizedPnl?: ExpectedValue
+    freeCollateral?: ExpectedValue
+    markets?: Record<string, MarketExpectation>
+}
+
+export type TradeAction = "q2bExactInput" | "q2bExactOutput" | "b2qExactInput" | "b2qExactOutput"
+
+export type ScenarioStep =
+    | { action: TradeAction; actor: string; market: string; amount: string }
+    | { action: "closePosition"; actor: string; market: string }
+    | {
+          action: "addLiquidity"
+          actor: string
+          market: string
+          base: string
+          quote: string
+          // default to the full range
+          lowerTick?: number
+          upperTick?: number
+      }
+    // ratio of the order's liquidity to remove in decimal 6, defaults to all
+    | {
+          action: "removeLiquidity"
+          actor: string
+          market: string
+          lowerTick?: number
+          upperTick?: number
+          ratio?: number
+      }
+    | { action: "deposit"; actor: string; amount: number }
+    | { action: "withdraw"; actor: string; amount: number }
+    // between the accounts of the same owner
+    | { action: "transfer"; actor: string; to: string; amount: number }
+    | { action: "setIndexPrice"; market: string; price: string }
+    | { action: "setMarkPrice"; market: string; price: string }
+    // set the index or mark price to the current market price
+    | { action: "syncIndexPrice"; market: string }
+    | { action: "syncMarkPrice"; market: string }
+    | { action: "forward"; seconds: number }
+    | ({ action: "expect"; actor: string } & AccountExpectation)
+    | { action: "expectRevert"; reason: string; step: ScenarioStep }
+
+export interface ScenarioDefinition {
+    // the fee tier of the uniswap pools, defaults to 1% like createClearingHouseFixture()
+    uniFeeTier?: number
+    markets: Record<string, ScenarioMarket>
+    actors: Record<string, ScenarioActor>
+    steps: ScenarioStep[]
+}
+
+export interface ScenarioContext {
+    fixture: ClearingHouseFixture
+    clearingHouse: TestClearingHouse
+    accountBalance: TestAccountBalance
+    // the owner's wallet for sub-accounts
+    wallets: Record<string, Wallet>
+    subAccountIds: Record<string, number>
+    // the trader address of every actor
+    accounts: Record<string, string>
+    baseTokens: Record<string, string>
+}
+
+export interface ScenarioMarketContract {
+    baseToken: string
+    pool: UniswapV3Pool
+    mockedPriceFeedDispatcher: MockContract
+}
+
+// the markets and actors set up, steps are run one at a time
+export interface ScenarioRunner {
+    context: ScenarioContext
+    markets: Record<string, ScenarioMarketContract>
+    // label prefixes the assertion messages of the step
+    runStep(step: ScenarioStep, label: string): Promise<void>
+}
+
+export class ScenarioBuilder {
+    private readonly definition: ScenarioDefinition = { markets: {}, actors: {}, steps: [] }
+
+    market(name: string, market: ScenarioMarket): this {
+        this.definition.markets[name] = market
+        return this
+    }
+
+    actor(name: string, actor: ScenarioActor = {}): this {
+        this.definition.actors[name] = actor
+        return this
+    }
+
+    step(...steps: ScenarioStep[]): this {
+        this.definition.steps.push(...steps)
+        return this
+    }
+
+    trade(action: TradeAction, actor: string, market: string, amount: string): this {
+        return this.step({ action, actor, market, amount })
+    }
+
+    subAccount(name: string, owner: string, subAccountId: number, actor: ScenarioActor = {}): this {
+        return this.actor(name, { ...actor, owner, subAccountId })
+    }
+
+    transfer(actor: string, to: string, amount: number): this {
+        return this.step({ action: "transfer", actor, to, amount })
+    }
+
+    closePosition(actor: string, market: string): this {
+        return this.step({ action: "closePosition", actor, market })
+    }
+
+    addLiquidity(
+        actor: string,
+        market: string,
+        base: string,
+        quote: string,
+        lowerTick?: number,
+        upperTick?: number,
+    ): this {
+        return this.step({ action: "addLiquidity", actor, market, base, quote, lowerTick, upperTick })
+    }
+
+    removeLiquidity(actor: string, market: string, lowerTick?: number, upperTick?: number, ratio?: number): this {
+        return this.step({ action: "removeLiquidity", actor, market, lowerTick, upperTick, ratio })
+    }
+
+    setIndexPrice(market: string, price: string): this {
+        return this.step({ action: "setIndexPrice", market, price })
+    }
+
+    setMarkPrice(market: string, price: string): this {
+        return this.step({ action: "setMarkPrice", market, price })
+    }
+
+    forward(seconds: number): this {
+        return this.step({ action: "forward", seconds })
+    }
+
+    expect(actor: string, expectation: AccountExpectation): this {
+        return this.step({ action: "expect", actor, ...expectation })
+    }
+
+    expectRevert(reason: string, step: ScenarioStep): this {
+        return this.step({ action: "expectRevert", reason, step })
+    }
+
+    build(): ScenarioDefinition {
+        return this.definition
+    }
+
+    run(): Promise<ScenarioContext> {
+        return runScenario(this.definition)
+    }
+}
+
+export function scenario(): ScenarioBuilder {
+    return new ScenarioBuilder()
+}
+
+export async function runScenario(definition: ScenarioDefinition): Promise<ScenarioContext> {
+    const { context, runStep } = await createScenarioRunner(definition)
+    for (let i = 0; i < definition.steps.length; i++) {
+        const step = definition.steps[i]
+        await runStep(step, `step ${i} (${step.action})`)
+    }
+    return context
+}
+
+export async function createScenarioRunner(definition: Omit<ScenarioDefinition, "steps">): Promise<ScenarioRunner> {
+    const [admin, ...wallets] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const fixture = await loadFixture(createClearingHouseFixture(undefined, definition.uniFeeTier))
+
+    const marketNames = Object.keys(definition.markets)
+    const marketContracts: ScenarioMarketContract[] = [
+        {
+            baseToken: fixture.baseToken.address,
+            pool: fixture.pool,
+            mockedPriceFeedDispatcher: fixture.mockedPriceFeedDispatcher,
+        },
+        {
+            baseToken: fixture.baseToken2.address,
+            pool: fixture.pool2,
+            mockedPriceFeedDispatcher: fixture.mockedPriceFeedDispatcher2,
+        },
+    ]
+    if (marketNames.length > marketContracts.length) {
+        throw new Error(`the fixture supports at most ${marketContracts.length} markets`)
+    }
+    const actorNames = Object.keys(definition.actors)
+    const ownerNames = actorNames.filter(name => !definition.actors[name].owner)
+    if (ownerNames.length > wallets.length) {
+        throw new Error(`the provider has only ${wallets.length} wallets for actors`)
+    }
+
+    const context: ScenarioContext = {
+        fixture,
+        clearingHouse: fixture.clearingHouse as TestClearingHouse,
+        accountBalance: fixture.accountBalance as TestAccountBalance,
+        wallets: {},
+        subAccountIds: {},
+        accounts: {},
+        baseTokens: {},
+    }
+    const markets: Record<string, ScenarioMarketContract> = {}
+    for (let i = 0; i < marketNames.length; i++) {
+        const market = definition.markets[marketNames[i]]
+        markets[marketNames[i]] = marketContracts[i]
+        context.baseTokens[marketNames[i]] = marketContracts[i].baseToken
+        await initMarket(
+            fixture,
+            market.initPrice,
+            market.exFeeRatio,
+            market.ifFeeRatio,
+            market.maxTickCrossedWithinBlock || getMaxTickRange(),
+            marketContracts[i].baseToken,
+        )
+        await mockIndexPrice(marketContracts[i].mockedPriceFeedDispatcher, market.indexPrice || market.initPrice)
+    }
+    for (let i = 0; i < actorNames.length; i++) {
+        const name = actorNames[i]
+        const { collateral, owner, subAccountId = 0 } = definition.actors[name]
+        const wallet = owner ? context.wallets[owner] : wallets[ownerNames.indexOf(name)]
+        if (!wallet || (owner && definition.actors[owner].owner)) {
+            throw new Error(`the owner ${owner} of ${name} should be an actor declared before`)
+        }
+        context.wallets[name] = wallet
+        context.subAccountIds[name] = subAccountId
+        context.accounts[name] = getSubAccount(wallet.address, subAccountId)
+        if (collateral) {
+            await mintAndDeposit(fixture, wallet, collateral, subAccountId)
+        }
+    }
+    // initiate both the real and mocked timestamps to enable hard-coded funding related numbers
+    await initiateBothTimestamps(context.clearingHouse)
+
+    const getWallet = (name: string) => {
+        const wallet = context.wallets[name]
+        if (!wallet) {
+            throw new Error(`unknown actor ${name}`)
+        }
+        return wallet
+    }
+    const getSubAccountId = (name: string, action: string, isSupported: boolean = true) => {
+        getWallet(name)
+        const subAccountId = context.subAccountIds[name]
+        if (subAccountId !== 0 && !isSupported) {
+            throw new Error(`${action} is not supported by the sub-account ${name}`)
+        }
+        return subAccountId
+    }
+    const getMarket = (name: string) => {
+        const market = markets[name]
+        if (!market) {
+            throw new Error(`unknown market ${name}`)
+        }
+        return market
+    }
+
+    async function runStep(step: ScenarioStep, label: string): Promise<void> {
+        switch (step.action) {
+            case "q2bExactInput":
+            case "q2bExactOutput":
+            case "b2qExactInput":
+            case "b2qExactOutput": {
+                const trade = { q2bExactInput, q2bExactOutput, b2qExactInput, b2qExactOutput }[step.action]
+                await trade(
+                    fixture,
+                    getWallet(step.actor),
+                    step.amount,
+                    getMarket(step.market).baseToken,
+                    getSubAccountId(step.actor, step.action),
+                )
+                break
+            }
+            case "closePosition":
+                await closePosition(
+                    fixture,
+                    getWallet(step.actor),
+                    0,
+                    getMarket(step.market).baseToken,
+                    getSubAccountId(step.actor, step.action),
+                )
+                break
+            case "addLiquidity": {
+                getSubAccountId(step.actor, step.action, false)
+                const { lowerTick, upperTick } = await getTickRange(getMarket(step.market).pool, step)
+                await addOrder(
+                    fixture,
+                    getWallet(step.actor),
+                    step.base,
+                    step.quote,
+                    lowerTick,
+                    upperTick,
+                    false,
+                    getMarket(step.market).baseToken,
+                )
+                break
+            }
+            case "removeLiquidity": {
+                getSubAccountId(step.actor, step.action, false)
+                const wallet = getWallet(step.actor)
+                const market = getMarket(step.market)
+                const { lowerTick, upperTick } = await getTickRange(market.pool, step)
+                const order = await fixture.orderBook.getOpenOrder(
+                    wallet.address,
+                    market.baseToken,
+                    lowerTick,
+                    upperTick,
+                )
+                const liquidity = order.liquidity.mul(step.ratio === undefined ? 1e6 : step.ratio).div(1e6)
+                await removeOrder(fixture, wallet, liquidity, lowerTick, upperTick, market.baseToken)
+                break
+            }
+            case "deposit":
+                await mintAndDeposit(
+                    fixture,
+                    getWallet(step.actor),
+                    step.amount,
+                    getSubAccountId(step.actor, step.action),
+                )
+                break
+            case "withdraw": {
+                getSubAccountId(step.actor, step.action, false)
+                const decimals = await fixture.USDC.decimals()
+                await fixture.vault
+                    .connect(getWallet(step.actor))
+                    .withdraw(fixture.USDC.address, parseUnits(step.amount.toString(), decimals))
+                break
+            }
+            case "transfer": {
+                const wallet = getWallet(step.actor)
+                if (getWallet(step.to) !== wallet) {
+                    throw new Error(`${step.actor} and ${step.to} have different owners`)
+                }
+                const decimals = await fixture.USDC.decimals()
+                await fixture.vault
+                    .connect(wallet)
+                    .transferBetweenSubAccounts(
+                        fixture.USDC.address,
+                        getSubAccountId(step.actor, step.action),
+                        getSubAccountId(step.to, step.action),
+                        parseUnits(step.amount.toString(), decimals),
+                    )
+                break
+            }
+            case "setIndexPrice":
+                await mockIndexPrice(getMarket(step.market).mockedPriceFeedDispatcher, step.price)
+                break
+            case "setMarkPrice":
+                await mockMarkPrice(context.accountBalance, getMarket(step.market).baseToken, step.price)
+                break
+            case "syncIndexPrice":
+                await syncIndexToMarketPrice(
+                    getMarket(step.market).mockedPriceFeedDispatcher,
+                    getMarket(step.market).pool,
+                )
+                break
+            case "syncMarkPrice":
+                await syncMarkPriceToMarketPrice(
+                    context.accountBalance,
+                    getMarket(step.market).baseToken,
+                    getMarket(step.market).pool,
+                )
+                break
+            case "forward":
+                await forwardBothTimestamps(context.clearingHouse, step.seconds)
+                break
+            case "expect":
+                getWallet(step.actor)
+                await checkExpectation(context, context.accounts[step.actor], step, label, getMarket)
+                break
+            case "expectRevert":
+                await expect(runStep(step.step, label), label).to.be.revertedWith(step.reason)
+                break
+        }
+    }
+
+    return { context, markets, runStep }
+}
+
+async function getTickRange(
+    pool: UniswapV3Pool,
+    range: { lowerTick?: number; upperTick?: number },
+): Promise<{ lowerTick: number; upperTick: number }> {
+    const tickSpacing = await pool.tickSpacing()
+    return {
+        lowerTick: range.lowerTick === undefined ? getMinTick(tickSpacing) : range.lowerTick,
+        upperTick: range.upperTick === undefined ? getMaxTick(tickSpacing) : range.upperTick,
+    }
+}
+
+async function checkExpectation(
+    context: ScenarioContext,
+    trader: string,
+    expectation: AccountExpectation,
+    label: string,
+    getMarket: (name: string) => ScenarioMarketContract,
+): Promise<void> {
+    const { fixture, clearingHouse, accountBalance } = context
+    const [owedRealizedPnl, unrealizedPnl] = await accountBalance.getPnlAndPendingFee(trader)
+
+    await expectValue(expectation.accountValue, () => clearingHouse.getAccountValue(trader), `${label} accountValue`)
+    await expectValue(expectation.owedRealizedPnl, async () => owedRealizedPnl, `${label} owedRealizedPnl`)
+    await expectValue(expectation.unrealizedPnl, async () => unrealizedPnl, `${label} unrealizedPnl`)
+    await expectValue(
+        expectation.freeCollateral,
+        () => fixture.vault.getFreeCollateral(trader),
+        `${label} freeCollateral`,
+        await fixture.USDC.decimals(),
+    )
+    const markets = expectation.markets || {}
+    for (const name of Object.keys(markets)) {
+        const baseToken = getMarket(name).baseToken
+        await expectValue(
+            markets[name].positionSize,
+            () => accountBalance.getTotalPositionSize(trader, baseToken),
+            `${label} ${name} positionSize`,
+        )
+        await expectValue(
+            markets[name].openNotional,
+            () => accountBalance.getTotalOpenNotional(trader, baseToken),
+            `${label} ${name} openNotional`,
+        )
+        await expectValue(
+            markets[name].pendingFundingPayment,
+            () => fixture.exchange.getPendingFundingPayment(trader, baseToken),
+            `${label} ${name} pendingFundingPayment`,
+        )
+    }
+}
+
+async function expectValue(
+    expected: ExpectedValue | undefined,
+    getActual: () => Promise<BigNumber>,
+    label: string,
+    decimals: number = 18,
+): Promise<void> {
+    if (expected === undefined) {
+        return
+    }
+    const actual = await getActual()
+    if (typeof expected === "string") {
+        expect(actual, label).to.be.eq(parseUnits(expected, decimals))
+    } else if ("closeTo" in expected) {
+        expect(actual.sub(parseUnits(expected.closeTo, decimals)).abs(), label).to.be.lte(
+            parseUnits(expected.delta, decimals),
+        )
+    } else if ("gt" in expected) {
+        expect(actual, label).to.be.gt(parseUnits(expected.gt, decimals))
+    } else {
+        expect(actual, label).to.be.lt(parseUnits(expected.lt, decimals))
+    }
+}
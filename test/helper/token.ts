@@ -1,18 +1,34 @@
-import { Wallet } from "ethers"
+import { BigNumber, BigNumberish, Wallet } from "ethers"
 import { parseUnits } from "ethers/lib/utils"
 import { TestERC20, Vault } from "../../typechain"
 import { ClearingHouseFixture } from "../clearingHouse/fixtures"
 
-export async function deposit(sender: Wallet, vault: Vault, amount: number, token: TestERC20): Promise<void> {
+// subAccountId: deposits to an isolated sub-account of the sender, 0 for the cross margin account
+export async function deposit(
+    sender: Wallet,
+    vault: Vault,
+    amount: number,
+    token: TestERC20,
+    subAccountId: BigNumberish = 0,
+): Promise<void> {
     const decimals = await token.decimals()
     const parsedAmount = parseUnits(amount.toString(), decimals)
     await token.connect(sender).approve(vault.address, parsedAmount)
-    await vault.connect(sender).deposit(token.address, parsedAmount)
+    if (BigNumber.from(subAccountId).isZero()) {
+        await vault.connect(sender).deposit(token.address, parsedAmount)
+    } else {
+        await vault.connect(sender).depositToSubAccount(token.address, subAccountId, parsedAmount)
+    }
 }
 
-export async function mintAndDeposit(fixture: ClearingHouseFixture, wallet: Wallet, amount: number): Promise<void> {
+export async function mintAndDeposit(
+    fixture: ClearingHouseFixture,
+    wallet: Wallet,
+    amount: number,
+    subAccountId: BigNumberish = 0,
+): Promise<void> {
     const usdc = fixture.USDC
     const decimals = await usdc.decimals()
     await usdc.mint(wallet.address, parseUnits(amount.toString(), decimals))
-    await deposit(wallet, fixture.vault, amount, usdc)
+    await deposit(wallet, fixture.vault, amount, usdc, subAccountId)
 }
@@ -1,11 +1,20 @@
-import { ContractTransaction, Wallet } from "ethers"
+import { BigNumber, BigNumberish, ContractTransaction, Wallet } from "ethers"
 import { formatUnits } from "ethers/lib/utils"
+import { getSubAccount } from "../../scripts/sdk/subAccount"
 import { ClearingHouseFixture } from "../clearingHouse/fixtures"
 
-export async function withdrawAll(fixture: ClearingHouseFixture, wallet: Wallet): Promise<ContractTransaction> {
+// the free collateral of a sub-account is transferred to the cross margin account before being withdrawn
+export async function withdrawAll(
+    fixture: ClearingHouseFixture,
+    wallet: Wallet,
+    subAccountId: BigNumberish = 0,
+): Promise<ContractTransaction> {
     const vault = fixture.vault
-    const freeCollateral = await vault.getFreeCollateral(wallet.address)
+    const freeCollateral = await vault.getFreeCollateral(getSubAccount(wallet.address, subAccountId))
     const token = await vault.getSettlementToken()
     console.log(`freeCollateral=${formatUnits(freeCollateral, 6)}`)
+    if (!BigNumber.from(subAccountId).isZero()) {
+        await vault.connect(wallet).transferBetweenSubAccounts(token, subAccountId, 0, freeCollateral)
+    }
     return vault.connect(wallet).withdraw(token, freeCollateral)
 }
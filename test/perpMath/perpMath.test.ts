@@ -95,4 +95,21 @@ describe("PerpMath test", async () => {
             await expect(perpMath["testMulRatio(int256,uint24)"](minInt256, maxUint24)).to.be.reverted
         })
     })
+
+    describe("sqrt", () => {
+        it("rounds down", async () => {
+            expect(await perpMath.testSqrt(0)).to.be.eq(0)
+            expect(await perpMath.testSqrt(1)).to.be.eq(1)
+            expect(await perpMath.testSqrt(2)).to.be.eq(1)
+            expect(await perpMath.testSqrt(3)).to.be.eq(1)
+            expect(await perpMath.testSqrt(8)).to.be.eq(2)
+            expect(await perpMath.testSqrt(9)).to.be.eq(3)
+            expect(await perpMath.testSqrt(BigNumber.from(10).pow(36))).to.be.eq(BigNumber.from(10).pow(18))
+        })
+
+        it("the largest square root", async () => {
+            const maxSqrt = BigNumber.from(2).pow(128).sub(1)
+            expect(await perpMath.testSqrt(maxUint256)).to.be.eq(maxSqrt)
+        })
+    })
 })
@@ -0,0 +1,334 @@
+import { expect } from "chai"
+import { BigNumber, ContractTransaction, Wallet } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { AccountingModel } from "../../scripts/accounting/accountingModel"
+import {
+    BaseToken,
+    ClearingHouseConfig,
+    InsuranceFund,
+    OrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    TestExchange,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { b2qExactInput, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { filterLogs, mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+
+describe("AccountingModel", () => {
+    const [admin, maker, taker, liquidator] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const lowerTick = 50000
+    const upperTick = 50400
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let clearingHouseConfig: ClearingHouseConfig
+    let exchange: TestExchange
+    let orderBook: OrderBook
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let insuranceFund: InsuranceFund
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let collateralDecimals: number
+    let model: AccountingModel
+
+    async function syncMarket(): Promise<void> {
+        // twap interval of funding depends on the timestamp, thus updating it first
+        model.updateMarket(baseToken.address, { timestamp: (await exchange.getBlockTimestamp()).toNumber() })
+        const twapInterval = model.getFundingTwapInterval(baseToken.address)
+        const slot0 = await pool.slot0()
+        model.updateMarket(baseToken.address, {
+            sqrtPriceX96: slot0.sqrtPriceX96,
+            tick: slot0.tick,
+            sqrtMarketTwapX96: await exchange.getSqrtMarketTwapX96(baseToken.address, twapInterval),
+            indexTwap: await baseToken.getIndexPrice(twapInterval),
+            referencePrice: await accountBalance.getMarkPrice(baseToken.address),
+        })
+    }
+
+    async function depositBoth(wallet: Wallet, amount: number): Promise<void> {
+        await collateral.mint(wallet.address, parseUnits(amount.toString(), collateralDecimals))
+        await deposit(wallet, vault, amount, collateral)
+        model.deposit(wallet.address, parseUnits(amount.toString(), collateralDecimals))
+    }
+
+    // the replay of a swap within the maker's range only takes one step, as ticks of the range are in the same word
+    async function openPositionBoth(wallet: Wallet, openPosition: () => Promise<ContractTransaction>): Promise<void> {
+        await syncMarket()
+        const liquidity = await pool.liquidity()
+        const receipt = await (await openPosition()).wait()
+        const [positionChanged] = filterLogs(
+            receipt,
+            clearingHouse.interface.getEventTopic("PositionChanged"),
+            clearingHouse,
+        )
+        const slot0 = await pool.slot0()
+
+        const result = model.openPosition(wallet.address, baseToken.address, {
+            exchangedPositionSize: positionChanged.args.exchangedPositionSize,
+            exchangedPositionNotional: positionChanged.args.exchangedPositionNotional,
+            steps: [{ fee: positionChanged.args.fee, liquidity }],
+            sqrtPriceX96: slot0.sqrtPriceX96,
+            tick: slot0.tick,
+        })
+        expect(result.fee).to.be.eq(positionChanged.args.fee)
+        expect(result.realizedPnl).to.be.eq(positionChanged.args.realizedPnl)
+        expect(result.openNotional).to.be.eq(positionChanged.args.openNotional)
+    }
+
+    async function addLiquidityBoth(wallet: Wallet, base: string, quote: string): Promise<void> {
+        await syncMarket()
+        const tx = await clearingHouse.connect(wallet).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther(base),
+            quote: parseEther(quote),
+            lowerTick,
+            upperTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+        const [liquidityChanged] = filterLogs(
+            await tx.wait(),
+            clearingHouse.interface.getEventTopic("LiquidityChanged"),
+            clearingHouse,
+        )
+        const fee = model.addLiquidity(wallet.address, baseToken.address, {
+            lowerTick,
+            upperTick,
+            liquidity: BigNumber.from(liquidityChanged.args.liquidity),
+            base: liquidityChanged.args.base,
+            quote: liquidityChanged.args.quote,
+        })
+        expect(fee).to.be.eq(liquidityChanged.args.quoteFee)
+    }
+
+    async function removeLiquidityBoth(wallet: Wallet, liquidity: BigNumber): Promise<void> {
+        await syncMarket()
+        const tx = await clearingHouse.connect(wallet).removeLiquidity({
+            baseToken: baseToken.address,
+            lowerTick,
+            upperTick,
+            liquidity,
+            minBase: 0,
+            minQuote: 0,
+            deadline: ethers.constants.MaxUint256,
+        })
+        const [liquidityChanged] = filterLogs(
+            await tx.wait(),
+            clearingHouse.interface.getEventTopic("LiquidityChanged"),
+            clearingHouse,
+        )
+        const fee = model.removeLiquidity(wallet.address, baseToken.address, {
+            lowerTick,
+            upperTick,
+            liquidity,
+            base: liquidityChanged.args.base.mul(-1),
+            quote: liquidityChanged.args.quote.mul(-1),
+        })
+        expect(fee).to.be.eq(liquidityChanged.args.quoteFee)
+    }
+
+    async function expectModelToMatch(trader: string): Promise<void> {
+        await syncMarket()
+
+        const accountInfo = await accountBalance.getAccountInfo(trader, baseToken.address)
+        const modelAccountInfo = model.getAccountInfo(trader, baseToken.address)
+        expect(modelAccountInfo.takerPositionSize).to.be.eq(accountInfo.takerPositionSize)
+        expect(modelAccountInfo.takerOpenNotional).to.be.eq(accountInfo.takerOpenNotional)
+        expect(modelAccountInfo.lastTwPremiumGrowthGlobalX96).to.be.eq(accountInfo.lastTwPremiumGrowthGlobalX96)
+        expect(model.getBaseTokens(trader)).to.be.deep.eq(await accountBalance.getBaseTokens(trader))
+
+        const [owedRealizedPnl, unrealizedPnl, pendingFee] = await accountBalance.getPnlAndPendingFee(trader)
+        const modelPnlAndPendingFee = model.getPnlAndPendingFee(trader)
+        expect(modelPnlAndPendingFee.owedRealizedPnl).to.be.eq(owedRealizedPnl)
+        expect(modelPnlAndPendingFee.unrealizedPnl).to.be.eq(unrealizedPnl)
+        expect(modelPnlAndPendingFee.pendingFee).to.be.eq(pendingFee)
+
+        expect(model.getTotalPositionSize(trader, baseToken.address)).to.be.eq(
+            await accountBalance.getTotalPositionSize(trader, baseToken.address),
+        )
+        expect(model.getTotalOpenNotional(trader, baseToken.address)).to.be.eq(
+            await accountBalance.getTotalOpenNotional(trader, baseToken.address),
+        )
+        expect(model.getMarginRequirementForLiquidation(trader)).to.be.eq(
+            await accountBalance.getMarginRequirementForLiquidation(trader),
+        )
+        expect(model.getTotalDebtValue(trader)).to.be.eq(await accountBalance.getTotalDebtValue(trader))
+        expect(model.getPendingFundingPayment(trader, baseToken.address)).to.be.eq(
+            await exchange.getPendingFundingPayment(trader, baseToken.address),
+        )
+
+        expect(model.getBalance(trader)).to.be.eq(await vault.getBalance(trader))
+        expect(model.getSettlementTokenValue(trader)).to.be.eq(await vault.getSettlementTokenValue(trader))
+        expect(model.getAccountValue(trader)).to.be.eq(await vault.getAccountValue(trader))
+        expect(model.getFreeCollateral(trader)).to.be.eq(await vault.getFreeCollateral(trader))
+        const mmRatio = await clearingHouseConfig.getMmRatio()
+        expect(model.getFreeCollateralByRatio(trader, mmRatio)).to.be.eq(
+            await vault.getFreeCollateralByRatio(trader, mmRatio),
+        )
+        expect(model.getFreeCollateralByMarginRequirement(trader, false)).to.be.eq(
+            await vault.getFreeCollateralByMarginRequirement(trader, false),
+        )
+    }
+
+    async function expectAllToMatch(): Promise<void> {
+        for (const trader of [maker.address, taker.address, liquidator.address, insuranceFund.address]) {
+            await expectModelToMatch(trader)
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        clearingHouseConfig = fixture.clearingHouseConfig
+        exchange = fixture.exchange as TestExchange
+        orderBook = fixture.orderBook
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        insuranceFund = fixture.insuranceFund
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        collateralDecimals = await collateral.decimals()
+
+        // tick of the initial price is 50200
+        await initMarket(fixture, "151.373306858723226652", 10000, 100000)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "151")
+        await mockMarkPrice(accountBalance, baseToken.address, "151")
+
+        model = new AccountingModel({
+            settlementTokenDecimals: collateralDecimals,
+            insuranceFund: insuranceFund.address,
+            imRatio: await clearingHouseConfig.getImRatio(),
+            mmRatio: await clearingHouseConfig.getMmRatio(),
+            liquidationPenaltyRatio: await clearingHouseConfig.getLiquidationPenaltyRatio(),
+            maxFundingRate: await clearingHouseConfig.getMaxFundingRate(),
+            twapInterval: await clearingHouseConfig.getTwapInterval(),
+            maxMarketsPerAccount: await clearingHouseConfig.getMaxMarketsPerAccount(),
+        })
+        const slot0 = await pool.slot0()
+        model.addMarket(
+            baseToken.address,
+            { insuranceFundFeeRatio: 100000 },
+            {
+                timestamp: 0,
+                sqrtPriceX96: slot0.sqrtPriceX96,
+                tick: slot0.tick,
+                sqrtMarketTwapX96: slot0.sqrtPriceX96,
+                indexTwap: parseEther("151"),
+                referencePrice: parseEther("151"),
+            },
+        )
+
+        await depositBoth(maker, 100000)
+        await depositBoth(taker, 150)
+        await depositBoth(liquidator, 10000)
+        // insurance fund capacity includes its own balance, which is not accounted in vault
+        await collateral.mint(insuranceFund.address, parseUnits("1000000", collateralDecimals))
+
+        // NOTE: Should be the last step in beforeEach
+        await initiateBothTimestamps(clearingHouse)
+
+        await addLiquidityBoth(maker, "100", "15000")
+    })
+
+    it("matches taker balances, realized pnl and insurance fund fee", async () => {
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => q2bExactInput(fixture, taker, 300))
+        await expectAllToMatch()
+
+        // reduce the position
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => b2qExactInput(fixture, taker, 0.7))
+        await expectAllToMatch()
+
+        // reverse the position
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => b2qExactInput(fixture, taker, 2.5))
+        await expectAllToMatch()
+    })
+
+    it("matches funding payments of takers and makers", async () => {
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => q2bExactInput(fixture, taker, 500))
+
+        // market price is now above index price, thus longs pay shorts
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "148")
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await expectAllToMatch()
+        expect(model.getPendingFundingPayment(taker.address, baseToken.address)).to.be.gt(0)
+        expect(model.getPendingFundingPayment(maker.address, baseToken.address)).to.be.lt(0)
+
+        // funding is settled when the position changes
+        await openPositionBoth(taker, () => b2qExactInput(fixture, taker, 1))
+        await expectAllToMatch()
+
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "160")
+        await forwardBothTimestamps(clearingHouse, 2000)
+        await expectAllToMatch()
+    })
+
+    it("matches maker fees, liquidity removal and withdrawal", async () => {
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => q2bExactInput(fixture, taker, 400))
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => b2qExactInput(fixture, taker, 1))
+        await expectAllToMatch()
+        expect(model.getPendingFee(maker.address, baseToken.address)).to.be.eq(
+            await orderBook.getPendingFee(maker.address, baseToken.address, lowerTick, upperTick),
+        )
+
+        // adding liquidity to an existing order collects its fee
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await addLiquidityBoth(maker, "10", "1500")
+        await expectAllToMatch()
+
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => b2qExactInput(fixture, taker, 1))
+
+        // the maker takes over part of the position when removing liquidity
+        await forwardBothTimestamps(clearingHouse, 1000)
+        const { liquidity } = await orderBook.getOpenOrder(maker.address, baseToken.address, lowerTick, upperTick)
+        await removeLiquidityBoth(maker, liquidity.div(3))
+        await expectAllToMatch()
+
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await syncMarket()
+        const freeCollateral = await vault.getFreeCollateral(maker.address)
+        await vault.connect(maker).withdraw(collateral.address, freeCollateral.div(2))
+        model.withdraw(maker.address, freeCollateral.div(2))
+        await expectAllToMatch()
+    })
+
+    it("matches liquidation and bad debt", async () => {
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await openPositionBoth(taker, () => q2bExactInput(fixture, taker, 900))
+
+        // the model refuses to liquidate as the contracts do
+        await syncMarket()
+        expect(() => model.liquidate(liquidator.address, taker.address, baseToken.address)).to.throw("CH_EAV")
+
+        await mockMarkPrice(accountBalance, baseToken.address, "110")
+        await forwardBothTimestamps(clearingHouse, 1000)
+        await syncMarket()
+        await clearingHouse
+            .connect(liquidator)
+            ["liquidate(address,address,int256)"](taker.address, baseToken.address, 0)
+        const { badDebt } = model.liquidate(liquidator.address, taker.address, baseToken.address)
+
+        expect(badDebt).to.be.gt(0)
+        expect(model.getBaseTokens(taker.address)).to.be.deep.eq([])
+        await expectAllToMatch()
+    })
+})
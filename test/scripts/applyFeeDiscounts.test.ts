@@ -0,0 +1,92 @@
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { ZERO } from "../../scripts/accounting/math"
+import { FeeDiscountApplier } from "../../scripts/fee/applyFeeDiscounts"
+import { FeeDiscountBatch } from "../../scripts/fee/volumeFeeTier"
+import { BaseToken, MarketRegistry } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { initMarket } from "../helper/marketHelper"
+
+describe("FeeDiscountApplier", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let marketRegistry: MarketRegistry
+    let baseToken: BaseToken
+    let applier: FeeDiscountApplier
+    let batch: FeeDiscountBatch
+
+    async function getExchangeFeeRatio(trader: string): Promise<number> {
+        return (await marketRegistry.getMarketInfoByTrader(trader, baseToken.address)).exchangeFeeRatio
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        marketRegistry = fixture.marketRegistry
+        baseToken = fixture.baseToken
+        await initMarket(fixture, "100", 1000)
+        await marketRegistry.setFeeDiscountRatio(carol.address, 100000)
+
+        applier = new FeeDiscountApplier(marketRegistry)
+        // synthetic volumes: alice and bob are upgraded, carol is downgraded
+        const volume = { takerVolume: parseEther("60000"), makerVolume: ZERO }
+        batch = {
+            blockNumber: await waffle.provider.getBlockNumber(),
+            fromTimestamp: 0,
+            toTimestamp: 30 * 86400,
+            updates: [
+                { trader: alice.address, ...volume, tierIndex: 0, discountRatio: 100000, previousDiscountRatio: 0 },
+                { trader: bob.address, ...volume, tierIndex: 1, discountRatio: 250000, previousDiscountRatio: 0 },
+                {
+                    trader: carol.address,
+                    takerVolume: ZERO,
+                    makerVolume: ZERO,
+                    tierIndex: -1,
+                    discountRatio: 0,
+                    previousDiscountRatio: 100000,
+                },
+            ],
+        }
+    })
+
+    it("apply the discounts of a batch", async () => {
+        const receipts = await applier.apply(batch)
+        expect(receipts).to.have.length(3)
+        expect(await getExchangeFeeRatio(alice.address)).to.be.eq(900)
+        expect(await getExchangeFeeRatio(bob.address)).to.be.eq(750)
+        expect(await getExchangeFeeRatio(carol.address)).to.be.eq(1000)
+    })
+
+    it("revert an applied batch to the previous discounts", async () => {
+        await applier.apply(batch)
+        const receipts = await applier.revert(batch)
+        expect(receipts).to.have.length(3)
+        expect(await getExchangeFeeRatio(alice.address)).to.be.eq(1000)
+        expect(await getExchangeFeeRatio(bob.address)).to.be.eq(1000)
+        expect(await getExchangeFeeRatio(carol.address)).to.be.eq(900)
+    })
+
+    it("only send the changes not made yet", async () => {
+        // as if the batch failed after the first tx
+        await marketRegistry.setFeeDiscountRatio(alice.address, 100000)
+
+        const changes = await applier.getPendingChanges(batch, "apply")
+        expect(changes.map(change => change.trader)).to.be.deep.eq([bob.address, carol.address])
+        expect(await applier.apply(batch)).to.have.length(2)
+        expect(await applier.apply(batch)).to.have.length(0)
+    })
+
+    it("force error, the discounts changed since the batch", async () => {
+        await marketRegistry.setFeeDiscountRatio(bob.address, 50000)
+        const error = await applier.apply(batch).catch(error => error)
+        expect(error.message).to.include(`changed since the batch of block ${batch.blockNumber}`)
+        expect(await getExchangeFeeRatio(alice.address)).to.be.eq(1000)
+    })
+
+    it("force error, not the owner of MarketRegistry", async () => {
+        applier = new FeeDiscountApplier(marketRegistry.connect(alice))
+        const error = await applier.apply(batch).catch(error => error)
+        expect(error.message).to.include("is not the owner of MarketRegistry")
+    })
+})
@@ -0,0 +1,274 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { DeploymentManifest } from "../../scripts/deploy"
+import { ClearingHouseSdk, getOppositeAmountBound } from "../../scripts/sdk/clearingHouseSdk"
+import { getSubAccount } from "../../scripts/sdk/subAccount"
+import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTickRange } from "../helper/number"
+import { deposit } from "../helper/token"
+import { initiateBothTimestamps } from "../shared/time"
+import { syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("ClearingHouseSdk", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const lowerTick = 49000
+    const upperTick = 51400
+    // 1%
+    const slippageRatio = 10000
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let sdk: ClearingHouseSdk
+    let makerSdk: ClearingHouseSdk
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+
+        await initMarket(fixture, "151.3733069", 10000, 0, getMaxTickRange(), baseToken.address)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, pool)
+
+        const decimals = await collateral.decimals()
+        for (const wallet of [alice, bob, carol]) {
+            await collateral.mint(wallet.address, parseUnits("1000000", decimals))
+        }
+        await deposit(alice, vault, 1000, collateral)
+        await deposit(bob, vault, 1000000, collateral)
+        await deposit(carol, vault, 1000000, collateral)
+
+        const contracts = {
+            clearingHouse,
+            accountBalance,
+            exchange: fixture.exchange,
+            marketRegistry: fixture.marketRegistry,
+        }
+        sdk = new ClearingHouseSdk(contracts, alice)
+        makerSdk = new ClearingHouseSdk(contracts, carol)
+        await makerSdk.addLiquidity(
+            {
+                baseToken: baseToken.address,
+                base: parseEther("100"),
+                quote: parseEther("15000"),
+                lowerTick,
+                upperTick,
+            },
+            slippageRatio,
+        )
+
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+        await initiateBothTimestamps(clearingHouse)
+    })
+
+    function expectCloseTo(actual: BigNumber, expected: BigNumber, delta: number) {
+        expect(actual.sub(expected).abs()).to.be.lte(delta)
+    }
+
+    it("computes the opposite amount bound of each swap direction", async () => {
+        const base = parseEther("2")
+        const quote = parseEther("300")
+        // B2Q exact input: the lower bound of the output quote
+        expect(getOppositeAmountBound(true, true, base, quote, slippageRatio)).to.be.eq(parseEther("297"))
+        // B2Q exact output: the upper bound of the input base
+        expect(getOppositeAmountBound(true, false, base, quote, slippageRatio)).to.be.eq(parseEther("2.02"))
+        // Q2B exact input: the lower bound of the output base
+        expect(getOppositeAmountBound(false, true, base, quote, slippageRatio)).to.be.eq(parseEther("1.98"))
+        // Q2B exact output: the upper bound of the input quote
+        expect(getOppositeAmountBound(false, false, base, quote, slippageRatio)).to.be.eq(parseEther("303"))
+        // the upper bound rounds up
+        expect(getOppositeAmountBound(false, false, base, BigNumber.from(99), slippageRatio)).to.be.eq(100)
+    })
+
+    it("rejects invalid slippage tolerances", async () => {
+        const request = { baseToken: baseToken.address, isBaseToQuote: false, isExactInput: true, amount: 1 }
+        for (const invalidSlippageRatio of [1e6, 0.5, -1]) {
+            const error = await sdk.quoteOpenPosition(request, invalidSlippageRatio).catch(error => error)
+            expect(error.message).to.include("slippageRatio")
+        }
+    })
+
+    it("quotes opening a position as executed", async () => {
+        const request = {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("100"),
+        }
+        const quote = await sdk.quoteOpenPosition(request, slippageRatio)
+        expect(quote.quote).to.be.eq(parseEther("100"))
+        expect(quote.oppositeAmountBound).to.be.eq(quote.base.mul(99).div(100))
+        expect(quote.realizedPnl).to.be.eq(0)
+
+        const result = await sdk.openPosition(request, slippageRatio)
+        expect(result.exchangedPositionSize).to.be.eq(quote.exchangedPositionSize)
+        expectCloseTo(result.fee, quote.fee, 10)
+        expectCloseTo(result.exchangedPositionNotional, quote.exchangedPositionNotional, 10)
+        expectCloseTo(result.marginRatio!, quote.marginRatio!, 1)
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(quote.base)
+    })
+
+    it("builds the contracts of a deployment manifest", async () => {
+        // only the proxies of the contracts used by the sdk
+        const proxyDeployment = (proxy: string) => ({ proxy, implementation: ethers.constants.AddressZero })
+        const manifest = {
+            contracts: {
+                ClearingHouse: proxyDeployment(clearingHouse.address),
+                AccountBalance: proxyDeployment(accountBalance.address),
+                Exchange: proxyDeployment(fixture.exchange.address),
+                MarketRegistry: proxyDeployment(fixture.marketRegistry.address),
+            },
+        } as DeploymentManifest
+        const manifestSdk = ClearingHouseSdk.fromManifest(manifest, alice)
+        expect(manifestSdk.contracts.clearingHouse.address).to.be.eq(clearingHouse.address)
+
+        const request = {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("100"),
+        }
+        expect(await manifestSdk.quoteOpenPosition(request, slippageRatio)).to.be.deep.eq(
+            await sdk.quoteOpenPosition(request, slippageRatio),
+        )
+    })
+
+    it("quotes the realized pnl and fee of reducing a position", async () => {
+        await sdk.openPosition(
+            { baseToken: baseToken.address, isBaseToQuote: false, isExactInput: false, amount: parseEther("1") },
+            slippageRatio,
+        )
+        // bob pumps the price, alice takes profit of half of her position
+        await q2bExactInput(fixture, bob, 5000)
+
+        const request = {
+            baseToken: baseToken.address,
+            isBaseToQuote: true,
+            isExactInput: true,
+            amount: parseEther("0.5"),
+        }
+        const quote = await sdk.quoteOpenPosition(request, slippageRatio)
+        expect(quote.exchangedPositionSize).to.be.eq(parseEther("-0.5"))
+        expect(quote.realizedPnl).to.be.gt(0)
+
+        const result = await sdk.openPosition(request, slippageRatio)
+        expect(result.realizedPnl).to.be.eq(quote.realizedPnl)
+        expectCloseTo(result.fee, quote.fee, 10)
+    })
+
+    it("quotes closing a position", async () => {
+        await sdk.openPosition(
+            { baseToken: baseToken.address, isBaseToQuote: true, isExactInput: false, amount: parseEther("100") },
+            slippageRatio,
+        )
+        const positionSize = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+
+        const quote = await sdk.quoteClosePosition({ baseToken: baseToken.address }, slippageRatio)
+        expect(quote.exchangedPositionSize).to.be.eq(positionSize.mul(-1))
+        // closing a short buys the exact base back, the bound is the max quote paid
+        expect(quote.oppositeAmountBound).to.be.gt(quote.quote)
+        expect(quote.marginRatio).to.be.undefined
+
+        const result = await sdk.closePosition({ baseToken: baseToken.address }, slippageRatio)
+        expect(result.exchangedPositionSize).to.be.eq(quote.exchangedPositionSize)
+        expect(result.realizedPnl).to.be.eq(quote.realizedPnl)
+        expect(result.marginRatio).to.be.undefined
+    })
+
+    it("reverts when the price moves over the slippage tolerance", async () => {
+        const request = {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("100"),
+        }
+        const quote = await sdk.quoteOpenPosition(request, slippageRatio)
+        // bob front-runs alice
+        await q2bExactInput(fixture, bob, 5000)
+
+        await expect(
+            clearingHouse.connect(alice).openPosition({
+                ...request,
+                oppositeAmountBound: quote.oppositeAmountBound,
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            }),
+        ).to.be.revertedWith("CH_TLRL")
+        // the sdk quotes again before sending
+        expect((await sdk.openPosition(request, slippageRatio)).exchangedPositionSize).to.be.lt(
+            quote.exchangedPositionSize,
+        )
+    })
+
+    it("derives min base and quote of adding and removing liquidity", async () => {
+        const addRequest = {
+            baseToken: baseToken.address,
+            base: parseEther("1"),
+            quote: parseEther("150"),
+            lowerTick,
+            upperTick,
+        }
+        const addQuote = await makerSdk.quoteAddLiquidity(addRequest, slippageRatio)
+        expect(addQuote.minBase).to.be.eq(addQuote.base.mul(99).div(100))
+        expect(addQuote.minQuote).to.be.eq(addQuote.quote.mul(99).div(100))
+        const addResult = await makerSdk.addLiquidity(addRequest, slippageRatio)
+        expect(addResult.base).to.be.eq(addQuote.base)
+        expect(addResult.quote).to.be.eq(addQuote.quote)
+        expect(addResult.liquidity).to.be.eq(addQuote.liquidity)
+
+        // alice trades so that carol earns fees
+        await q2bExactInput(fixture, alice, 100)
+
+        const removeRequest = { baseToken: baseToken.address, lowerTick, upperTick, liquidity: addResult.liquidity }
+        const removeQuote = await makerSdk.quoteRemoveLiquidity(removeRequest, slippageRatio)
+        expect(removeQuote.fee).to.be.gt(0)
+        const removeResult = await makerSdk.removeLiquidity(removeRequest, slippageRatio)
+        expect(removeResult.base).to.be.eq(removeQuote.base.mul(-1))
+        expect(removeResult.quote).to.be.eq(removeQuote.quote.mul(-1))
+        expect(removeResult.fee).to.be.eq(removeQuote.fee)
+    })
+
+    it("trades for a sub-account of the signer", async () => {
+        await vault.connect(alice).transferBetweenSubAccounts(collateral.address, 0, 1, parseUnits("100", 6))
+        const subAccount = getSubAccount(alice.address, 1)
+        const subAccountSdk = new ClearingHouseSdk(sdk.contracts, alice, 1)
+        expect(await subAccountSdk.getTrader()).to.be.eq(subAccount)
+
+        const request = {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("100"),
+        }
+        const quote = await subAccountSdk.quoteOpenPosition(request, slippageRatio)
+        const result = await subAccountSdk.openPosition(request, slippageRatio)
+        expect(result.exchangedPositionSize).to.be.eq(quote.exchangedPositionSize)
+        expect(await accountBalance.getTakerPositionSize(subAccount, baseToken.address)).to.be.eq(quote.base)
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+
+        // closed by reversing the position, as there's no closePositionFor()
+        const closeQuote = await subAccountSdk.quoteClosePosition({ baseToken: baseToken.address }, slippageRatio)
+        expect(closeQuote.exchangedPositionSize).to.be.eq(quote.base.mul(-1))
+        await subAccountSdk.closePosition({ baseToken: baseToken.address }, slippageRatio)
+        expect(await accountBalance.getTakerPositionSize(subAccount, baseToken.address)).to.be.eq(0)
+
+        const error = await subAccountSdk
+            .quoteAddLiquidity({ baseToken: baseToken.address, base: 0, quote: 1, lowerTick, upperTick }, slippageRatio)
+            .catch(error => error)
+        expect(error.message).to.include("is taker-only")
+    })
+})
@@ -0,0 +1,324 @@
+import { MockContract, smockit } from "@eth-optimism/smock"
+import { expect } from "chai"
+import fs from "fs"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import yaml from "js-yaml"
+import os from "os"
+import path from "path"
+import { ethers, waffle } from "hardhat"
+import { Deployment, DeployConfig, deploy, loadDeployConfig } from "../../scripts/deploy"
+import { TestERC20 } from "../../typechain"
+import { ChainlinkPriceFeedV2, ChainlinkPriceFeedV3, PriceFeedDispatcher } from "../../typechain/perp-oracle"
+import {
+    CACHED_TWAP_INTERVAL,
+    CHAINLINK_AGGREGATOR_DECIMALS,
+    PRICEFEEDDISPATCHER_DECIMALS,
+    USDC_DECIMALS,
+    WETH_DECIMALS,
+} from "../shared/constant"
+import { forwardRealTimestamp } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+
+describe("Deploy script", () => {
+    const [admin, maker, taker] = waffle.provider.getWallets()
+    let USDC: TestERC20
+    let WETH: TestERC20
+    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher2: MockContract
+    let mockedWethPriceFeed: MockContract
+    let config: DeployConfig
+    let manifestPath: string
+    let deployment: Deployment
+
+    async function createMockedPriceFeedDispatcher(): Promise<MockContract> {
+        const aggregatorFactory = await ethers.getContractFactory("TestAggregatorV3")
+        const aggregator = await aggregatorFactory.deploy()
+        const mockedAggregator = await smockit(aggregator)
+        mockedAggregator.smocked.decimals.will.return.with(async () => {
+            return CHAINLINK_AGGREGATOR_DECIMALS
+        })
+
+        const chainlinkPriceFeedV3Factory = await ethers.getContractFactory("ChainlinkPriceFeedV3")
+        const chainlinkPriceFeedV3 = (await chainlinkPriceFeedV3Factory.deploy(
+            mockedAggregator.address,
+            40 * 60, // 40 mins
+            CACHED_TWAP_INTERVAL,
+        )) as ChainlinkPriceFeedV3
+        const priceFeedDispatcherFactory = await ethers.getContractFactory("PriceFeedDispatcher")
+        const priceFeedDispatcher = (await priceFeedDispatcherFactory.deploy(
+            chainlinkPriceFeedV3.address,
+        )) as PriceFeedDispatcher
+        const mockedDispatcher = await smockit(priceFeedDispatcher)
+        mockedDispatcher.smocked.decimals.will.return.with(async () => {
+            return PRICEFEEDDISPATCHER_DECIMALS
+        })
+        return mockedDispatcher
+    }
+
+    beforeEach(async () => {
+        const tokenFactory = await ethers.getContractFactory("TestERC20")
+        USDC = (await tokenFactory.deploy()) as TestERC20
+        await USDC.__TestERC20_init("TestUSDC", "USDC", USDC_DECIMALS)
+        WETH = (await tokenFactory.deploy()) as TestERC20
+        await WETH.__TestERC20_init("TestWETH", "WETH", WETH_DECIMALS)
+
+        const aggregatorFactory = await ethers.getContractFactory("TestAggregatorV3")
+        const aggregator = await aggregatorFactory.deploy()
+        const chainlinkPriceFeedFactory = await ethers.getContractFactory("ChainlinkPriceFeedV2")
+        const wethPriceFeed = (await chainlinkPriceFeedFactory.deploy(aggregator.address, 0)) as ChainlinkPriceFeedV2
+        mockedWethPriceFeed = await smockit(wethPriceFeed)
+        mockedWethPriceFeed.smocked.decimals.will.return.with(8)
+
+        mockedPriceFeedDispatcher = await createMockedPriceFeedDispatcher()
+        mockedPriceFeedDispatcher2 = await createMockedPriceFeedDispatcher()
+
+        config = {
+            settlementToken: USDC.address,
+            quoteToken: { name: "QuoteToken", symbol: "vUSD" },
+            clearingHouseConfig: {
+                maxMarketsPerAccount: 10,
+                liquidationPenaltyRatio: 25000,
+                maxFundingRate: 100000,
+                portfolioMargin: { correlations: [{ symbolA: "vETH", symbolB: "vBTC", correlationRatio: 800000 }] },
+            },
+            collateralManager: {
+                maxCollateralTokensPerAccount: 5,
+                debtNonSettlementTokenValueRatio: 750000,
+                liquidationRatio: 500000,
+                mmRatioBuffer: 2000,
+                clInsuranceFundFeeRatio: 30000,
+                debtThreshold: "10000",
+                collateralValueDust: "500",
+            },
+            collaterals: [
+                {
+                    token: WETH.address,
+                    priceFeed: mockedWethPriceFeed.address,
+                    collateralRatio: 700000,
+                    discountRatio: 100000,
+                    depositCap: "1000",
+                },
+            ],
+            markets: [
+                {
+                    name: "vETH",
+                    symbol: "vETH",
+                    priceFeed: mockedPriceFeedDispatcher.address,
+                    initialPrice: "151.373306858723226652",
+                    uniswapFeeTier: 10000,
+                    exchangeFeeRatio: 1000,
+                    insuranceFundFeeRatio: 100000,
+                    maxTickCrossedWithinBlock: 1000,
+                    liquidationAuction: { startPenaltyRatio: 10000, duration: 600 },
+                    marginBrackets: [
+                        { positionValue: "100000", imRatio: 200000, mmRatio: 100000 },
+                        { positionValue: "1000000", imRatio: 500000, mmRatio: 250000 },
+                    ],
+                    openInterestCap: "50000000",
+                    traderPositionNotionalCap: "5000000",
+                },
+                {
+                    name: "vBTC",
+                    symbol: "vBTC",
+                    priceFeed: mockedPriceFeedDispatcher2.address,
+                    initialPrice: "20000",
+                    uniswapFeeTier: 3000,
+                    exchangeFeeRatio: 500,
+                    insuranceFundFeeRatio: 50000,
+                    maxTickCrossedWithinBlock: 500,
+                    marketMaxPriceSpreadRatio: 200000,
+                },
+            ],
+        }
+
+        manifestPath = path.join(os.tmpdir(), `curie-deployment-${Date.now()}.json`)
+        deployment = await deploy(config, manifestPath)
+    })
+
+    afterEach(async () => {
+        if (fs.existsSync(manifestPath)) {
+            fs.unlinkSync(manifestPath)
+        }
+    })
+
+    it("deploys all contracts behind proxies owned by the deployer", async () => {
+        const { manifest } = deployment
+        expect(manifest.deployer).to.be.eq(admin.address)
+        expect(manifest.settlementToken).to.be.eq(USDC.address)
+        expect(manifest.uniswapV3Factory).to.be.eq(deployment.uniV3Factory.address)
+
+        for (const [name, { proxy, implementation }] of Object.entries(manifest.contracts)) {
+            expect(proxy, name).to.not.be.eq(implementation)
+            expect(await ethers.provider.getCode(implementation), name).to.not.be.eq("0x")
+        }
+
+        expect(await deployment.clearingHouse.owner()).to.be.eq(admin.address)
+        expect(await deployment.vault.owner()).to.be.eq(admin.address)
+        expect(await deployment.marketRegistry.owner()).to.be.eq(admin.address)
+    })
+
+    it("wires contracts together", async () => {
+        const {
+            clearingHouse,
+            clearingHouseConfig,
+            exchange,
+            orderBook,
+            accountBalance,
+            vault,
+            insuranceFund,
+            marketRegistry,
+            collateralManager,
+            delegateApproval,
+            limitOrderBook,
+            quoteToken,
+        } = deployment
+
+        expect(await clearingHouse.getClearingHouseConfig()).to.be.eq(clearingHouseConfig.address)
+        expect(await clearingHouse.getVault()).to.be.eq(vault.address)
+        expect(await clearingHouse.getQuoteToken()).to.be.eq(quoteToken.address)
+        expect(await clearingHouse.getExchange()).to.be.eq(exchange.address)
+        expect(await clearingHouse.getOrderBook()).to.be.eq(orderBook.address)
+        expect(await clearingHouse.getAccountBalance()).to.be.eq(accountBalance.address)
+        expect(await clearingHouse.getInsuranceFund()).to.be.eq(insuranceFund.address)
+        expect(await clearingHouse.getDelegateApproval()).to.be.eq(delegateApproval.address)
+        expect(await limitOrderBook.getClearingHouse()).to.be.eq(clearingHouse.address)
+
+        expect(await exchange.getAccountBalance()).to.be.eq(accountBalance.address)
+        expect(await orderBook.getExchange()).to.be.eq(exchange.address)
+        expect(await accountBalance.getVault()).to.be.eq(vault.address)
+        expect(await insuranceFund.getVault()).to.be.eq(vault.address)
+        expect(await vault.getCollateralManager()).to.be.eq(collateralManager.address)
+        expect(await vault.getSettlementToken()).to.be.eq(USDC.address)
+
+        for (const callee of [marketRegistry, orderBook, exchange, accountBalance, vault]) {
+            expect(await callee.getClearingHouse()).to.be.eq(clearingHouse.address)
+        }
+    })
+
+    it("applies config", async () => {
+        const {
+            clearingHouseConfig,
+            collateralManager,
+            marketRegistry,
+            exchange,
+            accountBalance,
+            baseTokens,
+            quoteToken,
+        } = deployment
+
+        expect(await clearingHouseConfig.getMaxMarketsPerAccount()).to.be.eq(10)
+        expect(await clearingHouseConfig.getSettlementTokenBalanceCap()).to.be.eq(ethers.constants.MaxUint256)
+        expect(await collateralManager.getDebtThreshold()).to.be.eq(parseUnits("10000", USDC_DECIMALS))
+        expect(await collateralManager.isCollateral(WETH.address)).to.be.true
+        expect((await collateralManager.getCollateralConfig(WETH.address)).depositCap).to.be.eq(parseEther("1000"))
+
+        expect(baseTokens).to.have.length(2)
+        const [vETH, vBTC] = baseTokens
+        for (const baseToken of baseTokens) {
+            expect(baseToken.address.toLowerCase() < quoteToken.address.toLowerCase()).to.be.true
+            expect(await marketRegistry.hasPool(baseToken.address)).to.be.true
+        }
+        expect(await marketRegistry.getFeeRatio(vETH.address)).to.be.eq(1000)
+        expect(await marketRegistry.getInsuranceFundFeeRatio(vETH.address)).to.be.eq(100000)
+        expect(await exchange.getMaxTickCrossedWithinBlock(vETH.address)).to.be.eq(1000)
+        const [startPenaltyRatio, duration] = await clearingHouseConfig.getLiquidationAuction(vETH.address)
+        expect(startPenaltyRatio).to.be.eq(10000)
+        expect(duration).to.be.eq(600)
+        const marginBrackets = await clearingHouseConfig.getMarginBrackets(vETH.address)
+        expect(marginBrackets.length).to.be.eq(2)
+        expect(marginBrackets[1].positionValue).to.be.eq(parseEther("1000000"))
+        expect(marginBrackets[1].imRatio).to.be.eq(500000)
+        expect(marginBrackets[1].mmRatio).to.be.eq(250000)
+        expect(await clearingHouseConfig.getMarginBrackets(vBTC.address)).to.be.empty
+        expect(await clearingHouseConfig.isPortfolioMarginEnabled()).to.be.true
+        expect(await clearingHouseConfig.getMarginCorrelationRatio(vBTC.address, vETH.address)).to.be.eq(800000)
+        expect(await marketRegistry.getOpenInterestCap(vETH.address)).to.be.eq(parseEther("50000000"))
+        expect(await marketRegistry.getTraderPositionNotionalCap(vETH.address)).to.be.eq(parseEther("5000000"))
+        expect(await marketRegistry.getOpenInterestCap(vBTC.address)).to.be.eq(0)
+        expect(await accountBalance.isOpenInterestTracked(vETH.address)).to.be.true
+        expect(await accountBalance.isOpenInterestTracked(vBTC.address)).to.be.false
+        expect(await marketRegistry.getFeeRatio(vBTC.address)).to.be.eq(500)
+        expect(await exchange.getMaxTickCrossedWithinBlock(vBTC.address)).to.be.eq(500)
+        expect(await marketRegistry.getMarketMaxPriceSpreadRatio(vBTC.address)).to.be.eq(200000)
+        expect((await marketRegistry.getMarketInfo(vBTC.address)).uniswapFeeRatio).to.be.eq(3000)
+    })
+
+    it("writes the deployment manifest", async () => {
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"))
+        expect(manifest).to.be.deep.eq(deployment.manifest)
+        expect(manifest.contracts.ClearingHouse.proxy).to.be.eq(deployment.clearingHouse.address)
+        expect(manifest.markets.map(market => market.symbol)).to.be.deep.eq(["vETH", "vBTC"])
+        expect(manifest.markets[0].pool).to.be.eq(deployment.pools[0].address)
+        expect(manifest.markets[0].proxy).to.be.eq(deployment.baseTokens[0].address)
+    })
+
+    it("can trade on the deployed markets", async () => {
+        const { clearingHouse, vault, baseTokens, accountBalance } = deployment
+        const baseToken = baseTokens[0]
+        await mockIndexPrice(mockedPriceFeedDispatcher, "151")
+        // mark price needs market twap
+        await forwardRealTimestamp(2000)
+
+        for (const trader of [maker, taker]) {
+            await USDC.mint(trader.address, parseUnits("1000000", USDC_DECIMALS))
+            await USDC.connect(trader).approve(vault.address, parseUnits("1000000", USDC_DECIMALS))
+            await vault.connect(trader).deposit(USDC.address, parseUnits("1000000", USDC_DECIMALS))
+        }
+
+        await clearingHouse.connect(maker).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther("100"),
+            quote: parseEther("15000"),
+            lowerTick: 49000,
+            upperTick: 51400,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+
+        await clearingHouse.connect(taker).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther("100"),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+
+        expect(await accountBalance.getTakerPositionSize(taker.address, baseToken.address)).to.be.gt(0)
+    })
+
+    it("force error, missing required field in config file", async () => {
+        const configPath = path.join(os.tmpdir(), `curie-deploy-config-${Date.now()}.json`)
+        fs.writeFileSync(configPath, JSON.stringify({ ...config, settlementToken: undefined }))
+        try {
+            expect(() => loadDeployConfig(configPath)).to.throw("settlementToken is required")
+        } finally {
+            fs.unlinkSync(configPath)
+        }
+    })
+
+    it("loads a yaml config file", async () => {
+        const configPath = path.join(os.tmpdir(), `curie-deploy-config-${Date.now()}.yaml`)
+        fs.writeFileSync(configPath, yaml.dump(config))
+        try {
+            expect(loadDeployConfig(configPath)).to.be.deep.eq(config)
+        } finally {
+            fs.unlinkSync(configPath)
+        }
+    })
+
+    it("force error, missing maxTickCrossedWithinBlock of a market", async () => {
+        const configPath = path.join(os.tmpdir(), `curie-deploy-config-${Date.now()}.json`)
+        const markets = [config.markets[0], { ...config.markets[1], maxTickCrossedWithinBlock: undefined }]
+        fs.writeFileSync(configPath, JSON.stringify({ ...config, markets }))
+        try {
+            expect(() => loadDeployConfig(configPath)).to.throw("maxTickCrossedWithinBlock of market vBTC is required")
+        } finally {
+            fs.unlinkSync(configPath)
+        }
+    })
+})
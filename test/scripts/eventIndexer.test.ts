@@ -0,0 +1,193 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { EventIndexer } from "../../scripts/indexer/eventIndexer"
+import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { b2qExactOutput, closePosition, q2bExactInput, removeOrder } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTickRange } from "../helper/number"
+import { deposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("EventIndexer", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const lowerTick = 49000
+    const upperTick = 51400
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let collateral: TestERC20
+    let weth: TestERC20
+    let baseToken: BaseToken
+    let baseToken2: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let collateralDecimals: number
+    let indexer: EventIndexer
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        collateral = fixture.USDC
+        weth = fixture.WETH
+        baseToken = fixture.baseToken
+        baseToken2 = fixture.baseToken2
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        collateralDecimals = await collateral.decimals()
+
+        await initMarket(fixture, "151.3733069", 10000, 0, getMaxTickRange(), baseToken.address)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        await initMarket(fixture, "151.3733069", 10000, 0, getMaxTickRange(), baseToken2.address)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher2, fixture.pool2)
+
+        // 1 WETH = 100 USD
+        fixture.mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+
+        for (const wallet of [admin, alice, bob, carol]) {
+            await collateral.mint(wallet.address, parseUnits("1000000", collateralDecimals))
+        }
+        await weth.mint(alice.address, parseEther("1"))
+        await weth.connect(alice).approve(vault.address, ethers.constants.MaxUint256)
+        await deposit(bob, vault, 1000000, collateral)
+        await deposit(carol, vault, 1000000, collateral)
+        await deposit(admin, vault, 10000, collateral)
+
+        for (const token of [baseToken, baseToken2]) {
+            await clearingHouse.connect(carol).addLiquidity({
+                baseToken: token.address,
+                base: parseEther("100"),
+                quote: parseEther("15000"),
+                lowerTick,
+                upperTick,
+                minBase: 0,
+                minQuote: 0,
+                useTakerBalance: false,
+                deadline: ethers.constants.MaxUint256,
+            })
+        }
+
+        // increase insuranceFund capacity
+        await collateral.mint(fixture.insuranceFund.address, parseUnits("1000000", collateralDecimals))
+
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken2.address, fixture.pool2)
+        await initiateBothTimestamps(clearingHouse)
+
+        indexer = new EventIndexer({ clearingHouse, accountBalance, vault })
+    })
+
+    it("rebuilds trade history, realized pnl and funding payments per market", async () => {
+        await deposit(alice, vault, 1000, collateral)
+        await q2bExactInput(fixture, alice, 100)
+        // market price is above index price, longs pay funding
+        await mockIndexPrice(mockedPriceFeedDispatcher, "145")
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await closePosition(fixture, alice)
+
+        await indexer.sync()
+        const trades = indexer.getTrades(alice.address, baseToken.address)
+        expect(trades.map(trade => trade.type)).to.deep.eq(["trade", "trade"])
+        expect(trades[0].exchangedPositionSize).to.be.gt(0)
+        expect(trades[1].exchangedPositionSize).to.be.eq(trades[0].exchangedPositionSize.mul(-1))
+        expect(trades[1].openNotional).to.be.eq(0)
+
+        const market = indexer.getMarket(alice.address, baseToken.address)
+        expect(market.takerPositionSize).to.be.eq(0)
+        expect(market.takerFee).to.be.eq(trades[0].fee.add(trades[1].fee))
+        expect(market.realizedPnl).to.be.eq(trades[1].realizedPnl)
+        expect(market.fundingPayment).to.be.gt(0)
+        // alice has only traded in one market
+        expect(indexer.getTrader(alice.address).owedRealizedPnl).to.be.eq(market.realizedPnl.sub(market.fundingPayment))
+
+        expect(await indexer.verifyAll()).to.be.empty
+    })
+
+    it("syncs incrementally and settles owed realized pnl on withdrawal", async () => {
+        await deposit(alice, vault, 1000, collateral)
+        await q2bExactInput(fixture, alice, 100)
+        expect(await indexer.sync()).to.be.gt(0)
+        expect(await indexer.sync()).to.be.eq(0)
+
+        await closePosition(fixture, alice)
+        await indexer.sync()
+        expect(indexer.getTrader(alice.address).owedRealizedPnl).to.be.lt(0)
+
+        await vault.connect(alice).withdraw(collateral.address, parseUnits("100", collateralDecimals))
+        // carol removes half of the liquidity, which realizes the maker fee and her impermanent position
+        const order = await fixture.orderBook.getOpenOrder(carol.address, baseToken.address, lowerTick, upperTick)
+        await removeOrder(fixture, carol, order.liquidity.div(2), lowerTick, upperTick)
+        await indexer.sync()
+
+        const trader = indexer.getTrader(alice.address)
+        expect(trader.owedRealizedPnl).to.be.eq(0)
+        expect(trader.collateralBalances[collateral.address]).to.be.eq(
+            await vault.getBalanceByToken(alice.address, collateral.address),
+        )
+        const makerMarket = indexer.getMarket(carol.address, baseToken.address)
+        expect(makerMarket.makerFee).to.be.gt(0)
+        expect(makerMarket.liquidity[`${lowerTick}:${upperTick}`]).to.be.eq(order.liquidity.sub(order.liquidity.div(2)))
+
+        expect(await indexer.verifyAll()).to.be.empty
+    })
+
+    it("marks liquidations and tracks liquidated collateral", async () => {
+        // alice only has 1 WETH, worth 70 USD of collateral value
+        await vault.connect(alice).deposit(weth.address, parseEther("1"))
+        await q2bExactInput(fixture, alice, 500)
+        await b2qExactOutput(fixture, bob, 12000)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+
+        await clearingHouse.connect(admin)["liquidate(address,address)"](alice.address, baseToken.address)
+        const [maxRepaidSettlement] = await vault.getMaxRepaidSettlementAndLiquidatableCollateral(
+            alice.address,
+            weth.address,
+        )
+        await collateral.connect(admin).approve(vault.address, maxRepaidSettlement)
+        await vault.connect(admin).liquidateCollateral(alice.address, weth.address, maxRepaidSettlement, true)
+        await indexer.sync()
+
+        const trades = indexer.getTrades(alice.address, baseToken.address)
+        const liquidation = trades[trades.length - 1]
+        expect(liquidation.type).to.be.eq("liquidation")
+        expect(liquidation.liquidator).to.be.eq(admin.address)
+        expect(liquidation.exchangedPositionSize).to.be.lt(0)
+        expect(indexer.getMarket(alice.address, baseToken.address).liquidationPenalty).to.be.eq(
+            liquidation.liquidationPenalty,
+        )
+        // the liquidator takes over the position
+        const liquidatorTrades = indexer.getTrades(admin.address, baseToken.address)
+        expect(liquidatorTrades[0].exchangedPositionSize).to.be.eq(liquidation.exchangedPositionSize.mul(-1))
+
+        const trader = indexer.getTrader(alice.address)
+        expect(trader.collateralBalances[weth.address]).to.be.lt(parseEther("1"))
+        expect(trader.collateralBalances[collateral.address]).to.be.gt(0)
+
+        expect(await indexer.verifyAll()).to.be.empty
+    })
+
+    it("closes positions in closed markets", async () => {
+        await q2bExactInput(fixture, bob, 100, baseToken2.address)
+        await baseToken2.pause()
+        await forwardBothTimestamps(clearingHouse, 100)
+        await baseToken2["close(uint256)"](parseEther("150"))
+        await forwardBothTimestamps(clearingHouse)
+        await clearingHouse.quitMarket(bob.address, baseToken2.address)
+
+        await indexer.sync()
+        const trades = indexer.getTrades(bob.address, baseToken2.address)
+        expect(trades.map(trade => trade.type)).to.deep.eq(["trade", "closedMarket"])
+        expect(trades[1].exchangedPositionSize).to.be.eq(trades[0].exchangedPositionSize.mul(-1))
+        expect(indexer.getMarket(bob.address, baseToken2.address).takerPositionSize).to.be.eq(0)
+
+        expect(await indexer.verifyAll()).to.be.empty
+    })
+})
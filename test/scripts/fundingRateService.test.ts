@@ -0,0 +1,282 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { mulRatio } from "../../scripts/accounting/math"
+import { FUNDING_INTERVALS, FundingRateService } from "../../scripts/funding/fundingRateService"
+import { BaseToken, ClearingHouseConfig, TestClearingHouse, TestExchange } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+
+// the same markets and expectations as ClearingHouse.funding.test.ts
+describe("FundingRateService", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let clearingHouseConfig: ClearingHouseConfig
+    let exchange: TestExchange
+    let baseToken: BaseToken
+    let mockedPriceFeedDispatcher: MockContract
+    let service: FundingRateService
+    let startTimestamp: number
+
+    function openPosition(isBaseToQuote: boolean, amount: string) {
+        return {
+            baseToken: baseToken.address,
+            isBaseToQuote,
+            isExactInput: isBaseToQuote,
+            oppositeAmountBound: isBaseToQuote ? 0 : ethers.constants.MaxUint256,
+            amount: parseEther(amount),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        }
+    }
+
+    async function getMockTimestamp(): Promise<number> {
+        return (await clearingHouse.getBlockTimestamp()).toNumber()
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        clearingHouseConfig = fixture.clearingHouseConfig
+        exchange = fixture.exchange as TestExchange
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        await initMarket(fixture, "154.4310961", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "154")
+
+        await mintAndDeposit(fixture, alice, 10000)
+        await mintAndDeposit(fixture, bob, 1000)
+        await mintAndDeposit(fixture, carol, 1000)
+
+        await initiateBothTimestamps(clearingHouse)
+        startTimestamp = await getMockTimestamp()
+
+        await clearingHouse.connect(alice).addLiquidity({
+            baseToken: baseToken.address,
+            base: 0,
+            quote: parseEther("100"),
+            lowerTick: 50200,
+            upperTick: 50400,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+
+        // the funding of the contracts follows the mocked timestamps
+        service = new FundingRateService(
+            { exchange, clearingHouseConfig },
+            {
+                getTimestamp: async blockNumber =>
+                    (await clearingHouse.getBlockTimestamp({ blockTag: blockNumber })).toNumber(),
+            },
+        )
+    })
+
+    describe("one taker swaps once; positive funding", () => {
+        beforeEach(async () => {
+            await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+            // bob's position 0 -> -0.099
+            await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        })
+
+        it("forecasts the pending funding payment of the next period", async () => {
+            await forwardBothTimestamps(clearingHouse, 3600)
+            const forecast = await service.forecast(baseToken.address, parseEther("-0.099"), 3600)
+
+            // bob's funding payment = -0.099 * (153.9531248192 - 150.953124) * 3600 / 86400 = -0.01237500338
+            expect(forecast.fundingPayment).to.be.eq(parseEther("-0.012375003379192556"))
+            expect(await exchange.getPendingFundingPayment(bob.address, baseToken.address)).to.be.eq(
+                forecast.fundingPayment,
+            )
+            expect(forecast.indexTwap).to.be.eq(parseEther("150.953124"))
+            expect(forecast.premium).to.be.eq(forecast.marketTwap.sub(forecast.indexTwap))
+            // (153.9531248192 - 150.953124) / 150.953124 / 24 = 0.000828
+            expect(forecast.fundingRate).to.be.closeTo(parseEther("0.000828"), parseEther("0.000001"))
+        })
+
+        it("derives the hourly funding rates from the settled funding", async () => {
+            await forwardBothTimestamps(clearingHouse, 7200)
+            // swaps arbitrary amount to trigger funding settlement & funding-related prices emission
+            const tx = await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+            await expect(tx)
+                .to.emit(clearingHouse, "FundingPaymentSettled")
+                .withArgs(bob.address, baseToken.address, parseEther("-0.024750006758385112"))
+            const endTimestamp = await getMockTimestamp()
+
+            expect(await service.sync()).to.be.eq(2)
+            const samples = service.getSamples(baseToken.address)
+            expect(samples[0].previousTimestamp).to.be.undefined
+            expect(samples[1].previousTimestamp).to.be.eq(startTimestamp)
+            expect(samples[1].timestamp).to.be.eq(endTimestamp)
+            expect(samples[1].marketTwap).to.be.eq(parseEther("153.953124819198195396"))
+            expect(samples[1].indexTwap).to.be.eq(parseEther("150.953124"))
+
+            expect(
+                service.getFundingPayment(baseToken.address, parseEther("-0.099"), startTimestamp, endTimestamp),
+            ).to.be.closeTo(parseEther("-0.024750006758385112"), 10)
+
+            const hourly = service.getHistory(baseToken.address, "1h")
+            expect(hourly.map(point => point.coveredSeconds).reduce((a, b) => a + b)).to.be.eq(7200)
+            for (const point of hourly) {
+                expect(point.endTimestamp - point.startTimestamp).to.be.eq(FUNDING_INTERVALS["1h"])
+                expect(point.startTimestamp % FUNDING_INTERVALS["1h"]).to.be.eq(0)
+                expect(point.fundingRate).to.be.eq(samples[1].dailyFundingRate.mul(point.coveredSeconds).div(86400))
+            }
+            // the funding of the only 8h interval or the two intervals across the 8h boundary
+            const eightHourly = service.getHistory(baseToken.address, "8h")
+            const fundingPerBase = eightHourly.reduce((sum, point) => sum.add(point.fundingPerBase), parseEther("0"))
+            expect(fundingPerBase.mul(-99).div(1000)).to.be.closeTo(parseEther("-0.024750006758385112"), 10)
+
+            // nothing new
+            expect(await service.sync()).to.be.eq(0)
+        })
+    })
+
+    it("samples the funding of two takers; positive then negative funding", async () => {
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        await forwardBothTimestamps(clearingHouse, 300)
+
+        // carol's position 0 -> 0.09
+        await clearingHouse.connect(carol).openPosition(openPosition(false, "0.09"))
+        const carolTimestamp = await getMockTimestamp()
+        await forwardBothTimestamps(clearingHouse, 450)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "156.953124")
+
+        // within the first twap interval of the market, Exchange uses a shorter twap interval than the forecast
+        const forecast = await service.forecast(baseToken.address, parseEther("0.09"), 450)
+        expect(forecast.fundingPayment).to.be.lt(0)
+        expect(forecast.fundingRate).to.be.lt(0)
+
+        const tx = await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+        await expect(tx)
+            .to.emit(clearingHouse, "FundingPaymentSettled")
+            .withArgs(bob.address, baseToken.address, parseEther("0.000388517665061314"))
+        const endTimestamp = await getMockTimestamp()
+
+        await service.sync()
+        const samples = service.getSamples(baseToken.address)
+        expect(samples.map(sample => sample.timestamp)).to.be.deep.eq([startTimestamp, carolTimestamp, endTimestamp])
+        expect(samples[1].premium).to.be.gt(0)
+        expect(samples[2].premium).to.be.lt(0)
+        expect(samples[2].marketTwap).to.be.eq(parseEther("154.199634648900471640"))
+
+        // bob's funding payment = -0.099 * ((153.9531248192 - 150.953124) * 300 + (154.1996346489 - 156.953124) * 450) / 86400
+        expect(
+            service.getFundingPayment(baseToken.address, parseEther("-0.099"), startTimestamp, endTimestamp),
+        ).to.be.closeTo(parseEther("0.000388517665061314"), 10)
+        expect(
+            service.getFundingPayment(baseToken.address, parseEther("0.09"), carolTimestamp, endTimestamp),
+        ).to.be.closeTo(parseEther("-0.001290698133327903"), 10)
+    })
+
+    it("caps the funding rate by the max funding rate", async () => {
+        // 1%, while the premium is about 2% of the index price
+        await clearingHouseConfig.setMaxFundingRate(10000)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+
+        const forecast = await service.forecast(baseToken.address, parseEther("-0.099"), 86400)
+        expect(forecast.premium).to.be.eq(mulRatio(parseEther("150.953124"), 10000))
+        expect(forecast.fundingRate).to.be.eq(parseEther("0.01"))
+
+        await forwardBothTimestamps(clearingHouse, 86400)
+        expect(await exchange.getPendingFundingPayment(bob.address, baseToken.address)).to.be.eq(
+            forecast.fundingPayment,
+        )
+
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+        await service.sync()
+        const [, sample] = service.getSamples(baseToken.address)
+        expect(sample.marketTwap.sub(sample.indexTwap)).to.be.gt(sample.premium)
+        expect(sample.dailyFundingRate).to.be.eq(parseEther("0.01"))
+    })
+
+    it("caps every sample by the max funding rate in effect at its settlement", async () => {
+        await clearingHouseConfig.setMaxFundingRate(10000)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+
+        // the premium of about 2% is no longer capped after the max funding rate is raised back to 10%
+        await clearingHouseConfig.setMaxFundingRate(100000)
+        await forwardBothTimestamps(clearingHouse, 3600)
+        const tx = await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+        const endTimestamp = await getMockTimestamp()
+
+        await service.sync()
+        const [, cappedSample, sample] = service.getSamples(baseToken.address)
+        expect(cappedSample.dailyFundingRate).to.be.eq(parseEther("0.01"))
+        expect(sample.premium).to.be.eq(sample.marketTwap.sub(sample.indexTwap))
+
+        const fundingPayment = (await tx.wait()).events!.find(
+            event => event.address === clearingHouse.address && event.event === "FundingPaymentSettled",
+        )!.args!.fundingPayment
+        // bob's position is -0.0990000001 after the first settlement
+        expect(
+            service.getFundingPayment(
+                baseToken.address,
+                parseEther("-0.0990000001"),
+                sample.previousTimestamp!,
+                endTimestamp,
+            ),
+        ).to.be.closeTo(fundingPayment, 10)
+    })
+
+    it("stops the funding at the paused timestamp", async () => {
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await baseToken.pause()
+        const pausedTimestamp = (await baseToken.getPausedTimestamp()).toNumber()
+
+        // the funding of the paused market is settled until the paused timestamp only
+        await forwardBothTimestamps(clearingHouse, 3600)
+        const tx = await clearingHouse.connect(bob).settleAllFunding(bob.address)
+        const fundingPayment = (await tx.wait()).events!.find(
+            event => event.address === clearingHouse.address && event.event === "FundingPaymentSettled",
+        )!.args!.fundingPayment
+
+        await service.sync()
+        const [, sample] = service.getSamples(baseToken.address)
+        expect(sample.previousTimestamp).to.be.eq(startTimestamp)
+        expect(sample.timestamp).to.be.eq(pausedTimestamp)
+        expect(
+            service.getFundingPayment(baseToken.address, parseEther("-0.099"), startTimestamp, pausedTimestamp + 3600),
+        ).to.be.closeTo(fundingPayment, 10)
+    })
+
+    it("forecasts no funding once the market is paused", async () => {
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        await baseToken.pause()
+
+        const forecast = await service.forecast(baseToken.address, parseEther("-0.099"), 3600)
+        expect(forecast.premium).to.be.eq(0)
+        expect(forecast.fundingPayment).to.be.eq(0)
+    })
+
+    it("samples from the given block", async () => {
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.099"))
+        const fromBlock = (await waffle.provider.getBlockNumber()) + 1
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await clearingHouse.connect(bob).openPosition(openPosition(true, "0.0000000001"))
+
+        const laterService = new FundingRateService({ exchange, clearingHouseConfig }, { fromBlock })
+        expect(await laterService.sync()).to.be.eq(1)
+        // the period of the first sample is unknown
+        expect(laterService.getSamples(baseToken.address)[0].previousTimestamp).to.be.undefined
+        expect(laterService.getHistory(baseToken.address, "1h")).to.be.deep.eq([])
+    })
+})
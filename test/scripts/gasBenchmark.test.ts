@@ -0,0 +1,74 @@
+import { expect } from "chai"
+import fs from "fs"
+import {
+    compareGasBenchmark,
+    formatGasBenchmarkTable,
+    GAS_BENCHMARK_BASELINE,
+    GasBenchmarkSnapshot,
+} from "../../scripts/gasBenchmark"
+
+describe("Gas benchmark", () => {
+    const baseline: GasBenchmarkSnapshot = {
+        "openPosition, 1 market": 200000,
+        addLiquidity: 300000,
+        removeLiquidity: 100000,
+        liquidate: 400000,
+    }
+
+    it("has a committed baseline", async () => {
+        const committed = JSON.parse(fs.readFileSync(GAS_BENCHMARK_BASELINE, "utf8")) as GasBenchmarkSnapshot
+        expect(Object.keys(committed)).to.include.members(["addLiquidity", "liquidate", "liquidateCollateral"])
+    })
+
+    it("fails only on the paths regressed beyond the threshold", async () => {
+        const changes = compareGasBenchmark(
+            baseline,
+            {
+                // +1%, at the threshold
+                "openPosition, 1 market": 202000,
+                // +1.0003%
+                addLiquidity: 303001,
+                removeLiquidity: 90000,
+                liquidate: 400000,
+            },
+            10000,
+        )
+        expect(changes.map(change => [change.path, change.type, change.isBreaking])).to.be.deep.eq([
+            ["openPosition, 1 market", "regressed", false],
+            ["addLiquidity", "regressed", true],
+            ["removeLiquidity", "improved", false],
+            ["liquidate", "unchanged", false],
+        ])
+        expect(changes[0].diffRatio).to.be.eq(10000)
+        expect(changes[1].diff).to.be.eq(3001)
+        expect(changes[2].diffRatio).to.be.eq(-100000)
+    })
+
+    it("reports the added and the missing paths without failing", async () => {
+        const changes = compareGasBenchmark(baseline, { liquidate: 400000, liquidateCollateral: 500000 })
+        expect(changes.map(change => [change.path, change.type, change.isBreaking])).to.be.deep.eq([
+            ["liquidate", "unchanged", false],
+            ["liquidateCollateral", "added", false],
+            ["openPosition, 1 market", "removed", false],
+            ["addLiquidity", "removed", false],
+            ["removeLiquidity", "removed", false],
+        ])
+    })
+
+    it("prints a diff table", async () => {
+        const changes = compareGasBenchmark(baseline, {
+            "openPosition, 1 market": 210000,
+            addLiquidity: 300100,
+            removeLiquidity: 90000,
+            liquidateCollateral: 500000,
+        })
+        expect(formatGasBenchmarkTable(changes).split("\n")).to.be.deep.eq([
+            "  path                   | baseline | current |    diff |       %",
+            "x openPosition, 1 market |   200000 |  210000 |  +10000 |  +5.00%",
+            "! addLiquidity           |   300000 |  300100 |    +100 |  +0.03%",
+            "- removeLiquidity        |   100000 |   90000 |  -10000 | -10.00%",
+            "  liquidateCollateral    |          |  500000 |   added |        ",
+            "  liquidate              |   400000 |         | removed |        ",
+        ])
+    })
+})
@@ -0,0 +1,252 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { mulRatio, parseSettlementToken, RATIO_ONE } from "../../scripts/accounting/math"
+import {
+    findMaxShock,
+    InsuranceFundStressTester,
+    simulate,
+    StressSnapshot,
+} from "../../scripts/insurance/insuranceFundStress"
+import {
+    BaseToken,
+    InsuranceFund,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { initiateBothTimestamps } from "../shared/time"
+import { syncIndexToMarketPrice } from "../shared/utilities"
+
+// the same market and accounts as ClearingHouse.badDebt.test.ts
+describe("InsuranceFundStressTester", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let collateral: TestERC20
+    let vault: Vault
+    let insuranceFund: InsuranceFund
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let decimals: number
+    let tester: InsuranceFundStressTester
+
+    async function getSnapshot(): Promise<StressSnapshot> {
+        return tester.getSnapshot(await tester.discoverTraders())
+    }
+
+    async function getAccountValue(trader: string) {
+        return parseSettlementToken(await vault.getAccountValue(trader), decimals)
+    }
+
+    // the mark price the positions are liquidated at after the shock
+    async function shockMarkPrice(shock: number) {
+        const markPrice = await accountBalance.getMarkPrice(baseToken.address)
+        await accountBalance.mockMarkPrice(baseToken.address, mulRatio(markPrice, RATIO_ONE + shock))
+    }
+
+    // a keeper liquidates bob as long as he is liquidatable
+    async function liquidateBob() {
+        while (
+            (await clearingHouse.getAccountValue(bob.address)).lt(
+                await accountBalance.getMarginRequirementForLiquidation(bob.address),
+            )
+        ) {
+            await clearingHouse.connect(carol)["liquidate(address,address)"](bob.address, baseToken.address)
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture(undefined, 500))
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        insuranceFund = fixture.insuranceFund
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        decimals = await collateral.decimals()
+
+        const { maxTick, minTick } = await initMarket(fixture, "100", 1000)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+
+        await collateral.mint(alice.address, parseUnits("100000", decimals))
+        await deposit(alice, vault, 100000, collateral)
+        await collateral.mint(bob.address, parseUnits("100", decimals))
+        await deposit(bob, vault, 100, collateral)
+        await collateral.mint(carol.address, parseUnits("1000000", decimals))
+        await deposit(carol, vault, 1000000, collateral)
+
+        await addOrder(fixture, alice, "500", "50000", minTick, maxTick, false)
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse)
+
+        // bob longs with 8x leverage and the insurance fund collects its share of the fee
+        await q2bExactInput(fixture, bob, "800", baseToken.address)
+
+        tester = new InsuranceFundStressTester({
+            clearingHouseConfig: fixture.clearingHouseConfig,
+            accountBalance,
+            orderBook: fixture.orderBook,
+            marketRegistry: fixture.marketRegistry,
+            vault,
+            collateralManager: fixture.collateralManager,
+            insuranceFund,
+        })
+    })
+
+    it("replays the current state without a shock", async () => {
+        expect(await tester.discoverTraders()).to.be.deep.eq([alice.address, bob.address, carol.address])
+
+        const snapshot = await getSnapshot()
+        expect(snapshot.insuranceFundCapacity).to.be.eq(
+            parseSettlementToken(await insuranceFund.getInsuranceFundCapacity(), decimals),
+        )
+        expect(snapshot.insuranceFundCapacity).to.be.gt(0)
+        expect(snapshot.markets.length).to.be.eq(1)
+
+        const result = simulate(snapshot, {})
+        expect(result.totalBadDebt).to.be.eq(0)
+        expect(result.totalInsuranceFundFee).to.be.eq(0)
+        expect(result.remainingCapacity).to.be.eq(snapshot.insuranceFundCapacity)
+        expect(result.isCovered).to.be.true
+        for (const account of result.accounts) {
+            expect(account.isLiquidated).to.be.false
+            expect(account.accountValue).to.be.eq(await getAccountValue(account.trader))
+            expect(account.marginRequirementForLiquidation).to.be.eq(
+                await accountBalance.getMarginRequirementForLiquidation(account.trader),
+            )
+        }
+    })
+
+    it("estimates the bad debt of a drop beyond the margin of the taker", async () => {
+        const shock = -200000
+        const result = simulate(await getSnapshot(), { defaultPriceShock: shock })
+        const [account] = result.accounts
+        expect(account.trader).to.be.eq(bob.address)
+        expect(account.isLiquidated).to.be.true
+        expect(account.accountValue).to.be.lt(0)
+        // all of the penalty goes to the liquidator when the account value is negative
+        expect(account.insuranceFundFee).to.be.eq(0)
+        expect(account.badDebt).to.be.eq(account.liquidationPenalty.sub(account.accountValue))
+        expect(result.totalBadDebt).to.be.eq(account.badDebt)
+        // the fee of a single trade cannot cover it
+        expect(result.isCovered).to.be.false
+        expect(result.remainingCapacity).to.be.eq(result.insuranceFundCapacity.sub(result.totalBadDebt))
+        // the maker takes the other side of bob, but is far from the liquidation
+        expect(result.accounts.filter(account => account.isLiquidated).length).to.be.eq(1)
+
+        // the insurance fund is topped up
+        await collateral.mint(insuranceFund.address, parseUnits("1000", decimals))
+        const fundedResult = simulate(await getSnapshot(), { defaultPriceShock: shock })
+        expect(fundedResult.insuranceFundCapacity).to.be.eq(result.insuranceFundCapacity.add(parseEther("1000")))
+        expect(fundedResult.isCovered).to.be.true
+
+        // the same as the contracts once the mark price drops
+        await shockMarkPrice(shock)
+        expect(await getAccountValue(bob.address)).to.be.closeTo(account.accountValue, 1e12)
+        await liquidateBob()
+        expect(await accountBalance.getTotalPositionSize(bob.address, baseToken.address)).to.be.eq(0)
+        // the liquidation settles the bad debt with the insurance fund right away
+        expect(await getAccountValue(bob.address)).to.be.eq(0)
+        expect(parseSettlementToken(await insuranceFund.getInsuranceFundCapacity(), decimals)).to.be.closeTo(
+            fundedResult.remainingCapacity,
+            1e12,
+        )
+    })
+
+    it("estimates the penalty the insurance fund earns from a drop without bad debt", async () => {
+        const shock = -70000
+        const result = simulate(await getSnapshot(), { defaultPriceShock: shock })
+        const [account] = result.accounts.filter(account => account.trader === bob.address)
+        expect(account.isLiquidated).to.be.true
+        expect(account.accountValue).to.be.gt(account.liquidationPenalty)
+        expect(account.badDebt).to.be.eq(0)
+        // a partial liquidation is enough, as bob's margin ratio is above the half of the maintenance margin
+        expect(account.liquidationPenalty).to.be.lt(
+            mulRatio(account.totalAbsPositionValue, await fixture.clearingHouseConfig.getLiquidationPenaltyRatio()),
+        )
+        expect(account.insuranceFundFee).to.be.gt(0)
+        expect(result.remainingCapacity).to.be.eq(result.insuranceFundCapacity.add(account.insuranceFundFee))
+
+        const [insuranceFundOwedRealizedPnlBefore] = await accountBalance.getPnlAndPendingFee(insuranceFund.address)
+        await shockMarkPrice(shock)
+        await liquidateBob()
+        const [insuranceFundOwedRealizedPnlAfter] = await accountBalance.getPnlAndPendingFee(insuranceFund.address)
+        expect(insuranceFundOwedRealizedPnlAfter.sub(insuranceFundOwedRealizedPnlBefore)).to.be.eq(
+            account.insuranceFundFee,
+        )
+        expect(await accountBalance.getTotalPositionSize(bob.address, baseToken.address)).to.be.gt(0)
+        expect(await getAccountValue(bob.address)).to.be.closeTo(
+            account.accountValue.sub(account.liquidationPenalty),
+            1e12,
+        )
+    })
+
+    it("repays the debt with the discounted collateral", async () => {
+        const weth = fixture.WETH
+        fixture.mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+        await weth.mint(bob.address, parseEther("1"))
+        await deposit(bob, vault, 1, weth)
+
+        const shock = -200000
+        const collateralShock = -100000
+        const result = simulate(await getSnapshot(), {
+            defaultPriceShock: shock,
+            collateralPriceShocks: { [weth.address]: collateralShock },
+        })
+        const [account] = result.accounts.filter(account => account.trader === bob.address)
+        // 1 WETH at 90 after the shock, sold at the discount of 10%
+        expect(account.collateralProceeds).to.be.eq(parseEther("81"))
+        expect(account.badDebt).to.be.gt(0)
+
+        // the collateral counts 90 * 70% = 63 in the account value but repays 81 of the debt
+        expect(account.badDebt.add(account.collateralProceeds)).to.be.eq(
+            account.liquidationPenalty.sub(account.accountValue.sub(parseEther("63"))),
+        )
+
+        // the account value counts the collateral by the collateral ratio of 70%
+        await shockMarkPrice(shock)
+        fixture.mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("90", 8))
+        expect(await getAccountValue(bob.address)).to.be.closeTo(account.accountValue, 1e12)
+    })
+
+    it("searches the largest uniform shock the insurance fund covers", async () => {
+        const snapshot = await getSnapshot()
+        const down = findMaxShock(snapshot, "down")
+        expect(down.maxCoveredShock).to.be.lt(0)
+        expect(down.breakingShock).to.be.eq(down.maxCoveredShock - 10000)
+        expect(down.breakingResult!.isCovered).to.be.false
+        expect(simulate(snapshot, { defaultPriceShock: down.maxCoveredShock }).isCovered).to.be.true
+        // deterministic
+        expect(findMaxShock(snapshot, "down").maxCoveredShock).to.be.eq(down.maxCoveredShock)
+
+        // a finer search stays within the step
+        const fine = findMaxShock(snapshot, "down", { step: 1000 })
+        expect(fine.maxCoveredShock).to.be.lte(down.maxCoveredShock)
+        expect(fine.maxCoveredShock).to.be.gt(down.breakingShock!)
+
+        // bob longs, so the price going up takes nobody's margin
+        const up = findMaxShock(snapshot, "up", { limit: 200000 })
+        expect(up.maxCoveredShock).to.be.eq(200000)
+        expect(up.breakingShock).to.be.undefined
+    })
+
+    it("force error, invalid shock", async () => {
+        const snapshot = await getSnapshot()
+        expect(() => simulate(snapshot, { defaultPriceShock: -RATIO_ONE })).to.throw("invalid price shock")
+        expect(() => findMaxShock(snapshot, "down", { step: 0 })).to.throw("invalid step")
+    })
+})
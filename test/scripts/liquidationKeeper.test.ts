@@ -0,0 +1,261 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { LiquidationKeeper } from "../../scripts/keeper/liquidationKeeper"
+import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { b2qExactOutput, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTickRange } from "../helper/number"
+import { deposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("LiquidationKeeper", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let collateral: TestERC20
+    let weth: TestERC20
+    let baseToken: BaseToken
+    let baseToken2: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let collateralDecimals: number
+    let keeper: LiquidationKeeper
+
+    async function addLiquidity(
+        baseTokenAddr: string,
+        base: string,
+        quote: string,
+        lowerTick: number,
+        upperTick: number,
+    ) {
+        return clearingHouse.connect(carol).addLiquidity({
+            baseToken: baseTokenAddr,
+            base: parseEther(base),
+            quote: parseEther(quote),
+            lowerTick,
+            upperTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+    }
+
+    // bob dumps the market and the index & mark prices follow
+    async function crashPrice() {
+        await b2qExactOutput(fixture, bob, 12000)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        collateral = fixture.USDC
+        weth = fixture.WETH
+        baseToken = fixture.baseToken
+        baseToken2 = fixture.baseToken2
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        collateralDecimals = await collateral.decimals()
+
+        await initMarket(fixture, "151.3733069", 10000, 0, getMaxTickRange(), baseToken.address)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        await initMarket(fixture, "151.3733069", 10000, 0, getMaxTickRange(), baseToken2.address)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher2, fixture.pool2)
+
+        // 1 WETH = 100 USD
+        fixture.mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+
+        for (const wallet of [admin, alice, bob, carol]) {
+            await collateral.mint(wallet.address, parseUnits("1000000", collateralDecimals))
+        }
+        await weth.mint(alice.address, parseEther("1"))
+        await weth.connect(alice).approve(vault.address, ethers.constants.MaxUint256)
+        await deposit(bob, vault, 1000000, collateral)
+        await deposit(carol, vault, 1000000, collateral)
+        // the keeper needs collateral to take over liquidated positions
+        await deposit(admin, vault, 10000, collateral)
+
+        await addLiquidity(baseToken.address, "100", "15000", 49000, 51400)
+        await addLiquidity(baseToken2.address, "100", "15000", 49000, 51400)
+
+        // increase insuranceFund capacity
+        await collateral.mint(fixture.insuranceFund.address, parseUnits("1000000", collateralDecimals))
+
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken2.address, fixture.pool2)
+        await initiateBothTimestamps(clearingHouse)
+
+        keeper = new LiquidationKeeper(
+            {
+                clearingHouse,
+                accountBalance,
+                orderBook: fixture.orderBook,
+                vault,
+            },
+            admin,
+        )
+    })
+
+    it("tracks accounts from deposits, liquidity and position changes", async () => {
+        expect(await keeper.syncAccounts()).to.have.members([bob.address, carol.address, admin.address])
+
+        await deposit(alice, vault, 100, collateral)
+        await q2bExactInput(fixture, alice, 90)
+
+        expect(await keeper.syncAccounts()).to.deep.eq([alice.address])
+        expect(await keeper.syncAccounts()).to.be.empty
+        expect(Array.from(keeper.accounts)).to.have.members([alice.address, bob.address, carol.address, admin.address])
+    })
+
+    it("leaves healthy accounts alone", async () => {
+        await deposit(alice, vault, 100, collateral)
+        await q2bExactInput(fixture, alice, 90)
+
+        const health = await keeper.getAccountHealth(alice.address)
+        expect(health.isPositionLiquidatable).to.be.false
+        expect(health.isCollateralLiquidatable).to.be.false
+        expect(health.marginRatio).to.be.gt(await fixture.clearingHouseConfig.getMmRatio())
+
+        expect(await keeper.runOnce()).to.be.empty
+    })
+
+    it("liquidates taker positions once the price drops", async () => {
+        await deposit(alice, vault, 10, collateral)
+        await q2bExactInput(fixture, alice, 90)
+        await crashPrice()
+
+        const health = await keeper.getAccountHealth(alice.address)
+        expect(health.isPositionLiquidatable).to.be.true
+        expect(health.accountValue).to.be.lt(health.marginRequirementForLiquidation)
+
+        const actions = await keeper.runOnce()
+        expect(actions.map(action => [action.type, action.trader, action.token, action.error])).to.deep.eq([
+            ["startLiquidationAuction", alice.address, ethers.constants.AddressZero, undefined],
+            ["liquidatePosition", alice.address, baseToken.address, undefined],
+        ])
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+        expect(await accountBalance.getTakerPositionSize(admin.address, baseToken.address)).to.be.gt(0)
+        // the liquidation closing the position also stops the auction
+        expect(await accountBalance.getLiquidationAuctionStartedAt(alice.address)).to.be.eq(0)
+    })
+
+    it("waits for the liquidation auction to reach the min penalty ratio", async () => {
+        // the penalty ratio rises from 1% to 2.5% in 10 minutes
+        await fixture.clearingHouseConfig.setLiquidationAuction(baseToken.address, 10000, 600)
+        keeper = new LiquidationKeeper(keeper.contracts, admin, { minLiquidationPenaltyRatio: 20000 })
+        await deposit(alice, vault, 10, collateral)
+        await q2bExactInput(fixture, alice, 90)
+        await crashPrice()
+
+        expect((await keeper.runOnce()).map(action => action.type)).to.deep.eq(["startLiquidationAuction"])
+        expect(await accountBalance.getLiquidationAuctionStartedAt(alice.address)).to.be.gt(0)
+        expect(await keeper.runOnce()).to.be.empty
+
+        await forwardBothTimestamps(clearingHouse, 600)
+        expect((await keeper.runOnce()).map(action => [action.type, action.error])).to.deep.eq([
+            ["liquidatePosition", undefined],
+        ])
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+    })
+
+    it("stops the liquidation auction once the account recovers", async () => {
+        // the penalty ratio rises from 1% to 2.5% in 10 minutes
+        await fixture.clearingHouseConfig.setLiquidationAuction(baseToken.address, 10000, 600)
+        keeper = new LiquidationKeeper(keeper.contracts, admin, { minLiquidationPenaltyRatio: 20000 })
+        await deposit(alice, vault, 10, collateral)
+        await q2bExactInput(fixture, alice, 90)
+        await crashPrice()
+        expect((await keeper.runOnce()).map(action => action.type)).to.deep.eq(["startLiquidationAuction"])
+
+        // alice recovers as bob buys back before the penalty ratio rises
+        await q2bExactInput(fixture, bob, 12000)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+        expect((await keeper.getAccountHealth(alice.address)).isPositionLiquidatable).to.be.false
+        expect((await keeper.runOnce()).map(action => [action.type, action.trader, action.error])).to.deep.eq([
+            ["stopLiquidationAuction", alice.address, undefined],
+        ])
+        expect(await accountBalance.getLiquidationAuctionStartedAt(alice.address)).to.be.eq(0)
+        expect(await keeper.runOnce()).to.be.empty
+
+        // the next auction starts over from the start penalty ratio, so alice isn't liquidated right away
+        await forwardBothTimestamps(clearingHouse, 600)
+        await crashPrice()
+        expect((await keeper.runOnce()).map(action => action.type)).to.deep.eq(["startLiquidationAuction"])
+        expect(await accountBalance.getLiquidationPenaltyRatio(alice.address, baseToken.address)).to.be.eq(10000)
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.gt(0)
+    })
+
+    it("force error, invalid min liquidation penalty ratio", async () => {
+        expect(() => new LiquidationKeeper(keeper.contracts, admin, { minLiquidationPenaltyRatio: 1e6 + 1 })).to.throw(
+            "invalid min liquidation penalty ratio",
+        )
+    })
+
+    it("cancels excess orders before liquidating positions", async () => {
+        await deposit(alice, vault, 20, collateral)
+        await q2bExactInput(fixture, alice, 150)
+        // alice also provides base only liquidity in another market
+        await clearingHouse.connect(alice).addLiquidity({
+            baseToken: baseToken2.address,
+            base: parseEther("0.1"),
+            quote: 0,
+            lowerTick: 50400,
+            upperTick: 50600,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+        await crashPrice()
+
+        const health = await keeper.getAccountHealth(alice.address)
+        expect(health.hasOrder).to.be.true
+        expect(health.hasExcessOrders).to.be.true
+
+        const actions = await keeper.runOnce()
+        // the position is worth more than 100 USD and alice's margin ratio is above half of mmRatio,
+        // so the first liquidation only takes over half of it and the rest is small enough to be taken over entirely
+        expect(actions.map(action => [action.type, action.token, action.error])).to.deep.eq([
+            ["cancelExcessOrders", baseToken2.address, undefined],
+            ["startLiquidationAuction", ethers.constants.AddressZero, undefined],
+            ["liquidatePosition", baseToken.address, undefined],
+            ["liquidatePosition", baseToken.address, undefined],
+        ])
+        expect(await accountBalance.hasOrder(alice.address)).to.be.false
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+    })
+
+    it("liquidates non-settlement collateral after positions", async () => {
+        // alice only has 1 WETH, worth 70 USD of collateral value
+        await vault.connect(alice).deposit(weth.address, parseEther("1"))
+        await q2bExactInput(fixture, alice, 500)
+        const positionSize = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+        await crashPrice()
+
+        const actions = await keeper.runOnce()
+        expect(actions.map(action => [action.type, action.token, action.error])).to.deep.eq([
+            ["startLiquidationAuction", ethers.constants.AddressZero, undefined],
+            ["liquidatePosition", baseToken.address, undefined],
+            ["liquidateCollateral", weth.address, undefined],
+        ])
+        // the position is liquidated partially until alice is above the maintenance margin again
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.lt(positionSize)
+        expect(await vault.getBalanceByToken(alice.address, weth.address)).to.be.lt(parseEther("1"))
+        expect(await weth.balanceOf(admin.address)).to.be.gt(0)
+
+        // nothing left to do in the next round
+        expect(await keeper.runOnce()).to.be.empty
+    })
+})
@@ -0,0 +1,207 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { ethers, waffle } from "hardhat"
+import { MakerPnlReporter } from "../../scripts/maker/makerPnlReport"
+import { ClearingHouseMulticallBuilder } from "../../scripts/sdk/multicall"
+import {
+    BaseToken,
+    OrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestExchange,
+    UniswapV3Pool,
+} from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { priceToTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("MakerPnlReporter", () => {
+    const [admin, maker, alice, bob] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let exchange: TestExchange
+    let accountBalance: TestAccountBalance
+    let orderBook: OrderBook
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let lowerTick: number
+    let upperTick: number
+    let reporter: MakerPnlReporter
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        exchange = fixture.exchange as TestExchange
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        orderBook = fixture.orderBook
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        const { minTick, maxTick } = await initMarket(fixture, "151.3733069", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "151")
+        const tickSpacing = await pool.tickSpacing()
+        lowerTick = priceToTick(145, tickSpacing)
+        upperTick = priceToTick(160, tickSpacing)
+
+        // no funding unless the timestamps are forwarded
+        await initiateBothTimestamps(clearingHouse)
+
+        await mintAndDeposit(fixture, maker, 1000000)
+        await addOrder(fixture, maker, 100, 15000, minTick, maxTick)
+        await mintAndDeposit(fixture, alice, 10000)
+        await addOrder(fixture, alice, 2, 300, lowerTick, upperTick)
+        await mintAndDeposit(fixture, bob, 1000000)
+
+        reporter = new MakerPnlReporter({
+            clearingHouse,
+            exchange,
+            orderBook,
+            accountBalance,
+            marketRegistry: fixture.marketRegistry,
+        })
+    })
+
+    it("attributes the pending fees and the impermanent loss to the open order", async () => {
+        await q2bExactInput(fixture, bob, 200)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+
+        const { markets } = await reporter.generate(alice.address)
+        expect(markets.length).to.be.eq(1)
+        const [market] = markets
+        expect(market.baseToken).to.be.eq(baseToken.address)
+        expect(market.orders.length).to.be.eq(1)
+        const [order] = market.orders
+        expect(order.isOpen).to.be.true
+        expect(order.lowerTick).to.be.eq(lowerTick)
+        expect(order.upperTick).to.be.eq(upperTick)
+        expect(order.collectedFee).to.be.eq(0)
+        expect(order.pendingFee).to.be.gt(0)
+        expect(order.realizedPnl).to.be.eq(0)
+
+        // the same amounts and fees as OrderBook
+        const [baseInPool] = await orderBook.getTotalTokenAmountInPoolAndPendingFee(
+            alice.address,
+            baseToken.address,
+            true,
+        )
+        const [quoteInPool, pendingFee] = await orderBook.getTotalTokenAmountInPoolAndPendingFee(
+            alice.address,
+            baseToken.address,
+            false,
+        )
+        expect(order.base).to.be.eq(baseInPool)
+        expect(order.quote).to.be.eq(quoteInPool)
+        expect(order.pendingFee).to.be.eq(pendingFee)
+
+        // the order sold base as the price went up
+        expect(order.base).to.be.lt(order.baseDebt)
+        expect(order.inventoryPnl).to.be.lt(0)
+        // the same as the unrealized pnl of the maker, who has no taker position
+        const [, unrealizedPnl] = await accountBalance.getPnlAndPendingFee(alice.address)
+        expect(order.inventoryPnl).to.be.closeTo(unrealizedPnl, 10)
+
+        expect(market.fundingPnl).to.be.eq(0)
+        expect(market.totalPnl).to.be.eq(order.pendingFee.add(order.inventoryPnl))
+    })
+
+    it("reports the pending funding of the orders per market", async () => {
+        await q2bExactInput(fixture, bob, 200)
+        // the market price is above the index price, so longs pay shorts
+        await mockIndexPrice(mockedPriceFeedDispatcher, "145")
+        await forwardBothTimestamps(clearingHouse, 3600)
+
+        const [market] = (await reporter.generate(alice.address)).markets
+        // alice is short by the base sold by her order
+        expect(market.fundingPnl).to.be.gt(0)
+        expect(market.fundingPnl).to.be.eq(
+            (await exchange.getPendingFundingPayment(alice.address, baseToken.address)).mul(-1),
+        )
+        expect(market.totalPnl).to.be.eq(
+            market.feePnl.add(market.fundingPnl).add(market.inventoryPnl).add(market.realizedPnl),
+        )
+    })
+
+    it("attributes the collected fees and the realized pnl to every removed order", async () => {
+        const tickSpacing = await pool.tickSpacing()
+        const lowerTick2 = priceToTick(140, tickSpacing)
+        const upperTick2 = priceToTick(165, tickSpacing)
+        await addOrder(fixture, alice, 2, 300, lowerTick2, upperTick2)
+        // a long taker position, which is reduced by the short impermanent positions on removal
+        await q2bExactInput(fixture, alice, 100)
+        await q2bExactInput(fixture, bob, 200)
+
+        const receipt = await new ClearingHouseMulticallBuilder(clearingHouse)
+            .removeLiquidity({
+                baseToken: baseToken.address,
+                lowerTick,
+                upperTick,
+                liquidity: (
+                    await orderBook.getOpenOrder(alice.address, baseToken.address, lowerTick, upperTick)
+                ).liquidity,
+                minBase: 0,
+                minQuote: 0,
+                deadline: ethers.constants.MaxUint256,
+            })
+            .removeLiquidity({
+                baseToken: baseToken.address,
+                lowerTick: lowerTick2,
+                upperTick: upperTick2,
+                liquidity: (
+                    await orderBook.getOpenOrder(alice.address, baseToken.address, lowerTick2, upperTick2)
+                ).liquidity,
+                minBase: 0,
+                minQuote: 0,
+                deadline: ethers.constants.MaxUint256,
+            })
+            .execute(alice)
+        const events = receipt.logs
+            .filter(log => log.address === clearingHouse.address)
+            .map(log => clearingHouse.interface.parseLog(log))
+        const positionChangedEvents = events.filter(event => event.name === "PositionChanged")
+        const liquidityChangedEvents = events.filter(event => event.name === "LiquidityChanged")
+        expect(positionChangedEvents.length).to.be.eq(2)
+        expect(positionChangedEvents[0].args.realizedPnl).to.not.be.eq(positionChangedEvents[1].args.realizedPnl)
+
+        const [market] = (await reporter.generate(alice.address)).markets
+        expect(market.orders.length).to.be.eq(2)
+        for (let i = 0; i < 2; i++) {
+            const order = market.orders[i]
+            expect(order.lowerTick).to.be.eq(liquidityChangedEvents[i].args.lowerTick)
+            expect(order.isOpen).to.be.false
+            expect(order.base).to.be.eq(0)
+            expect(order.inventoryPnl).to.be.eq(0)
+            expect(order.pendingFee).to.be.eq(0)
+            expect(order.collectedFee).to.be.eq(liquidityChangedEvents[i].args.quoteFee)
+            expect(order.collectedFee).to.be.gt(0)
+            expect(order.realizedPnl).to.be.eq(positionChangedEvents[i].args.realizedPnl)
+        }
+
+        // the realized pnl of the taker position opened by alice is not the pnl of her orders
+        const [owedRealizedPnl] = await accountBalance.getPnlAndPendingFee(alice.address)
+        expect(owedRealizedPnl).to.be.eq(market.feePnl.add(market.realizedPnl))
+    })
+
+    it("reports the open orders added before the history", async () => {
+        await q2bExactInput(fixture, bob, 200)
+        const laterReporter = new MakerPnlReporter(reporter.contracts, {
+            fromBlock: (await waffle.provider.getBlockNumber()) + 1,
+        })
+
+        const [market] = (await laterReporter.generate(alice.address)).markets
+        expect(market.orders.length).to.be.eq(1)
+        expect(market.orders[0].collectedFee).to.be.eq(0)
+        expect(market.orders[0].pendingFee).to.be.gt(0)
+    })
+
+    it("reports nothing for an account without orders", async () => {
+        await q2bExactInput(fixture, bob, 200)
+        expect((await reporter.generate(bob.address)).markets).to.be.empty
+    })
+})
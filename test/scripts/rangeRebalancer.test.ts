@@ -0,0 +1,204 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { RangeRebalancer, RangeRebalancerOptions } from "../../scripts/maker/rangeRebalancer"
+import { BaseToken, OrderBook, TestAccountBalance, UniswapV3Pool } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { priceToTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("RangeRebalancer", () => {
+    const [admin, maker, alice, bob] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let accountBalance: TestAccountBalance
+    let orderBook: OrderBook
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockContract
+    let tickSpacing: number
+    let lowerTick: number
+    let upperTick: number
+
+    function createRebalancer(options: RangeRebalancerOptions = {}): RangeRebalancer {
+        return new RangeRebalancer(
+            {
+                clearingHouse: fixture.clearingHouse,
+                accountBalance,
+                orderBook,
+                marketRegistry: fixture.marketRegistry,
+            },
+            alice,
+            options,
+        )
+    }
+
+    async function getOrders() {
+        const orderIds = await orderBook.getOpenOrderIds(alice.address, baseToken.address)
+        return Promise.all(orderIds.map(orderId => orderBook.getOpenOrderById(orderId)))
+    }
+
+    // bob trades in steps of 500 quote and the index & mark prices follow the market, so that every step is within
+    // the price band
+    async function takerBuys(quote: number) {
+        for (let i = 0; i < quote; i += 500) {
+            await q2bExactInput(fixture, bob, Math.min(500, quote - i))
+            await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+            await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, pool)
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        orderBook = fixture.orderBook
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        const { minTick, maxTick } = await initMarket(fixture, "151.3733069", undefined, 0)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+        tickSpacing = await pool.tickSpacing()
+
+        // the full range liquidity takes the other side of the hedges
+        await mintAndDeposit(fixture, maker, 1000000)
+        await addOrder(fixture, maker, 100, 15000, minTick, maxTick)
+
+        // alice provides liquidity in a narrow range around the market price
+        lowerTick = priceToTick(145, tickSpacing)
+        upperTick = priceToTick(160, tickSpacing)
+        await mintAndDeposit(fixture, alice, 10000)
+        await addOrder(fixture, alice, 2, 300, lowerTick, upperTick)
+
+        await mintAndDeposit(fixture, bob, 1000000)
+    })
+
+    it("does nothing while the orders are in range and there is no position", async () => {
+        const rebalancer = createRebalancer()
+        const plan = await rebalancer.getPlan(baseToken.address)
+        expect(plan.outOfRangeOrders).to.be.empty
+        expect(plan.hedgeBase).to.be.eq(0)
+
+        expect(await rebalancer.runOnce()).to.be.empty
+        const [order] = await getOrders()
+        expect(order.lowerTick).to.be.eq(lowerTick)
+        expect(order.upperTick).to.be.eq(upperTick)
+    })
+
+    it("re-centers the out-of-range order and hedges the position of the maker", async () => {
+        await takerBuys(1500)
+        const { tick } = await pool.slot0()
+        expect(tick).to.be.gte(upperTick)
+        // alice sold all base of the order
+        expect(await accountBalance.getTotalPositionSize(alice.address, baseToken.address)).to.be.lt(0)
+
+        const [action] = await createRebalancer().runOnce()
+        expect(action.error).to.be.undefined
+        expect(action.txHash).to.not.be.undefined
+        expect(action.outOfRangeOrders.length).to.be.eq(1)
+        expect(action.hedgeBase).to.be.gt(0)
+
+        const [order] = await getOrders()
+        expect(order.lowerTick).to.be.eq(action.newLowerTick)
+        expect(order.upperTick).to.be.eq(action.newUpperTick)
+        expect(order.lowerTick % tickSpacing).to.be.eq(0)
+        // 2000 ticks rounded up to the tick spacing
+        expect(order.upperTick - order.lowerTick).to.be.eq(Math.ceil(2000 / tickSpacing) * tickSpacing)
+        expect(order.lowerTick).to.be.lte(tick)
+        expect(order.upperTick).to.be.gt(tick)
+
+        // the hedge buys back exactly the base sold by the order
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(0)
+        expect(await accountBalance.getTotalPositionSize(alice.address, baseToken.address)).to.be.closeTo(
+            parseEther("0"),
+            10,
+        )
+    })
+
+    it("re-centers the out-of-range order without hedging", async () => {
+        await takerBuys(1500)
+        const positionSizeBefore = await accountBalance.getTotalPositionSize(alice.address, baseToken.address)
+
+        const [action] = await createRebalancer({ hedgeRatio: 0 }).runOnce()
+        expect(action.hedgeBase).to.be.eq(0)
+        expect(action.addedQuote).to.be.gt(0)
+        expect(action.addedBase).to.be.gt(0)
+
+        // the impermanent position of the removed order is realized into the taker position
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.closeTo(
+            positionSizeBefore,
+            10,
+        )
+        const orders = await getOrders()
+        expect(orders.length).to.be.eq(1)
+        expect(orders[0].lowerTick).to.be.eq(action.newLowerTick)
+    })
+
+    it("rebalances the order within the buffer of an edge", async () => {
+        const { tick } = await pool.slot0()
+        expect(createRebalancer().isOutOfRange((await createRebalancer().getOrders(baseToken.address))[0], tick)).to.be
+            .false
+
+        const rebalancer = createRebalancer({ rebalanceBufferTicks: tick - lowerTick + 1, hedgeRatio: 0 })
+        const [action] = await rebalancer.runOnce()
+        expect(action.outOfRangeOrders.length).to.be.eq(1)
+        const [order] = await getOrders()
+        expect(order.lowerTick).to.be.eq(action.newLowerTick)
+        expect(order.lowerTick).to.not.be.eq(lowerTick)
+    })
+
+    it("hedges the position of the in-range order above the threshold", async () => {
+        await takerBuys(50)
+        const positionSize = await accountBalance.getTotalPositionSize(alice.address, baseToken.address)
+        expect(positionSize).to.be.lt(0)
+
+        expect(await createRebalancer({ minHedgeBase: positionSize.abs() }).runOnce()).to.be.empty
+
+        const [action] = await createRebalancer({ minHedgeBase: positionSize.abs().div(2) }).runOnce()
+        expect(action.outOfRangeOrders).to.be.empty
+        expect(action.hedgeBase).to.be.eq(positionSize.mul(-1))
+        expect(await accountBalance.getTakerPositionSize(alice.address, baseToken.address)).to.be.eq(
+            positionSize.mul(-1),
+        )
+        // the order stays
+        const [order] = await getOrders()
+        expect(order.lowerTick).to.be.eq(lowerTick)
+        expect(order.upperTick).to.be.eq(upperTick)
+    })
+
+    it("bounds every step of the batch by the slippage tolerance", async () => {
+        await takerBuys(1500)
+        const rebalancer = createRebalancer({ slippageRatio: 10000 })
+        const plan = await rebalancer.getPlan(baseToken.address)
+        const { builder } = await rebalancer.getBatch(plan)
+
+        const [removeCall, hedgeCall, addCall] = builder
+            .getCalls()
+            .map(call => fixture.clearingHouse.interface.decodeFunctionData(call.functionName, call.data)[0])
+        expect(removeCall.minQuote).to.be.gt(0)
+        // buying exact base back, the bound is the max quote paid
+        expect(hedgeCall.isExactInput).to.be.false
+        expect(hedgeCall.oppositeAmountBound).to.be.gt(0)
+        expect(hedgeCall.oppositeAmountBound).to.be.lt(ethers.constants.MaxUint256)
+        expect(addCall.minBase).to.be.gt(0)
+        expect(addCall.minQuote).to.be.gt(0)
+
+        // a taker front-runs the batch
+        await takerBuys(500)
+        const error = await builder.execute(alice).catch(error => error)
+        expect(error.message).to.match(/CH_PSCF|CH_TMRL/)
+    })
+
+    it("force error, invalid range width, buffer, hedge ratio or slippage", async () => {
+        expect(() => createRebalancer({ rangeWidthTicks: 0 })).to.throw("invalid range width")
+        expect(() => createRebalancer({ rangeWidthTicks: 100, rebalanceBufferTicks: 50 })).to.throw("leaves no room")
+        expect(() => createRebalancer({ hedgeRatio: 0.5 })).to.throw("invalid hedge ratio")
+        expect(() => createRebalancer({ hedgeRatio: -1 })).to.throw("invalid hedge ratio")
+        expect(() => createRebalancer({ hedgeRatio: 1e6 + 1 })).to.throw("invalid hedge ratio")
+        expect(() => createRebalancer({ slippageRatio: 1e6 })).to.throw("invalid slippage ratio")
+    })
+})
@@ -0,0 +1,349 @@
+import { expect } from "chai"
+import { BigNumber, ContractReceipt, ethers as ethersLib, Wallet } from "ethers"
+import { formatBytes32String, parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { mulRatio, ZERO } from "../../scripts/accounting/math"
+import {
+    EpochRewards,
+    getMerkleDistribution,
+    getMerkleLeaf,
+    MerkleDistribution,
+    ReferralLedger,
+    ReferralProgramConfig,
+    validateReferralProgramConfig,
+    verifyMerkleDistribution,
+    verifyMerkleProof,
+} from "../../scripts/referral/referralLedger"
+import { ClearingHouseMulticallBuilder } from "../../scripts/sdk/multicall"
+import { BaseToken, TestClearingHouse, TestMerkleProof } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { forwardRealTimestamp, getRealTimestamp, initiateBothTimestamps } from "../shared/time"
+import { syncIndexToMarketPrice } from "../shared/utilities"
+
+describe("ReferralLedger", () => {
+    const [admin, maker, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const epochDuration = 7 * 86400
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let baseToken: BaseToken
+    let config: ReferralProgramConfig
+    let ledger: ReferralLedger
+
+    // 5% rebate & 10% commission, 10% rebate & 20% commission from 5000 referred volume
+    const tiers = [
+        { minVolume: ZERO, traderRebateRatio: 50000, referrerCommissionRatio: 100000 },
+        { minVolume: parseEther("5000"), traderRebateRatio: 100000, referrerCommissionRatio: 200000 },
+    ]
+
+    function openLongParams(quote: string, referralCode: string = ethersLib.constants.HashZero) {
+        return {
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther(quote),
+            sqrtPriceLimitX96: 0,
+            deadline: ethersLib.constants.MaxUint256,
+            referralCode,
+        }
+    }
+
+    async function openLong(trader: Wallet, quote: string, code?: string): Promise<ContractReceipt> {
+        const referralCode = code === undefined ? undefined : formatBytes32String(code)
+        return (await clearingHouse.connect(trader).openPosition(openLongParams(quote, referralCode))).wait()
+    }
+
+    // the fees of the PositionChanged events of a tx
+    function getFees(receipt: ContractReceipt): BigNumber[] {
+        return receipt.logs
+            .filter(log => log.address === clearingHouse.address)
+            .map(log => clearingHouse.interface.parseLog(log))
+            .filter(log => log.name === "PositionChanged")
+            .map(log => log.args.fee)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        baseToken = fixture.baseToken
+
+        const { minTick, maxTick } = await initMarket(fixture, "100", 1000)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+        await mintAndDeposit(fixture, maker, 10000000)
+        await addOrder(fixture, maker, 10000, 1000000, minTick, maxTick)
+        for (const trader of [alice, bob, carol, davis]) {
+            await mintAndDeposit(fixture, trader, 100000)
+        }
+        await initiateBothTimestamps(clearingHouse)
+
+        config = { startTimestamp: await getRealTimestamp(), epochDuration, tiers }
+        ledger = new ReferralLedger(clearingHouse, config)
+        ledger.registerCode("alice", alice.address)
+        ledger.registerCode("bob", bob.address)
+    })
+
+    describe("codes", () => {
+        it("register codes to their owners", async () => {
+            ledger.registerCode("alice2", alice.address)
+            expect(ledger.getCodeOwner("alice")).to.be.eq(alice.address)
+            expect(ledger.getCodeOwner(formatBytes32String("alice2"))).to.be.eq(alice.address)
+            expect(ledger.getCodes(alice.address)).to.be.deep.eq([
+                formatBytes32String("alice"),
+                formatBytes32String("alice2"),
+            ])
+            expect(ledger.getCodeOwner("carol")).to.be.undefined
+        })
+
+        it("force error, register a code of another owner or the empty code", async () => {
+            expect(() => ledger.registerCode("alice", bob.address)).to.throw("registered to")
+            expect(() => ledger.registerCode(ethersLib.constants.HashZero, bob.address)).to.throw("empty")
+            // registering the same owner again is a no-op
+            ledger.registerCode("alice", alice.address)
+        })
+
+        it("force error, invalid configs", async () => {
+            expect(() => validateReferralProgramConfig({ ...config, epochDuration: 0 })).to.throw("positive")
+            expect(() => validateReferralProgramConfig({ ...config, tiers: [tiers[1], tiers[0]] })).to.throw(
+                "more volume",
+            )
+            expect(() =>
+                validateReferralProgramConfig({
+                    ...config,
+                    tiers: [{ minVolume: ZERO, traderRebateRatio: 600000, referrerCommissionRatio: 500000 }],
+                }),
+            ).to.throw("more than the fee")
+        })
+    })
+
+    describe("attribution", () => {
+        it("attribute the fees of referred trades to the owners of the codes", async () => {
+            const carolReceipt = await openLong(carol, "1000", "alice")
+            const davisReceipt = await openLong(davis, "2000", "bob")
+            // no code, an unregistered code and a self-referral
+            await openLong(davis, "1000")
+            await openLong(carol, "1000", "carol")
+            await openLong(alice, "1000", "alice")
+
+            expect(await ledger.sync()).to.be.eq(2)
+            const [carolTrade, davisTrade] = ledger.getTrades()
+            expect(carolTrade.referralCode).to.be.eq(formatBytes32String("alice"))
+            expect(carolTrade.referrer).to.be.eq(alice.address)
+            expect(carolTrade.trader).to.be.eq(carol.address)
+            expect(carolTrade.baseToken).to.be.eq(baseToken.address)
+            expect(carolTrade.epoch).to.be.eq(0)
+            expect(carolTrade.txHash).to.be.eq(carolReceipt.transactionHash)
+            // the volume is the quote swapped into the pool, after the fee
+            expect(carolTrade.fee).to.be.eq(getFees(carolReceipt)[0])
+            expect(carolTrade.fee).to.be.eq(parseEther("1"))
+            expect(carolTrade.volume).to.be.eq(parseEther("999"))
+            expect(davisTrade.referrer).to.be.eq(bob.address)
+            expect(davisTrade.fee).to.be.eq(getFees(davisReceipt)[0])
+
+            // synced trades are not attributed twice
+            expect(await ledger.sync()).to.be.eq(0)
+            expect(ledger.getTrades()).to.have.length(2)
+        })
+
+        it("attribute closing a position with a code", async () => {
+            await openLong(carol, "1000")
+            const receipt = await (
+                await clearingHouse.connect(carol).closePosition({
+                    baseToken: baseToken.address,
+                    sqrtPriceLimitX96: 0,
+                    oppositeAmountBound: 0,
+                    deadline: ethersLib.constants.MaxUint256,
+                    referralCode: formatBytes32String("bob"),
+                })
+            ).wait()
+
+            await ledger.sync()
+            const [trade] = ledger.getTrades()
+            expect(trade.referrer).to.be.eq(bob.address)
+            expect(trade.txHash).to.be.eq(receipt.transactionHash)
+            expect(trade.fee).to.be.eq(getFees(receipt)[0])
+        })
+
+        it("attribute each trade of a multicall to its own code", async () => {
+            const receipt = await new ClearingHouseMulticallBuilder(clearingHouse)
+                .openPosition(openLongParams("1000", formatBytes32String("alice")))
+                .openPosition(openLongParams("3000"))
+                .openPosition(openLongParams("2000", formatBytes32String("bob")))
+                .execute(carol)
+
+            expect(await ledger.sync()).to.be.eq(2)
+            const fees = getFees(receipt)
+            const [aliceTrade, bobTrade] = ledger.getTrades()
+            expect(aliceTrade.referrer).to.be.eq(alice.address)
+            expect(aliceTrade.fee).to.be.eq(fees[0])
+            expect(bobTrade.referrer).to.be.eq(bob.address)
+            expect(bobTrade.fee).to.be.eq(fees[2])
+        })
+
+        it("attribute trades to the epochs of their blocks", async () => {
+            await openLong(carol, "1000", "alice")
+            await forwardRealTimestamp(epochDuration)
+            await openLong(carol, "2000", "alice")
+
+            await ledger.sync()
+            expect(ledger.getTrades(0)).to.have.length(1)
+            expect(ledger.getTrades(1)).to.have.length(1)
+            expect(ledger.getEpochRewards(1).startTimestamp).to.be.eq(config.startTimestamp + epochDuration)
+        })
+    })
+
+    describe("rewards", () => {
+        it("rebates and commissions by the tier of the referrer", async () => {
+            // alice refers 6000 volume and reaches the second tier, bob stays in the first one
+            await openLong(carol, "3000", "alice")
+            await openLong(davis, "3000", "alice")
+            await openLong(davis, "1000", "bob")
+            await ledger.sync()
+
+            const rewards = ledger.getEpochRewards(0)
+            const aliceReward = rewards.referrers.find(reward => reward.referrer === alice.address)!
+            const bobReward = rewards.referrers.find(reward => reward.referrer === bob.address)!
+            expect(aliceReward.tierIndex).to.be.eq(1)
+            expect(aliceReward.fee).to.be.eq(parseEther("6"))
+            expect(aliceReward.commission).to.be.eq(mulRatio(parseEther("6"), 200000))
+            expect(bobReward.tierIndex).to.be.eq(0)
+            expect(bobReward.commission).to.be.eq(mulRatio(parseEther("1"), 100000))
+
+            // davis is referred by both
+            const carolRebate = rewards.traders.find(rebate => rebate.trader === carol.address)!
+            const davisRebate = rewards.traders.find(rebate => rebate.trader === davis.address)!
+            expect(carolRebate.rebate).to.be.eq(mulRatio(parseEther("3"), 100000))
+            expect(davisRebate.fee).to.be.eq(parseEther("4"))
+            expect(davisRebate.rebate).to.be.eq(mulRatio(parseEther("3"), 100000).add(mulRatio(parseEther("1"), 50000)))
+        })
+
+        it("no rewards below the first tier", async () => {
+            ledger = new ReferralLedger(clearingHouse, { ...config, tiers: [tiers[1]] })
+            ledger.registerCode("alice", alice.address)
+            await openLong(carol, "1000", "alice")
+            await ledger.sync()
+
+            const rewards = ledger.getEpochRewards(0)
+            expect(rewards.referrers[0].tierIndex).to.be.eq(-1)
+            expect(rewards.referrers[0].commission).to.be.eq(0)
+            expect(rewards.traders[0].rebate).to.be.eq(0)
+            expect(getMerkleDistribution(rewards, 6).claims).to.be.empty
+        })
+    })
+
+    describe("Merkle distribution", () => {
+        let testMerkleProof: TestMerkleProof
+
+        async function verifyClaimsOnChain(distribution: MerkleDistribution): Promise<void> {
+            for (const claim of Object.values(distribution.claims)) {
+                expect(
+                    await testMerkleProof.testVerifyClaim(
+                        claim.proof,
+                        distribution.merkleRoot,
+                        claim.index,
+                        claim.account,
+                        claim.amount,
+                    ),
+                ).to.be.true
+            }
+        }
+
+        // a trader rebate of 1 + i for each of the wallets
+        function getRewards(accountCount: number): EpochRewards {
+            return {
+                epoch: 0,
+                startTimestamp: 0,
+                endTimestamp: epochDuration,
+                referrers: [],
+                traders: waffle.provider
+                    .getWallets()
+                    .slice(0, accountCount)
+                    .map((wallet, i) => ({
+                        trader: wallet.address,
+                        volume: ZERO,
+                        fee: ZERO,
+                        rebate: parseEther(String(1 + i)),
+                    })),
+            }
+        }
+
+        beforeEach(async () => {
+            const testMerkleProofFactory = await ethers.getContractFactory("TestMerkleProof")
+            testMerkleProof = (await testMerkleProofFactory.deploy()) as TestMerkleProof
+        })
+
+        it("claim the rewards of an epoch", async () => {
+            await openLong(carol, "3000", "alice")
+            await openLong(davis, "1000", "bob")
+            // alice is both a referrer and a referred trader
+            await openLong(alice, "2000", "bob")
+            await ledger.sync()
+
+            const distribution = getMerkleDistribution(ledger.getEpochRewards(0), 6)
+            expect(Object.keys(distribution.claims)).to.have.length(4)
+            expect(distribution.claims[alice.address].amount).to.be.eq(parseUnits("0.3", 6).add(parseUnits("0.1", 6)))
+            expect(distribution.claims[carol.address].amount).to.be.eq(parseUnits("0.15", 6))
+            expect(distribution.total).to.be.eq(
+                Object.values(distribution.claims).reduce((total, claim) => total.add(claim.amount), ZERO),
+            )
+            expect(verifyMerkleDistribution(distribution)).to.be.true
+            await verifyClaimsOnChain(distribution)
+        })
+
+        it("verify the proofs of trees of any size", async () => {
+            for (const accountCount of [1, 2, 3, 5, 8]) {
+                const distribution = getMerkleDistribution(getRewards(accountCount), 18)
+                expect(Object.keys(distribution.claims)).to.have.length(accountCount)
+                expect(verifyMerkleDistribution(distribution)).to.be.true
+                await verifyClaimsOnChain(distribution)
+            }
+        })
+
+        it("the same rewards produce the same root", async () => {
+            const rewards = getRewards(5)
+            const reversed = { ...rewards, traders: [...rewards.traders].reverse() }
+            expect(getMerkleDistribution(reversed, 18).merkleRoot).to.be.eq(
+                getMerkleDistribution(rewards, 18).merkleRoot,
+            )
+        })
+
+        it("reject tampered claims", async () => {
+            const distribution = getMerkleDistribution(getRewards(5), 18)
+            const claim = distribution.claims[alice.address]
+            const inflatedLeaf = getMerkleLeaf(claim.index, claim.account, claim.amount.add(1))
+            expect(verifyMerkleProof(inflatedLeaf, claim.proof, distribution.merkleRoot)).to.be.false
+            expect(
+                await testMerkleProof.testVerifyClaim(
+                    claim.proof,
+                    distribution.merkleRoot,
+                    claim.index,
+                    claim.account,
+                    claim.amount.add(1),
+                ),
+            ).to.be.false
+            expect(
+                await testMerkleProof.testVerifyClaim(
+                    claim.proof,
+                    distribution.merkleRoot,
+                    claim.index,
+                    bob.address,
+                    claim.amount,
+                ),
+            ).to.be.false
+
+            const tampered = { ...distribution, claims: { ...distribution.claims } }
+            tampered.claims[alice.address] = { ...claim, amount: claim.amount.add(1) }
+            expect(verifyMerkleDistribution(tampered)).to.be.false
+        })
+
+        it("an empty epoch has no claims", async () => {
+            const distribution = getMerkleDistribution(ledger.getEpochRewards(0), 6)
+            expect(distribution.merkleRoot).to.be.eq(ethersLib.constants.HashZero)
+            expect(distribution.claims).to.be.empty
+            expect(distribution.total).to.be.eq(0)
+        })
+    })
+})
@@ -0,0 +1,105 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { CSV_HEADER, formatRiskReport, RiskReporter, toCsv } from "../../scripts/risk-report"
+import { seed, SeedResult } from "../../scripts/seed"
+
+describe("Risk report", () => {
+    const [admin, maker, alice, bob, carol, dave] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let seeded: SeedResult
+    let reporter: RiskReporter
+
+    beforeEach(async () => {
+        seeded = await loadFixture(() => seed())
+        reporter = await RiskReporter.fromManifest(seeded.deployment.manifest, admin)
+    })
+
+    it("discovers depositors and sorts them by the distance to liquidation", async () => {
+        const traders = await reporter.discoverTraders()
+        expect(traders).to.be.deep.eq([maker.address, alice.address, bob.address, carol.address, dave.address])
+
+        const report = await reporter.generate(traders)
+        // bob is the most leveraged, then carol, while dave has no position
+        expect(report.accounts.map(account => account.trader)).to.be.deep.eq([
+            bob.address,
+            carol.address,
+            alice.address,
+            maker.address,
+            dave.address,
+        ])
+        expect(report.parameters.debtThreshold).to.be.eq(parseEther("10000"))
+
+        const { clearingHouse, accountBalance } = seeded.deployment
+        for (const account of report.accounts) {
+            const accountValue = await clearingHouse.getAccountValue(account.trader)
+            const marginRequirement = await accountBalance.getMarginRequirementForLiquidation(account.trader)
+            expect(account.accountValue).to.be.eq(accountValue)
+            expect(account.distanceToLiquidation).to.be.eq(accountValue.sub(marginRequirement))
+            expect(account.isPositionLiquidatable).to.be.false
+        }
+
+        const bobRisk = report.accounts[0]
+        // margin ratio ~= 1000 / 8000 and the maintenance margin ratio is 6.25%
+        expect(bobRisk.marginRatio).to.be.gt(110000).and.lt(125000)
+        expect(bobRisk.distanceToLiquidationRatio).to.be.eq(bobRisk.marginRatio!.sub(62500))
+
+        const daveRisk = report.accounts[4]
+        expect(daveRisk.marginRatio).to.be.undefined
+        expect(daveRisk.distanceToLiquidationRatio).to.be.undefined
+        expect(daveRisk.freeCollateral).to.be.eq(parseEther("500"))
+        expect(daveRisk.markets).to.be.empty
+    })
+
+    it("reports the per-market exposure and the collateral mix", async () => {
+        const [vETH, vBTC] = seeded.deployment.baseTokens
+        const carolRisk = await reporter.getAccountRisk(carol.address)
+
+        expect(carolRisk.markets.map(market => market.baseToken)).to.be.deep.eq([vBTC.address, vETH.address])
+        const [btcExposure, ethExposure] = carolRisk.markets
+        expect(btcExposure.symbol).to.be.eq("vBTC")
+        expect(btcExposure.takerPositionSize).to.be.lt(0)
+        expect(btcExposure.positionValue).to.be.lt(0)
+        // carol receives 10000 of quote for her short
+        expect(btcExposure.openNotional).to.be.eq(parseEther("10000"))
+        expect(ethExposure.takerPositionSize).to.be.gt(0)
+        expect(ethExposure.openNotional).to.be.eq(parseEther("-3000"))
+        expect(carolRisk.totalAbsPositionValue).to.be.eq(btcExposure.positionValue.abs().add(ethExposure.positionValue))
+
+        const [usdc, weth] = carolRisk.collaterals
+        expect(usdc).to.deep.include({ symbol: "USDC", collateralRatio: 1e6, discountRatio: 0 })
+        expect(usdc.balance).to.be.eq(parseUnits("1000", 6))
+        expect(usdc.value).to.be.eq(parseEther("1000"))
+        expect(weth).to.deep.include({ symbol: "WETH", collateralRatio: 800000, discountRatio: 100000 })
+        expect(weth.balance).to.be.eq(parseEther("1"))
+        expect(weth.value).to.be.eq(parseEther("3000"))
+
+        // the account value drops by 1500 * collateral ratio when the price of WETH halves
+        await seeded.wethPriceFeed.setPrice(parseEther("1500"))
+        const carolRiskAfter = await reporter.getAccountRisk(carol.address)
+        expect(carolRiskAfter.collaterals[1].value).to.be.eq(parseEther("1500"))
+        // the pnl moves slightly along with the mark price in the meantime
+        const accountValueDrop = carolRisk.accountValue.sub(carolRiskAfter.accountValue)
+        expect(accountValueDrop.sub(parseEther("1200")).abs()).to.be.lt(parseEther("1"))
+        expect(carolRiskAfter.distanceToLiquidation).to.be.lt(carolRisk.distanceToLiquidation)
+    })
+
+    it("outputs csv and json", async () => {
+        const report = await reporter.generate(seeded.traders)
+
+        const [header, ...rows] = toCsv(report).trim().split("\n")
+        expect(header.split(",")).to.be.deep.eq(CSV_HEADER)
+        expect(rows).to.have.length(4)
+        const carolRow = rows[1].split(",")
+        expect(carolRow[0]).to.be.eq(carol.address)
+        expect(carolRow[CSV_HEADER.indexOf("collaterals")]).to.be.eq("USDC:1000.0:1000.0 WETH:1.0:3000.0")
+        expect(carolRow[CSV_HEADER.indexOf("markets")]).to.match(/^vBTC:-0\.\d+:-\d+\.\d+ vETH:\d\.\d+:\d+\.\d+$/)
+        expect(rows[3].split(",")[CSV_HEADER.indexOf("marginRatio")]).to.be.eq("")
+
+        const json = JSON.parse(JSON.stringify(formatRiskReport(report)))
+        expect(json.parameters.liquidationRatio).to.be.eq("0.5")
+        expect(json.accounts[3].trader).to.be.eq(dave.address)
+        expect(json.accounts[3].accountValue).to.be.eq("500.0")
+        expect(json.accounts[1].collaterals[1]).to.deep.include({ symbol: "WETH", balance: "1.0", value: "3000.0" })
+    })
+})
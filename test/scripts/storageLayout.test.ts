@@ -0,0 +1,128 @@
+import { expect } from "chai"
+import fs from "fs"
+import {
+    compareStorageLayout,
+    compareStorageLayoutSnapshot,
+    getDeployedContractsStorageLayout,
+    getStorageLayout,
+    STORAGE_LAYOUT_BASELINE,
+    StorageLayoutSnapshot,
+    StorageVariable,
+} from "../../scripts/storageLayout"
+
+describe("Storage layout", () => {
+    let clearingHouseLayout: StorageVariable[]
+    let accountBalanceLayout: StorageVariable[]
+
+    function clone(layout: StorageVariable[]): StorageVariable[] {
+        return JSON.parse(JSON.stringify(layout))
+    }
+
+    function indexOf(layout: StorageVariable[], label: string): number {
+        const index = layout.findIndex(variable => variable.label === label)
+        expect(index).to.be.gte(0)
+        return index
+    }
+
+    before(async () => {
+        clearingHouseLayout = await getStorageLayout("contracts/ClearingHouse.sol", "ClearingHouse")
+        accountBalanceLayout = await getStorageLayout("contracts/AccountBalance.sol", "AccountBalance")
+    })
+
+    it("matches the committed baseline", async () => {
+        const baseline = JSON.parse(fs.readFileSync(STORAGE_LAYOUT_BASELINE, "utf8")) as StorageLayoutSnapshot
+        const current = await getDeployedContractsStorageLayout()
+        expect(Object.keys(baseline)).to.be.deep.eq(Object.keys(current))
+        // run `npm run storage-layout -- --update` to accept compatible changes
+        expect(compareStorageLayoutSnapshot(baseline, current).map(change => change.message)).to.be.empty
+    })
+
+    it("accepts variables appended by inheritance", async () => {
+        const testClearingHouseLayout = await getStorageLayout(
+            "contracts/test/TestClearingHouse.sol",
+            "TestClearingHouse",
+        )
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, testClearingHouseLayout)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "added", isBreaking: false })
+        expect(changes[0].message).to.include("_testBlockTimestamp")
+    })
+
+    it("fails on removed variables", async () => {
+        const current = clone(clearingHouseLayout)
+        const [removed] = current.splice(current.length - 1, 1)
+
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, current)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "removed", isBreaking: true })
+        expect(changes[0].message).to.be.eq(
+            `${removed.type.label} ${removed.label} (slot ${removed.slot}, offset ${removed.offset}) is removed`,
+        )
+    })
+
+    it("fails on reordered variables", async () => {
+        const current = clone(clearingHouseLayout)
+        const i = indexOf(current, "_vault")
+        const j = indexOf(current, "_exchange")
+        ;[current[i].label, current[j].label] = [current[j].label, current[i].label]
+
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, current)
+        expect(changes.map(change => change.type)).to.be.deep.eq(["moved", "moved"])
+        expect(changes[0].message).to.include(`_vault (slot ${clearingHouseLayout[i].slot}, offset 0) is moved to slot`)
+    })
+
+    it("fails on retyped variables", async () => {
+        const current = clone(clearingHouseLayout)
+        current[indexOf(current, "_uniswapV3Factory")].type = { label: "uint256", numberOfBytes: "32" }
+
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, current)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "retyped", isBreaking: true })
+        expect(changes[0].message).to.include("address _uniswapV3Factory").and.include("is retyped to uint256")
+    })
+
+    it("fails on a variable replaced by another one of a different type", async () => {
+        const current = clone(clearingHouseLayout)
+        current[indexOf(current, "_uniswapV3Factory")] = {
+            ...current[indexOf(current, "_uniswapV3Factory")],
+            label: "_maxSlippage",
+            type: { label: "uint24", numberOfBytes: "3" },
+        }
+
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, current)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "retyped", isBreaking: true })
+        expect(changes[0].message).to.include("is replaced by uint24 _maxSlippage")
+    })
+
+    it("reports renamed variables of the same type as compatible", async () => {
+        const current = clone(clearingHouseLayout)
+        current[indexOf(current, "_uniswapV3Factory")].label = "_factory"
+
+        const changes = compareStorageLayout("ClearingHouse", clearingHouseLayout, current)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "renamed", isBreaking: false })
+    })
+
+    it("accepts members appended to structs in mappings", async () => {
+        // mapping(address => mapping(address => struct AccountMarket.Info))
+        const current = clone(accountBalanceLayout)
+        const info = current[indexOf(current, "_accountMarketMap")].type.value!.value!
+        const members = info.members!
+        members.push({
+            label: "lastFundingGrowth",
+            slot: "3",
+            offset: 0,
+            type: { label: "int256", numberOfBytes: "32" },
+        })
+        info.numberOfBytes = "128"
+        expect(compareStorageLayout("AccountBalance", accountBalanceLayout, current)).to.be.empty
+
+        // reordering the members of the struct corrupts every existing entry
+        ;[members[0].label, members[1].label] = [members[1].label, members[0].label]
+        const changes = compareStorageLayout("AccountBalance", accountBalanceLayout, current)
+        expect(changes).to.have.length(1)
+        expect(changes[0]).to.deep.include({ type: "retyped", isBreaking: true })
+        expect(changes[0].message).to.include("with a different layout")
+    })
+})
@@ -0,0 +1,211 @@
+import { expect } from "chai"
+import { BigNumber, ContractReceipt, ContractTransaction } from "ethers"
+import { parseEther } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { ZERO } from "../../scripts/accounting/math"
+import {
+    FeeTierConfig,
+    formatFeeDiscountBatch,
+    getFeeTierIndex,
+    parseFeeDiscountBatch,
+    TraderVolume,
+    validateFeeTiers,
+    VolumeFeeTierEngine,
+} from "../../scripts/fee/volumeFeeTier"
+import { BaseToken, MarketRegistry, TestAccountBalance, TestClearingHouse } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, closePosition, q2bExactInput, removeAllOrders } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { forwardRealTimestamp, initiateBothTimestamps, setRealTimestamp } from "../shared/time"
+import { mockMarkPrice, syncIndexToMarketPrice } from "../shared/utilities"
+
+describe("VolumeFeeTierEngine", () => {
+    const [admin, maker, alice, bob, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let marketRegistry: MarketRegistry
+    let accountBalance: TestAccountBalance
+    let baseToken: BaseToken
+    let config: FeeTierConfig
+    let engine: VolumeFeeTierEngine
+    // key: trader, the absolute exchangedPositionNotional of the trades
+    let expectedTakerVolumes: Record<string, BigNumber>
+
+    // 10% off from 10000 taker or 5000 maker volume, 25% off from 50000 taker volume
+    const tiers = [
+        { minTakerVolume: parseEther("10000"), minMakerVolume: parseEther("5000"), discountRatio: 100000 },
+        { minTakerVolume: parseEther("50000"), discountRatio: 250000 },
+    ]
+
+    async function trade(trader: string, tx: Promise<ContractTransaction | undefined>): Promise<ContractReceipt> {
+        const receipt = await (await tx)!.wait()
+        const notional = receipt.logs
+            .filter(log => log.address === clearingHouse.address)
+            .map(log => clearingHouse.interface.parseLog(log))
+            .filter(log => log.name === "PositionChanged")
+            .reduce((total, log) => total.add(log.args.exchangedPositionNotional.abs()), ZERO)
+        expectedTakerVolumes[trader] = (expectedTakerVolumes[trader] || ZERO).add(notional)
+        return receipt
+    }
+
+    function findVolume(volumes: TraderVolume[], trader: string): TraderVolume | undefined {
+        return volumes.find(volume => volume.trader === trader)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        marketRegistry = fixture.marketRegistry
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        baseToken = fixture.baseToken
+        expectedTakerVolumes = {}
+
+        const { minTick, maxTick } = await initMarket(fixture, "100", 1000)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+        await mintAndDeposit(fixture, maker, 10000000)
+        await addOrder(fixture, maker, 10000, 1000000, minTick, maxTick)
+        await mintAndDeposit(fixture, admin, 100000)
+        await mintAndDeposit(fixture, alice, 100000)
+        await mintAndDeposit(fixture, bob, 100000)
+        await mintAndDeposit(fixture, davis, 1000)
+        await initiateBothTimestamps(clearingHouse)
+
+        config = { tiers }
+        engine = new VolumeFeeTierEngine({ clearingHouse, marketRegistry }, config)
+    })
+
+    it("force error, invalid tiers", async () => {
+        expect(() => validateFeeTiers([{ ...tiers[0], discountRatio: 1000001 }])).to.throw("overflows")
+        expect(() => validateFeeTiers([tiers[1], tiers[0]])).to.throw("discount more")
+        expect(() => validateFeeTiers([{ discountRatio: 100000 }])).to.throw("any volume")
+    })
+
+    it("the highest tier either volume reaches", async () => {
+        const volume = (taker: string, maker: string) => ({
+            takerVolume: parseEther(taker),
+            makerVolume: parseEther(maker),
+        })
+        expect(getFeeTierIndex(tiers, volume("9999", "4999"))).to.be.eq(-1)
+        expect(getFeeTierIndex(tiers, volume("10000", "0"))).to.be.eq(0)
+        expect(getFeeTierIndex(tiers, volume("0", "5000"))).to.be.eq(0)
+        // the second tier can't be reached by maker volume
+        expect(getFeeTierIndex(tiers, volume("0", "1000000"))).to.be.eq(0)
+        expect(getFeeTierIndex(tiers, volume("50000", "0"))).to.be.eq(1)
+    })
+
+    describe("volumes", () => {
+        it("sum the taker volume of trades and the maker volume of removing liquidity", async () => {
+            await trade(alice.address, q2bExactInput(fixture, alice, 6000))
+            await trade(alice.address, q2bExactInput(fixture, alice, 6000))
+            await trade(bob.address, q2bExactInput(fixture, bob, 30000))
+            await trade(bob.address, closePosition(fixture, bob))
+            // the maker takes the other side of alice's position
+            await removeAllOrders(fixture, maker)
+
+            const volumes = await engine.getVolumes(await waffle.provider.getBlockNumber())
+            expect(volumes.map(volume => volume.trader)).to.be.deep.eq([alice.address, bob.address, maker.address])
+            expect(findVolume(volumes, alice.address)!.takerVolume).to.be.eq(expectedTakerVolumes[alice.address])
+            expect(findVolume(volumes, alice.address)!.makerVolume).to.be.eq(0)
+            expect(findVolume(volumes, bob.address)!.takerVolume).to.be.eq(expectedTakerVolumes[bob.address])
+            const makerVolume = findVolume(volumes, maker.address)!
+            expect(makerVolume.takerVolume).to.be.eq(0)
+            expect(makerVolume.makerVolume).to.be.closeTo(expectedTakerVolumes[alice.address], parseEther("100"))
+        })
+
+        it("exclude liquidations", async () => {
+            await trade(davis.address, q2bExactInput(fixture, davis, 9000))
+            await mockMarkPrice(accountBalance, baseToken.address, "95")
+            await clearingHouse.connect(admin)["liquidate(address,address)"](davis.address, baseToken.address)
+
+            const volumes = await engine.getVolumes(await waffle.provider.getBlockNumber())
+            expect(volumes).to.have.length(1)
+            expect(findVolume(volumes, davis.address)!.takerVolume).to.be.eq(expectedTakerVolumes[davis.address])
+        })
+
+        it("only count the trades of the last 30 days", async () => {
+            const receipt = await trade(alice.address, q2bExactInput(fixture, alice, 6000))
+            const timestamp = (await waffle.provider.getBlock(receipt.blockNumber)).timestamp
+            // bob trades in the block exactly 30 days after alice
+            await setRealTimestamp(timestamp + 30 * 86400 - 1)
+            await q2bExactInput(fixture, bob, 1000)
+            expect(await engine.getVolumes(await waffle.provider.getBlockNumber())).to.have.length(2)
+
+            await forwardRealTimestamp(1)
+            const volumes = await engine.getVolumes(await waffle.provider.getBlockNumber())
+            expect(volumes.map(volume => volume.trader)).to.be.deep.eq([bob.address])
+        })
+    })
+
+    describe("batch", () => {
+        beforeEach(async () => {
+            await trade(alice.address, q2bExactInput(fixture, alice, 6000))
+            await trade(alice.address, q2bExactInput(fixture, alice, 6000))
+            await trade(bob.address, q2bExactInput(fixture, bob, 30000))
+            await trade(bob.address, closePosition(fixture, bob))
+            await trade(davis.address, q2bExactInput(fixture, davis, 1000))
+        })
+
+        it("discount the traders by their tiers", async () => {
+            const batch = await engine.generate()
+            expect(batch.blockNumber).to.be.eq(await waffle.provider.getBlockNumber())
+            expect(batch.toTimestamp - batch.fromTimestamp).to.be.eq(30 * 86400)
+
+            // davis reaches no tier
+            expect(batch.updates).to.have.length(2)
+            const [aliceUpdate, bobUpdate] = batch.updates
+            expect(aliceUpdate.trader).to.be.eq(alice.address)
+            expect(aliceUpdate.tierIndex).to.be.eq(0)
+            expect(aliceUpdate.discountRatio).to.be.eq(100000)
+            expect(aliceUpdate.previousDiscountRatio).to.be.eq(0)
+            expect(aliceUpdate.takerVolume).to.be.eq(expectedTakerVolumes[alice.address])
+            expect(bobUpdate.trader).to.be.eq(bob.address)
+            expect(bobUpdate.tierIndex).to.be.eq(1)
+            expect(bobUpdate.discountRatio).to.be.eq(250000)
+        })
+
+        it("only update the discounts that change", async () => {
+            await marketRegistry.setFeeDiscountRatio(alice.address, 100000)
+            await marketRegistry.setFeeDiscountRatio(bob.address, 100000)
+            // carol never traded and falls out of the tiers
+            const [, , , , , carol] = waffle.provider.getWallets()
+            await marketRegistry.setFeeDiscountRatio(carol.address, 250000)
+
+            const batch = await engine.generate()
+            expect(batch.updates.map(update => update.trader)).to.be.deep.eq([bob.address, carol.address])
+            expect(batch.updates[0].previousDiscountRatio).to.be.eq(100000)
+            expect(batch.updates[0].discountRatio).to.be.eq(250000)
+            expect(batch.updates[1].tierIndex).to.be.eq(-1)
+            expect(batch.updates[1].previousDiscountRatio).to.be.eq(250000)
+            expect(batch.updates[1].discountRatio).to.be.eq(0)
+        })
+
+        it("downgrade the traders after their volume leaves the window", async () => {
+            await marketRegistry.setFeeDiscountRatio(alice.address, 100000)
+            await forwardRealTimestamp(31 * 86400)
+
+            const batch = await engine.generate()
+            expect(batch.updates).to.have.length(1)
+            expect(batch.updates[0].trader).to.be.eq(alice.address)
+            expect(batch.updates[0].discountRatio).to.be.eq(0)
+        })
+
+        it("skip the excluded traders", async () => {
+            engine = new VolumeFeeTierEngine(
+                { clearingHouse, marketRegistry },
+                { ...config, excludedTraders: [bob.address] },
+            )
+            const batch = await engine.generate()
+            expect(batch.updates.map(update => update.trader)).to.be.deep.eq([alice.address])
+        })
+
+        it("format and parse a batch as json", async () => {
+            const batch = await engine.generate()
+            const parsed = parseFeeDiscountBatch(JSON.parse(JSON.stringify(formatFeeDiscountBatch(batch))))
+            expect(parsed.blockNumber).to.be.eq(batch.blockNumber)
+            expect(parsed.updates[1].takerVolume).to.be.eq(batch.updates[1].takerVolume)
+            expect(parsed.updates[1].discountRatio).to.be.eq(batch.updates[1].discountRatio)
+        })
+    })
+})